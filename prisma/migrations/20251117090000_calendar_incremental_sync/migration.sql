@@ -0,0 +1,4 @@
+-- Track when the last full calendar window listing happened so incremental
+-- syncs can periodically fall back to a complete resync
+ALTER TABLE "ConnectedAccount"
+  ADD COLUMN "calendarFullSyncedAt" TIMESTAMP(3);
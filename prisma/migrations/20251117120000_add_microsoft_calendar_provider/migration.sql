@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "ConnectedProvider" ADD VALUE 'MICROSOFT_CALENDAR';
@@ -0,0 +1,3 @@
+-- AlterEnum
+ALTER TYPE "ConnectedProvider" ADD VALUE 'ICS_CALENDAR';
+ALTER TYPE "ConnectedProvider" ADD VALUE 'CALDAV_CALENDAR';
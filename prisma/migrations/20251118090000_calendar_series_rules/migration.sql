@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "CalendarEvent" ADD COLUMN     "seriesId" TEXT;
+
+-- CreateTable
+CREATE TABLE "CalendarSeriesRule" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "seriesId" TEXT NOT NULL,
+    "notetakerEnabled" BOOLEAN NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CalendarSeriesRule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CalendarEvent_userId_seriesId_idx" ON "CalendarEvent"("userId", "seriesId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CalendarSeriesRule_userId_seriesId_key" ON "CalendarSeriesRule"("userId", "seriesId");
+
+-- AddForeignKey
+ALTER TABLE "CalendarSeriesRule" ADD CONSTRAINT "CalendarSeriesRule_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
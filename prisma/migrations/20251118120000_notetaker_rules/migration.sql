@@ -0,0 +1,27 @@
+-- CreateEnum
+CREATE TYPE "NotetakerRuleType" AS ENUM ('EXTERNAL_ATTENDEE', 'TITLE_MATCH', 'CALENDAR', 'PLATFORM', 'ORGANIZER');
+
+-- CreateEnum
+CREATE TYPE "NotetakerRuleAction" AS ENUM ('REQUIRE', 'SKIP', 'JOIN');
+
+-- CreateTable
+CREATE TABLE "NotetakerRule" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "type" "NotetakerRuleType" NOT NULL,
+    "action" "NotetakerRuleAction" NOT NULL,
+    "value" TEXT,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "priority" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "NotetakerRule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "NotetakerRule_userId_priority_idx" ON "NotetakerRule"("userId", "priority");
+
+-- AddForeignKey
+ALTER TABLE "NotetakerRule" ADD CONSTRAINT "NotetakerRule_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "RecallBot" ADD COLUMN     "lastStatusAt" TIMESTAMP(3);
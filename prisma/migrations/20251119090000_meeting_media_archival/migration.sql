@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "MeetingMedia" ADD COLUMN     "archiveAttempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "archiveError" TEXT,
+ADD COLUMN     "contentType" TEXT,
+ADD COLUMN     "nextArchiveAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "MeetingMedia_status_nextArchiveAt_idx" ON "MeetingMedia"("status", "nextArchiveAt");
+
+-- Queue media that only has a Recall link for archival.
+UPDATE "MeetingMedia" SET "status" = 'PENDING' WHERE "status" = 'STORED' AND "storagePath" IS NULL AND "downloadUrl" IS NOT NULL;
@@ -0,0 +1,36 @@
+-- CreateEnum
+CREATE TYPE "AiJobType" AS ENUM ('MEETING_CONTENT');
+
+-- CreateEnum
+CREATE TYPE "AiJobStatus" AS ENUM ('PENDING', 'RUNNING', 'RETRYING', 'SUCCEEDED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "AiJob" (
+    "id" TEXT NOT NULL,
+    "calendarEventId" TEXT NOT NULL,
+    "type" "AiJobType" NOT NULL,
+    "status" "AiJobStatus" NOT NULL DEFAULT 'PENDING',
+    "payload" JSONB,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "maxAttempts" INTEGER NOT NULL DEFAULT 5,
+    "runAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lockedAt" TIMESTAMP(3),
+    "lockedBy" TEXT,
+    "lastError" TEXT,
+    "startedAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+    "deadLetteredAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "AiJob_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AiJob_status_runAt_idx" ON "AiJob"("status", "runAt");
+
+-- CreateIndex
+CREATE INDEX "AiJob_calendarEventId_createdAt_idx" ON "AiJob"("calendarEventId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "AiJob" ADD CONSTRAINT "AiJob_calendarEventId_fkey" FOREIGN KEY ("calendarEventId") REFERENCES "CalendarEvent"("id") ON DELETE CASCADE ON UPDATE CASCADE;
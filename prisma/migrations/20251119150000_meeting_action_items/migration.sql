@@ -0,0 +1,40 @@
+-- CreateEnum
+CREATE TYPE "MeetingActionItemStatus" AS ENUM ('OPEN', 'DONE');
+
+-- AlterTable
+ALTER TABLE "MeetingInsight" DROP COLUMN "actionItems";
+
+-- CreateTable
+CREATE TABLE "MeetingActionItem" (
+    "id" TEXT NOT NULL,
+    "calendarEventId" TEXT NOT NULL,
+    "meetingInsightId" TEXT,
+    "userId" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "assigneeEmail" TEXT,
+    "assigneeName" TEXT,
+    "dueDate" TIMESTAMP(3),
+    "sourceSeconds" DOUBLE PRECISION,
+    "status" "MeetingActionItemStatus" NOT NULL DEFAULT 'OPEN',
+    "completedAt" TIMESTAMP(3),
+    "editedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "MeetingActionItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "MeetingActionItem_userId_status_dueDate_idx" ON "MeetingActionItem"("userId", "status", "dueDate");
+
+-- CreateIndex
+CREATE INDEX "MeetingActionItem_calendarEventId_createdAt_idx" ON "MeetingActionItem"("calendarEventId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "MeetingActionItem" ADD CONSTRAINT "MeetingActionItem_calendarEventId_fkey" FOREIGN KEY ("calendarEventId") REFERENCES "CalendarEvent"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MeetingActionItem" ADD CONSTRAINT "MeetingActionItem_meetingInsightId_fkey" FOREIGN KEY ("meetingInsightId") REFERENCES "MeetingInsight"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MeetingActionItem" ADD CONSTRAINT "MeetingActionItem_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
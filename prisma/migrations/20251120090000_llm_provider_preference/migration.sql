@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "LlmProviderKind" AS ENUM ('OPENAI', 'AZURE_OPENAI', 'ANTHROPIC', 'LOCAL', 'FAKE');
+
+-- AlterTable
+ALTER TABLE "MeetingPreference" ADD COLUMN     "llmProvider" "LlmProviderKind";
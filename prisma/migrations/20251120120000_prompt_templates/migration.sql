@@ -0,0 +1,28 @@
+-- AlterTable
+ALTER TABLE "MeetingInsight" ADD COLUMN     "llmProvider" "LlmProviderKind",
+ADD COLUMN     "model" TEXT,
+ADD COLUMN     "promptTemplateId" TEXT,
+ADD COLUMN     "promptVersion" INTEGER;
+
+-- CreateTable
+CREATE TABLE "PromptTemplate" (
+    "id" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "systemPrompt" TEXT NOT NULL,
+    "notes" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PromptTemplate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PromptTemplate_key_isActive_idx" ON "PromptTemplate"("key", "isActive");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PromptTemplate_key_version_key" ON "PromptTemplate"("key", "version");
+
+-- AddForeignKey
+ALTER TABLE "MeetingInsight" ADD CONSTRAINT "MeetingInsight_promptTemplateId_fkey" FOREIGN KEY ("promptTemplateId") REFERENCES "PromptTemplate"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,23 @@
+-- CreateEnum
+CREATE TYPE "MeetingInsightSource" AS ENUM ('AI', 'USER');
+
+-- AlterTable
+ALTER TABLE "MeetingInsight" ADD COLUMN     "createdByUserId" TEXT,
+ADD COLUMN     "pinnedAt" TIMESTAMP(3),
+ADD COLUMN     "revision" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN     "source" "MeetingInsightSource" NOT NULL DEFAULT 'AI';
+
+-- Number any existing insights per meeting, oldest first.
+UPDATE "MeetingInsight" AS mi
+SET "revision" = numbered."revision"
+FROM (
+  SELECT "id", ROW_NUMBER() OVER (PARTITION BY "calendarEventId" ORDER BY "createdAt") AS "revision"
+  FROM "MeetingInsight"
+) AS numbered
+WHERE mi."id" = numbered."id";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MeetingInsight_calendarEventId_revision_key" ON "MeetingInsight"("calendarEventId", "revision");
+
+-- AddForeignKey
+ALTER TABLE "MeetingInsight" ADD CONSTRAINT "MeetingInsight_createdByUserId_fkey" FOREIGN KEY ("createdByUserId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
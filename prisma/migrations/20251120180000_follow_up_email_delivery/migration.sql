@@ -0,0 +1,13 @@
+-- CreateEnum
+CREATE TYPE "FollowUpEmailMethod" AS ENUM ('GMAIL_DRAFT', 'SMTP');
+
+-- CreateEnum
+CREATE TYPE "FollowUpEmailStatus" AS ENUM ('DRAFTED', 'SENT', 'FAILED');
+
+-- AlterTable
+ALTER TABLE "MeetingInsight" ADD COLUMN     "emailDeliveredAt" TIMESTAMP(3),
+ADD COLUMN     "emailDeliveryError" TEXT,
+ADD COLUMN     "emailDeliveryMethod" "FollowUpEmailMethod",
+ADD COLUMN     "emailDeliveryStatus" "FollowUpEmailStatus",
+ADD COLUMN     "emailExternalId" TEXT,
+ADD COLUMN     "emailRecipients" TEXT[] DEFAULT ARRAY[]::TEXT[];
@@ -0,0 +1,41 @@
+-- CreateTable
+CREATE TABLE "MeetingTranscriptSegment" (
+    "id" TEXT NOT NULL,
+    "calendarEventId" TEXT NOT NULL,
+    "index" INTEGER NOT NULL,
+    "speaker" TEXT NOT NULL,
+    "text" TEXT NOT NULL,
+    "startSeconds" DOUBLE PRECISION,
+    "endSeconds" DOUBLE PRECISION,
+    "searchVector" tsvector GENERATED ALWAYS AS (to_tsvector('english', "speaker" || ' ' || "text")) STORED,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "MeetingTranscriptSegment_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "MeetingInsight" ADD COLUMN "searchVector" tsvector GENERATED ALWAYS AS (to_tsvector('english', coalesce("summary", ''))) STORED;
+
+-- AlterTable
+ALTER TABLE "MeetingActionItem" ADD COLUMN "searchVector" tsvector GENERATED ALWAYS AS (to_tsvector('english', "description")) STORED;
+
+-- AlterTable
+ALTER TABLE "MeetingChatMessage" ADD COLUMN "searchVector" tsvector GENERATED ALWAYS AS (to_tsvector('english', "body")) STORED;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MeetingTranscriptSegment_calendarEventId_index_key" ON "MeetingTranscriptSegment"("calendarEventId", "index");
+
+-- CreateIndex
+CREATE INDEX "MeetingTranscriptSegment_searchVector_idx" ON "MeetingTranscriptSegment" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "MeetingInsight_searchVector_idx" ON "MeetingInsight" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "MeetingActionItem_searchVector_idx" ON "MeetingActionItem" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "MeetingChatMessage_searchVector_idx" ON "MeetingChatMessage" USING GIN ("searchVector");
+
+-- AddForeignKey
+ALTER TABLE "MeetingTranscriptSegment" ADD CONSTRAINT "MeetingTranscriptSegment_calendarEventId_fkey" FOREIGN KEY ("calendarEventId") REFERENCES "CalendarEvent"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,27 @@
+-- CreateExtension
+CREATE EXTENSION IF NOT EXISTS vector;
+
+-- CreateTable
+CREATE TABLE "MeetingTranscriptChunk" (
+    "id" TEXT NOT NULL,
+    "calendarEventId" TEXT NOT NULL,
+    "index" INTEGER NOT NULL,
+    "speakers" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "startSeconds" DOUBLE PRECISION,
+    "endSeconds" DOUBLE PRECISION,
+    "text" TEXT NOT NULL,
+    "embeddingModel" TEXT NOT NULL,
+    "embedding" vector(1536),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "MeetingTranscriptChunk_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MeetingTranscriptChunk_calendarEventId_index_key" ON "MeetingTranscriptChunk"("calendarEventId", "index");
+
+-- CreateIndex
+CREATE INDEX "MeetingTranscriptChunk_embedding_idx" ON "MeetingTranscriptChunk" USING hnsw ("embedding" vector_cosine_ops);
+
+-- AddForeignKey
+ALTER TABLE "MeetingTranscriptChunk" ADD CONSTRAINT "MeetingTranscriptChunk_calendarEventId_fkey" FOREIGN KEY ("calendarEventId") REFERENCES "CalendarEvent"("id") ON DELETE CASCADE ON UPDATE CASCADE;
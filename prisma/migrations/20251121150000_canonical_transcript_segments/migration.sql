@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "MeetingTranscriptSegment" ADD COLUMN "speakerId" TEXT,
+ADD COLUMN "speakerEmail" TEXT,
+ADD COLUMN "words" JSONB NOT NULL DEFAULT '[]';
+
+-- CreateIndex
+CREATE INDEX "MeetingTranscriptSegment_calendarEventId_startSeconds_idx" ON "MeetingTranscriptSegment"("calendarEventId", "startSeconds");
@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "MeetingAnalytics" (
+    "id" TEXT NOT NULL,
+    "calendarEventId" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "durationSeconds" DOUBLE PRECISION,
+    "totalTalkSeconds" DOUBLE PRECISION NOT NULL,
+    "speakers" JSONB NOT NULL DEFAULT '[]',
+    "attendance" JSONB NOT NULL,
+    "computedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "MeetingAnalytics_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MeetingAnalytics_calendarEventId_key" ON "MeetingAnalytics"("calendarEventId");
+
+-- AddForeignKey
+ALTER TABLE "MeetingAnalytics" ADD CONSTRAINT "MeetingAnalytics_calendarEventId_fkey" FOREIGN KEY ("calendarEventId") REFERENCES "CalendarEvent"("id") ON DELETE CASCADE ON UPDATE CASCADE;
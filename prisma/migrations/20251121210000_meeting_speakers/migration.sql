@@ -0,0 +1,47 @@
+-- CreateEnum
+CREATE TYPE "MeetingSpeakerSource" AS ENUM ('PLATFORM', 'ALIAS', 'NAME', 'FUZZY', 'MANUAL');
+
+-- CreateTable
+CREATE TABLE "MeetingSpeaker" (
+    "id" TEXT NOT NULL,
+    "calendarEventId" TEXT NOT NULL,
+    "speakerKey" TEXT NOT NULL,
+    "participantId" TEXT,
+    "name" TEXT NOT NULL,
+    "email" TEXT,
+    "displayName" TEXT,
+    "userId" TEXT,
+    "source" "MeetingSpeakerSource",
+    "confidence" DOUBLE PRECISION,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "MeetingSpeaker_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "SpeakerAlias" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "alias" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SpeakerAlias_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MeetingSpeaker_calendarEventId_speakerKey_key" ON "MeetingSpeaker"("calendarEventId", "speakerKey");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SpeakerAlias_userId_alias_key" ON "SpeakerAlias"("userId", "alias");
+
+-- AddForeignKey
+ALTER TABLE "MeetingSpeaker" ADD CONSTRAINT "MeetingSpeaker_calendarEventId_fkey" FOREIGN KEY ("calendarEventId") REFERENCES "CalendarEvent"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MeetingSpeaker" ADD CONSTRAINT "MeetingSpeaker_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SpeakerAlias" ADD CONSTRAINT "SpeakerAlias_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
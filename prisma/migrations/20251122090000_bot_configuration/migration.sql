@@ -0,0 +1,13 @@
+-- CreateEnum
+CREATE TYPE "BotRecordingMode" AS ENUM ('VIDEO', 'AUDIO_ONLY');
+
+-- AlterTable
+ALTER TABLE "MeetingPreference" ADD COLUMN     "announceRecording" BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN     "botAnnouncement" TEXT,
+ADD COLUMN     "botAvatarUrl" TEXT,
+ADD COLUMN     "botName" TEXT,
+ADD COLUMN     "recordingMode" "BotRecordingMode" NOT NULL DEFAULT 'VIDEO',
+ADD COLUMN     "transcriptLanguage" TEXT;
+
+-- AlterTable
+ALTER TABLE "CalendarEvent" ADD COLUMN     "botConfig" JSONB;
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "RecallBot" ADD COLUMN     "mediaCaptureStartedAt" TIMESTAMP(3),
+ADD COLUMN     "mediaCapturedAt" TIMESTAMP(3);
+
+-- Captures used to be recorded in the bot metadata.
+UPDATE "RecallBot"
+SET "mediaCapturedAt" = ("metadata"->>'mediaCapturedAt')::timestamptz,
+    "metadata" = "metadata" - 'mediaCapturedAt'
+WHERE "metadata" ? 'mediaCapturedAt';
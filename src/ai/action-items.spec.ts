@@ -0,0 +1,73 @@
+import { normalizeActionItems } from "./action-items"
+
+const participants = [
+  { email: "dana@example.com", name: "Dana Scully" },
+  { email: "sam.lee@client.io", name: null },
+  { email: "dan@example.com", name: "Dan Brown" },
+]
+
+describe("normalizeActionItems", () => {
+  it("matches assignees to participants by email, name or local part", () => {
+    const items = normalizeActionItems(
+      [
+        {
+          description: "Send the revised proposal",
+          assignee: "Dana Scully",
+          dueDate: "2025-11-21",
+          timestamp: "12:05",
+        },
+        { description: "Book the venue", assignee: "sam.lee" },
+        { description: "Share the deck", assignee: "DAN@example.com" },
+        { description: "Call the bank", assignee: "Priya" },
+      ],
+      participants,
+    )
+
+    expect(items).toEqual([
+      {
+        description: "Send the revised proposal",
+        assigneeEmail: "dana@example.com",
+        assigneeName: "Dana Scully",
+        dueDate: new Date("2025-11-21T00:00:00.000Z"),
+        sourceSeconds: 725,
+      },
+      {
+        description: "Book the venue",
+        assigneeEmail: "sam.lee@client.io",
+        assigneeName: null,
+        dueDate: null,
+        sourceSeconds: null,
+      },
+      {
+        description: "Share the deck",
+        assigneeEmail: "dan@example.com",
+        assigneeName: "Dan Brown",
+        dueDate: null,
+        sourceSeconds: null,
+      },
+      {
+        description: "Call the bank",
+        assigneeEmail: null,
+        assigneeName: "Priya",
+        dueDate: null,
+        sourceSeconds: null,
+      },
+    ])
+  })
+
+  it("drops malformed, empty and duplicate entries", () => {
+    const items = normalizeActionItems(
+      [
+        "Follow up",
+        { description: "  " },
+        { description: "Follow up", dueDate: "next week", timestamp: "soon" },
+        { description: "follow up" },
+      ],
+      participants,
+    )
+
+    expect(items).toHaveLength(1)
+    expect(items[0]).toMatchObject({ dueDate: null, sourceSeconds: null })
+    expect(normalizeActionItems({ items: [] }, participants)).toEqual([])
+  })
+})
@@ -0,0 +1,109 @@
+import { parseOffset } from "./transcript-chunks"
+
+export type ActionItemParticipant = {
+  email: string | null
+  name: string | null
+}
+
+export type ExtractedActionItem = {
+  description: string
+  assigneeEmail: string | null
+  assigneeName: string | null
+  dueDate: Date | null
+  sourceSeconds: number | null
+}
+
+/**
+ * Validates the action items returned by the model and resolves assignees to
+ * meeting participants: an email must match exactly, a name may match the
+ * participant's full name, first name or email local part as long as only one
+ * participant fits. Unmatched assignees keep the name the model gave.
+ */
+export function normalizeActionItems(
+  raw: unknown,
+  participants: ActionItemParticipant[],
+): ExtractedActionItem[] {
+  if (!Array.isArray(raw)) {
+    return []
+  }
+
+  const items: ExtractedActionItem[] = []
+  const seen = new Set<string>()
+  for (const entry of raw as unknown[]) {
+    if (!entry || typeof entry !== "object") {
+      continue
+    }
+    const record = entry as Record<string, unknown>
+    const description =
+      typeof record.description === "string" ? record.description.trim() : ""
+    const key = description.toLowerCase()
+    if (!description || seen.has(key)) {
+      continue
+    }
+    seen.add(key)
+
+    const assignee =
+      typeof record.assignee === "string" && record.assignee.trim()
+        ? record.assignee.trim()
+        : null
+    const participant = assignee
+      ? matchParticipant(assignee, participants)
+      : null
+
+    items.push({
+      description,
+      assigneeEmail: participant
+        ? participant.email
+        : assignee?.includes("@")
+          ? assignee.toLowerCase()
+          : null,
+      assigneeName: participant
+        ? participant.name
+        : assignee && !assignee.includes("@")
+          ? assignee
+          : null,
+      dueDate: parseDueDate(record.dueDate),
+      sourceSeconds: parseOffset(record.timestamp),
+    })
+  }
+  return items
+}
+
+function matchParticipant(
+  assignee: string,
+  participants: ActionItemParticipant[],
+) {
+  const needle = assignee.toLowerCase()
+  if (needle.includes("@")) {
+    return (
+      participants.find(
+        (participant) => participant.email?.toLowerCase() === needle,
+      ) ?? null
+    )
+  }
+
+  const candidates = [
+    (participant: ActionItemParticipant) => participant.name?.toLowerCase(),
+    (participant: ActionItemParticipant) =>
+      participant.name?.split(/\s+/)[0]?.toLowerCase(),
+    (participant: ActionItemParticipant) =>
+      participant.email?.split("@")[0]?.toLowerCase(),
+  ]
+  for (const read of candidates) {
+    const matches = participants.filter(
+      (participant) => read(participant) === needle,
+    )
+    if (matches.length === 1) {
+      return matches[0]
+    }
+  }
+  return null
+}
+
+function parseDueDate(value: unknown) {
+  if (typeof value !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(value.trim())) {
+    return null
+  }
+  const date = new Date(`${value.trim()}T00:00:00.000Z`)
+  return Number.isNaN(date.getTime()) ? null : date
+}
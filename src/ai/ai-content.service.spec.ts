@@ -0,0 +1,227 @@
+import { ConfigService } from "@nestjs/config"
+import { SocialPostStatus } from "@prisma/client"
+import type { PrismaService } from "../../prisma/prisma.service"
+import type { TranscriptsService } from "../transcripts/transcripts.service"
+import type { SpeakerMappingService } from "../transcripts/speaker-mapping.service"
+import type { FollowUpEmailService } from "../email/follow-up-email.service"
+import { AiContentService } from "./ai-content.service"
+import { FakeLlmProvider } from "./llm/fake.provider"
+import type { LlmProvidersService } from "./llm/llm-providers.service"
+import type { MeetingEmbeddingsService } from "./embeddings/meeting-embeddings.service"
+import type { PromptTemplatesService } from "./prompt-templates.service"
+import { MEETING_INSIGHT_PROMPT } from "./prompts"
+
+const segments = [
+  {
+    index: 0,
+    speaker: "Dana",
+    text: "Sam, please send the deck.",
+    startSeconds: 61,
+    endSeconds: 65,
+  },
+  {
+    index: 1,
+    speaker: "Sam",
+    text: "Will do by Friday.",
+    startSeconds: null,
+    endSeconds: null,
+  },
+]
+
+const meeting = {
+  id: "event-1",
+  userId: "user-1",
+  title: "Quarterly review",
+  description: null,
+  recurrence: null,
+  startTime: new Date("2025-11-19T15:00:00.000Z"),
+  attendees: [
+    { email: "dana@example.com", displayName: "Dana" },
+    { email: "sam@client.io", displayName: "Sam Lee" },
+  ],
+  user: { id: "user-1", email: "dana@example.com", name: "Dana" },
+}
+
+const firstArg = (mock: jest.Mock) => (mock.mock.calls as unknown[][])[0][0]
+
+describe("AiContentService", () => {
+  const prisma = {
+    calendarEvent: { findUnique: jest.fn() },
+    meetingInsight: {
+      findFirst: jest.fn(),
+      create: jest.fn().mockResolvedValue({ id: "insight-1" }),
+    },
+    meetingActionItem: {
+      deleteMany: jest.fn(),
+      findMany: jest.fn().mockResolvedValue([]),
+      createMany: jest.fn(),
+    },
+    automation: { findMany: jest.fn() },
+    socialPost: { deleteMany: jest.fn(), create: jest.fn() },
+    $transaction: jest.fn(),
+    $queryRaw: jest.fn(),
+  }
+  prisma.$transaction.mockImplementation((run: (tx: unknown) => unknown) =>
+    run(prisma),
+  )
+  const transcripts = { loadSegments: jest.fn() }
+  const llmProviders = { forUser: jest.fn() }
+  const followUpEmail = { draftAfterGeneration: jest.fn() }
+  const embeddings = { indexMeeting: jest.fn() }
+  const speakerMapping = { getMapping: jest.fn(), getSpeakers: jest.fn() }
+  const service = new AiContentService(
+    prisma as unknown as PrismaService,
+    { get: () => undefined } as unknown as ConfigService,
+    transcripts as unknown as TranscriptsService,
+    llmProviders as unknown as LlmProvidersService,
+    {
+      getActive: jest.fn().mockResolvedValue({
+        key: MEETING_INSIGHT_PROMPT,
+        version: 2,
+        templateId: "prompt-2",
+        systemPrompt: "Summarise the meeting as JSON.",
+      }),
+    } as unknown as PromptTemplatesService,
+    followUpEmail as unknown as FollowUpEmailService,
+    embeddings as unknown as MeetingEmbeddingsService,
+    speakerMapping as unknown as SpeakerMappingService,
+  )
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    prisma.calendarEvent.findUnique.mockResolvedValue(meeting)
+    prisma.meetingInsight.findFirst.mockResolvedValue(null)
+    transcripts.loadSegments.mockResolvedValue(segments)
+    speakerMapping.getMapping.mockResolvedValue(new Map())
+    speakerMapping.getSpeakers.mockResolvedValue([])
+    prisma.automation.findMany.mockResolvedValue([
+      {
+        id: "automation-1",
+        name: "LinkedIn recap",
+        channel: "LINKEDIN",
+        promptTemplate: "Share one insight",
+      },
+    ])
+  })
+
+  it("writes a new insight revision, action items and social drafts from the provider", async () => {
+    const llm = new FakeLlmProvider((request) =>
+      request.json
+        ? JSON.stringify({
+            summary: "Reviewed the quarter.",
+            followUpEmail: "Thanks all.",
+            actionItems: [
+              {
+                description: "Send the deck",
+                assignee: "Sam Lee",
+                dueDate: "2025-11-21",
+                timestamp: "1:01",
+              },
+            ],
+          })
+        : "One insight from our review.",
+    ).recordCalls()
+    llmProviders.forUser.mockResolvedValue(llm)
+    prisma.meetingInsight.findFirst.mockResolvedValue({ revision: 2 })
+
+    await service.generateMeetingContent("event-1")
+
+    expect(llmProviders.forUser).toHaveBeenCalledWith("user-1")
+    expect(llm.calls[0].messages[0].content).toBe(
+      "Summarise the meeting as JSON.",
+    )
+    expect(llm.calls[0].messages[1].content).toContain(
+      "[1:01] Dana: Sam, please send the deck.",
+    )
+    // The meeting row is locked before the next revision number is read.
+    expect(prisma.$queryRaw).toHaveBeenCalledTimes(1)
+    expect(firstArg(prisma.meetingInsight.create)).toMatchObject({
+      data: {
+        calendarEventId: "event-1",
+        revision: 3,
+        source: "AI",
+        summary: "Reviewed the quarter.",
+        followUpEmail: "Thanks all.",
+        metadata: { summarization: { strategy: "single", provider: "FAKE" } },
+        promptTemplateId: "prompt-2",
+        promptVersion: 2,
+        llmProvider: "FAKE",
+        model: "fake",
+      },
+    })
+    expect(prisma.meetingActionItem.createMany).toHaveBeenCalledWith({
+      data: [
+        {
+          description: "Send the deck",
+          assigneeEmail: "sam@client.io",
+          assigneeName: "Sam Lee",
+          dueDate: new Date("2025-11-21T00:00:00.000Z"),
+          sourceSeconds: 61,
+          calendarEventId: "event-1",
+          meetingInsightId: "insight-1",
+          userId: "user-1",
+        },
+      ],
+    })
+    expect(followUpEmail.draftAfterGeneration).toHaveBeenCalledWith("insight-1")
+    expect(embeddings.indexMeeting).toHaveBeenCalledWith(
+      meeting.id,
+      expect.any(Array),
+    )
+    expect(firstArg(prisma.socialPost.create)).toMatchObject({
+      data: {
+        content: "One insight from our review.",
+        status: SocialPostStatus.DRAFT,
+      },
+    })
+  })
+
+  it("fails without saving anything when the provider fails", async () => {
+    llmProviders.forUser.mockResolvedValue(
+      new FakeLlmProvider((request) => {
+        if (request.json) {
+          throw new Error("rate limited")
+        }
+        return "One insight from our review."
+      }),
+    )
+
+    await expect(service.generateMeetingContent("event-1")).rejects.toThrow(
+      "FAKE could not generate the insight for meeting event-1: rate limited",
+    )
+    expect(prisma.meetingInsight.create).not.toHaveBeenCalled()
+    expect(prisma.socialPost.deleteMany).not.toHaveBeenCalled()
+
+    llmProviders.forUser.mockResolvedValue(
+      new FakeLlmProvider((request) => {
+        if (!request.json) {
+          throw new Error("rate limited")
+        }
+        return JSON.stringify({ summary: "Done.", followUpEmail: "Thanks." })
+      }),
+    )
+
+    await expect(service.generateMeetingContent("event-1")).rejects.toThrow(
+      "rate limited",
+    )
+    expect(prisma.meetingInsight.create).not.toHaveBeenCalled()
+  })
+
+  it("falls back to templates when no provider is configured", async () => {
+    llmProviders.forUser.mockResolvedValue(null)
+
+    await service.generateMeetingContent("event-1")
+
+    const { data } = firstArg(prisma.meetingInsight.create) as {
+      data: { summary: string; promptVersion: number | null }
+    }
+    expect(data).toMatchObject({
+      revision: 1,
+      promptVersion: null,
+      model: null,
+    })
+    expect(data.summary).toContain("Summary for Quarterly review")
+    expect(prisma.meetingActionItem.createMany).not.toHaveBeenCalled()
+    expect(prisma.socialPost.create).toHaveBeenCalledTimes(1)
+  })
+})
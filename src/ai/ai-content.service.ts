@@ -1,84 +1,107 @@
 import { Injectable, Logger } from "@nestjs/common"
 import { ConfigService } from "@nestjs/config"
-import { HttpService } from "@nestjs/axios"
-import OpenAI from "openai"
-import PQueue from "p-queue"
 import {
   Automation,
   CalendarEvent,
-  MeetingInsight,
-  MeetingMedia,
-  MeetingMediaStatus,
-  MeetingMediaType,
+  LlmProviderKind,
+  MeetingInsightSource,
   Prisma,
-  RecallBot,
   SocialPostStatus,
   User,
 } from "@prisma/client"
 import { PrismaService } from "../../prisma/prisma.service"
+import { TranscriptsService } from "../transcripts/transcripts.service"
+import { SpeakerMappingService } from "../transcripts/speaker-mapping.service"
+import { applySpeakerMapping } from "../transcripts/speaker-mapping"
+import { FollowUpEmailService } from "../email/follow-up-email.service"
 import { AppError } from "../errors/app-error"
 import { ErrorCodes } from "../errors/error-codes"
+import { nextInsightRevision } from "../meetings/current-insight"
+import { LlmProvidersService } from "./llm/llm-providers.service"
+import { MeetingEmbeddingsService } from "./embeddings/meeting-embeddings.service"
+import type { LlmProvider } from "./llm/llm-provider"
+import { PromptTemplatesService } from "./prompt-templates.service"
+import { MEETING_INSIGHT_PROMPT, type ResolvedPrompt } from "./prompts"
+import { ActionItemParticipant, normalizeActionItems } from "./action-items"
+import {
+  chunkTranscript,
+  estimateTokens,
+  formatOffset,
+  resolveTokenBudget,
+  TranscriptChunk,
+  TranscriptSegment,
+} from "./transcript-chunks"
 
 type MeetingContext = CalendarEvent & {
   user: User
-  recallBot: (RecallBot & { media: MeetingMedia[] }) | null
-  meetingInsights: MeetingInsight[]
 }
 
 type InsightResult = {
   summary: string
   followUpEmail: string
+  actionItems: unknown
+  // Unset when the template fallback produced the content.
+  source: {
+    provider: LlmProviderKind
+    model: string
+    prompt: ResolvedPrompt
+  } | null
+  // Why the provider's answer was not used, when it failed.
+  failure?: string
+}
+
+type SummarizationMetadata = {
+  strategy: "single" | "map-reduce"
+  provider: LlmProviderKind
+  model: string
+  chunkTokenBudget: number
+  transcriptTokens: number
+  chunks: {
+    index: number
+    startSeconds: number | null
+    endSeconds: number | null
+    speakers: string[]
+    tokens: number
+    summary: string
+    fallback: boolean
+  }[]
 }
 
 @Injectable()
 export class AiContentService {
   private readonly logger = new Logger(AiContentService.name)
-  private readonly openAi: OpenAI | null
-  private readonly model: string
-  private readonly queue: PQueue
   private readonly transcriptCharLimit: number
   private readonly transcriptSegmentLimit: number
-  private readonly transcriptDownloadTimeout: number
   private readonly socialWordLimit: number
+  private readonly chunkTokenLimit: number
+  private readonly chunkMaxSeconds: number
 
   constructor(
     private readonly prisma: PrismaService,
     private readonly configService: ConfigService,
-    private readonly http: HttpService,
+    private readonly transcripts: TranscriptsService,
+    private readonly llmProviders: LlmProvidersService,
+    private readonly promptTemplates: PromptTemplatesService,
+    private readonly followUpEmail: FollowUpEmailService,
+    private readonly embeddings: MeetingEmbeddingsService,
+    private readonly speakerMapping: SpeakerMappingService,
   ) {
-    const apiKey = this.configService.get<string>("OPENAI_API_KEY")
-    this.openAi = apiKey ? new OpenAI({ apiKey }) : null
-    this.model = this.configService.get<string>("OPENAI_MODEL") ?? "gpt-4o-mini"
-    const concurrency = Number(
-      this.configService.get<string>("AI_QUEUE_CONCURRENCY") ?? 2,
-    )
-    this.queue = new PQueue({ concurrency })
     this.transcriptCharLimit = Number(
       this.configService.get<string>("AI_TRANSCRIPT_CHAR_LIMIT") ?? 20000,
     )
     this.transcriptSegmentLimit = Number(
       this.configService.get<string>("AI_TRANSCRIPT_SEGMENT_LIMIT") ?? 75,
     )
-    this.transcriptDownloadTimeout = Number(
-      this.configService.get<string>("AI_TRANSCRIPT_DOWNLOAD_TIMEOUT_MS") ??
-        15000,
-    )
     this.socialWordLimit = Number(
       this.configService.get<string>("AI_SOCIAL_WORD_LIMIT") ?? 90,
     )
-  }
-
-  queueMeetingGeneration(eventId: string) {
-    this.queue.add(async () => {
-      try {
-        await this.generateMeetingContent(eventId)
-      } catch (error) {
-        this.logger.error(
-          `AI content generation failed for meeting ${eventId}`,
-          error instanceof Error ? error.stack : String(error),
-        )
-      }
-    })
+    this.chunkTokenLimit = Number(
+      this.configService.get<string>("AI_TRANSCRIPT_CHUNK_TOKENS") ?? 6000,
+    )
+    this.chunkMaxSeconds =
+      Number(
+        this.configService.get<string>("AI_TRANSCRIPT_CHUNK_MINUTES") ?? 20,
+      ) * 60
   }
 
   async generateMeetingContent(
@@ -88,28 +111,102 @@ export class AiContentService {
     await this.runGeneration(eventId, options)
   }
 
+  /**
+   * Runs the insight pipeline for a meeting with the given provider and prompt
+   * without saving anything; used to compare prompt versions.
+   */
+  async previewInsight(
+    eventId: string,
+    llm: LlmProvider,
+    prompt: ResolvedPrompt,
+  ) {
+    const meeting = await this.loadMeetingContext(eventId)
+    const transcript = await this.loadTranscript(meeting)
+    if (!transcript) {
+      throw new AppError(ErrorCodes.NOT_FOUND, {
+        params: { resource: "MeetingTranscript" },
+      })
+    }
+    const { insight } = await this.summarizeTranscript(
+      meeting,
+      llm,
+      prompt,
+      transcript.segments,
+      transcript.excerpt,
+    )
+    return insight
+  }
+
   private async runGeneration(
     eventId: string,
     options?: { regenerate?: boolean },
   ) {
     const meeting = await this.loadMeetingContext(eventId)
-    const transcriptMedia = this.pickTranscriptMedia(meeting)
-    if (!transcriptMedia) {
+    const transcript = await this.loadTranscript(meeting)
+    if (!transcript) {
       this.logger.warn(
         `No transcript available for meeting ${eventId}, skipping AI generation`,
       )
       return
     }
 
-    const transcriptPayload = await this.fetchTranscriptPayload(transcriptMedia)
-    const transcriptText = this.formatTranscript(transcriptPayload)
-
-    const insightResult = await this.generateInsightContent(
+    const llm = await this.llmProviders.forUser(meeting.userId)
+    const prompt = await this.promptTemplates.getActive(MEETING_INSIGHT_PROMPT)
+    const { insight, metadata } = await this.summarizeTranscript(
       meeting,
-      transcriptText,
+      llm,
+      prompt,
+      transcript.segments,
+      transcript.excerpt,
     )
-    await this.saveMeetingInsight(meeting, insightResult)
-    await this.generateSocialDrafts(meeting, transcriptText, options)
+    // Template content stands in only when no provider is configured. A
+    // provider failure fails the job so it is retried, before anything from
+    // this attempt is saved.
+    if (
+      llm &&
+      (!insight.source || metadata?.chunks.some((chunk) => chunk.fallback))
+    ) {
+      throw new Error(
+        `${llm.kind} could not generate the insight for meeting ${meeting.id}: ${
+          insight.failure ?? "a part of the transcript was not summarised"
+        }`,
+      )
+    }
+    const socialDrafts = await this.draftSocialPosts(
+      meeting,
+      llm,
+      transcript.excerpt,
+      options,
+    )
+
+    const saved = await this.saveMeetingInsight(meeting, insight, metadata)
+    await this.followUpEmail.draftAfterGeneration(saved.id)
+    await this.replaceSocialDrafts(meeting, socialDrafts)
+
+    // Q&A retrieval is best effort; the insight is already saved.
+    try {
+      await this.embeddings.indexMeeting(meeting.id, transcript.segments)
+    } catch (error) {
+      this.logger.warn(
+        `Failed to index transcript embeddings for meeting ${meeting.id}: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      )
+    }
+  }
+
+  // Speakers are named as the attendees they were mapped to, so the model
+  // assigns action items to people it can find on the invite.
+  private async loadTranscript(meeting: MeetingContext) {
+    const stored = await this.transcripts.loadSegments(meeting.id)
+    if (!stored.length) {
+      return null
+    }
+    const mapping = await this.speakerMapping.getMapping(meeting.id)
+    const segments = stored.map((segment) =>
+      applySpeakerMapping(segment, mapping),
+    )
+    return { segments, excerpt: this.formatTranscript(segments) }
   }
 
   private async loadMeetingContext(eventId: string): Promise<MeetingContext> {
@@ -117,15 +214,6 @@ export class AiContentService {
       where: { id: eventId },
       include: {
         user: true,
-        recallBot: {
-          include: {
-            media: true,
-          },
-        },
-        meetingInsights: {
-          orderBy: { createdAt: "desc" },
-          take: 1,
-        },
       },
     })
 
@@ -138,115 +226,220 @@ export class AiContentService {
     return event
   }
 
-  private pickTranscriptMedia(meeting: MeetingContext) {
-    return meeting.recallBot?.media.find(
-      (media) =>
-        media.type === MeetingMediaType.TRANSCRIPT &&
-        media.status === MeetingMediaStatus.STORED &&
-        !!media.downloadUrl,
-    )
-  }
+  // Excerpt used for social drafts; insights are built from the full
+  // transcript by `summarizeTranscript`.
+  private formatTranscript(segments: TranscriptSegment[]): string {
+    const lines = segments
+      .slice(0, this.transcriptSegmentLimit)
+      .map((segment) => `${segment.speaker}: ${segment.text}`)
 
-  private async fetchTranscriptPayload(media: MeetingMedia) {
-    const response = await this.http.axiosRef.get(media.downloadUrl!, {
-      timeout: this.transcriptDownloadTimeout,
-    })
-    return response.data
+    const compiled = lines.join("\n")
+    return compiled.length > this.transcriptCharLimit
+      ? compiled.substring(0, this.transcriptCharLimit)
+      : compiled
   }
 
-  private formatTranscript(payload: unknown): string {
-    const lines: string[] = []
-
-    if (Array.isArray(payload)) {
-      for (const segment of payload.slice(0, this.transcriptSegmentLimit)) {
-        const formatted = this.formatTranscriptSegment(segment)
-        if (formatted) {
-          lines.push(formatted)
-        }
-      }
-    } else if (
-      payload &&
-      typeof payload === "object" &&
-      Array.isArray((payload as any).segments)
-    ) {
-      const segments = (payload as any).segments as unknown[]
-      for (const segment of segments.slice(0, this.transcriptSegmentLimit)) {
-        const formatted = this.formatTranscriptSegment(segment)
-        if (formatted) {
-          lines.push(formatted)
-        }
+  /**
+   * Map-reduce summarisation: transcripts that fit the model's chunk budget
+   * are summarised in one call; longer ones are split along speaker turns,
+   * each chunk is summarised, and the final insight is written from the chunk
+   * summaries, which are kept in the insight metadata.
+   */
+  private async summarizeTranscript(
+    meeting: MeetingContext,
+    llm: LlmProvider | null,
+    prompt: ResolvedPrompt,
+    segments: TranscriptSegment[],
+    excerpt: string,
+  ): Promise<{
+    insight: InsightResult
+    metadata: SummarizationMetadata | null
+  }> {
+    if (!llm || !segments.length) {
+      return {
+        insight: await this.generateInsightContent(
+          meeting,
+          llm,
+          prompt,
+          excerpt,
+        ),
+        metadata: null,
       }
     }
 
-    if (!lines.length) {
-      const fallback = JSON.stringify(payload)
-      return fallback.substring(0, this.transcriptCharLimit)
+    const budget = resolveTokenBudget(llm.model, this.chunkTokenLimit)
+    const chunks = chunkTranscript(
+      segments,
+      budget.chunkTokens,
+      this.chunkMaxSeconds,
+    )
+    const metadata: SummarizationMetadata = {
+      strategy: chunks.length > 1 ? "map-reduce" : "single",
+      provider: llm.kind,
+      model: llm.model,
+      chunkTokenBudget: budget.chunkTokens,
+      transcriptTokens: chunks.reduce(
+        (total, chunk) => total + chunk.tokens,
+        0,
+      ),
+      chunks: [],
     }
 
-    const compiled = lines.join("\n")
-    return compiled.length > this.transcriptCharLimit
-      ? compiled.substring(0, this.transcriptCharLimit)
-      : compiled
-  }
+    if (chunks.length === 1) {
+      return {
+        insight: await this.generateInsightContent(
+          meeting,
+          llm,
+          prompt,
+          chunks[0].text,
+        ),
+        metadata,
+      }
+    }
 
-  private formatTranscriptSegment(segment: unknown): string | null {
-    if (!segment || typeof segment !== "object") {
-      return null
+    for (const chunk of chunks) {
+      const summary = await this.summarizeChunk(
+        meeting,
+        llm,
+        chunk,
+        chunks.length,
+      )
+      metadata.chunks.push({
+        index: chunk.index,
+        startSeconds: chunk.startSeconds,
+        endSeconds: chunk.endSeconds,
+        speakers: chunk.speakers,
+        tokens: chunk.tokens,
+        summary: summary.text,
+        fallback: summary.fallback,
+      })
     }
 
-    const participant =
-      (segment as any)?.participant?.name ??
-      (segment as any)?.speaker ??
-      (segment as any)?.participant?.email ??
-      "Speaker"
-    const text =
-      (segment as any)?.text ??
-      (segment as any)?.message ??
-      (segment as any)?.body ??
-      this.joinWords((segment as any)?.words)
-
-    if (!text) {
-      return null
+    const notes = await this.condenseNotes(
+      meeting,
+      llm,
+      metadata.chunks.map(
+        (chunk) =>
+          `Part ${chunk.index + 1} (${formatOffset(chunk.startSeconds)}–${formatOffset(chunk.endSeconds)}):\n${chunk.summary}`,
+      ),
+      budget.reduceTokens,
+      budget.chunkTokens,
+    )
+    return {
+      insight: await this.generateInsightContent(
+        meeting,
+        llm,
+        prompt,
+        notes,
+        "Summaries of consecutive parts of the meeting:",
+      ),
+      metadata,
     }
-    return `${participant}: ${text}`
   }
 
-  private joinWords(words: unknown): string | null {
-    if (!Array.isArray(words)) {
-      return null
+  private async summarizeChunk(
+    meeting: MeetingContext,
+    llm: LlmProvider,
+    chunk: TranscriptChunk,
+    total: number,
+  ): Promise<{ text: string; fallback: boolean }> {
+    try {
+      const completion = await llm.complete({
+        temperature: 0.2,
+        messages: [
+          {
+            role: "system",
+            content:
+              "You summarise one part of a longer meeting transcript. List the topics discussed, decisions, numbers, commitments and action items with owners and due dates, keeping the [m:ss] marker of the line each action item comes from. Only use facts from the transcript.",
+          },
+          {
+            role: "user",
+            content: [
+              `Meeting title: ${meeting.title ?? "Untitled Meeting"}`,
+              `Part ${chunk.index + 1} of ${total}`,
+              "Transcript:",
+              chunk.text,
+            ].join("\n"),
+          },
+        ],
+      })
+      return { text: completion.text, fallback: false }
+    } catch (error) {
+      this.logger.warn(
+        `${llm.kind} chunk summary ${chunk.index + 1}/${total} failed for meeting ${meeting.id}: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      )
+      return { text: chunk.text.substring(0, 1000), fallback: true }
     }
-    const collected = words
-      .map((word) => word?.text)
-      .filter((value): value is string => typeof value === "string")
-    if (!collected.length) {
-      return null
+  }
+
+  // Merges chunk summaries in groups until they fit the reduce budget, so the
+  // final call never overflows the context window on very long meetings.
+  private async condenseNotes(
+    meeting: MeetingContext,
+    llm: LlmProvider,
+    notes: string[],
+    reduceTokens: number,
+    groupTokens: number,
+  ): Promise<string> {
+    let current = notes
+    while (
+      current.length > 1 &&
+      estimateTokens(current.join("\n\n")) > reduceTokens
+    ) {
+      const groups = chunkTranscript(
+        current.map((text, index) => ({
+          speaker: `Notes ${index + 1}`,
+          text,
+          startSeconds: null,
+          endSeconds: null,
+        })),
+        groupTokens,
+        Number.POSITIVE_INFINITY,
+      )
+      const condensed: string[] = []
+      for (const group of groups) {
+        const summary = await this.summarizeChunk(
+          meeting,
+          llm,
+          group,
+          groups.length,
+        )
+        condensed.push(summary.text)
+      }
+      if (condensed.length >= current.length) {
+        break
+      }
+      current = condensed
     }
-    return collected.join(" ")
+    return current.join("\n\n")
   }
 
   private async generateInsightContent(
     meeting: MeetingContext,
+    llm: LlmProvider | null,
+    prompt: ResolvedPrompt,
     transcript: string,
+    sourceLabel = "Transcript:",
   ): Promise<InsightResult> {
     const attendees = this.extractAttendeeNames(meeting)
     const agenda =
       meeting.description ??
       (Array.isArray(meeting.recurrence) ? meeting.recurrence.join(", ") : null)
 
-    if (!this.openAi) {
+    if (!llm) {
       return this.buildFallbackInsight(meeting, transcript)
     }
 
     try {
-      const completion = await this.openAi.chat.completions.create({
-        model: this.model,
+      const completion = await llm.complete({
         temperature: 0.2,
-        response_format: { type: "json_object" },
+        json: true,
         messages: [
           {
             role: "system",
-            content:
-              'You create factual meeting summaries grounded in the provided transcript. Respond with JSON: {"summary":"...","followUpEmail":"..."}.',
+            content: prompt.systemPrompt,
           },
           {
             role: "user",
@@ -255,7 +448,7 @@ export class AiContentService {
               `Meeting date: ${meeting.startTime.toISOString()}`,
               `Attendees: ${attendees.join(", ") || "Not listed"}`,
               agenda ? `Agenda/Description: ${agenda}` : "",
-              "Transcript excerpt:",
+              sourceLabel,
               transcript,
             ]
               .filter(Boolean)
@@ -263,25 +456,22 @@ export class AiContentService {
           },
         ],
       })
-      const content = completion.choices[0]?.message?.content
-      if (!content) {
-        throw new Error("Empty OpenAI response")
-      }
-      const parsed = JSON.parse(content) as Partial<InsightResult>
+      const parsed = JSON.parse(completion.text) as Partial<InsightResult>
       if (!parsed.summary || !parsed.followUpEmail) {
         throw new Error("Incomplete AI response")
       }
       return {
         summary: parsed.summary,
         followUpEmail: parsed.followUpEmail,
+        actionItems: parsed.actionItems ?? [],
+        source: { provider: llm.kind, model: completion.model, prompt },
       }
     } catch (error) {
+      const failure = error instanceof Error ? error.message : String(error)
       this.logger.warn(
-        `OpenAI insight generation failed for meeting ${meeting.id}: ${
-          error instanceof Error ? error.message : String(error)
-        }`,
+        `${llm.kind} insight generation failed for meeting ${meeting.id}: ${failure}`,
       )
-      return this.buildFallbackInsight(meeting, transcript)
+      return { ...this.buildFallbackInsight(meeting, transcript), failure }
     }
   }
 
@@ -313,37 +503,95 @@ export class AiContentService {
       meeting.user.name ?? "Your advisor",
     ].join("\n")
 
-    return { summary, followUpEmail }
+    return { summary, followUpEmail, actionItems: [], source: null }
   }
 
+  // Each generation is stored as a new revision so earlier output and user
+  // edits stay available.
   private async saveMeetingInsight(
     meeting: MeetingContext,
     result: InsightResult,
+    metadata: SummarizationMetadata | null,
   ) {
-    const existing = meeting.meetingInsights[0]
-    const data = {
-      summary: result.summary,
-      followUpEmail: result.followUpEmail,
-      generatedAt: new Date(),
-      metadata: Prisma.JsonNull,
-    }
-    if (existing) {
-      await this.prisma.meetingInsight.update({
-        where: { id: existing.id },
-        data,
-      })
-    } else {
-      await this.prisma.meetingInsight.create({
+    const insight = await this.prisma.$transaction(async (tx) => {
+      const revision = await nextInsightRevision(tx, meeting.id)
+      return tx.meetingInsight.create({
         data: {
           calendarEventId: meeting.id,
-          ...data,
+          revision,
+          source: MeetingInsightSource.AI,
+          summary: result.summary,
+          followUpEmail: result.followUpEmail,
+          generatedAt: new Date(),
+          metadata: metadata
+            ? ({ summarization: metadata } as Prisma.InputJsonValue)
+            : Prisma.JsonNull,
+          promptTemplateId: result.source?.prompt.templateId ?? null,
+          promptVersion: result.source?.prompt.version ?? null,
+          llmProvider: result.source?.provider ?? null,
+          model: result.source?.model ?? null,
         },
       })
-    }
+    })
+
+    await this.replaceActionItems(meeting, insight.id, result.actionItems)
+    return insight
+  }
+
+  // Regeneration replaces the extracted items but keeps anything the user has
+  // already ticked off, reassigned or edited.
+  private async replaceActionItems(
+    meeting: MeetingContext,
+    insightId: string,
+    raw: unknown,
+  ) {
+    const speakers = await this.speakerMapping.getSpeakers(meeting.id)
+    const items = normalizeActionItems(raw, [
+      ...this.extractParticipants(meeting),
+      // Identified speakers, also under the name the platform reported.
+      ...speakers.flatMap((speaker) =>
+        speaker.email
+          ? [
+              {
+                email: speaker.email,
+                name: speaker.displayName ?? speaker.name,
+              },
+              { email: speaker.email, name: speaker.name },
+            ]
+          : [],
+      ),
+    ])
+    await this.prisma.$transaction(async (tx) => {
+      await tx.meetingActionItem.deleteMany({
+        where: { calendarEventId: meeting.id, editedAt: null },
+      })
+      const kept = await tx.meetingActionItem.findMany({
+        where: { calendarEventId: meeting.id },
+        select: { description: true },
+      })
+      const keptDescriptions = new Set(
+        kept.map((item) => item.description.toLowerCase()),
+      )
+      const fresh = items.filter(
+        (item) => !keptDescriptions.has(item.description.toLowerCase()),
+      )
+      if (!fresh.length) {
+        return
+      }
+      await tx.meetingActionItem.createMany({
+        data: fresh.map((item) => ({
+          ...item,
+          calendarEventId: meeting.id,
+          meetingInsightId: insightId,
+          userId: meeting.userId,
+        })),
+      })
+    })
   }
 
-  private async generateSocialDrafts(
+  private async draftSocialPosts(
     meeting: MeetingContext,
+    llm: LlmProvider | null,
     transcript: string,
     options?: { regenerate?: boolean },
   ) {
@@ -355,7 +603,26 @@ export class AiContentService {
       orderBy: { createdAt: "asc" },
     })
 
-    if (!automations.length) {
+    const drafts: { automation: Automation; content: string }[] = []
+    for (const automation of automations) {
+      drafts.push({
+        automation,
+        content: await this.createSocialPostContent(
+          meeting,
+          llm,
+          transcript,
+          automation,
+        ),
+      })
+    }
+    return drafts
+  }
+
+  private async replaceSocialDrafts(
+    meeting: MeetingContext,
+    drafts: { automation: Automation; content: string }[],
+  ) {
+    if (!drafts.length) {
       return
     }
 
@@ -368,12 +635,7 @@ export class AiContentService {
       },
     })
 
-    for (const automation of automations) {
-      const content = await this.createSocialPostContent(
-        meeting,
-        transcript,
-        automation,
-      )
+    for (const { automation, content } of drafts) {
       await this.prisma.socialPost.create({
         data: {
           calendarEventId: meeting.id,
@@ -390,10 +652,11 @@ export class AiContentService {
 
   private async createSocialPostContent(
     meeting: MeetingContext,
+    llm: LlmProvider | null,
     transcript: string,
     automation: Automation,
   ) {
-    if (!this.openAi) {
+    if (!llm) {
       return this.applyTemplateFallback(
         automation.promptTemplate,
         meeting,
@@ -401,48 +664,30 @@ export class AiContentService {
       )
     }
 
-    try {
-      const completion = await this.openAi.chat.completions.create({
-        model: this.model,
-        temperature: 0.5,
-        messages: [
-          {
-            role: "system",
-            content:
-              "You craft concise social media posts grounded in the provided transcript. Stay compliant, avoid hallucinations, and keep the tone professional but warm.",
-          },
-          {
-            role: "user",
-            content: [
-              `Channel: ${automation.channel}`,
-              `Automation "${automation.name}" instructions: ${automation.promptTemplate}`,
-              `Meeting: ${meeting.title ?? "Untitled"} on ${meeting.startTime.toDateString()}`,
-              `Transcript excerpt:`,
-              transcript,
-              "",
-              `Constraints: <= ${this.socialWordLimit} words. Do not add hashtags unless explicitly requested in the template.`,
-            ].join("\n"),
-          },
-        ],
-      })
-
-      const text = completion.choices[0]?.message?.content
-      if (!text) {
-        throw new Error("Empty OpenAI response")
-      }
-      return text.trim()
-    } catch (error) {
-      this.logger.warn(
-        `OpenAI social generation failed for meeting ${meeting.id} automation ${automation.id}: ${
-          error instanceof Error ? error.message : String(error)
-        }`,
-      )
-      return this.applyTemplateFallback(
-        automation.promptTemplate,
-        meeting,
-        transcript,
-      )
-    }
+    // Provider errors fail the generation job, which retries it.
+    const completion = await llm.complete({
+      temperature: 0.5,
+      messages: [
+        {
+          role: "system",
+          content:
+            "You craft concise social media posts grounded in the provided transcript. Stay compliant, avoid hallucinations, and keep the tone professional but warm.",
+        },
+        {
+          role: "user",
+          content: [
+            `Channel: ${automation.channel}`,
+            `Automation "${automation.name}" instructions: ${automation.promptTemplate}`,
+            `Meeting: ${meeting.title ?? "Untitled"} on ${meeting.startTime.toDateString()}`,
+            `Transcript excerpt:`,
+            transcript,
+            "",
+            `Constraints: <= ${this.socialWordLimit} words. Do not add hashtags unless explicitly requested in the template.`,
+          ].join("\n"),
+        },
+      ],
+    })
+    return completion.text
   }
 
   private applyTemplateFallback(
@@ -472,6 +717,27 @@ export class AiContentService {
     return this.trimToWordLimit(drafted)
   }
 
+  private extractParticipants(
+    meeting: MeetingContext,
+  ): ActionItemParticipant[] {
+    const attendees = (meeting.attendees ?? []) as Array<{
+      displayName?: string
+      name?: string
+      email?: string
+    }>
+    const participants = Array.isArray(attendees)
+      ? attendees.map((attendee) => ({
+          email: attendee.email?.toLowerCase() ?? null,
+          name: attendee.displayName ?? attendee.name ?? null,
+        }))
+      : []
+    const ownEmail = meeting.user.email?.toLowerCase()
+    if (ownEmail && !participants.some((item) => item.email === ownEmail)) {
+      participants.push({ email: ownEmail, name: meeting.user.name ?? null })
+    }
+    return participants
+  }
+
   private extractAttendeeNames(meeting: MeetingContext): string[] {
     const attendees = meeting.attendees as
       | Array<{ displayName?: string; email?: string }>
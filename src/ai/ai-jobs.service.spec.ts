@@ -0,0 +1,249 @@
+import { Logger } from "@nestjs/common"
+import type { ConfigService } from "@nestjs/config"
+import { AiJobStatus, AiJobType } from "@prisma/client"
+import type { PrismaService } from "../../prisma/prisma.service"
+import type { AiContentService } from "./ai-content.service"
+import { AiJobsService } from "./ai-jobs.service"
+
+// p-queue is ESM only; run queued work right away and keep the promises.
+const mockQueued: Promise<unknown>[] = []
+jest.mock("p-queue", () =>
+  jest.fn().mockImplementation(() => ({
+    concurrency: 2,
+    pending: 0,
+    size: 0,
+    add: (run: () => Promise<unknown>) => {
+      const promise = run()
+      mockQueued.push(promise)
+      return promise
+    },
+  })),
+)
+
+const firstArg = (mock: jest.Mock) => (mock.mock.calls as unknown[][])[0][0]
+
+const now = new Date("2025-11-22T10:00:00.000Z")
+
+const job = (overrides: Record<string, unknown> = {}) => ({
+  id: "job-1",
+  calendarEventId: "event-1",
+  type: AiJobType.MEETING_CONTENT,
+  status: AiJobStatus.PENDING,
+  payload: null,
+  attempts: 0,
+  maxAttempts: 3,
+  runAt: now,
+  lockedAt: null,
+  lockedBy: null,
+  lastError: null,
+  ...overrides,
+})
+
+describe("AiJobsService", () => {
+  const prisma = {
+    aiJob: {
+      findMany: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  }
+  const aiContent = { generateMeetingContent: jest.fn() }
+  const settings: Record<string, string> = {
+    AI_JOB_MAX_ATTEMPTS: "3",
+    AI_JOB_RETRY_BASE_MS: "1000",
+  }
+  const service = new AiJobsService(
+    prisma as unknown as PrismaService,
+    { get: (key: string) => settings[key] } as unknown as ConfigService,
+    aiContent as unknown as AiContentService,
+  )
+
+  // The first findMany of a poll looks for stale locks, the second for due
+  // jobs.
+  const poll = async (stale: unknown[], due: unknown[]) => {
+    prisma.aiJob.findMany
+      .mockResolvedValueOnce(stale)
+      .mockResolvedValueOnce(due)
+    await service.processDueJobs()
+    await Promise.all(mockQueued.splice(0))
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    jest.useFakeTimers({ now })
+    prisma.aiJob.updateMany.mockResolvedValue({ count: 1 })
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it("merges a regenerate request into the job that is still waiting", async () => {
+    prisma.aiJob.findMany.mockResolvedValue([
+      job({ status: AiJobStatus.RETRYING, attempts: 1 }),
+    ])
+
+    const result = await service.enqueueMeetingGeneration("event-1", {
+      regenerate: true,
+    })
+
+    expect(prisma.aiJob.updateMany).toHaveBeenCalledWith({
+      where: { id: "job-1", status: AiJobStatus.RETRYING, attempts: 1 },
+      data: { payload: { regenerate: true } },
+    })
+    expect(result.payload).toEqual({ regenerate: true })
+    expect(prisma.aiJob.create).not.toHaveBeenCalled()
+  })
+
+  it("queues a regenerate request behind a running job", async () => {
+    prisma.aiJob.findMany.mockResolvedValue([
+      job({ status: AiJobStatus.RUNNING, attempts: 1 }),
+    ])
+
+    await service.enqueueMeetingGeneration("event-1")
+    expect(prisma.aiJob.create).not.toHaveBeenCalled()
+
+    await service.enqueueMeetingGeneration("event-1", { regenerate: true })
+    expect(firstArg(prisma.aiJob.create)).toMatchObject({
+      data: {
+        calendarEventId: "event-1",
+        payload: { regenerate: true },
+        maxAttempts: 3,
+      },
+    })
+  })
+
+  it("runs only the jobs it claims and marks them succeeded", async () => {
+    prisma.aiJob.updateMany
+      .mockResolvedValueOnce({ count: 1 })
+      .mockResolvedValueOnce({ count: 0 })
+
+    await poll(
+      [],
+      [
+        job({ payload: { regenerate: true } }),
+        job({ id: "job-2", calendarEventId: "event-2" }),
+      ],
+    )
+
+    expect(firstArg(prisma.aiJob.updateMany)).toMatchObject({
+      where: { id: "job-1", status: AiJobStatus.PENDING, attempts: 0 },
+      data: { status: AiJobStatus.RUNNING, attempts: { increment: 1 } },
+    })
+    expect(aiContent.generateMeetingContent).toHaveBeenCalledTimes(1)
+    expect(aiContent.generateMeetingContent).toHaveBeenCalledWith("event-1", {
+      regenerate: true,
+    })
+    expect(firstArg(prisma.aiJob.update)).toMatchObject({
+      where: { id: "job-1" },
+      data: { status: AiJobStatus.SUCCEEDED, lockedAt: null },
+    })
+  })
+
+  it("retries failures with exponential backoff, then dead-letters them", async () => {
+    aiContent.generateMeetingContent.mockRejectedValue(
+      new Error("provider down"),
+    )
+
+    await poll([], [job({ status: AiJobStatus.RETRYING, attempts: 1 })])
+
+    expect(firstArg(prisma.aiJob.update)).toMatchObject({
+      data: {
+        status: AiJobStatus.RETRYING,
+        lastError: "provider down",
+        // Second attempt: base * 2.
+        runAt: new Date(now.getTime() + 2000),
+        deadLetteredAt: null,
+      },
+    })
+
+    prisma.aiJob.update.mockClear()
+    await poll([], [job({ status: AiJobStatus.RETRYING, attempts: 2 })])
+
+    expect(firstArg(prisma.aiJob.update)).toMatchObject({
+      data: {
+        status: AiJobStatus.FAILED,
+        lastError: "provider down",
+        deadLetteredAt: now,
+        completedAt: now,
+      },
+    })
+  })
+
+  it("keeps the lock of a slow job fresh so it is not run twice", async () => {
+    let finish = () => {}
+    aiContent.generateMeetingContent.mockReturnValue(
+      new Promise<void>((resolve) => (finish = resolve)),
+    )
+    prisma.aiJob.findMany
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([job()])
+
+    await service.processDueJobs()
+    prisma.aiJob.updateMany.mockClear()
+    await jest.advanceTimersByTimeAsync(20 * 60_000)
+
+    expect(prisma.aiJob.updateMany).toHaveBeenCalledTimes(20)
+    expect(firstArg(prisma.aiJob.updateMany)).toMatchObject({
+      where: { id: "job-1", status: AiJobStatus.RUNNING },
+      data: { lockedAt: expect.any(Date) as Date },
+    })
+
+    finish()
+    await Promise.all(mockQueued.splice(0))
+    prisma.aiJob.updateMany.mockClear()
+    await jest.advanceTimersByTimeAsync(5 * 60_000)
+    expect(prisma.aiJob.updateMany).not.toHaveBeenCalled()
+  })
+
+  it("logs a job whose outcome cannot be saved instead of crashing", async () => {
+    aiContent.generateMeetingContent.mockRejectedValue(new Error("timeout"))
+    prisma.aiJob.update.mockRejectedValue(new Error("database is down"))
+    const logError = jest
+      .spyOn(Logger.prototype, "error")
+      .mockImplementation(() => undefined)
+
+    prisma.aiJob.findMany
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([job()])
+
+    await service.processDueJobs()
+    await Promise.allSettled(mockQueued.splice(0))
+    await jest.advanceTimersByTimeAsync(0)
+
+    expect(logError).toHaveBeenCalledWith(
+      "AI job job-1 could not record its outcome: database is down",
+    )
+    logError.mockRestore()
+    prisma.aiJob.update.mockReset()
+  })
+
+  it("counts a job whose worker went away as a failed attempt", async () => {
+    await poll(
+      [
+        job({
+          status: AiJobStatus.RUNNING,
+          attempts: 1,
+          lockedAt: new Date(now.getTime() - 20 * 60_000),
+        }),
+      ],
+      [],
+    )
+
+    expect(firstArg(prisma.aiJob.findMany)).toMatchObject({
+      where: {
+        status: AiJobStatus.RUNNING,
+        lockedAt: { lt: new Date(now.getTime() - 15 * 60_000) },
+      },
+    })
+    expect(firstArg(prisma.aiJob.update)).toMatchObject({
+      where: { id: "job-1" },
+      data: {
+        status: AiJobStatus.RETRYING,
+        lastError: "Worker stopped before the job finished",
+        lockedBy: null,
+      },
+    })
+  })
+})
@@ -0,0 +1,282 @@
+import { Injectable, Logger } from "@nestjs/common"
+import { ConfigService } from "@nestjs/config"
+import { Interval } from "@nestjs/schedule"
+import PQueue from "p-queue"
+import { AiJob, AiJobStatus, AiJobType, Prisma } from "@prisma/client"
+import { hostname } from "os"
+import { PrismaService } from "../../prisma/prisma.service"
+import { AiContentService } from "./ai-content.service"
+
+const AI_JOB_POLL_INTERVAL_MS = 5_000
+// Workers refresh `lockedAt` while a job runs, so a RUNNING job whose lock is
+// older than the timeout belonged to a worker that died.
+const AI_JOB_HEARTBEAT_MS = 60_000
+const AI_JOB_LOCK_TIMEOUT_MS = 15 * 60_000
+
+const ACTIVE_STATUSES: AiJobStatus[] = [
+  AiJobStatus.PENDING,
+  AiJobStatus.RUNNING,
+  AiJobStatus.RETRYING,
+]
+
+type MeetingContentPayload = { regenerate?: boolean }
+
+/**
+ * Postgres-backed queue for AI generation. Jobs survive restarts, are claimed
+ * with a conditional update so several instances can share the table, retry
+ * with exponential backoff and end up FAILED (dead-lettered) once
+ * `maxAttempts` is spent.
+ */
+@Injectable()
+export class AiJobsService {
+  private readonly logger = new Logger(AiJobsService.name)
+  private readonly workerId = `${hostname()}:${process.pid}`
+  private readonly queue: PQueue
+  private readonly maxAttempts: number
+  private readonly retryBaseMs: number
+  private pollInFlight = false
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+    private readonly aiContent: AiContentService,
+  ) {
+    const concurrency = Number(
+      this.configService.get<string>("AI_QUEUE_CONCURRENCY") ?? 2,
+    )
+    this.queue = new PQueue({ concurrency })
+    this.maxAttempts = Number(
+      this.configService.get<string>("AI_JOB_MAX_ATTEMPTS") ?? 5,
+    )
+    this.retryBaseMs = Number(
+      this.configService.get<string>("AI_JOB_RETRY_BASE_MS") ?? 30_000,
+    )
+  }
+
+  /**
+   * Queues content generation for a meeting unless a job for it is already
+   * waiting, in which case `regenerate` is merged into that job. A running
+   * job has already read its payload, so a regenerate request queues the
+   * next run behind it.
+   */
+  async enqueueMeetingGeneration(
+    eventId: string,
+    payload: MeetingContentPayload = {},
+  ) {
+    const active = await this.prisma.aiJob.findMany({
+      where: {
+        calendarEventId: eventId,
+        type: AiJobType.MEETING_CONTENT,
+        status: { in: ACTIVE_STATUSES },
+      },
+      orderBy: { createdAt: "asc" },
+    })
+    const waiting = active.find((job) => job.status !== AiJobStatus.RUNNING)
+    if (waiting) {
+      const queued = (waiting.payload ?? {}) as MeetingContentPayload
+      if (!payload.regenerate || queued.regenerate) {
+        return waiting
+      }
+      const merged = { ...queued, regenerate: true }
+      // Only while still waiting; a job claimed meanwhile is treated as
+      // running.
+      const { count } = await this.prisma.aiJob.updateMany({
+        where: {
+          id: waiting.id,
+          status: waiting.status,
+          attempts: waiting.attempts,
+        },
+        data: { payload: merged },
+      })
+      if (count) {
+        return { ...waiting, payload: merged }
+      }
+    } else if (active.length && !payload.regenerate) {
+      return active[0]
+    }
+
+    return this.prisma.aiJob.create({
+      data: {
+        calendarEventId: eventId,
+        type: AiJobType.MEETING_CONTENT,
+        payload: payload as Prisma.InputJsonValue,
+        maxAttempts: this.maxAttempts,
+      },
+    })
+  }
+
+  async listJobsForMeeting(eventId: string) {
+    return this.prisma.aiJob.findMany({
+      where: { calendarEventId: eventId },
+      orderBy: { createdAt: "desc" },
+    })
+  }
+
+  @Interval(AI_JOB_POLL_INTERVAL_MS)
+  async processDueJobs() {
+    if (this.pollInFlight) {
+      return
+    }
+    this.pollInFlight = true
+    try {
+      await this.releaseStaleLocks()
+
+      const capacity =
+        this.queue.concurrency - this.queue.pending - this.queue.size
+      if (capacity <= 0) {
+        return
+      }
+
+      const due = await this.prisma.aiJob.findMany({
+        where: {
+          status: { in: [AiJobStatus.PENDING, AiJobStatus.RETRYING] },
+          runAt: { lte: new Date() },
+          // One generation per meeting at a time.
+          calendarEvent: {
+            aiJobs: { none: { status: AiJobStatus.RUNNING } },
+          },
+        },
+        orderBy: { runAt: "asc" },
+        take: capacity,
+      })
+
+      for (const job of due) {
+        const claimed = await this.claim(job)
+        if (claimed) {
+          this.queue
+            .add(() => this.runJob(claimed))
+            .catch((error: unknown) => {
+              this.logger.error(
+                `AI job ${claimed.id} could not record its outcome: ${
+                  error instanceof Error ? error.message : String(error)
+                }`,
+              )
+            })
+        }
+      }
+    } catch (error) {
+      this.logger.error(
+        `AI job polling failed: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      )
+    } finally {
+      this.pollInFlight = false
+    }
+  }
+
+  private async claim(job: AiJob) {
+    const now = new Date()
+    const { count } = await this.prisma.aiJob.updateMany({
+      where: { id: job.id, status: job.status, attempts: job.attempts },
+      data: {
+        status: AiJobStatus.RUNNING,
+        attempts: { increment: 1 },
+        lockedAt: now,
+        lockedBy: this.workerId,
+        startedAt: now,
+      },
+    })
+    if (!count) {
+      return null
+    }
+    return { ...job, attempts: job.attempts + 1 }
+  }
+
+  private async runJob(job: AiJob) {
+    const heartbeat = setInterval(
+      () => void this.refreshLock(job),
+      AI_JOB_HEARTBEAT_MS,
+    )
+    try {
+      switch (job.type) {
+        case AiJobType.MEETING_CONTENT:
+          await this.aiContent.generateMeetingContent(
+            job.calendarEventId,
+            (job.payload ?? undefined) as MeetingContentPayload | undefined,
+          )
+          break
+      }
+      await this.prisma.aiJob.update({
+        where: { id: job.id },
+        data: {
+          status: AiJobStatus.SUCCEEDED,
+          completedAt: new Date(),
+          lockedAt: null,
+          lockedBy: null,
+          lastError: null,
+        },
+      })
+    } catch (error) {
+      await this.recordFailure(
+        job,
+        error instanceof Error ? error.message : String(error),
+      )
+    } finally {
+      clearInterval(heartbeat)
+    }
+  }
+
+  // Slow provider calls keep their lock; only this worker's claim is touched.
+  private async refreshLock(job: AiJob) {
+    try {
+      await this.prisma.aiJob.updateMany({
+        where: {
+          id: job.id,
+          status: AiJobStatus.RUNNING,
+          lockedBy: this.workerId,
+        },
+        data: { lockedAt: new Date() },
+      })
+    } catch (error) {
+      this.logger.warn(
+        `Failed to refresh the lock of AI job ${job.id}: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      )
+    }
+  }
+
+  private async recordFailure(job: AiJob, message: string) {
+    const exhausted = job.attempts >= job.maxAttempts
+    if (exhausted) {
+      this.logger.error(
+        `AI job ${job.id} for meeting ${job.calendarEventId} failed after ${job.attempts} attempts: ${message}`,
+      )
+    } else {
+      this.logger.warn(
+        `AI job ${job.id} for meeting ${job.calendarEventId} failed (attempt ${job.attempts}): ${message}`,
+      )
+    }
+
+    const now = new Date()
+    await this.prisma.aiJob.update({
+      where: { id: job.id },
+      data: {
+        status: exhausted ? AiJobStatus.FAILED : AiJobStatus.RETRYING,
+        lastError: message,
+        lockedAt: null,
+        lockedBy: null,
+        runAt: exhausted
+          ? job.runAt
+          : new Date(
+              now.getTime() + this.retryBaseMs * 2 ** (job.attempts - 1),
+            ),
+        deadLetteredAt: exhausted ? now : null,
+        completedAt: exhausted ? now : null,
+      },
+    })
+  }
+
+  private async releaseStaleLocks() {
+    const stale = await this.prisma.aiJob.findMany({
+      where: {
+        status: AiJobStatus.RUNNING,
+        lockedAt: { lt: new Date(Date.now() - AI_JOB_LOCK_TIMEOUT_MS) },
+      },
+    })
+    for (const job of stale) {
+      await this.recordFailure(job, "Worker stopped before the job finished")
+    }
+  }
+}
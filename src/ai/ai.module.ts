@@ -1,10 +1,32 @@
 import { Module } from "@nestjs/common"
 import { HttpModule } from "@nestjs/axios"
 import { AiContentService } from "./ai-content.service"
+import { AiJobsService } from "./ai-jobs.service"
+import { LlmProvidersService } from "./llm/llm-providers.service"
+import { MeetingEmbeddingsService } from "./embeddings/meeting-embeddings.service"
+import { PromptTemplatesService } from "./prompt-templates.service"
+import { PromptEvaluationService } from "./prompt-evaluation.service"
+import { PromptTemplatesController } from "./prompt-templates.controller"
+import { TranscriptsModule } from "../transcripts/transcripts.module"
+import { EmailModule } from "../email/email.module"
 
 @Module({
-  imports: [HttpModule],
-  providers: [AiContentService],
-  exports: [AiContentService],
+  imports: [HttpModule, TranscriptsModule, EmailModule],
+  controllers: [PromptTemplatesController],
+  providers: [
+    AiContentService,
+    AiJobsService,
+    LlmProvidersService,
+    MeetingEmbeddingsService,
+    PromptTemplatesService,
+    PromptEvaluationService,
+  ],
+  exports: [
+    AiContentService,
+    AiJobsService,
+    LlmProvidersService,
+    MeetingEmbeddingsService,
+    PromptTemplatesService,
+  ],
 })
 export class AiModule {}
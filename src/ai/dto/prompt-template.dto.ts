@@ -0,0 +1,110 @@
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from "class-validator"
+import { LlmProviderKind } from "@prisma/client"
+import { PROMPT_KEYS, type PromptKey } from "../prompts"
+
+export class PromptTemplateDto {
+  // null for the built-in version 1.
+  id!: string | null
+  key!: PromptKey
+  version!: number
+  systemPrompt!: string
+  notes!: string | null
+  isActive!: boolean
+  builtin!: boolean
+  createdAt!: string | null
+}
+
+export class PromptTemplatesQueryDto {
+  @IsOptional()
+  @IsIn(PROMPT_KEYS)
+  key?: PromptKey
+}
+
+export class CreatePromptTemplateDto {
+  @IsIn(PROMPT_KEYS)
+  key!: PromptKey
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(20000)
+  systemPrompt!: string
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  notes?: string
+
+  @IsOptional()
+  @IsBoolean()
+  activate?: boolean
+}
+
+export class ComparePromptVersionsDto {
+  @IsOptional()
+  @IsIn(PROMPT_KEYS)
+  key?: PromptKey
+
+  @IsInt()
+  @Min(1)
+  versionA!: number
+
+  @IsInt()
+  @Min(1)
+  versionB!: number
+
+  // Explicit meetings to compare on; otherwise the most recent meetings with
+  // a stored transcript are sampled.
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(10)
+  @IsString({ each: true })
+  meetingIds?: string[]
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(10)
+  sampleSize?: number
+
+  @IsOptional()
+  @IsEnum(LlmProviderKind)
+  provider?: LlmProviderKind
+}
+
+export class PromptRunDto {
+  summary!: string | null
+  followUpEmail!: string | null
+  actionItems!: unknown
+  // True when the provider failed and the template fallback was used.
+  fallback!: boolean
+  durationMs!: number
+  error!: string | null
+}
+
+export class PromptComparisonDto {
+  key!: PromptKey
+  versionA!: number
+  versionB!: number
+  provider!: LlmProviderKind
+  model!: string
+  results!: {
+    meetingId: string
+    title: string | null
+    startTime: string
+    a: PromptRunDto
+    b: PromptRunDto
+  }[]
+}
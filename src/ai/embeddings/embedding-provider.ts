@@ -0,0 +1,16 @@
+// Size of the `MeetingTranscriptChunk.embedding` column; every provider has
+// to produce vectors of exactly this length.
+export const EMBEDDING_DIMENSIONS = 1536
+
+export type EmbeddingProviderKind = "OPENAI" | "AZURE_OPENAI" | "LOCAL" | "HASH"
+
+/**
+ * A text embedding backend. `model` is stored with every chunk so vectors of
+ * different models are never compared. Implementations throw on transport
+ * errors and on vectors of the wrong size.
+ */
+export interface EmbeddingProvider {
+  readonly kind: EmbeddingProviderKind
+  readonly model: string
+  embed(texts: string[]): Promise<number[][]>
+}
@@ -0,0 +1,54 @@
+import {
+  EMBEDDING_DIMENSIONS,
+  type EmbeddingProvider,
+} from "./embedding-provider"
+
+const STOP_WORDS = new Set(
+  "a an and are as at be but by do for from has have i in is it its of on or so that the this to was we were what when which who will with you".split(
+    " ",
+  ),
+)
+
+/**
+ * Deterministic, offline stand-in for tests and local development: words and
+ * word pairs are hashed into signed buckets and the vector is normalised, so
+ * texts sharing vocabulary end up close under cosine distance. It knows
+ * nothing about synonyms.
+ */
+export class HashingEmbeddingProvider implements EmbeddingProvider {
+  readonly kind = "HASH" as const
+  readonly model = "local-hash-v1"
+
+  embed(texts: string[]): Promise<number[][]> {
+    return Promise.resolve(texts.map((text) => hashEmbedding(text)))
+  }
+}
+
+export function hashEmbedding(text: string): number[] {
+  const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0)
+  const words = (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).filter(
+    (word) => word.length > 1 && !STOP_WORDS.has(word),
+  )
+  const add = (feature: string, weight: number) => {
+    const hash = fnv1a(feature)
+    vector[hash % EMBEDDING_DIMENSIONS] += hash & 0x80000000 ? -weight : weight
+  }
+  words.forEach((word, index) => {
+    add(word, 1)
+    if (index > 0) {
+      add(`${words[index - 1]} ${word}`, 0.5)
+    }
+  })
+
+  const norm = Math.hypot(...vector)
+  return norm ? vector.map((value) => value / norm) : vector
+}
+
+function fnv1a(text: string) {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
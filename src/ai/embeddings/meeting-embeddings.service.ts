@@ -0,0 +1,181 @@
+import { Injectable, Logger } from "@nestjs/common"
+import { ConfigService } from "@nestjs/config"
+import OpenAI, { AzureOpenAI } from "openai"
+import { randomUUID } from "crypto"
+import { PrismaService } from "../../../prisma/prisma.service"
+import { chunkTranscript, type TranscriptSegment } from "../transcript-chunks"
+import type {
+  EmbeddingProvider,
+  EmbeddingProviderKind,
+} from "./embedding-provider"
+import { HashingEmbeddingProvider } from "./hashing.provider"
+import { OpenAiCompatibleEmbeddingProvider } from "./openai-compatible.provider"
+
+/** pgvector's text form of a vector, for `${...}::vector` parameters. */
+export const toVectorLiteral = (vector: number[]) => `[${vector.join(",")}]`
+
+/**
+ * Keeps an embedding per transcript chunk in `MeetingTranscriptChunk` for
+ * retrieval. The provider comes from `EMBEDDING_PROVIDER` (OpenAI when unset
+ * and a key exists, the hashing stand-in outside production); without one,
+ * nothing is indexed.
+ */
+@Injectable()
+export class MeetingEmbeddingsService {
+  private readonly logger = new Logger(MeetingEmbeddingsService.name)
+  readonly provider: EmbeddingProvider | null
+  private readonly chunkTokens: number
+  private readonly chunkSeconds: number
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+  ) {
+    this.provider = this.buildProvider()
+    // Much smaller than summarisation chunks so a hit points at one topic.
+    this.chunkTokens = Number(
+      this.configService.get<string>("EMBEDDING_CHUNK_TOKENS") ?? 400,
+    )
+    this.chunkSeconds =
+      Number(this.configService.get<string>("EMBEDDING_CHUNK_MINUTES") ?? 3) *
+      60
+  }
+
+  /**
+   * Chunks and embeds a meeting transcript unless it is already indexed with
+   * the current model. Returns the number of chunks stored.
+   */
+  async indexMeeting(eventId: string, segments: TranscriptSegment[]) {
+    const provider = this.provider
+    if (!provider) {
+      return 0
+    }
+    const indexed = await this.prisma.meetingTranscriptChunk.count({
+      where: { calendarEventId: eventId, embeddingModel: provider.model },
+    })
+    if (indexed) {
+      return indexed
+    }
+
+    const chunks = chunkTranscript(
+      segments,
+      this.chunkTokens,
+      this.chunkSeconds,
+    )
+    if (!chunks.length) {
+      return 0
+    }
+    const vectors = await provider.embed(chunks.map((chunk) => chunk.text))
+
+    // Prisma cannot write Unsupported columns, so rows go in as raw SQL.
+    await this.prisma.$transaction([
+      this.prisma.meetingTranscriptChunk.deleteMany({
+        where: { calendarEventId: eventId },
+      }),
+      ...chunks.map(
+        (chunk, index) => this.prisma.$executeRaw`
+          INSERT INTO "MeetingTranscriptChunk" ("id", "calendarEventId", "index",
+            "speakers", "startSeconds", "endSeconds", "text", "embeddingModel", "embedding")
+          VALUES (${randomUUID()}, ${eventId}, ${chunk.index}, ${chunk.speakers},
+            ${chunk.startSeconds}, ${chunk.endSeconds}, ${chunk.text},
+            ${provider.model}, ${toVectorLiteral(vectors[index])}::vector)
+        `,
+      ),
+    ])
+    this.logger.log(
+      `Indexed ${chunks.length} transcript chunks of meeting ${eventId} with ${provider.model}`,
+    )
+    return chunks.length
+  }
+
+  /**
+   * Indexed chunks of one meeting, most relevant to `text` first. Empty when
+   * the meeting is not indexed with the current model.
+   */
+  async rankMeetingChunks(
+    eventId: string,
+    text: string,
+  ): Promise<{ index: number; text: string }[]> {
+    const provider = this.provider
+    if (!provider) {
+      return []
+    }
+    const [vector] = await provider.embed([text])
+    return this.prisma.$queryRaw<{ index: number; text: string }[]>`
+      SELECT "index", "text" FROM "MeetingTranscriptChunk"
+      WHERE "calendarEventId" = ${eventId}
+        AND "embeddingModel" = ${provider.model}
+        AND "embedding" IS NOT NULL
+      ORDER BY "embedding" <=> ${toVectorLiteral(vector)}::vector
+    `
+  }
+
+  private buildProvider(): EmbeddingProvider | null {
+    const get = (key: string) => this.configService.get<string>(key)
+    const configured = get("EMBEDDING_PROVIDER")?.trim().toUpperCase()
+    const kind: EmbeddingProviderKind | undefined = configured
+      ? (configured as EmbeddingProviderKind)
+      : get("OPENAI_API_KEY")
+        ? "OPENAI"
+        : get("NODE_ENV") !== "production"
+          ? "HASH"
+          : undefined
+
+    switch (kind) {
+      case undefined:
+        return null
+      case "HASH":
+        return new HashingEmbeddingProvider()
+      case "OPENAI": {
+        const apiKey = get("OPENAI_API_KEY")
+        if (apiKey) {
+          return new OpenAiCompatibleEmbeddingProvider(
+            kind,
+            new OpenAI({ apiKey }),
+            get("OPENAI_EMBEDDING_MODEL") ?? "text-embedding-3-small",
+          )
+        }
+        break
+      }
+      case "AZURE_OPENAI": {
+        const apiKey = get("AZURE_OPENAI_API_KEY")
+        const endpoint = get("AZURE_OPENAI_ENDPOINT")
+        const deployment = get("AZURE_OPENAI_EMBEDDING_DEPLOYMENT")
+        if (apiKey && endpoint && deployment) {
+          return new OpenAiCompatibleEmbeddingProvider(
+            kind,
+            new AzureOpenAI({
+              apiKey,
+              endpoint,
+              deployment,
+              apiVersion: get("AZURE_OPENAI_API_VERSION") ?? "2024-10-21",
+            }),
+            deployment,
+          )
+        }
+        break
+      }
+      case "LOCAL": {
+        const baseURL = get("LOCAL_LLM_BASE_URL")
+        const model = get("LOCAL_EMBEDDING_MODEL")
+        if (baseURL && model) {
+          // Local servers ignore `dimensions`; the model must emit 1536.
+          return new OpenAiCompatibleEmbeddingProvider(
+            kind,
+            new OpenAI({
+              baseURL,
+              apiKey: get("LOCAL_LLM_API_KEY") ?? "local",
+            }),
+            model,
+            false,
+          )
+        }
+        break
+      }
+    }
+    this.logger.warn(
+      `EMBEDDING_PROVIDER=${configured} is not configured; meeting Q&A is disabled`,
+    )
+    return null
+  }
+}
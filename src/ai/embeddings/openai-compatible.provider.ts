@@ -0,0 +1,47 @@
+import OpenAI from "openai"
+import {
+  EMBEDDING_DIMENSIONS,
+  type EmbeddingProvider,
+  type EmbeddingProviderKind,
+} from "./embedding-provider"
+
+// Inputs per request; OpenAI accepts more but large batches time out.
+const BATCH_SIZE = 64
+
+/**
+ * Embeddings over the OpenAI API shape: OpenAI itself, Azure OpenAI (where
+ * `model` is the deployment) and local servers such as Ollama. The
+ * `dimensions` parameter shortens text-embedding-3 vectors to the column
+ * size; local models have to produce that size natively.
+ */
+export class OpenAiCompatibleEmbeddingProvider implements EmbeddingProvider {
+  constructor(
+    readonly kind: EmbeddingProviderKind,
+    private readonly client: OpenAI,
+    readonly model: string,
+    private readonly sendDimensions = true,
+  ) {}
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const vectors: number[][] = []
+    for (let start = 0; start < texts.length; start += BATCH_SIZE) {
+      const response = await this.client.embeddings.create({
+        model: this.model,
+        input: texts.slice(start, start + BATCH_SIZE),
+        ...(this.sendDimensions && { dimensions: EMBEDDING_DIMENSIONS }),
+      })
+      const batch = [...response.data]
+        .sort((a, b) => a.index - b.index)
+        .map((item) => item.embedding)
+      for (const vector of batch) {
+        if (vector.length !== EMBEDDING_DIMENSIONS) {
+          throw new Error(
+            `${this.model} returned ${vector.length} dimensions, expected ${EMBEDDING_DIMENSIONS}`,
+          )
+        }
+      }
+      vectors.push(...batch)
+    }
+    return vectors
+  }
+}
@@ -0,0 +1,75 @@
+import { HttpService } from "@nestjs/axios"
+import { LlmProviderKind } from "@prisma/client"
+import type {
+  LlmCompletion,
+  LlmCompletionRequest,
+  LlmProvider,
+} from "./llm-provider"
+
+const ANTHROPIC_VERSION = "2023-06-01"
+const DEFAULT_MAX_TOKENS = 4096
+
+type AnthropicMessageResponse = {
+  model: string
+  content: Array<{ type: string; text?: string }>
+}
+
+/** Anthropic Messages API over plain HTTP. */
+export class AnthropicProvider implements LlmProvider {
+  readonly kind = LlmProviderKind.ANTHROPIC
+
+  constructor(
+    private readonly http: HttpService,
+    private readonly apiKey: string,
+    readonly model: string,
+    private readonly baseUrl = "https://api.anthropic.com",
+  ) {}
+
+  async complete(request: LlmCompletionRequest): Promise<LlmCompletion> {
+    const system = request.messages
+      .filter((message) => message.role === "system")
+      .map((message) => message.content)
+    if (request.json) {
+      system.push("Reply with a single JSON object and nothing else.")
+    }
+
+    const { data } = await this.http.axiosRef.post<AnthropicMessageResponse>(
+      `${this.baseUrl}/v1/messages`,
+      {
+        model: this.model,
+        max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+        temperature: request.temperature,
+        system: system.join("\n\n") || undefined,
+        messages: request.messages
+          .filter((message) => message.role !== "system")
+          .map((message) => ({ role: message.role, content: message.content })),
+      },
+      {
+        headers: {
+          "x-api-key": this.apiKey,
+          "anthropic-version": ANTHROPIC_VERSION,
+          "content-type": "application/json",
+        },
+      },
+    )
+
+    const text = data.content
+      .filter((block) => block.type === "text" && block.text)
+      .map((block) => block.text)
+      .join("")
+      .trim()
+    if (!text) {
+      throw new Error("Empty ANTHROPIC response")
+    }
+    return {
+      text: request.json ? extractJsonObject(text) : text,
+      model: data.model ?? this.model,
+    }
+  }
+}
+
+function extractJsonObject(text: string) {
+  const start = text.indexOf("{")
+  const end = text.lastIndexOf("}")
+  return start >= 0 && end > start ? text.slice(start, end + 1) : text
+}
@@ -0,0 +1,64 @@
+import { LlmProviderKind } from "@prisma/client"
+import type {
+  LlmCompletion,
+  LlmCompletionRequest,
+  LlmProvider,
+} from "./llm-provider"
+
+export type FakeResponder = (request: LlmCompletionRequest) => string
+
+/**
+ * Deterministic, offline stand-in for tests and local development. By default
+ * it echoes the start of the last user message: as plain text, or for JSON
+ * requests as `{ summary, followUpEmail, actionItems: [] }`. Tests can pass a
+ * responder, and inspect `calls` after turning on `recordCalls()`.
+ */
+export class FakeLlmProvider implements LlmProvider {
+  readonly kind = LlmProviderKind.FAKE
+  readonly model = "fake"
+  readonly calls: LlmCompletionRequest[] = []
+  // Off by default so a long-running server does not keep every prompt.
+  private recording = false
+
+  constructor(private readonly responder: FakeResponder = defaultResponder) {}
+
+  recordCalls() {
+    this.recording = true
+    return this
+  }
+
+  complete(request: LlmCompletionRequest): Promise<LlmCompletion> {
+    if (this.recording) {
+      this.calls.push(request)
+    }
+    return Promise.resolve({ text: this.responder(request), model: this.model })
+  }
+
+  // Streams the reply word by word.
+  async stream(
+    request: LlmCompletionRequest,
+    onDelta: (text: string) => void,
+  ): Promise<LlmCompletion> {
+    const completion = await this.complete(request)
+    for (const word of completion.text.match(/\S+\s*/g) ?? []) {
+      onDelta(word)
+    }
+    return completion
+  }
+}
+
+function defaultResponder(request: LlmCompletionRequest) {
+  const prompt =
+    [...request.messages].reverse().find((message) => message.role === "user")
+      ?.content ?? ""
+  const excerpt = prompt.split(/\s+/).filter(Boolean).slice(0, 40).join(" ")
+
+  if (!request.json) {
+    return `[fake] ${excerpt}`
+  }
+  return JSON.stringify({
+    summary: `[fake] ${excerpt}`,
+    followUpEmail: `Hi team,\n\n[fake] ${excerpt}\n\nBest`,
+    actionItems: [],
+  })
+}
@@ -0,0 +1,52 @@
+import { LlmProviderKind } from "@prisma/client"
+
+export type LlmMessage = {
+  role: "system" | "user" | "assistant"
+  content: string
+}
+
+export type LlmCompletionRequest = {
+  messages: LlmMessage[]
+  temperature?: number
+  maxTokens?: number
+  // Ask for a single JSON object; providers without a JSON mode are prompted
+  // for one and the object is cut out of the reply.
+  json?: boolean
+}
+
+export type LlmCompletion = {
+  text: string
+  model: string
+}
+
+/**
+ * A chat-completion backend. Implementations throw on transport or API errors
+ * and on empty replies so callers can fall back or retry.
+ */
+export interface LlmProvider {
+  readonly kind: LlmProviderKind
+  readonly model: string
+  complete(request: LlmCompletionRequest): Promise<LlmCompletion>
+  // Optional token streaming; see `streamCompletion`.
+  stream?(
+    request: LlmCompletionRequest,
+    onDelta: (text: string) => void,
+  ): Promise<LlmCompletion>
+}
+
+/**
+ * Streams a completion through `onDelta` when the provider supports it,
+ * otherwise delivers the whole reply as a single delta.
+ */
+export async function streamCompletion(
+  provider: LlmProvider,
+  request: LlmCompletionRequest,
+  onDelta: (text: string) => void,
+): Promise<LlmCompletion> {
+  if (provider.stream) {
+    return provider.stream(request, onDelta)
+  }
+  const completion = await provider.complete(request)
+  onDelta(completion.text)
+  return completion
+}
@@ -0,0 +1,151 @@
+import { Injectable, Logger } from "@nestjs/common"
+import { ConfigService } from "@nestjs/config"
+import { HttpService } from "@nestjs/axios"
+import { LlmProviderKind } from "@prisma/client"
+import OpenAI, { AzureOpenAI } from "openai"
+import { PrismaService } from "../../../prisma/prisma.service"
+import { AnthropicProvider } from "./anthropic.provider"
+import { FakeLlmProvider } from "./fake.provider"
+import type { LlmProvider } from "./llm-provider"
+import { OpenAiCompatibleProvider } from "./openai-compatible.provider"
+
+/**
+ * Builds the LLM providers configured in the environment and picks one per
+ * user: the user's `MeetingPreference.llmProvider` when that provider is
+ * configured, otherwise `LLM_PROVIDER` (OpenAI when unset and a key exists).
+ * With no provider at all, callers use their template fallbacks.
+ */
+@Injectable()
+export class LlmProvidersService {
+  private readonly logger = new Logger(LlmProvidersService.name)
+  private readonly providers = new Map<LlmProviderKind, LlmProvider>()
+  private readonly defaultKind: LlmProviderKind | null
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+    private readonly http: HttpService,
+  ) {
+    for (const provider of this.buildProviders()) {
+      this.providers.set(provider.kind, provider)
+    }
+    this.defaultKind = this.resolveDefaultKind()
+  }
+
+  get available(): LlmProviderKind[] {
+    return [...this.providers.keys()]
+  }
+
+  isAvailable(kind: LlmProviderKind) {
+    return this.providers.has(kind)
+  }
+
+  get(kind: LlmProviderKind): LlmProvider | null {
+    return this.providers.get(kind) ?? null
+  }
+
+  getDefault(): LlmProvider | null {
+    return this.defaultKind ? this.providers.get(this.defaultKind)! : null
+  }
+
+  async forUser(userId: string): Promise<LlmProvider | null> {
+    const preference = await this.prisma.meetingPreference.findUnique({
+      where: { userId },
+      select: { llmProvider: true },
+    })
+    const preferred = preference?.llmProvider
+    if (preferred && this.providers.has(preferred)) {
+      return this.providers.get(preferred)!
+    }
+    return this.getDefault()
+  }
+
+  private resolveDefaultKind(): LlmProviderKind | null {
+    const configured = this.configService
+      .get<string>("LLM_PROVIDER")
+      ?.trim()
+      .toUpperCase()
+    if (!configured) {
+      return this.providers.has(LlmProviderKind.OPENAI)
+        ? LlmProviderKind.OPENAI
+        : null
+    }
+    if (!this.providers.has(configured as LlmProviderKind)) {
+      this.logger.warn(
+        `LLM_PROVIDER=${configured} is not configured; AI content uses templates`,
+      )
+      return null
+    }
+    return configured as LlmProviderKind
+  }
+
+  private buildProviders(): LlmProvider[] {
+    const get = (key: string) => this.configService.get<string>(key)
+    const providers: LlmProvider[] = []
+
+    const openAiKey = get("OPENAI_API_KEY")
+    if (openAiKey) {
+      providers.push(
+        new OpenAiCompatibleProvider(
+          LlmProviderKind.OPENAI,
+          new OpenAI({ apiKey: openAiKey }),
+          get("OPENAI_MODEL") ?? "gpt-4o-mini",
+        ),
+      )
+    }
+
+    const azureKey = get("AZURE_OPENAI_API_KEY")
+    const azureEndpoint = get("AZURE_OPENAI_ENDPOINT")
+    const azureDeployment = get("AZURE_OPENAI_DEPLOYMENT")
+    if (azureKey && azureEndpoint && azureDeployment) {
+      providers.push(
+        new OpenAiCompatibleProvider(
+          LlmProviderKind.AZURE_OPENAI,
+          new AzureOpenAI({
+            apiKey: azureKey,
+            endpoint: azureEndpoint,
+            deployment: azureDeployment,
+            apiVersion: get("AZURE_OPENAI_API_VERSION") ?? "2024-10-21",
+          }),
+          azureDeployment,
+        ),
+      )
+    }
+
+    const anthropicKey = get("ANTHROPIC_API_KEY")
+    if (anthropicKey) {
+      providers.push(
+        new AnthropicProvider(
+          this.http,
+          anthropicKey,
+          get("ANTHROPIC_MODEL") ?? "claude-3-5-haiku-latest",
+          get("ANTHROPIC_BASE_URL") ?? undefined,
+        ),
+      )
+    }
+
+    const localUrl = get("LOCAL_LLM_BASE_URL")
+    if (localUrl) {
+      providers.push(
+        new OpenAiCompatibleProvider(
+          LlmProviderKind.LOCAL,
+          new OpenAI({
+            baseURL: localUrl,
+            // Ollama and llama.cpp ignore the key but the client requires one.
+            apiKey: get("LOCAL_LLM_API_KEY") ?? "local",
+          }),
+          get("LOCAL_LLM_MODEL") ?? "llama3.1",
+        ),
+      )
+    }
+
+    if (
+      get("NODE_ENV") === "test" ||
+      get("LLM_PROVIDER")?.toUpperCase() === LlmProviderKind.FAKE
+    ) {
+      providers.push(new FakeLlmProvider())
+    }
+
+    return providers
+  }
+}
@@ -0,0 +1,64 @@
+import { LlmProviderKind } from "@prisma/client"
+import OpenAI from "openai"
+import type {
+  LlmCompletion,
+  LlmCompletionRequest,
+  LlmProvider,
+} from "./llm-provider"
+
+/**
+ * Chat completions over the OpenAI API shape. Serves OpenAI itself, Azure
+ * OpenAI (through `AzureOpenAI`, where `model` is the deployment) and local
+ * OpenAI-compatible servers such as Ollama or llama.cpp.
+ */
+export class OpenAiCompatibleProvider implements LlmProvider {
+  constructor(
+    readonly kind: LlmProviderKind,
+    private readonly client: OpenAI,
+    readonly model: string,
+  ) {}
+
+  async complete(request: LlmCompletionRequest): Promise<LlmCompletion> {
+    const completion = await this.client.chat.completions.create({
+      model: this.model,
+      messages: request.messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      ...(request.json && {
+        response_format: { type: "json_object" as const },
+      }),
+    })
+    const text = completion.choices[0]?.message?.content?.trim()
+    if (!text) {
+      throw new Error(`Empty ${this.kind} response`)
+    }
+    return { text, model: completion.model ?? this.model }
+  }
+
+  async stream(
+    request: LlmCompletionRequest,
+    onDelta: (text: string) => void,
+  ): Promise<LlmCompletion> {
+    const stream = await this.client.chat.completions.create({
+      model: this.model,
+      messages: request.messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      stream: true,
+    })
+    let text = ""
+    let model = this.model
+    for await (const chunk of stream) {
+      model = chunk.model || model
+      const delta = chunk.choices[0]?.delta?.content
+      if (delta) {
+        text += delta
+        onDelta(delta)
+      }
+    }
+    if (!text.trim()) {
+      throw new Error(`Empty ${this.kind} response`)
+    }
+    return { text: text.trim(), model }
+  }
+}
@@ -0,0 +1,120 @@
+import { Injectable } from "@nestjs/common"
+import { PrismaService } from "../../prisma/prisma.service"
+import { AppError } from "../errors/app-error"
+import { ErrorCodes, FieldErrorCodes } from "../errors/error-codes"
+import { AiContentService } from "./ai-content.service"
+import { LlmProvidersService } from "./llm/llm-providers.service"
+import type { LlmProvider } from "./llm/llm-provider"
+import { PromptTemplatesService } from "./prompt-templates.service"
+import { MEETING_INSIGHT_PROMPT, type ResolvedPrompt } from "./prompts"
+import {
+  ComparePromptVersionsDto,
+  PromptComparisonDto,
+  PromptRunDto,
+} from "./dto/prompt-template.dto"
+
+const DEFAULT_SAMPLE_SIZE = 3
+
+/**
+ * Runs two prompt versions over the same stored transcripts so their output
+ * can be reviewed side by side. Nothing is saved.
+ */
+@Injectable()
+export class PromptEvaluationService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly aiContent: AiContentService,
+    private readonly llmProviders: LlmProvidersService,
+    private readonly promptTemplates: PromptTemplatesService,
+  ) {}
+
+  async compare(dto: ComparePromptVersionsDto): Promise<PromptComparisonDto> {
+    const key = dto.key ?? MEETING_INSIGHT_PROMPT
+    const llm = this.resolveProvider(dto)
+    const promptA = await this.promptTemplates.getVersion(key, dto.versionA)
+    const promptB = await this.promptTemplates.getVersion(key, dto.versionB)
+
+    const meetings = await this.prisma.calendarEvent.findMany({
+      where: {
+        ...(dto.meetingIds?.length && { id: { in: dto.meetingIds } }),
+        deletedAt: null,
+        // Indexed transcripts exist with or without an archive bucket.
+        transcriptSegments: { some: {} },
+      },
+      select: { id: true, title: true, startTime: true },
+      orderBy: { startTime: "desc" },
+      take: dto.meetingIds?.length || dto.sampleSize || DEFAULT_SAMPLE_SIZE,
+    })
+
+    const results: PromptComparisonDto["results"] = []
+    for (const meeting of meetings) {
+      results.push({
+        meetingId: meeting.id,
+        title: meeting.title,
+        startTime: meeting.startTime.toISOString(),
+        a: await this.run(meeting.id, llm, promptA),
+        b: await this.run(meeting.id, llm, promptB),
+      })
+    }
+
+    return {
+      key,
+      versionA: promptA.version,
+      versionB: promptB.version,
+      provider: llm.kind,
+      model: llm.model,
+      results,
+    }
+  }
+
+  private resolveProvider(dto: ComparePromptVersionsDto): LlmProvider {
+    const llm = dto.provider
+      ? this.llmProviders.get(dto.provider)
+      : this.llmProviders.getDefault()
+    if (!llm) {
+      throw new AppError(ErrorCodes.VALIDATION, {
+        fields: [
+          {
+            field: "provider",
+            code: dto.provider
+              ? FieldErrorCodes.INVALID
+              : FieldErrorCodes.REQUIRED,
+          },
+        ],
+      })
+    }
+    return llm
+  }
+
+  private async run(
+    meetingId: string,
+    llm: LlmProvider,
+    prompt: ResolvedPrompt,
+  ): Promise<PromptRunDto> {
+    const startedAt = Date.now()
+    try {
+      const insight = await this.aiContent.previewInsight(
+        meetingId,
+        llm,
+        prompt,
+      )
+      return {
+        summary: insight.summary,
+        followUpEmail: insight.followUpEmail,
+        actionItems: insight.actionItems,
+        fallback: !insight.source,
+        durationMs: Date.now() - startedAt,
+        error: null,
+      }
+    } catch (error) {
+      return {
+        summary: null,
+        followUpEmail: null,
+        actionItems: [],
+        fallback: false,
+        durationMs: Date.now() - startedAt,
+        error: error instanceof Error ? error.message : String(error),
+      }
+    }
+  }
+}
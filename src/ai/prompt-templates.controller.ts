@@ -0,0 +1,67 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  ParseIntPipe,
+  Post,
+  Query,
+} from "@nestjs/common"
+import { ApiTags } from "@nestjs/swagger"
+import { Roles } from "nest-keycloak-connect"
+import { PromptTemplatesService } from "./prompt-templates.service"
+import { PromptEvaluationService } from "./prompt-evaluation.service"
+import { MEETING_INSIGHT_PROMPT, PROMPT_KEYS, type PromptKey } from "./prompts"
+import {
+  ComparePromptVersionsDto,
+  CreatePromptTemplateDto,
+  PromptComparisonDto,
+  PromptTemplateDto,
+  PromptTemplatesQueryDto,
+} from "./dto/prompt-template.dto"
+import { AppError } from "../errors/app-error"
+import { ErrorCodes } from "../errors/error-codes"
+
+@ApiTags("Admin")
+@Roles("ADMIN")
+@Controller("admin/ai/prompts")
+export class PromptTemplatesController {
+  constructor(
+    private readonly promptTemplates: PromptTemplatesService,
+    private readonly promptEvaluation: PromptEvaluationService,
+  ) {}
+
+  @Get()
+  async list(
+    @Query() query: PromptTemplatesQueryDto,
+  ): Promise<PromptTemplateDto[]> {
+    return this.promptTemplates.list(query.key ?? MEETING_INSIGHT_PROMPT)
+  }
+
+  @Post()
+  async create(
+    @Body() body: CreatePromptTemplateDto,
+  ): Promise<PromptTemplateDto> {
+    return this.promptTemplates.create(body)
+  }
+
+  @Post(":key/versions/:version/activate")
+  async activate(
+    @Param("key") key: string,
+    @Param("version", ParseIntPipe) version: number,
+  ): Promise<PromptTemplateDto> {
+    if (!PROMPT_KEYS.includes(key as PromptKey)) {
+      throw new AppError(ErrorCodes.NOT_FOUND, {
+        params: { resource: "PromptTemplate" },
+      })
+    }
+    return this.promptTemplates.activate(key as PromptKey, version)
+  }
+
+  @Post("compare")
+  async compare(
+    @Body() body: ComparePromptVersionsDto,
+  ): Promise<PromptComparisonDto> {
+    return this.promptEvaluation.compare(body)
+  }
+}
@@ -0,0 +1,142 @@
+import { Injectable } from "@nestjs/common"
+import { PromptTemplate } from "@prisma/client"
+import { PrismaService } from "../../prisma/prisma.service"
+import { AppError } from "../errors/app-error"
+import { ErrorCodes } from "../errors/error-codes"
+import { BUILTIN_PROMPTS, type PromptKey, type ResolvedPrompt } from "./prompts"
+import {
+  CreatePromptTemplateDto,
+  PromptTemplateDto,
+} from "./dto/prompt-template.dto"
+
+const BUILTIN_VERSION = 1
+
+@Injectable()
+export class PromptTemplatesService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async getActive(key: PromptKey): Promise<ResolvedPrompt> {
+    const active = await this.prisma.promptTemplate.findFirst({
+      where: { key, isActive: true },
+      orderBy: { version: "desc" },
+    })
+    return active ? this.toResolvedPrompt(active) : this.builtin(key)
+  }
+
+  async getVersion(key: PromptKey, version: number): Promise<ResolvedPrompt> {
+    const template = await this.prisma.promptTemplate.findUnique({
+      where: { key_version: { key, version } },
+    })
+    if (template) {
+      return this.toResolvedPrompt(template)
+    }
+    if (version === BUILTIN_VERSION) {
+      return this.builtin(key)
+    }
+    throw new AppError(ErrorCodes.NOT_FOUND, {
+      params: { resource: "PromptTemplate" },
+    })
+  }
+
+  async list(key: PromptKey): Promise<PromptTemplateDto[]> {
+    const templates = await this.prisma.promptTemplate.findMany({
+      where: { key },
+      orderBy: { version: "desc" },
+    })
+    const dtos = templates.map((template) => this.toPromptTemplateDto(template))
+    if (!templates.some((template) => template.version === BUILTIN_VERSION)) {
+      dtos.push({
+        id: null,
+        key,
+        version: BUILTIN_VERSION,
+        systemPrompt: BUILTIN_PROMPTS[key],
+        notes: null,
+        isActive: !templates.some((template) => template.isActive),
+        builtin: true,
+        createdAt: null,
+      })
+    }
+    return dtos
+  }
+
+  async create(dto: CreatePromptTemplateDto): Promise<PromptTemplateDto> {
+    const template = await this.prisma.$transaction(async (tx) => {
+      const latest = await tx.promptTemplate.findFirst({
+        where: { key: dto.key },
+        orderBy: { version: "desc" },
+        select: { version: true },
+      })
+      if (dto.activate) {
+        await tx.promptTemplate.updateMany({
+          where: { key: dto.key, isActive: true },
+          data: { isActive: false },
+        })
+      }
+      return tx.promptTemplate.create({
+        data: {
+          key: dto.key,
+          version: Math.max(latest?.version ?? 0, BUILTIN_VERSION) + 1,
+          systemPrompt: dto.systemPrompt,
+          notes: dto.notes?.trim() || null,
+          isActive: dto.activate ?? false,
+        },
+      })
+    })
+    return this.toPromptTemplateDto(template)
+  }
+
+  /**
+   * Makes `version` the one used for new content. Activating the built-in
+   * version just deactivates every stored one.
+   */
+  async activate(key: PromptKey, version: number): Promise<PromptTemplateDto> {
+    const target = await this.getVersion(key, version)
+    await this.prisma.$transaction([
+      this.prisma.promptTemplate.updateMany({
+        where: { key, isActive: true },
+        data: { isActive: false },
+      }),
+      ...(target.templateId
+        ? [
+            this.prisma.promptTemplate.update({
+              where: { id: target.templateId },
+              data: { isActive: true },
+            }),
+          ]
+        : []),
+    ])
+    const templates = await this.list(key)
+    return templates.find((template) => template.version === version)!
+  }
+
+  private builtin(key: PromptKey): ResolvedPrompt {
+    return {
+      key,
+      version: BUILTIN_VERSION,
+      templateId: null,
+      systemPrompt: BUILTIN_PROMPTS[key],
+    }
+  }
+
+  private toResolvedPrompt(template: PromptTemplate): ResolvedPrompt {
+    return {
+      key: template.key as PromptKey,
+      version: template.version,
+      templateId: template.id,
+      systemPrompt: template.systemPrompt,
+    }
+  }
+
+  private toPromptTemplateDto(template: PromptTemplate): PromptTemplateDto {
+    return {
+      id: template.id,
+      key: template.key as PromptKey,
+      version: template.version,
+      systemPrompt: template.systemPrompt,
+      notes: template.notes,
+      isActive: template.isActive,
+      builtin: false,
+      createdAt: template.createdAt.toISOString(),
+    }
+  }
+}
@@ -0,0 +1,28 @@
+export const MEETING_INSIGHT_PROMPT = "meeting-insight"
+export const MEETING_QA_PROMPT = "meeting-qa"
+export const MEETING_ASSISTANT_PROMPT = "meeting-assistant"
+
+export const PROMPT_KEYS = [
+  MEETING_INSIGHT_PROMPT,
+  MEETING_QA_PROMPT,
+  MEETING_ASSISTANT_PROMPT,
+] as const
+export type PromptKey = (typeof PROMPT_KEYS)[number]
+
+/** Version 1 of every prompt, used until an admin activates a newer one. */
+export const BUILTIN_PROMPTS: Record<PromptKey, string> = {
+  [MEETING_INSIGHT_PROMPT]:
+    'You create factual meeting summaries grounded in the provided transcript. Respond with JSON: {"summary":"...","followUpEmail":"...","actionItems":[{"description":"...","assignee":"...","dueDate":"YYYY-MM-DD","timestamp":"m:ss"}]}. List only tasks someone committed to. Use the attendee email as assignee when you can tell who it is, otherwise their name, or null. Resolve relative due dates against the meeting date and use null when none was given. Copy the [m:ss] marker of the line where the task was agreed, or null.',
+  [MEETING_QA_PROMPT]:
+    "You answer questions about the user's past meetings using only the numbered transcript excerpts provided. Cite every statement with the excerpt numbers it relies on, like [1] or [2][3]. If the excerpts do not contain the answer, say so plainly instead of guessing. Keep the answer short and refer to meetings by title and date.",
+  [MEETING_ASSISTANT_PROMPT]:
+    "You are the assistant in the chat thread of one meeting. Answer the latest question using only the meeting summary, action items and transcript provided, and the chat so far. Mention the [m:ss] marker of the transcript lines you rely on. If the material does not cover the question, say so. Reply in plain text, briefly, as a chat message.",
+}
+
+export type ResolvedPrompt = {
+  key: PromptKey
+  version: number
+  // null for the built-in version.
+  templateId: string | null
+  systemPrompt: string
+}
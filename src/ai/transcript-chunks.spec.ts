@@ -0,0 +1,118 @@
+import {
+  chunkTranscript,
+  readTranscriptSegments,
+  resolveTokenBudget,
+} from "./transcript-chunks"
+
+const words = (text: string, start: number, end: number) =>
+  text.split(" ").map((word, index, all) => ({
+    text: word,
+    start_timestamp: { relative: start + ((end - start) * index) / all.length },
+    end_timestamp: {
+      relative: start + ((end - start) * (index + 1)) / all.length,
+    },
+  }))
+
+describe("transcript chunks", () => {
+  it("reads speakers, text and timings from Recall transcripts", () => {
+    const segments = readTranscriptSegments([
+      {
+        participant: { id: 100, name: "Dana", email: "dana@example.com" },
+        words: words("Hello there", 0, 2),
+      },
+      { speaker: "Sam", speaker_id: "7", text: "Hi" },
+      { participant: {}, words: [] },
+    ])
+
+    expect(segments).toEqual([
+      {
+        speakerId: "100",
+        speaker: "Dana",
+        speakerEmail: "dana@example.com",
+        text: "Hello there",
+        startSeconds: 0,
+        endSeconds: 2,
+        words: [
+          { text: "Hello", startSeconds: 0, endSeconds: 1 },
+          { text: "there", startSeconds: 1, endSeconds: 2 },
+        ],
+      },
+      {
+        speakerId: "7",
+        speaker: "Sam",
+        speakerEmail: null,
+        text: "Hi",
+        startSeconds: null,
+        endSeconds: null,
+        words: [],
+      },
+    ])
+    expect(readTranscriptSegments({ segments: [{ text: "Hi" }] })).toHaveLength(
+      1,
+    )
+  })
+
+  it("splits along speaker turns within the token budget", () => {
+    const segments = Array.from({ length: 6 }, (_, index) => ({
+      speaker: index % 2 ? "Sam" : "Dana",
+      text: "x".repeat(150),
+      startSeconds: index * 60,
+      endSeconds: index * 60 + 50,
+    }))
+
+    const chunks = chunkTranscript(segments, 100, Number.POSITIVE_INFINITY)
+
+    expect(chunks).toHaveLength(3)
+    expect(chunks.every((chunk) => chunk.tokens <= 100)).toBe(true)
+    expect(chunks[1]).toMatchObject({
+      index: 1,
+      speakers: ["Dana", "Sam"],
+      startSeconds: 120,
+      endSeconds: 230,
+    })
+  })
+
+  it("starts a new chunk once the time window is used up", () => {
+    const segments = [0, 1, 2].map((index) => ({
+      speaker: index % 2 ? "Sam" : "Dana",
+      text: "short",
+      startSeconds: index * 600,
+      endSeconds: index * 600 + 30,
+    }))
+
+    const chunks = chunkTranscript(segments, 10_000, 900)
+
+    expect(chunks.map((chunk) => chunk.speakers)).toEqual([
+      ["Dana", "Sam"],
+      ["Dana"],
+    ])
+  })
+
+  it("breaks up a single turn that exceeds the budget", () => {
+    const sentence = "This sentence is about forty characters. "
+    const chunks = chunkTranscript(
+      [
+        {
+          speaker: "Dana",
+          text: sentence.repeat(20),
+          startSeconds: null,
+          endSeconds: null,
+        },
+      ],
+      50,
+      Number.POSITIVE_INFINITY,
+    )
+
+    expect(chunks.length).toBeGreaterThan(1)
+    expect(chunks.every((chunk) => chunk.text.startsWith("Dana: "))).toBe(true)
+  })
+
+  it("budgets chunks by model context window", () => {
+    expect(resolveTokenBudget("gpt-4o-mini", 6000)).toEqual({
+      contextTokens: 128_000,
+      chunkTokens: 6000,
+      reduceTokens: 124_000,
+    })
+    expect(resolveTokenBudget("gpt-4-0613", 6000).chunkTokens).toBe(2096)
+  })
+})
@@ -0,0 +1,312 @@
+export type TranscriptSegment = {
+  speaker: string
+  text: string
+  startSeconds: number | null
+  endSeconds: number | null
+}
+
+export type TranscriptWord = {
+  text: string
+  startSeconds: number | null
+  endSeconds: number | null
+}
+
+/**
+ * Canonical form of a Recall transcript segment, as stored in
+ * `MeetingTranscriptSegment`. `speakerId` is the platform participant id when
+ * Recall reports one.
+ */
+export type ParsedTranscriptSegment = TranscriptSegment & {
+  speakerId: string | null
+  speakerEmail: string | null
+  words: TranscriptWord[]
+}
+
+export type TranscriptChunk = {
+  index: number
+  speakers: string[]
+  startSeconds: number | null
+  endSeconds: number | null
+  tokens: number
+  text: string
+}
+
+export type TokenBudget = {
+  contextTokens: number
+  chunkTokens: number
+  reduceTokens: number
+}
+
+// Context windows by model prefix; the longest matching prefix wins.
+const MODEL_CONTEXT_TOKENS: Record<string, number> = {
+  "claude": 200_000,
+  "gpt-3.5-turbo": 16_385,
+  "gpt-4": 8_192,
+  "gpt-4-turbo": 128_000,
+  "gpt-4o": 128_000,
+  "gpt-4.1": 1_047_576,
+  "gpt-5": 400_000,
+  "o1": 200_000,
+  "o3": 200_000,
+  "o4-mini": 200_000,
+}
+const DEFAULT_CONTEXT_TOKENS = 16_385
+// Room left for the system prompt, meeting details and the model's answer.
+const PROMPT_RESERVE_TOKENS = 4_000
+
+/**
+ * Rough token count (~4 characters per token for English text). Good enough
+ * for budgeting; it errs on the side of smaller chunks.
+ */
+export function estimateTokens(text: string) {
+  return Math.ceil(text.length / 4)
+}
+
+/**
+ * Budget for map-reduce summarisation with `model`: chunks are capped at
+ * `preferredChunkTokens` (and at half the usable context), the reduce step may
+ * use everything but the prompt reserve.
+ */
+export function resolveTokenBudget(
+  model: string,
+  preferredChunkTokens: number,
+): TokenBudget {
+  const prefix = Object.keys(MODEL_CONTEXT_TOKENS)
+    .filter((candidate) => model.startsWith(candidate))
+    .sort((a, b) => b.length - a.length)[0]
+  const contextTokens = prefix
+    ? MODEL_CONTEXT_TOKENS[prefix]
+    : DEFAULT_CONTEXT_TOKENS
+  const usable = Math.max(contextTokens - PROMPT_RESERVE_TOKENS, 1_000)
+  return {
+    contextTokens,
+    chunkTokens: Math.min(preferredChunkTokens, Math.floor(usable / 2)),
+    reduceTokens: usable,
+  }
+}
+
+/**
+ * Normalises the transcript shapes Recall has produced over time (a bare
+ * segment list or `{ segments }`, with `text`/`message`/`words`) into
+ * canonical segments. Runs once when the transcript is captured; everything
+ * else reads the stored segments.
+ */
+export function readTranscriptSegments(
+  payload: unknown,
+): ParsedTranscriptSegment[] {
+  const source = Array.isArray(payload)
+    ? payload
+    : isRecord(payload) && Array.isArray(payload.segments)
+      ? payload.segments
+      : []
+
+  const segments: ParsedTranscriptSegment[] = []
+  for (const item of source as unknown[]) {
+    const segment = readSegment(item)
+    if (segment) {
+      segments.push(segment)
+    }
+  }
+  return segments
+}
+
+/**
+ * Splits a transcript into chunks along speaker turns. A chunk closes when the
+ * next turn would push it over `maxTokens` or past `maxSeconds` of meeting
+ * time; a single turn longer than `maxTokens` is split on sentence boundaries.
+ */
+export function chunkTranscript(
+  segments: TranscriptSegment[],
+  maxTokens: number,
+  maxSeconds: number,
+): TranscriptChunk[] {
+  const chunks: TranscriptChunk[] = []
+  let lines: string[] = []
+  let speakers = new Set<string>()
+  let tokens = 0
+  let startSeconds: number | null = null
+  let endSeconds: number | null = null
+
+  const flush = () => {
+    if (!lines.length) {
+      return
+    }
+    chunks.push({
+      index: chunks.length,
+      speakers: [...speakers],
+      startSeconds,
+      endSeconds,
+      tokens,
+      text: lines.join("\n"),
+    })
+    lines = []
+    speakers = new Set()
+    tokens = 0
+    startSeconds = null
+    endSeconds = null
+  }
+
+  for (const turn of mergeTurns(segments)) {
+    for (const text of splitText(turn.text, maxTokens)) {
+      const line =
+        turn.startSeconds !== null
+          ? `[${formatOffset(turn.startSeconds)}] ${turn.speaker}: ${text}`
+          : `${turn.speaker}: ${text}`
+      const lineTokens = estimateTokens(line) + 1
+      const overBudget = tokens + lineTokens > maxTokens
+      const overTime =
+        startSeconds !== null &&
+        turn.endSeconds !== null &&
+        turn.endSeconds - startSeconds > maxSeconds
+      if (lines.length && (overBudget || overTime)) {
+        flush()
+      }
+      lines.push(line)
+      speakers.add(turn.speaker)
+      tokens += lineTokens
+      startSeconds ??= turn.startSeconds
+      endSeconds = turn.endSeconds ?? endSeconds
+    }
+  }
+  flush()
+
+  return chunks
+}
+
+/** Formats a recording offset as `m:ss`, the marker used in chunk text. */
+export function formatOffset(seconds: number | null) {
+  if (seconds === null) {
+    return "?"
+  }
+  const minutes = Math.floor(seconds / 60)
+  const rest = Math.floor(seconds % 60)
+  return `${minutes}:${String(rest).padStart(2, "0")}`
+}
+
+/** Parses `m:ss` / `h:mm:ss` markers back into seconds. */
+export function parseOffset(value: unknown) {
+  if (typeof value === "number" && Number.isFinite(value) && value >= 0) {
+    return value
+  }
+  if (typeof value !== "string") {
+    return null
+  }
+  const match = value.trim().match(/^\[?(?:(\d+):)?(\d{1,3}):(\d{2})\]?$/)
+  if (!match) {
+    return null
+  }
+  const [, hours, minutes, seconds] = match
+  return Number(hours ?? 0) * 3600 + Number(minutes) * 60 + Number(seconds)
+}
+
+function mergeTurns(segments: TranscriptSegment[]) {
+  const turns: TranscriptSegment[] = []
+  for (const segment of segments) {
+    const previous = turns[turns.length - 1]
+    if (previous && previous.speaker === segment.speaker) {
+      previous.text = `${previous.text} ${segment.text}`
+      previous.endSeconds = segment.endSeconds ?? previous.endSeconds
+    } else {
+      turns.push({ ...segment })
+    }
+  }
+  return turns
+}
+
+function splitText(text: string, maxTokens: number): string[] {
+  if (estimateTokens(text) <= maxTokens) {
+    return [text]
+  }
+
+  const maxChars = maxTokens * 4
+  const pieces: string[] = []
+  let current = ""
+  for (const sentence of text.match(/[^.!?]+[.!?]*\s*/g) ?? [text]) {
+    if (current && current.length + sentence.length > maxChars) {
+      pieces.push(current.trim())
+      current = ""
+    }
+    if (sentence.length > maxChars) {
+      for (let offset = 0; offset < sentence.length; offset += maxChars) {
+        pieces.push(sentence.slice(offset, offset + maxChars).trim())
+      }
+      continue
+    }
+    current += sentence
+  }
+  if (current.trim()) {
+    pieces.push(current.trim())
+  }
+  return pieces.filter(Boolean)
+}
+
+function readSegment(item: unknown): ParsedTranscriptSegment | null {
+  if (!isRecord(item)) {
+    return null
+  }
+
+  const participant = isRecord(item.participant) ? item.participant : null
+  const speakerEmail = readString(participant?.email)
+  const speaker =
+    readString(participant?.name) ??
+    readString(item.speaker) ??
+    speakerEmail ??
+    "Speaker"
+  // Older payloads carry a numeric `speaker_id` instead of a participant.
+  const rawId = participant?.id ?? item.speaker_id
+  const speakerId =
+    typeof rawId === "string" || typeof rawId === "number"
+      ? String(rawId)
+      : null
+  const words = (Array.isArray(item.words) ? (item.words as unknown[]) : [])
+    .map(readWord)
+    .filter((word): word is TranscriptWord => !!word)
+  const text =
+    readString(item.text) ??
+    readString(item.message) ??
+    readString(item.body) ??
+    (words.length ? words.map((word) => word.text).join(" ") : null)
+  if (!text) {
+    return null
+  }
+
+  return {
+    speakerId,
+    speaker,
+    speakerEmail,
+    text,
+    startSeconds: words[0]?.startSeconds ?? null,
+    endSeconds: words[words.length - 1]?.endSeconds ?? null,
+    words,
+  }
+}
+
+function readWord(word: unknown): TranscriptWord | null {
+  const text = isRecord(word) ? readString(word.text) : null
+  if (!text) {
+    return null
+  }
+  return {
+    text,
+    startSeconds: readTimestamp(word, "start"),
+    endSeconds: readTimestamp(word, "end"),
+  }
+}
+
+// Recall has used both `start_timestamp: { relative }` and `start_time`.
+function readTimestamp(word: unknown, edge: "start" | "end") {
+  if (!isRecord(word)) {
+    return null
+  }
+  const stamp = word[`${edge}_timestamp`]
+  const value = isRecord(stamp) ? stamp.relative : word[`${edge}_time`]
+  return typeof value === "number" && Number.isFinite(value) ? value : null
+}
+
+function readString(value: unknown) {
+  return typeof value === "string" && value.trim() ? value : null
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value)
+}
@@ -1,27 +1,28 @@
 import { Injectable, Logger } from "@nestjs/common"
 import { Interval } from "@nestjs/schedule"
-import {
-  CalendarEventStatus,
-  ConnectedAccount,
-  ConnectedProvider,
-  MeetingPlatform,
-} from "@prisma/client"
-import { google, type calendar_v3 } from "googleapis"
+import { ConnectedAccount } from "@prisma/client"
 import { addDays, startOfMonth } from "date-fns"
 import { PrismaService } from "../../prisma/prisma.service"
-import { CalendarService, UpsertCalendarEventInput } from "./calendar.service"
+import { CalendarService } from "./calendar.service"
 import { RecallService } from "../recall/recall.service"
-import { GoogleOAuthService } from "../integrations/google/google-oauth.service"
+import { CalendarProviderRegistry } from "./providers/calendar-provider.registry"
 import {
   CALENDAR_GOOGLE_SYNC_INTERVAL_MS,
   CALENDAR_SYNC_LOOKBACK_MS,
   CALENDAR_SYNC_MAX_SCHEDULED_BATCH,
+  CALENDAR_FULL_RESYNC_INTERVAL_MS,
+  CALENDAR_WEBHOOK_FALLBACK_SYNC_MS,
 } from "./calendar.constants"
 import type {
   AccountSyncResult,
   CalendarSyncSummary,
+  CalendarSyncWindow,
   SyncTriggerSource,
 } from "./types/calendar-sync.types"
+import type {
+  CalendarProviderAdapter,
+  CalendarProviderChanges,
+} from "./types/calendar-provider.types"
 
 @Injectable()
 export class CalendarSyncService {
@@ -33,7 +34,7 @@ export class CalendarSyncService {
     private readonly prisma: PrismaService,
     private readonly calendarService: CalendarService,
     private readonly recallService: RecallService,
-    private readonly googleOAuth: GoogleOAuthService,
+    private readonly providerRegistry: CalendarProviderRegistry,
   ) {}
 
   @Interval(CALENDAR_GOOGLE_SYNC_INTERVAL_MS)
@@ -43,16 +44,31 @@ export class CalendarSyncService {
     }
     this.schedulerInFlight = true
     try {
-      const dueBefore = new Date(Date.now() - CALENDAR_SYNC_LOOKBACK_MS)
+      const now = new Date()
+      const dueBefore = new Date(now.getTime() - CALENDAR_SYNC_LOOKBACK_MS)
+      // Accounts with a live push channel only need an occasional
+      // reconciliation pass; Google notifies us about changes in between.
+      const webhookDueBefore = new Date(
+        now.getTime() - CALENDAR_WEBHOOK_FALLBACK_SYNC_MS,
+      )
       const accounts = await this.prisma.connectedAccount.findMany({
         where: {
-          provider: ConnectedProvider.GOOGLE_CALENDAR,
+          provider: { in: this.providerRegistry.providers },
           OR: [
             { lastSyncedAt: null },
             {
               lastSyncedAt: {
                 lt: dueBefore,
               },
+              OR: [
+                { calendarChannelExpiresAt: null },
+                { calendarChannelExpiresAt: { lte: now } },
+              ],
+            },
+            {
+              lastSyncedAt: {
+                lt: webhookDueBefore,
+              },
             },
           ],
         },
@@ -78,7 +94,7 @@ export class CalendarSyncService {
     const accounts = await this.prisma.connectedAccount.findMany({
       where: {
         userId,
-        provider: ConnectedProvider.GOOGLE_CALENDAR,
+        provider: { in: this.providerRegistry.providers },
       },
       orderBy: { createdAt: "asc" },
     })
@@ -126,14 +142,17 @@ export class CalendarSyncService {
     return summary
   }
 
-  async syncAccountById(accountId: string) {
+  async syncAccountById(
+    accountId: string,
+    source: SyncTriggerSource = "oauth",
+  ) {
     const account = await this.prisma.connectedAccount.findUnique({
       where: { id: accountId },
     })
-    if (!account || account.provider !== ConnectedProvider.GOOGLE_CALENDAR) {
+    if (!account || !this.providerRegistry.supports(account.provider)) {
       return
     }
-    await this.syncAccountWithLock(account, "oauth")
+    await this.syncAccountWithLock(account, source)
   }
 
   private async syncAccountWithLock(
@@ -147,7 +166,8 @@ export class CalendarSyncService {
       return { accountId: account.id, status: "skipped" }
     }
 
-    if (account.provider !== ConnectedProvider.GOOGLE_CALENDAR) {
+    const adapter = this.providerRegistry.find(account.provider)
+    if (!adapter) {
       return {
         accountId: account.id,
         status: "skipped",
@@ -157,7 +177,7 @@ export class CalendarSyncService {
 
     this.activeAccountLocks.add(account.id)
     try {
-      await this.syncGoogleAccount(account)
+      await this.syncAccount(adapter, account)
       return { accountId: account.id, status: "synced" }
     } catch (error) {
       const message =
@@ -171,192 +191,112 @@ export class CalendarSyncService {
     }
   }
 
-  private async syncGoogleAccount(account: ConnectedAccount) {
-    const client = this.googleOAuth.createOAuthClient({
-      accessToken: account.accessToken,
-      refreshToken: account.refreshToken,
-      expiryDate: account.expiresAt?.getTime(),
-    })
+  private async syncAccount(
+    adapter: CalendarProviderAdapter,
+    account: ConnectedAccount,
+  ) {
+    const window = this.buildSyncWindow()
+    const fullSyncDue =
+      !account.calendarFullSyncedAt ||
+      account.calendarFullSyncedAt.getTime() <
+        Date.now() - CALENDAR_FULL_RESYNC_INTERVAL_MS
 
-    // Refresh access token if needed
-    if (
-      (!account.accessToken || this.isExpired(account.expiresAt)) &&
-      account.refreshToken
-    ) {
-      const { credentials } = await client.refreshAccessToken()
-      await this.prisma.connectedAccount.update({
-        where: { id: account.id },
-        data: {
-          accessToken: credentials.access_token ?? account.accessToken,
-          refreshToken: credentials.refresh_token ?? account.refreshToken,
-          expiresAt: credentials.expiry_date
-            ? new Date(credentials.expiry_date)
-            : account.expiresAt,
-        },
-      })
-    }
+    const changes = fullSyncDue
+      ? await adapter.listWindow(account, window)
+      : await adapter.fetchChanges(account, window)
 
-    const calendar = google.calendar({ version: "v3", auth: client })
-    const events = await this.fetchCalendarWindow(calendar)
+    await this.applyEventChanges(account, changes, window)
 
-    const eventInputs = events
-      .map((event) => this.transformGoogleEvent(event))
-      .filter((event): event is UpsertCalendarEventInput => !!event)
+    const syncedAt = new Date()
+    await this.prisma.connectedAccount.update({
+      where: { id: account.id },
+      data: {
+        lastSyncedAt: syncedAt,
+        ...(changes.nextSyncToken !== undefined && {
+          calendarSyncToken: changes.nextSyncToken,
+        }),
+        ...(changes.fullSync && { calendarFullSyncedAt: syncedAt }),
+      },
+    })
+  }
 
+  private async applyEventChanges(
+    account: ConnectedAccount,
+    changes: CalendarProviderChanges,
+    window: CalendarSyncWindow,
+  ) {
     const preference = await this.getUserPreference(account.userId)
 
     const upsertResults = await this.calendarService.upsertEvents(
       account.userId,
       account.id,
-      eventInputs,
+      changes.inputs,
       preference.defaultNotetaker,
     )
 
+    // Cancel first: a bot moving between duplicate copies of one meeting must
+    // be released before the primary copy schedules its own.
     for (const result of upsertResults) {
-      if (result.shouldScheduleBot) {
-        await this.recallService.ensureBotScheduled(result.event)
-      }
       if (result.shouldCancelBot) {
         await this.recallService.cancelBotForEvent(result.event.id)
       }
     }
-
-    await this.prisma.connectedAccount.update({
-      where: { id: account.id },
-      data: { lastSyncedAt: new Date() },
-    })
-  }
-
-  private async fetchCalendarWindow(
-    calendar: calendar_v3.Calendar,
-  ): Promise<calendar_v3.Schema$Event[]> {
-    const now = new Date()
-    const timeMin = startOfMonth(now)
-    const timeMax = addDays(now, 28)
-    let pageToken: string | undefined
-    const allEvents: calendar_v3.Schema$Event[] = []
-
-    do {
-      const response = await calendar.events.list({
-        calendarId: "primary",
-        singleEvents: true,
-        orderBy: "startTime",
-        timeMin: timeMin.toISOString(),
-        timeMax: timeMax.toISOString(),
-        pageToken,
-        maxResults: 2500,
-      })
-      const data = response.data
-      pageToken = data.nextPageToken ?? undefined
-      if (data.items?.length) {
-        allEvents.push(...data.items)
+    for (const result of upsertResults) {
+      if (result.shouldScheduleBot) {
+        await this.recallService.ensureBotScheduled(result.event)
       }
-    } while (pageToken)
-
-    return allEvents
-  }
-
-  private transformGoogleEvent(
-    event: calendar_v3.Schema$Event,
-  ): UpsertCalendarEventInput | undefined {
-    if (!event.id || !event.start || !event.end) {
-      return undefined
     }
 
-    const start = this.parseDate(event.start)
-    const end = this.parseDate(event.end)
-    if (!start || !end) {
-      return undefined
+    const deletedIds = new Set(changes.cancelledIds)
+    // Only a full listing tells us which stored events disappeared upstream.
+    if (changes.fullSync) {
+      const staleIds = await this.findMissingWindowEvents(
+        account.id,
+        window,
+        new Set(changes.inputs.map((input) => input.externalEventId)),
+      )
+      staleIds.forEach((id) => deletedIds.add(id))
     }
 
-    const meetingInfo = this.extractMeetingInfo(event)
-
-    // Extract reminders
-    const reminders = event.reminders
-      ? {
-          useDefault: event.reminders.useDefault ?? false,
-          overrides: event.reminders.overrides ?? [],
-        }
-      : null
-
-    // Extract recurrence rules
-    const recurrence = event.recurrence ?? null
-
-    // Extract creator info
-    const creatorEmail = event.creator?.email ?? null
-    const creatorDisplayName = event.creator?.displayName ?? null
-
-    return {
-      externalEventId: event.id,
-      calendarId: event.organizer?.email ?? undefined,
-      calendarTitle: event.organizer?.displayName ?? event.summary ?? undefined,
-      title: event.summary ?? "Untitled Meeting",
-      description: event.description ?? undefined,
-      location: event.location ?? undefined,
-      meetingUrl: meetingInfo.url,
-      meetingPlatform: meetingInfo.platform,
-      htmlLink: event.htmlLink ?? undefined,
-      startTime: start,
-      endTime: end,
-      timezone: event.start.timeZone ?? event.end.timeZone ?? undefined,
-      attendees: event.attendees as any,
-      reminders: reminders as any,
-      recurrence: recurrence as any,
-      creatorEmail: creatorEmail,
-      creatorDisplayName: creatorDisplayName,
-      deduplicationKey: `${meetingInfo.url ?? "no-link"}:${start.toISOString()}:${event.id}`,
-      status:
-        event.status === "cancelled"
-          ? CalendarEventStatus.CANCELLED
-          : CalendarEventStatus.UPCOMING,
+    const deletedEvents = await this.calendarService.markEventsDeleted(
+      account.id,
+      Array.from(deletedIds),
+    )
+    for (const event of deletedEvents) {
+      if (event.recallBot) {
+        await this.recallService.cancelBotForEvent(event.id)
+      }
     }
   }
 
-  private parseDate(dateInput: calendar_v3.Schema$EventDateTime) {
-    const value = dateInput.dateTime ?? dateInput.date
-    if (!value) return undefined
-    return new Date(value)
-  }
+  private async findMissingWindowEvents(
+    connectedAccountId: string,
+    window: CalendarSyncWindow,
+    seenExternalIds: Set<string>,
+  ) {
+    const existing = await this.prisma.calendarEvent.findMany({
+      where: {
+        connectedAccountId,
+        deletedAt: null,
+        startTime: {
+          gte: window.timeMin,
+          lt: window.timeMax,
+        },
+      },
+      select: { externalEventId: true },
+    })
 
-  private extractMeetingInfo(event: calendar_v3.Schema$Event) {
-    const possibleFields = [
-      event.hangoutLink,
-      event.location,
-      event.description,
-      event.conferenceData?.entryPoints?.map((entry) => entry.uri).join(" "),
-    ]
-    const match = this.findMeetingUrl(possibleFields.filter(Boolean).join(" "))
-    return match
+    return existing
+      .map((event) => event.externalEventId)
+      .filter((externalEventId) => !seenExternalIds.has(externalEventId))
   }
 
-  private findMeetingUrl(text: string) {
-    if (!text) {
-      return { url: null, platform: MeetingPlatform.UNKNOWN }
-    }
-
-    const patterns = [
-      {
-        regex: /(https?:\/\/[\w.-]*zoom\.us\/[^\s]+)/i,
-        platform: MeetingPlatform.ZOOM,
-      },
-      {
-        regex: /(https?:\/\/meet\.google\.com\/[^\s]+)/i,
-        platform: MeetingPlatform.GOOGLE_MEET,
-      },
-      {
-        regex: /(https?:\/\/teams\.microsoft\.com\/[^\s]+)/i,
-        platform: MeetingPlatform.MICROSOFT_TEAMS,
-      },
-    ]
-
-    for (const pattern of patterns) {
-      const match = text.match(pattern.regex)
-      if (match) {
-        return { url: match[0], platform: pattern.platform }
-      }
+  private buildSyncWindow(): CalendarSyncWindow {
+    const now = new Date()
+    return {
+      timeMin: startOfMonth(now),
+      timeMax: addDays(now, 28),
     }
-
-    return { url: null, platform: MeetingPlatform.UNKNOWN }
   }
 
   private async getUserPreference(userId: string) {
@@ -370,9 +310,4 @@ export class CalendarSyncService {
     }
     return preference
   }
-
-  private isExpired(expiresAt?: Date | null) {
-    if (!expiresAt) return true
-    return expiresAt.getTime() <= Date.now() + 60 * 1000
-  }
 }
@@ -0,0 +1,164 @@
+import type { ConfigService } from "@nestjs/config"
+import { ConnectedProvider, type ConnectedAccount } from "@prisma/client"
+import type { PrismaService } from "../../prisma/prisma.service"
+import type { CalendarSyncService } from "./calendar-sync.service"
+import { CalendarWebhookService } from "./calendar-webhook.service"
+import type { CalendarProviderRegistry } from "./providers/calendar-provider.registry"
+
+// p-queue ships ESM only; the sync service chain pulls it in.
+jest.mock("p-queue", () => jest.fn())
+
+const firstArg = (mock: jest.Mock) => (mock.mock.calls as unknown[][])[0][0]
+
+const now = new Date("2025-11-22T10:00:00.000Z")
+
+const account = (overrides: Partial<ConnectedAccount> = {}) =>
+  ({
+    id: "account-1",
+    provider: ConnectedProvider.GOOGLE_CALENDAR,
+    calendarChannelId: "channel-1",
+    calendarChannelToken: "secret-token",
+    calendarResourceId: "resource-1",
+    calendarChannelExpiresAt: new Date(now.getTime() + 60 * 60_000),
+    ...overrides,
+  }) as ConnectedAccount
+
+describe("CalendarWebhookService", () => {
+  const prisma = {
+    connectedAccount: {
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  }
+  const calendarSync = { syncAccountById: jest.fn() }
+  const google = { watch: jest.fn(), unwatch: jest.fn() }
+  const adapters: Partial<Record<ConnectedProvider, unknown>> = {
+    [ConnectedProvider.GOOGLE_CALENDAR]: google,
+    [ConnectedProvider.ICS_CALENDAR]: {},
+  }
+  const registry = {
+    watchableProviders: [ConnectedProvider.GOOGLE_CALENDAR],
+    find: (provider: ConnectedProvider) => adapters[provider],
+  }
+  const service = new CalendarWebhookService(
+    prisma as unknown as PrismaService,
+    {
+      get: () => "https://api.example.com/webhooks/google-calendar",
+    } as unknown as ConfigService,
+    calendarSync as unknown as CalendarSyncService,
+    registry as unknown as CalendarProviderRegistry,
+  )
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    jest.useFakeTimers({ now })
+    calendarSync.syncAccountById.mockResolvedValue(undefined)
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it("syncs only for notifications that carry the channel's token", async () => {
+    const notification = {
+      channelId: "channel-1",
+      resourceId: "resource-1",
+      resourceState: "exists",
+    }
+
+    prisma.connectedAccount.findFirst.mockResolvedValue(null)
+    await expect(
+      service.handleNotification({ ...notification, token: "secret-token" }),
+    ).resolves.toEqual({ accepted: false, reason: "unknown-channel" })
+
+    prisma.connectedAccount.findFirst.mockResolvedValue(account())
+    await expect(
+      service.handleNotification({ ...notification, token: "secret-tokeN" }),
+    ).resolves.toEqual({ accepted: false, reason: "invalid-token" })
+    await expect(service.handleNotification(notification)).resolves.toEqual({
+      accepted: false,
+      reason: "invalid-token",
+    })
+    await service.handleNotification({
+      ...notification,
+      resourceState: "sync",
+      token: "secret-token",
+    })
+    expect(calendarSync.syncAccountById).not.toHaveBeenCalled()
+
+    await expect(
+      service.handleNotification({ ...notification, token: "secret-token" }),
+    ).resolves.toEqual({ accepted: true, accountId: "account-1" })
+    expect(calendarSync.syncAccountById).toHaveBeenCalledWith(
+      "account-1",
+      "webhook",
+    )
+  })
+
+  it("renews expiring channels and stops the ones they replace", async () => {
+    prisma.connectedAccount.findMany.mockResolvedValue([account()])
+    google.watch.mockResolvedValue({
+      channelId: "channel-2",
+      channelToken: "new-token",
+      resourceId: "resource-2",
+      expiresAt: new Date(now.getTime() + 7 * 24 * 60 * 60_000),
+    })
+
+    await service.renewExpiringChannels()
+
+    expect(firstArg(prisma.connectedAccount.findMany)).toMatchObject({
+      where: {
+        provider: { in: [ConnectedProvider.GOOGLE_CALENDAR] },
+        OR: [
+          { calendarChannelId: null },
+          { calendarChannelExpiresAt: null },
+          {
+            calendarChannelExpiresAt: {
+              lt: new Date(now.getTime() + 24 * 60 * 60_000),
+            },
+          },
+        ],
+      },
+    })
+    expect(google.watch).toHaveBeenCalledWith(account(), {
+      address: "https://api.example.com/webhooks/google-calendar",
+      ttlSeconds: 7 * 24 * 60 * 60,
+    })
+    expect(prisma.connectedAccount.update).toHaveBeenCalledWith({
+      where: { id: "account-1" },
+      data: {
+        calendarChannelId: "channel-2",
+        calendarChannelToken: "new-token",
+        calendarResourceId: "resource-2",
+        calendarChannelExpiresAt: new Date(
+          now.getTime() + 7 * 24 * 60 * 60_000,
+        ),
+      },
+    })
+    expect(google.unwatch).toHaveBeenCalledWith(account(), {
+      channelId: "channel-1",
+      resourceId: "resource-1",
+    })
+  })
+
+  it("stops channels only for providers that can watch", async () => {
+    await service.stopChannel(
+      account({ provider: ConnectedProvider.ICS_CALENDAR }),
+    )
+    expect(prisma.connectedAccount.updateMany).not.toHaveBeenCalled()
+
+    await service.stopChannel(account())
+    expect(google.unwatch).toHaveBeenCalledTimes(1)
+    expect(prisma.connectedAccount.updateMany).toHaveBeenCalledWith({
+      where: { id: "account-1", calendarChannelId: "channel-1" },
+      data: {
+        calendarChannelId: null,
+        calendarChannelToken: null,
+        calendarResourceId: null,
+        calendarChannelExpiresAt: null,
+      },
+    })
+  })
+})
@@ -0,0 +1,234 @@
+import { Injectable, Logger } from "@nestjs/common"
+import { ConfigService } from "@nestjs/config"
+import { Interval } from "@nestjs/schedule"
+import { ConnectedAccount } from "@prisma/client"
+import { timingSafeEqual } from "crypto"
+import { PrismaService } from "../../prisma/prisma.service"
+import { CalendarSyncService } from "./calendar-sync.service"
+import { CalendarProviderRegistry } from "./providers/calendar-provider.registry"
+import {
+  CALENDAR_CHANNEL_MAX_RENEWAL_BATCH,
+  CALENDAR_CHANNEL_RENEWAL_INTERVAL_MS,
+  CALENDAR_CHANNEL_RENEW_BEFORE_MS,
+  CALENDAR_CHANNEL_TTL_SECONDS,
+} from "./calendar.constants"
+import type { GoogleChannelNotification } from "./types/calendar-sync.types"
+
+@Injectable()
+export class CalendarWebhookService {
+  private readonly logger = new Logger(CalendarWebhookService.name)
+  private readonly webhookUrl: string | null
+  private renewalInFlight = false
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+    private readonly calendarSync: CalendarSyncService,
+    private readonly providerRegistry: CalendarProviderRegistry,
+  ) {
+    this.webhookUrl =
+      this.configService.get<string>("GOOGLE_CALENDAR_WEBHOOK_URL") ?? null
+  }
+
+  get isEnabled() {
+    return !!this.webhookUrl
+  }
+
+  @Interval(CALENDAR_CHANNEL_RENEWAL_INTERVAL_MS)
+  async renewExpiringChannels() {
+    if (!this.isEnabled || this.renewalInFlight) {
+      return
+    }
+    this.renewalInFlight = true
+    try {
+      const renewBefore = new Date(
+        Date.now() + CALENDAR_CHANNEL_RENEW_BEFORE_MS,
+      )
+      const accounts = await this.prisma.connectedAccount.findMany({
+        where: {
+          provider: { in: this.providerRegistry.watchableProviders },
+          OR: [
+            { calendarChannelId: null },
+            { calendarChannelExpiresAt: null },
+            { calendarChannelExpiresAt: { lt: renewBefore } },
+          ],
+        },
+        orderBy: { calendarChannelExpiresAt: "asc" },
+        take: CALENDAR_CHANNEL_MAX_RENEWAL_BATCH,
+      })
+
+      for (const account of accounts) {
+        try {
+          await this.registerChannel(account)
+        } catch (error) {
+          this.logger.warn(
+            `Failed to renew calendar channel for account ${account.id}: ${
+              error instanceof Error ? error.message : String(error)
+            }`,
+          )
+        }
+      }
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : String(error ?? "unknown")
+      this.logger.error(`Calendar channel renewal failed: ${message}`)
+    } finally {
+      this.renewalInFlight = false
+    }
+  }
+
+  async ensureChannel(accountId: string) {
+    if (!this.isEnabled) {
+      return
+    }
+    const account = await this.prisma.connectedAccount.findUnique({
+      where: { id: accountId },
+    })
+    if (!account || !this.findWatchableAdapter(account)) {
+      return
+    }
+    const renewBefore = Date.now() + CALENDAR_CHANNEL_RENEW_BEFORE_MS
+    if (
+      account.calendarChannelId &&
+      account.calendarChannelExpiresAt &&
+      account.calendarChannelExpiresAt.getTime() > renewBefore
+    ) {
+      return
+    }
+    await this.registerChannel(account)
+  }
+
+  async registerChannel(account: ConnectedAccount) {
+    const adapter = this.findWatchableAdapter(account)
+    if (!this.webhookUrl || !adapter?.watch) {
+      return
+    }
+
+    const { channelId, channelToken, resourceId, expiresAt } =
+      await adapter.watch(account, {
+        address: this.webhookUrl,
+        ttlSeconds: CALENDAR_CHANNEL_TTL_SECONDS,
+      })
+
+    await this.prisma.connectedAccount.update({
+      where: { id: account.id },
+      data: {
+        calendarChannelId: channelId,
+        calendarChannelToken: channelToken,
+        calendarResourceId: resourceId,
+        calendarChannelExpiresAt: expiresAt,
+      },
+    })
+
+    // Providers keep delivering to the previous channel until it expires, so
+    // stop it once the replacement is in place.
+    if (account.calendarChannelId && account.calendarResourceId) {
+      await this.stopProviderChannel(
+        account,
+        account.calendarChannelId,
+        account.calendarResourceId,
+      )
+    }
+
+    this.logger.verbose(
+      `Registered calendar channel ${channelId} for account ${account.id} (expires ${expiresAt.toISOString()})`,
+    )
+  }
+
+  // Safe to call for any account; providers that cannot watch are skipped.
+  async stopChannel(account: ConnectedAccount) {
+    if (
+      !account.calendarChannelId ||
+      !account.calendarResourceId ||
+      !this.findWatchableAdapter(account)
+    ) {
+      return
+    }
+
+    await this.stopProviderChannel(
+      account,
+      account.calendarChannelId,
+      account.calendarResourceId,
+    )
+
+    await this.prisma.connectedAccount.updateMany({
+      where: { id: account.id, calendarChannelId: account.calendarChannelId },
+      data: {
+        calendarChannelId: null,
+        calendarChannelToken: null,
+        calendarResourceId: null,
+        calendarChannelExpiresAt: null,
+      },
+    })
+  }
+
+  async handleNotification(notification: GoogleChannelNotification) {
+    const account = await this.prisma.connectedAccount.findFirst({
+      where: {
+        provider: { in: this.providerRegistry.watchableProviders },
+        calendarChannelId: notification.channelId,
+        calendarResourceId: notification.resourceId,
+      },
+    })
+
+    if (!account) {
+      return { accepted: false, reason: "unknown-channel" as const }
+    }
+
+    if (!this.tokensMatch(account.calendarChannelToken, notification.token)) {
+      return { accepted: false, reason: "invalid-token" as const }
+    }
+
+    // The initial "sync" message only confirms the channel is live.
+    if (notification.resourceState === "sync") {
+      return { accepted: true, accountId: account.id }
+    }
+
+    this.calendarSync
+      .syncAccountById(account.id, "webhook")
+      .catch((error: unknown) => {
+        this.logger.error(
+          `[webhook] Calendar sync failed for account ${account.id}: ${
+            error instanceof Error ? error.message : String(error)
+          }`,
+        )
+      })
+
+    return { accepted: true, accountId: account.id }
+  }
+
+  private findWatchableAdapter(account: ConnectedAccount) {
+    const adapter = this.providerRegistry.find(account.provider)
+    return adapter?.watch ? adapter : undefined
+  }
+
+  private async stopProviderChannel(
+    account: ConnectedAccount,
+    channelId: string,
+    resourceId: string,
+  ) {
+    try {
+      await this.providerRegistry
+        .find(account.provider)
+        ?.unwatch?.(account, { channelId, resourceId })
+    } catch (error) {
+      this.logger.debug(
+        `Failed to stop calendar channel ${channelId} for account ${account.id}: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      )
+    }
+  }
+
+  private tokensMatch(expected: string | null, received: string | undefined) {
+    if (!expected || !received) {
+      return false
+    }
+    const expectedBuffer = Buffer.from(expected)
+    const receivedBuffer = Buffer.from(received)
+    if (expectedBuffer.length !== receivedBuffer.length) {
+      return false
+    }
+    return timingSafeEqual(expectedBuffer, receivedBuffer)
+  }
+}
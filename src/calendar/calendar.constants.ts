@@ -1,3 +1,19 @@
+import { ConnectedProvider } from "@prisma/client"
+
 export const CALENDAR_GOOGLE_SYNC_INTERVAL_MS = 30_000
 export const CALENDAR_SYNC_MAX_SCHEDULED_BATCH = 25
 export const CALENDAR_SYNC_LOOKBACK_MS = CALENDAR_GOOGLE_SYNC_INTERVAL_MS * 2
+export const CALENDAR_FULL_RESYNC_INTERVAL_MS = 6 * 60 * 60_000
+export const CALENDAR_WEBHOOK_FALLBACK_SYNC_MS = 15 * 60_000
+export const CALENDAR_CHANNEL_RENEWAL_INTERVAL_MS = 10 * 60_000
+export const CALENDAR_CHANNEL_RENEW_BEFORE_MS = 24 * 60 * 60_000
+export const CALENDAR_CHANNEL_TTL_SECONDS = 7 * 24 * 60 * 60
+export const CALENDAR_CHANNEL_MAX_RENEWAL_BATCH = 25
+export const CALENDAR_HTTP_TIMEOUT_MS = 15_000
+
+export const CALENDAR_PROVIDERS: ConnectedProvider[] = [
+  ConnectedProvider.GOOGLE_CALENDAR,
+  ConnectedProvider.MICROSOFT_CALENDAR,
+  ConnectedProvider.ICS_CALENDAR,
+  ConnectedProvider.CALDAV_CALENDAR,
+]
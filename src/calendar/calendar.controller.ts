@@ -9,11 +9,15 @@ import {
   HttpCode,
 } from "@nestjs/common"
 import { ApiTags } from "@nestjs/swagger"
-import { CalendarService } from "./calendar.service"
+import { AutoNotetakerDecision, CalendarService } from "./calendar.service"
 import { RecallService } from "../recall/recall.service"
 import { CalendarSyncService } from "./calendar-sync.service"
 import { CalendarEventDto } from "./dto/calendar-event.dto"
-import { ToggleNotetakerDto } from "./dto/toggle-notetaker.dto"
+import {
+  ToggleEventNotetakerDto,
+  ToggleNotetakerDto,
+} from "./dto/toggle-notetaker.dto"
+import { NotetakerExplanationDto } from "./dto/notetaker-explanation.dto"
 import { CurrentDbUser } from "../users/decorators/current-db-user.decorator"
 import type {
   CalendarEvent,
@@ -29,6 +33,11 @@ import {
   CalendarEventsPayloadDto,
 } from "./dto/calendar-events-payload.dto"
 
+type CalendarEventWithAccount = CalendarEvent & {
+  recallBot: RecallBot | null
+  connectedAccount: ConnectedAccount
+}
+
 @ApiTags("Calendar")
 @Controller("calendar")
 export class CalendarController {
@@ -76,9 +85,15 @@ export class CalendarController {
     const providerSyncedAt = await this.calendarService.getLatestProviderSyncAt(
       user.id,
     )
+    const duplicates = await this.calendarService.findDuplicates(
+      user.id,
+      events,
+    )
 
     return {
-      events: events.map((event) => this.toCalendarEventDto(event)),
+      events: events.map((event) =>
+        this.toCalendarEventDto(event, duplicates.get(event.id)),
+      ),
       deletedIds,
       serverTimestamp: new Date().toISOString(),
       providerSyncedAt: providerSyncedAt
@@ -128,29 +143,82 @@ export class CalendarController {
   @Patch("events/:id/notetaker")
   async toggleNotetaker(
     @Param("id") eventId: string,
-    @Body() body: ToggleNotetakerDto,
+    @Body() body: ToggleEventNotetakerDto,
     @CurrentDbUser() user: User,
   ) {
     const result = await this.calendarService.toggleNotetaker(
       eventId,
       user.id,
       body.enabled,
+      body.bot,
     )
 
     if (result.shouldSchedule) {
       await this.recallService.ensureBotScheduled(result.event)
     } else if (result.shouldCancel) {
       await this.recallService.cancelBotForEvent(result.event.id)
+    } else if (result.configChanged && body.enabled) {
+      await this.recallService.updateScheduledBot(result.event)
     }
 
     return { success: true }
   }
 
+  @Get("events/:id/notetaker/explain")
+  async explainNotetaker(
+    @Param("id") eventId: string,
+    @CurrentDbUser() user: User,
+  ): Promise<NotetakerExplanationDto> {
+    const { event, decision } = await this.calendarService.explainNotetaker(
+      eventId,
+      user.id,
+    )
+
+    return {
+      eventId: event.id,
+      notetakerEnabled: event.notetakerEnabled,
+      autoEnabled: decision.enabled,
+      reason: decision.reason,
+      summary: this.describeNotetakerDecision(decision),
+      overridden: event.notetakerEnabled !== decision.enabled,
+      rules: decision.evaluations.map((evaluation) => ({
+        ruleId: evaluation.rule.id,
+        name: evaluation.rule.name,
+        type: evaluation.rule.type,
+        action: evaluation.rule.action,
+        value: evaluation.rule.value,
+        matched: evaluation.matched,
+        decision: evaluation.decision,
+        applied: evaluation.rule.id === decision.rule?.id,
+      })),
+    }
+  }
+
+  @Patch("series/:seriesId/notetaker")
+  async toggleSeriesNotetaker(
+    @Param("seriesId") seriesId: string,
+    @Body() body: ToggleNotetakerDto,
+    @CurrentDbUser() user: User,
+  ) {
+    const { results } = await this.calendarService.setSeriesNotetaker(
+      user.id,
+      seriesId,
+      body.enabled,
+    )
+
+    for (const result of results.filter((item) => item.shouldCancel)) {
+      await this.recallService.cancelBotForEvent(result.event.id)
+    }
+    for (const result of results.filter((item) => item.shouldSchedule)) {
+      await this.recallService.ensureBotScheduled(result.event)
+    }
+
+    return { success: true, updatedEvents: results.length }
+  }
+
   private toCalendarEventDto(
-    event: CalendarEvent & {
-      recallBot: RecallBot | null
-      connectedAccount: ConnectedAccount
-    },
+    event: CalendarEventWithAccount,
+    duplicates: CalendarEventWithAccount[] = [],
   ): CalendarEventDto {
     return {
       id: event.id,
@@ -171,24 +239,46 @@ export class CalendarController {
       botStatus: event.recallBot?.status ?? null,
       reminders: (event as any).reminders as Record<string, unknown> | null,
       recurrence: (event as any).recurrence as string[] | null,
+      seriesId: event.seriesId,
       creatorEmail: (event as any).creatorEmail ?? null,
       creatorDisplayName: (event as any).creatorDisplayName ?? null,
+      duplicates: duplicates.map((duplicate) => ({
+        id: duplicate.id,
+        provider: duplicate.connectedAccount.provider,
+        accountLabel: duplicate.connectedAccount.label,
+        notetakerEnabled: duplicate.notetakerEnabled,
+        botStatus: duplicate.recallBot?.status ?? null,
+      })),
+    }
+  }
+
+  private describeNotetakerDecision(decision: AutoNotetakerDecision) {
+    const state = decision.enabled ? "on" : "off"
+    switch (decision.reason) {
+      case "NO_MEETING_URL":
+        return "No meeting link was found, so a notetaker cannot join."
+      case "PAST_EVENT":
+        return "The event had already started when it was first synced."
+      case "SERIES_RULE":
+        return `The notetaker is turned ${state} for every occurrence of this series.`
+      case "RULE":
+        return `Rule "${decision.rule?.name}" turned the notetaker ${state}.`
+      case "DEFAULT":
+        return `No rule applied, so your default notetaker setting (${state}) was used.`
     }
   }
 
   private async buildEventsPayload(
     userId: string,
-    events: Array<
-      CalendarEvent & {
-        recallBot: RecallBot | null
-        connectedAccount: ConnectedAccount
-      }
-    >,
+    events: CalendarEventWithAccount[],
   ): Promise<CalendarEventsPayloadDto> {
     const providerSyncedAt =
       await this.calendarService.getLatestProviderSyncAt(userId)
+    const duplicates = await this.calendarService.findDuplicates(userId, events)
     return {
-      events: events.map((event) => this.toCalendarEventDto(event)),
+      events: events.map((event) =>
+        this.toCalendarEventDto(event, duplicates.get(event.id)),
+      ),
       serverTimestamp: new Date().toISOString(),
       providerSyncedAt: providerSyncedAt
         ? providerSyncedAt.toISOString()
@@ -1,15 +1,41 @@
 import { forwardRef, Module } from "@nestjs/common"
+import { HttpModule } from "@nestjs/axios"
 import { CalendarController } from "./calendar.controller"
 import { CalendarService } from "./calendar.service"
 import { CalendarSyncService } from "./calendar-sync.service"
+import { CalendarWebhookService } from "./calendar-webhook.service"
+import { CalendarProviderRegistry } from "./providers/calendar-provider.registry"
+import { GoogleCalendarAdapter } from "./providers/google-calendar.adapter"
+import { MicrosoftCalendarAdapter } from "./providers/microsoft-calendar.adapter"
+import { IcsCalendarAdapter } from "./providers/ics-calendar.adapter"
+import { CalDavCalendarAdapter } from "./providers/caldav-calendar.adapter"
 import { IntegrationsModule } from "../integrations/integrations.module"
 import { RecallModule } from "../recall/recall.module"
 import { ExamplesModule } from "../examples/examples.module"
 
 @Module({
-  imports: [forwardRef(() => IntegrationsModule), RecallModule, ExamplesModule],
+  imports: [
+    HttpModule,
+    forwardRef(() => IntegrationsModule),
+    RecallModule,
+    ExamplesModule,
+  ],
   controllers: [CalendarController],
-  providers: [CalendarService, CalendarSyncService],
-  exports: [CalendarService, CalendarSyncService],
+  providers: [
+    CalendarService,
+    CalendarSyncService,
+    CalendarWebhookService,
+    CalendarProviderRegistry,
+    GoogleCalendarAdapter,
+    MicrosoftCalendarAdapter,
+    IcsCalendarAdapter,
+    CalDavCalendarAdapter,
+  ],
+  exports: [
+    CalendarService,
+    CalendarSyncService,
+    CalendarWebhookService,
+    CalendarProviderRegistry,
+  ],
 })
 export class CalendarModule {}
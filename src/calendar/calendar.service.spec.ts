@@ -0,0 +1,325 @@
+import { NotFoundException } from "@nestjs/common"
+import {
+  MeetingPlatform,
+  RecallBotStatus,
+  type CalendarEvent,
+  type RecallBot,
+} from "@prisma/client"
+import type { PrismaService } from "../../prisma/prisma.service"
+import type { ChatGateway } from "../examples/chat.gateway"
+import type { NotificationsService } from "../examples/services/notifications.service"
+import {
+  CalendarService,
+  type UpsertCalendarEventInput,
+} from "./calendar.service"
+
+const firstArg = (mock: jest.Mock) => (mock.mock.calls as unknown[][])[0][0]
+
+const now = new Date("2025-11-22T10:00:00.000Z")
+const tomorrow = new Date("2025-11-23T10:00:00.000Z")
+
+const bot = (status: RecallBotStatus) => ({ id: "bot-1", status }) as RecallBot
+
+type StoredEvent = CalendarEvent & { recallBot: RecallBot | null }
+
+const storedEvent = (overrides: Partial<StoredEvent> = {}) =>
+  ({
+    id: "event-1",
+    userId: "user-1",
+    connectedAccountId: "account-1",
+    externalEventId: "google-1",
+    title: "Weekly sync",
+    meetingUrl: "https://meet.google.com/abc-defg-hij",
+    startTime: tomorrow,
+    endTime: new Date(tomorrow.getTime() + 30 * 60_000),
+    notetakerEnabled: false,
+    deduplicationKey: "key-1",
+    recallBot: null,
+    ...overrides,
+  }) as StoredEvent
+
+const input = (
+  overrides: Partial<UpsertCalendarEventInput> = {},
+): UpsertCalendarEventInput => ({
+  externalEventId: "google-1",
+  title: "Weekly sync",
+  meetingUrl: "https://meet.google.com/abc-defg-hij",
+  meetingPlatform: MeetingPlatform.GOOGLE_MEET,
+  startTime: tomorrow,
+  endTime: new Date(tomorrow.getTime() + 30 * 60_000),
+  deduplicationKey: "key-1",
+  ...overrides,
+})
+
+describe("CalendarService", () => {
+  const prisma = {
+    calendarEvent: {
+      findMany: jest.fn(),
+      count: jest.fn(),
+      updateMany: jest.fn(),
+      upsert: jest.fn(),
+    },
+    calendarSeriesRule: { upsert: jest.fn(), findMany: jest.fn() },
+    user: { findUnique: jest.fn() },
+  }
+  const notifications = { createNotification: jest.fn() }
+  const service = new CalendarService(
+    prisma as unknown as PrismaService,
+    notifications as unknown as NotificationsService,
+    { emitNotification: jest.fn() } as unknown as ChatGateway,
+  )
+
+  // Echoes the stored row back the way Prisma would.
+  const mockUpsert = (bots: Record<string, RecallBot | null> = {}) =>
+    prisma.calendarEvent.upsert.mockImplementation(
+      ({
+        where,
+        create,
+      }: {
+        where: {
+          connectedAccountId_externalEventId: {
+            connectedAccountId: string
+            externalEventId: string
+          }
+        }
+        create: Record<string, unknown>
+      }) => {
+        const { connectedAccountId, externalEventId } =
+          where.connectedAccountId_externalEventId
+        const id = `${connectedAccountId}:${externalEventId}`
+        return Promise.resolve({ ...create, id, recallBot: bots[id] ?? null })
+      },
+    )
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    jest.useFakeTimers({ now })
+    prisma.calendarSeriesRule.findMany.mockResolvedValue([])
+    prisma.user.findUnique.mockResolvedValue({
+      email: "dana@example.com",
+      notetakerRules: [],
+      connectedAccounts: [],
+    })
+    notifications.createNotification.mockResolvedValue({})
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  describe("series", () => {
+    it("applies a series choice to future occurrences that have a link", async () => {
+      prisma.calendarEvent.findMany.mockResolvedValue([
+        storedEvent({ id: "event-1" }),
+        storedEvent({ id: "event-2", meetingUrl: null }),
+        storedEvent({
+          id: "event-3",
+          notetakerEnabled: true,
+          recallBot: bot(RecallBotStatus.SCHEDULED),
+        }),
+      ])
+      prisma.calendarSeriesRule.upsert.mockResolvedValue({ id: "rule-1" })
+
+      const { results } = await service.setSeriesNotetaker(
+        "user-1",
+        "series-1",
+        true,
+      )
+
+      expect(firstArg(prisma.calendarEvent.findMany)).toMatchObject({
+        where: {
+          userId: "user-1",
+          seriesId: "series-1",
+          deletedAt: null,
+          startTime: { gt: now },
+        },
+      })
+      expect(prisma.calendarSeriesRule.upsert).toHaveBeenCalledWith({
+        where: { userId_seriesId: { userId: "user-1", seriesId: "series-1" } },
+        create: {
+          userId: "user-1",
+          seriesId: "series-1",
+          notetakerEnabled: true,
+        },
+        update: { notetakerEnabled: true },
+      })
+      expect(prisma.calendarEvent.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ["event-1", "event-3"] } },
+        data: { notetakerEnabled: true },
+      })
+      expect(
+        results.map(({ event, shouldSchedule, shouldCancel }) => [
+          event.id,
+          shouldSchedule,
+          shouldCancel,
+        ]),
+      ).toEqual([
+        ["event-1", true, false],
+        ["event-3", false, false],
+      ])
+    })
+
+    it("cancels scheduled bots when a series is turned off", async () => {
+      prisma.calendarEvent.findMany.mockResolvedValue([
+        storedEvent({
+          notetakerEnabled: true,
+          recallBot: bot(RecallBotStatus.SCHEDULED),
+        }),
+      ])
+
+      const { results } = await service.setSeriesNotetaker(
+        "user-1",
+        "series-1",
+        false,
+      )
+
+      expect(results[0]).toMatchObject({
+        shouldSchedule: false,
+        shouldCancel: true,
+      })
+    })
+
+    it("rejects series the user has never synced", async () => {
+      prisma.calendarEvent.findMany.mockResolvedValue([])
+      prisma.calendarEvent.count.mockResolvedValue(0)
+
+      await expect(
+        service.setSeriesNotetaker("user-1", "series-x", true),
+      ).rejects.toBeInstanceOf(NotFoundException)
+      expect(prisma.calendarSeriesRule.upsert).not.toHaveBeenCalled()
+    })
+
+    it("identifies series and lets their rule decide for new occurrences", async () => {
+      prisma.calendarEvent.findMany
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([])
+      prisma.calendarSeriesRule.findMany.mockResolvedValue([
+        { seriesId: "master-1", notetakerEnabled: false },
+      ])
+      mockUpsert()
+
+      const results = await service.upsertEvents(
+        "user-1",
+        "account-1",
+        [
+          // A master event that carries the RRULE names its own series.
+          input({
+            externalEventId: "master-1",
+            recurrence: ["RRULE:FREQ=WEEKLY"],
+          }),
+          input({ externalEventId: "instance-1", seriesId: "master-1" }),
+          input({ externalEventId: "one-off", deduplicationKey: "key-2" }),
+        ],
+        true,
+      )
+
+      expect(firstArg(prisma.calendarSeriesRule.findMany)).toEqual({
+        where: { userId: "user-1", seriesId: { in: ["master-1"] } },
+      })
+      expect(
+        results.map(({ event }) => [
+          event.externalEventId,
+          event.seriesId,
+          event.notetakerEnabled,
+        ]),
+      ).toEqual([
+        ["master-1", "master-1", false],
+        ["instance-1", "master-1", false],
+        ["one-off", null, true],
+      ])
+    })
+  })
+
+  describe("duplicates", () => {
+    const copy = (overrides: Partial<StoredEvent>) =>
+      storedEvent({
+        connectedAccountId: "account-2",
+        externalEventId: "outlook-1",
+        ...overrides,
+      })
+
+    it("leaves the bot to the copy that is already enabled", async () => {
+      const existing = storedEvent({ notetakerEnabled: true })
+      prisma.calendarEvent.findMany
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([
+          existing,
+          copy({ id: "account-2:outlook-1", notetakerEnabled: true }),
+        ])
+      mockUpsert()
+
+      const [result] = await service.upsertEvents(
+        "user-1",
+        "account-2",
+        [input({ externalEventId: "outlook-1" })],
+        true,
+      )
+
+      expect(
+        (prisma.calendarEvent.findMany.mock.calls as unknown[][])[1][0],
+      ).toMatchObject({
+        where: {
+          userId: "user-1",
+          deletedAt: null,
+          deduplicationKey: { in: ["key-1"] },
+        },
+        orderBy: { createdAt: "asc" },
+      })
+      expect(result.event.notetakerEnabled).toBe(true)
+      expect(result).toMatchObject({
+        shouldScheduleBot: false,
+        shouldCancelBot: false,
+      })
+    })
+
+    it("cancels a second bot and keeps the one that was scheduled first", async () => {
+      const scheduled = bot(RecallBotStatus.SCHEDULED)
+      const second = copy({
+        id: "account-2:outlook-1",
+        notetakerEnabled: true,
+        recallBot: { ...scheduled, id: "bot-2" },
+      })
+      prisma.calendarEvent.findMany
+        .mockResolvedValueOnce([second])
+        .mockResolvedValueOnce([
+          storedEvent({ notetakerEnabled: true, recallBot: scheduled }),
+          second,
+        ])
+      mockUpsert({ "account-2:outlook-1": second.recallBot })
+
+      const [result] = await service.upsertEvents(
+        "user-1",
+        "account-2",
+        [input({ externalEventId: "outlook-1" })],
+        true,
+      )
+
+      expect(result).toMatchObject({
+        shouldScheduleBot: false,
+        shouldCancelBot: true,
+      })
+    })
+
+    it("schedules the new copy when no other copy wants a bot", async () => {
+      prisma.calendarEvent.findMany
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([
+          storedEvent({ notetakerEnabled: false }),
+          copy({ id: "account-2:outlook-1", notetakerEnabled: true }),
+        ])
+      mockUpsert()
+
+      const [result] = await service.upsertEvents(
+        "user-1",
+        "account-2",
+        [input({ externalEventId: "outlook-1" })],
+        true,
+      )
+
+      expect(result).toMatchObject({
+        shouldScheduleBot: true,
+        shouldCancelBot: false,
+      })
+    })
+  })
+})
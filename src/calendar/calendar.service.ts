@@ -3,11 +3,14 @@ import {
   NotFoundException,
   BadRequestException,
 } from "@nestjs/common"
+import { isDeepStrictEqual } from "util"
 import {
   CalendarEvent,
   CalendarEventStatus,
-  ConnectedProvider,
+  CalendarSeriesRule,
+  ConnectedAccount,
   MeetingPlatform,
+  NotetakerRule,
   RecallBot,
   RecallBotStatus,
   Prisma,
@@ -15,6 +18,18 @@ import {
 import { PrismaService } from "../../prisma/prisma.service"
 import { NotificationsService } from "../examples/services/notifications.service"
 import { ChatGateway } from "../examples/chat.gateway"
+import { CALENDAR_PROVIDERS } from "./calendar.constants"
+import {
+  evaluateNotetakerRules,
+  type NotetakerRuleContext,
+  type NotetakerRuleEvaluation,
+  type NotetakerRuleSubject,
+} from "./notetaker-rules"
+import {
+  mergeBotConfigOverrides,
+  readBotConfigOverrides,
+  type BotConfigChanges,
+} from "../recall/bot-config"
 
 export type UpsertCalendarEventInput = {
   externalEventId: string
@@ -32,6 +47,7 @@ export type UpsertCalendarEventInput = {
   attendees?: Record<string, unknown>[] | null
   reminders?: Record<string, unknown> | null
   recurrence?: string[] | null
+  seriesId?: string | null
   creatorEmail?: string | null
   creatorDisplayName?: string | null
   deduplicationKey: string
@@ -44,6 +60,20 @@ export type UpsertEventResult = {
   shouldCancelBot: boolean
 }
 
+export type AutoNotetakerReason =
+  | "NO_MEETING_URL"
+  | "PAST_EVENT"
+  | "SERIES_RULE"
+  | "RULE"
+  | "DEFAULT"
+
+export type AutoNotetakerDecision = {
+  enabled: boolean
+  reason: AutoNotetakerReason
+  rule: NotetakerRule | null
+  evaluations: NotetakerRuleEvaluation[]
+}
+
 @Injectable()
 export class CalendarService {
   constructor(
@@ -158,7 +188,17 @@ export class CalendarService {
     return { events, deletedIds: deletedEvents.map((event) => event.id) }
   }
 
-  async toggleNotetaker(eventId: string, userId: string, enabled: boolean) {
+  /**
+   * Turns the notetaker on or off for one event. `bot` changes the event's
+   * overrides of the owner's bot settings; `configChanged` tells the caller
+   * a scheduled bot needs the new settings.
+   */
+  async toggleNotetaker(
+    eventId: string,
+    userId: string,
+    enabled: boolean,
+    bot?: BotConfigChanges,
+  ) {
     const event = await this.prisma.calendarEvent.findUnique({
       where: { id: eventId },
       include: { recallBot: true },
@@ -174,9 +214,22 @@ export class CalendarService {
       )
     }
 
+    const overrides = readBotConfigOverrides(event.botConfig)
+    const nextOverrides = bot
+      ? mergeBotConfigOverrides(overrides, bot)
+      : overrides
+    const configChanged = !isDeepStrictEqual(overrides, nextOverrides)
+
     const updated = await this.prisma.calendarEvent.update({
       where: { id: eventId },
-      data: { notetakerEnabled: enabled },
+      data: {
+        notetakerEnabled: enabled,
+        ...(configChanged && {
+          botConfig: Object.keys(nextOverrides).length
+            ? (nextOverrides as Prisma.InputJsonObject)
+            : Prisma.DbNull,
+        }),
+      },
       include: { recallBot: true },
     })
 
@@ -191,7 +244,57 @@ export class CalendarService {
 
     const shouldCancel = !enabled && this.hasActiveRecallBot(event.recallBot)
 
-    return { event: updated, shouldSchedule, shouldCancel }
+    return { event: updated, shouldSchedule, shouldCancel, configChanged }
+  }
+
+  /**
+   * Stores the notetaker choice for a recurring series and applies it to every
+   * future occurrence. Occurrences synced later pick the rule up in
+   * `upsertEvents`.
+   */
+  async setSeriesNotetaker(userId: string, seriesId: string, enabled: boolean) {
+    const now = new Date()
+    const occurrences = await this.prisma.calendarEvent.findMany({
+      where: {
+        userId,
+        seriesId,
+        deletedAt: null,
+        startTime: { gt: now },
+      },
+      include: { recallBot: true },
+    })
+    const seriesExists =
+      occurrences.length > 0 ||
+      (await this.prisma.calendarEvent.count({
+        where: { userId, seriesId },
+      })) > 0
+    if (!seriesExists) {
+      throw new NotFoundException("Calendar series not found")
+    }
+
+    const rule = await this.prisma.calendarSeriesRule.upsert({
+      where: { userId_seriesId: { userId, seriesId } },
+      create: { userId, seriesId, notetakerEnabled: enabled },
+      update: { notetakerEnabled: enabled },
+    })
+
+    // Occurrences without a meeting link cannot host a bot either way.
+    const eligible = occurrences.filter((event) => !!event.meetingUrl)
+    await this.prisma.calendarEvent.updateMany({
+      where: { id: { in: eligible.map((event) => event.id) } },
+      data: { notetakerEnabled: enabled },
+    })
+
+    const results = eligible.map((event) => {
+      const hasActiveBot = this.hasActiveRecallBot(event.recallBot)
+      return {
+        event: { ...event, notetakerEnabled: enabled },
+        shouldSchedule: enabled && !hasActiveBot,
+        shouldCancel: !enabled && hasActiveBot,
+      }
+    })
+
+    return { rule, results }
   }
 
   async upsertEvents(
@@ -217,6 +320,8 @@ export class CalendarService {
     const existingMap = new Map(
       existing.map((event) => [event.externalEventId, event]),
     )
+    const seriesRules = await this.loadSeriesRules(userId, inputs)
+    const ruleSet = await this.loadNotetakerRuleSet(userId, connectedAccountId)
     const results: UpsertEventResult[] = []
     const now = new Date()
 
@@ -224,16 +329,20 @@ export class CalendarService {
       const existingEvent = existingMap.get(input.externalEventId)
       const eventIsInPast = input.startTime <= now
       const hasMeetingUrl = !!input.meetingUrl
-      let notetakerEnabled: boolean
-      if (!hasMeetingUrl) {
-        notetakerEnabled = false
-      } else if (existingEvent) {
-        notetakerEnabled = existingEvent.notetakerEnabled
-      } else if (eventIsInPast) {
-        notetakerEnabled = false
-      } else {
-        notetakerEnabled = defaultNotetaker
-      }
+      const seriesId = this.resolveSeriesId(input)
+      const seriesRule = seriesId ? seriesRules.get(seriesId) : undefined
+      // Once an event exists its notetaker flag belongs to the user; rules
+      // only decide for newly seen events.
+      const notetakerEnabled =
+        hasMeetingUrl && existingEvent
+          ? existingEvent.notetakerEnabled
+          : this.resolveAutoNotetaker(input, {
+              hasMeetingUrl,
+              isPast: eventIsInPast,
+              seriesRule,
+              defaultNotetaker,
+              ...ruleSet,
+            }).enabled
       const nextStatus = this.resolveEventStatus({
         existingEvent,
         input,
@@ -261,6 +370,7 @@ export class CalendarService {
         recurrence: input.recurrence
           ? (input.recurrence as Prisma.InputJsonValue)
           : Prisma.JsonNull,
+        seriesId,
         creatorEmail: input.creatorEmail,
         creatorDisplayName: input.creatorDisplayName,
         deduplicationKey: input.deduplicationKey,
@@ -352,9 +462,75 @@ export class CalendarService {
       }
     }
 
+    await this.applyDuplicateGroups(userId, results)
     return results
   }
 
+  /**
+   * Returns, per event id, the other copies of the same meeting found on the
+   * user's other connected accounts.
+   */
+  async findDuplicates(
+    userId: string,
+    events: Array<Pick<CalendarEvent, "id" | "deduplicationKey">>,
+  ) {
+    const groups = await this.loadDuplicateGroups(
+      userId,
+      events.map((event) => event.deduplicationKey),
+    )
+    const duplicates = new Map<string, DuplicateCalendarEvent[]>()
+    for (const event of events) {
+      const group = groups.get(event.deduplicationKey) ?? []
+      const others = group.filter((member) => member.id !== event.id)
+      if (others.length) {
+        duplicates.set(event.id, others)
+      }
+    }
+    return duplicates
+  }
+
+  /**
+   * Re-runs the auto-join decision `upsertEvents` makes for a newly synced
+   * event, against the user's current series rules and notetaker rules, so the
+   * user can see why it was (or would be) enabled.
+   */
+  async explainNotetaker(eventId: string, userId: string) {
+    const event = await this.prisma.calendarEvent.findUnique({
+      where: { id: eventId },
+    })
+    if (!event || event.userId !== userId || event.deletedAt) {
+      throw new NotFoundException("Calendar event not found")
+    }
+
+    const subject: NotetakerRuleSubject = {
+      ...event,
+      attendees: event.attendees as Record<string, unknown>[] | null,
+    }
+    const seriesRule = event.seriesId
+      ? await this.prisma.calendarSeriesRule.findUnique({
+          where: { userId_seriesId: { userId, seriesId: event.seriesId } },
+        })
+      : null
+    const preference = await this.prisma.meetingPreference.findUnique({
+      where: { userId },
+    })
+    const ruleSet = await this.loadNotetakerRuleSet(
+      userId,
+      event.connectedAccountId,
+    )
+
+    const decision = this.resolveAutoNotetaker(subject, {
+      hasMeetingUrl: !!event.meetingUrl,
+      // Matches what sync saw: the event was first stored after it started.
+      isPast: event.createdAt >= event.startTime,
+      seriesRule: seriesRule ?? undefined,
+      defaultNotetaker: preference?.defaultNotetaker ?? true,
+      ...ruleSet,
+    })
+
+    return { event, decision }
+  }
+
   async markEventsDeleted(
     connectedAccountId: string,
     externalEventIds: string[],
@@ -414,7 +590,7 @@ export class CalendarService {
     const account = await this.prisma.connectedAccount.findFirst({
       where: {
         userId,
-        provider: ConnectedProvider.GOOGLE_CALENDAR,
+        provider: { in: CALENDAR_PROVIDERS },
       },
       orderBy: { lastSyncedAt: "desc" },
       select: { lastSyncedAt: true },
@@ -423,6 +599,170 @@ export class CalendarService {
     return account?.lastSyncedAt ?? null
   }
 
+  /**
+   * Copies of one meeting on several accounts share a deduplication key. Only
+   * the group's primary event keeps a Recall bot; the bot decisions computed
+   * per event are rewritten accordingly.
+   */
+  private async applyDuplicateGroups(
+    userId: string,
+    results: UpsertEventResult[],
+  ) {
+    const keys = results
+      .filter((result) => !!result.event.meetingUrl)
+      .map((result) => result.event.deduplicationKey)
+    const groups = await this.loadDuplicateGroups(userId, keys)
+
+    for (const result of results) {
+      const group = groups.get(result.event.deduplicationKey)
+      if (!group || group.length < 2) {
+        continue
+      }
+      const primary = this.pickPrimaryDuplicate(group)
+      if (primary.id === result.event.id) {
+        continue
+      }
+      result.shouldScheduleBot = false
+      result.shouldCancelBot = this.hasActiveRecallBot(result.event.recallBot)
+    }
+  }
+
+  private pickPrimaryDuplicate(group: DuplicateCalendarEvent[]) {
+    // Prefer an enabled copy that already has a bot so nothing is rescheduled.
+    return (
+      group.find(
+        (event) =>
+          event.notetakerEnabled && this.hasActiveRecallBot(event.recallBot),
+      ) ??
+      group.find((event) => event.notetakerEnabled) ??
+      group.find((event) => this.hasActiveRecallBot(event.recallBot)) ??
+      group[0]
+    )
+  }
+
+  private async loadDuplicateGroups(userId: string, keys: string[]) {
+    const uniqueKeys = Array.from(new Set(keys))
+    const groups = new Map<string, DuplicateCalendarEvent[]>()
+    if (!uniqueKeys.length) {
+      return groups
+    }
+
+    const members = await this.prisma.calendarEvent.findMany({
+      where: {
+        userId,
+        deletedAt: null,
+        deduplicationKey: { in: uniqueKeys },
+      },
+      include: { recallBot: true, connectedAccount: true },
+      orderBy: { createdAt: "asc" },
+    })
+    for (const member of members) {
+      groups.set(member.deduplicationKey, [
+        ...(groups.get(member.deduplicationKey) ?? []),
+        member,
+      ])
+    }
+    return groups
+  }
+
+  private async loadSeriesRules(
+    userId: string,
+    inputs: UpsertCalendarEventInput[],
+  ) {
+    const seriesIds = Array.from(
+      new Set(
+        inputs
+          .map((input) => this.resolveSeriesId(input))
+          .filter((seriesId): seriesId is string => !!seriesId),
+      ),
+    )
+    if (!seriesIds.length) {
+      return new Map<string, CalendarSeriesRule>()
+    }
+
+    const rules = await this.prisma.calendarSeriesRule.findMany({
+      where: { userId, seriesId: { in: seriesIds } },
+    })
+    return new Map(rules.map((rule) => [rule.seriesId, rule]))
+  }
+
+  private async loadNotetakerRuleSet(
+    userId: string,
+    connectedAccountId: string,
+  ): Promise<{ rules: NotetakerRule[]; context: NotetakerRuleContext }> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        email: true,
+        notetakerRules: { where: { enabled: true } },
+        connectedAccounts: { select: { label: true } },
+      },
+    })
+    const ownEmails = [
+      user?.email,
+      ...(user?.connectedAccounts ?? []).map((account) => account.label),
+    ]
+      .filter((email): email is string => !!email && email.includes("@"))
+      .map((email) => email.toLowerCase())
+
+    return {
+      rules: user?.notetakerRules ?? [],
+      context: { connectedAccountId, ownEmails },
+    }
+  }
+
+  private resolveAutoNotetaker(
+    subject: NotetakerRuleSubject,
+    options: {
+      hasMeetingUrl: boolean
+      isPast: boolean
+      seriesRule?: CalendarSeriesRule
+      defaultNotetaker: boolean
+      rules: NotetakerRule[]
+      context: NotetakerRuleContext
+    },
+  ): AutoNotetakerDecision {
+    const skipped = { rule: null, evaluations: [] }
+    if (!options.hasMeetingUrl) {
+      return { enabled: false, reason: "NO_MEETING_URL", ...skipped }
+    }
+    if (options.isPast) {
+      return { enabled: false, reason: "PAST_EVENT", ...skipped }
+    }
+    if (options.seriesRule) {
+      return {
+        enabled: options.seriesRule.notetakerEnabled,
+        reason: "SERIES_RULE",
+        ...skipped,
+      }
+    }
+
+    const outcome = evaluateNotetakerRules(
+      subject,
+      options.rules,
+      options.context,
+      options.defaultNotetaker,
+    )
+    return {
+      enabled: outcome.enabled,
+      reason: outcome.decidedBy ? "RULE" : "DEFAULT",
+      rule: outcome.decidedBy,
+      evaluations: outcome.evaluations,
+    }
+  }
+
+  // Providers that do not expand series (no instance → master link) still
+  // send the RRULE on the master event, which then identifies the series.
+  private resolveSeriesId(input: UpsertCalendarEventInput) {
+    if (input.seriesId) {
+      return input.seriesId
+    }
+    const isRecurring = input.recurrence?.some((rule) =>
+      rule.toUpperCase().startsWith("RRULE"),
+    )
+    return isRecurring ? input.externalEventId : null
+  }
+
   private resolveEventStatus({
     existingEvent,
     input,
@@ -673,6 +1013,11 @@ export class CalendarService {
 
 type CalendarChangeAction = "added" | "removed" | "updated"
 
+type DuplicateCalendarEvent = CalendarEvent & {
+  recallBot: RecallBot | null
+  connectedAccount: ConnectedAccount
+}
+
 type CalendarEventChange = {
   field: string
   label: string
@@ -5,6 +5,14 @@ import {
   RecallBotStatus,
 } from "@prisma/client"
 
+export class CalendarEventDuplicateDto {
+  id: string
+  provider: ConnectedProvider
+  accountLabel?: string | null
+  notetakerEnabled: boolean
+  botStatus?: RecallBotStatus | null
+}
+
 export class CalendarEventDto {
   id: string
   title?: string | null
@@ -24,6 +32,8 @@ export class CalendarEventDto {
   botStatus?: RecallBotStatus | null
   reminders?: Record<string, unknown> | null
   recurrence?: string[] | null
+  seriesId?: string | null
   creatorEmail?: string | null
   creatorDisplayName?: string | null
+  duplicates?: CalendarEventDuplicateDto[]
 }
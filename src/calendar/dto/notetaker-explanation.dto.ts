@@ -0,0 +1,25 @@
+import { NotetakerRuleAction, NotetakerRuleType } from "@prisma/client"
+import type { AutoNotetakerReason } from "../calendar.service"
+
+export class NotetakerRuleEvaluationDto {
+  ruleId: string
+  name: string
+  type: NotetakerRuleType
+  action: NotetakerRuleAction
+  value?: string | null
+  matched: boolean
+  decision: boolean | null
+  applied: boolean
+}
+
+export class NotetakerExplanationDto {
+  eventId: string
+  notetakerEnabled: boolean
+  autoEnabled: boolean
+  reason: AutoNotetakerReason
+  summary: string
+  // The stored flag no longer matches the automatic decision, e.g. the user
+  // toggled it or the rules changed after the event was first synced.
+  overridden: boolean
+  rules: NotetakerRuleEvaluationDto[]
+}
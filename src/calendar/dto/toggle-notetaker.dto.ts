@@ -1,6 +1,70 @@
-import { IsBoolean } from "class-validator"
+import { Type } from "class-transformer"
+import {
+  IsBoolean,
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUrl,
+  Matches,
+  MaxLength,
+  ValidateIf,
+  ValidateNested,
+} from "class-validator"
+import { BotRecordingMode } from "@prisma/client"
+import {
+  BOT_ANNOUNCEMENT_MAX_LENGTH,
+  BOT_NAME_MAX_LENGTH,
+  TRANSCRIPT_LANGUAGE_PATTERN,
+} from "../../recall/bot-config"
 
 export class ToggleNotetakerDto {
   @IsBoolean()
   enabled!: boolean
 }
+
+// Settings for one meeting's bot. Omitted fields keep the current override;
+// null drops it so the meeting follows the owner's preferences again.
+export class BotConfigOverrideDto {
+  @IsOptional()
+  @ValidateIf((_, value) => value !== null)
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(BOT_NAME_MAX_LENGTH)
+  botName?: string | null
+
+  @IsOptional()
+  @ValidateIf((_, value) => value !== null)
+  @IsUrl({ protocols: ["https"], require_protocol: true })
+  @MaxLength(2048)
+  botAvatarUrl?: string | null
+
+  @IsOptional()
+  @ValidateIf((_, value) => value !== null)
+  @IsBoolean()
+  announceRecording?: boolean | null
+
+  @IsOptional()
+  @ValidateIf((_, value) => value !== null)
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(BOT_ANNOUNCEMENT_MAX_LENGTH)
+  botAnnouncement?: string | null
+
+  @IsOptional()
+  @ValidateIf((_, value) => value !== null)
+  @IsEnum(BotRecordingMode)
+  recordingMode?: BotRecordingMode | null
+
+  @IsOptional()
+  @ValidateIf((_, value) => value !== null)
+  @Matches(TRANSCRIPT_LANGUAGE_PATTERN)
+  transcriptLanguage?: string | null
+}
+
+export class ToggleEventNotetakerDto extends ToggleNotetakerDto {
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => BotConfigOverrideDto)
+  bot?: BotConfigOverrideDto
+}
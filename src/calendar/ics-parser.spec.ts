@@ -0,0 +1,157 @@
+import { readFileSync } from "fs"
+import { join } from "path"
+import { Logger } from "@nestjs/common"
+import { MeetingPlatform } from "@prisma/client"
+import { parseIcsEvents } from "./ics-parser"
+
+const fixture = (name: string) =>
+  readFileSync(join(__dirname, "__fixtures__", name), "utf8")
+
+const window = {
+  timeMin: new Date("2025-11-01T00:00:00Z"),
+  timeMax: new Date("2025-11-29T00:00:00Z"),
+}
+
+describe("parseIcsEvents", () => {
+  describe("recurring series", () => {
+    const result = parseIcsEvents(fixture("weekly-standup.ics"), window)
+
+    it("expands occurrences inside the window and skips EXDATEs", () => {
+      expect(result.inputs.map((input) => input.externalEventId)).toEqual([
+        "standup-1234@example.com_20251103T093000",
+        "standup-1234@example.com_20251117T093000",
+      ])
+    })
+
+    it("resolves times through the embedded VTIMEZONE", () => {
+      const [first] = result.inputs
+      expect(first.startTime.toISOString()).toBe("2025-11-03T08:30:00.000Z")
+      expect(first.endTime.toISOString()).toBe("2025-11-03T09:00:00.000Z")
+      expect(first.timezone).toBe("Europe/Berlin")
+    })
+
+    it("applies RECURRENCE-ID overrides", () => {
+      const moved = result.inputs[1]
+      expect(moved.title).toBe("Weekly standup (moved)")
+      expect(moved.startTime.toISOString()).toBe("2025-11-17T13:00:00.000Z")
+      expect(moved.meetingPlatform).toBe(MeetingPlatform.ZOOM)
+      expect(moved.meetingUrl).toBe(
+        "https://us02web.zoom.us/j/123456789?pwd=abc",
+      )
+    })
+
+    it("links occurrences to their series", () => {
+      for (const input of result.inputs) {
+        expect(input.seriesId).toBe("standup-1234@example.com")
+      }
+      expect(result.inputs[0].recurrence).toEqual([
+        "RRULE:FREQ=WEEKLY;BYDAY=MO",
+        "EXDATE;TZID=Europe/Berlin:20251110T093000",
+      ])
+    })
+
+    it("reports cancelled occurrences", () => {
+      expect(result.cancelledIds).toEqual([
+        "standup-1234@example.com_20251124T093000",
+      ])
+    })
+
+    it("maps meeting links, attendees and alarms", () => {
+      const [first] = result.inputs
+      expect(first.meetingPlatform).toBe(MeetingPlatform.GOOGLE_MEET)
+      expect(first.meetingUrl).toBe("https://meet.google.com/abc-defg-hij")
+      expect(first.calendarTitle).toBe("Team")
+      expect(first.creatorEmail).toBe("dana@example.com")
+      expect(first.attendees).toEqual([
+        {
+          email: "dana@example.com",
+          displayName: "Dana Lead",
+          responseStatus: "accepted",
+          optional: false,
+          organizer: true,
+        },
+        {
+          email: "sam@example.com",
+          displayName: "Sam Dev",
+          responseStatus: "tentative",
+          optional: true,
+          organizer: false,
+        },
+      ])
+      expect(first.reminders).toEqual({
+        useDefault: false,
+        overrides: [{ method: "popup", minutes: 10 }],
+      })
+    })
+  })
+
+  describe("subscription feed", () => {
+    const result = parseIcsEvents(fixture("subscription-feed.ics"), window)
+
+    it("resolves IANA TZIDs without a VTIMEZONE block", () => {
+      const call = result.inputs.find(
+        (input) => input.externalEventId === "client-call@example.com",
+      )
+      expect(call?.startTime.toISOString()).toBe("2025-11-12T20:00:00.000Z")
+      expect(call?.timezone).toBe("America/New_York")
+      expect(call?.meetingPlatform).toBe(MeetingPlatform.MICROSOFT_TEAMS)
+      expect(call?.htmlLink).toBe(
+        "https://www.icloud.com/calendar/event/client-call",
+      )
+    })
+
+    it("keeps all-day events on their UTC date", () => {
+      const offsite = result.inputs.find(
+        (input) => input.externalEventId === "offsite@example.com",
+      )
+      expect(offsite?.startTime.toISOString()).toBe("2025-11-20T00:00:00.000Z")
+      expect(offsite?.endTime.toISOString()).toBe("2025-11-21T00:00:00.000Z")
+      expect(offsite?.meetingUrl).toBeNull()
+    })
+
+    it("drops events outside the window and flags cancellations", () => {
+      expect(result.inputs.map((input) => input.externalEventId)).toEqual([
+        "client-call@example.com",
+        "offsite@example.com",
+      ])
+      expect(result.cancelledIds).toEqual(["dropped@example.com"])
+    })
+  })
+
+  describe("unbounded series", () => {
+    const dailySince = (dtstart: string) =>
+      [
+        "BEGIN:VCALENDAR",
+        "VERSION:2.0",
+        "BEGIN:VEVENT",
+        "UID:daily@example.com",
+        `DTSTART:${dtstart}`,
+        "DURATION:PT30M",
+        "RRULE:FREQ=DAILY",
+        "SUMMARY:Daily sync",
+        "END:VEVENT",
+        "END:VCALENDAR",
+      ].join("\r\n")
+
+    afterEach(() => jest.restoreAllMocks())
+
+    it("reaches the window for a daily series that started decades ago", () => {
+      const result = parseIcsEvents(dailySince("19900101T090000Z"), window)
+      expect(result.inputs).toHaveLength(28)
+      expect(result.inputs[0].externalEventId).toBe(
+        "daily@example.com_20251101T090000Z",
+      )
+    })
+
+    it("logs when a series is too long to expand", () => {
+      const warn = jest
+        .spyOn(Logger.prototype, "warn")
+        .mockImplementation(() => undefined)
+      const result = parseIcsEvents(dailySince("17000101T090000Z"), window)
+      expect(result.inputs).toHaveLength(0)
+      expect(warn).toHaveBeenCalledWith(
+        expect.stringContaining("daily@example.com"),
+      )
+    })
+  })
+})
@@ -0,0 +1,358 @@
+import ICAL from "ical.js"
+import { Logger } from "@nestjs/common"
+import { CalendarEventStatus } from "@prisma/client"
+import type { UpsertCalendarEventInput } from "./calendar.service"
+import { buildDeduplicationKey, findMeetingUrl } from "./meeting-link"
+import type { CalendarSyncWindow } from "./types/calendar-sync.types"
+
+// Guards against unbounded RRULEs (no COUNT/UNTIL). Occurrences before the
+// window are counted separately, so a daily series that started decades ago
+// still reaches the window before expansion gives up.
+const MAX_SKIPPED_OCCURRENCES = 50_000
+const MAX_EXPANDED_OCCURRENCES = 5000
+
+const logger = new Logger("IcsParser")
+
+// ical.js declares occurrence details against a types module it does not ship.
+type OccurrenceDetails = {
+  recurrenceId: ICAL.Time
+  item: ICAL.Event
+  startDate: ICAL.Time
+  endDate: ICAL.Time
+}
+
+export type IcsParseResult = {
+  inputs: UpsertCalendarEventInput[]
+  cancelledIds: string[]
+}
+
+/**
+ * Parses an iCalendar document into calendar event inputs. Recurring events
+ * are expanded (honouring EXDATE and RECURRENCE-ID overrides) into one input
+ * per occurrence overlapping the window, keyed `<UID>_<RECURRENCE-ID>` like
+ * Google instance ids.
+ */
+export function parseIcsEvents(
+  ics: string,
+  window: CalendarSyncWindow,
+): IcsParseResult {
+  const root = ICAL.Component.fromString(ics)
+  const calendarTitle = readText(root.getFirstPropertyValue("x-wr-calname"))
+
+  const masters = new Map<string, ICAL.Component>()
+  const exceptions = new Map<string, ICAL.Component[]>()
+  for (const vevent of root.getAllSubcomponents("vevent")) {
+    const uid = readText(vevent.getFirstPropertyValue("uid"))
+    if (!uid) continue
+    if (vevent.hasProperty("recurrence-id")) {
+      exceptions.set(uid, [...(exceptions.get(uid) ?? []), vevent])
+    } else {
+      masters.set(uid, vevent)
+    }
+  }
+
+  const result: IcsParseResult = { inputs: [], cancelledIds: [] }
+  for (const [uid, master] of masters) {
+    const event = new ICAL.Event(master)
+    for (const exception of exceptions.get(uid) ?? []) {
+      event.relateException(exception)
+    }
+
+    if (!event.isRecurring()) {
+      collectOccurrence(result, {
+        externalEventId: uid,
+        seriesId: null,
+        recurrence: null,
+        item: event,
+        start: event.startDate,
+        end: event.endDate,
+        calendarTitle,
+        window,
+      })
+      continue
+    }
+
+    const recurrence = readRecurrence(master)
+
+    const iterator = event.iterator()
+    let skipped = 0
+    let expanded = 0
+    for (;;) {
+      const next = iterator.next()
+      if (!next) break
+      const details = event.getOccurrenceDetails(next) as OccurrenceDetails
+      const start = toDate(details.startDate, details.item)
+      if (start.getTime() >= window.timeMax.getTime()) break
+      if (start.getTime() < window.timeMin.getTime()) {
+        skipped += 1
+      } else {
+        expanded += 1
+      }
+      if (
+        skipped > MAX_SKIPPED_OCCURRENCES ||
+        expanded > MAX_EXPANDED_OCCURRENCES
+      ) {
+        logger.warn(
+          `Stopped expanding recurring event ${uid} after ${skipped + expanded} occurrences; later ones in the window are missing`,
+        )
+        break
+      }
+      collectOccurrence(result, {
+        externalEventId: `${uid}_${details.recurrenceId.toICALString()}`,
+        seriesId: uid,
+        recurrence,
+        item: details.item,
+        start: details.startDate,
+        end: details.endDate,
+        calendarTitle,
+        window,
+      })
+    }
+  }
+
+  // Overrides whose series master is not part of this document.
+  for (const [uid, orphans] of exceptions) {
+    if (masters.has(uid)) continue
+    for (const orphan of orphans) {
+      const item = new ICAL.Event(orphan)
+      collectOccurrence(result, {
+        externalEventId: `${uid}_${item.recurrenceId.toICALString()}`,
+        seriesId: uid,
+        recurrence: null,
+        item,
+        start: item.startDate,
+        end: item.endDate,
+        calendarTitle,
+        window,
+      })
+    }
+  }
+
+  return result
+}
+
+function collectOccurrence(
+  result: IcsParseResult,
+  occurrence: {
+    externalEventId: string
+    seriesId: string | null
+    recurrence: string[] | null
+    item: ICAL.Event
+    start: ICAL.Time
+    end: ICAL.Time | null
+    calendarTitle: string | null
+    window: CalendarSyncWindow
+  },
+) {
+  const { externalEventId, item, window } = occurrence
+  const start = toDate(occurrence.start, item)
+  const end = occurrence.end ? toDate(occurrence.end, item) : start
+  if (
+    end.getTime() < window.timeMin.getTime() ||
+    start.getTime() >= window.timeMax.getTime()
+  ) {
+    return
+  }
+
+  const status = readText(item.component.getFirstPropertyValue("status"))
+  if (status?.toUpperCase() === "CANCELLED") {
+    result.cancelledIds.push(externalEventId)
+    return
+  }
+
+  result.inputs.push(
+    toEventInput(item, {
+      externalEventId,
+      seriesId: occurrence.seriesId,
+      recurrence: occurrence.recurrence,
+      start,
+      end,
+      calendarTitle: occurrence.calendarTitle,
+    }),
+  )
+}
+
+function toEventInput(
+  item: ICAL.Event,
+  occurrence: {
+    externalEventId: string
+    seriesId: string | null
+    recurrence: string[] | null
+    start: Date
+    end: Date
+    calendarTitle: string | null
+  },
+): UpsertCalendarEventInput {
+  const component = item.component
+  const url = readText(component.getFirstPropertyValue("url"))
+  const meetingInfo = findMeetingUrl(
+    [item.location, item.description, url].filter(Boolean).join(" "),
+  )
+
+  const organizerProperty = component.getFirstProperty("organizer")
+  const organizerEmail = toEmail(organizerProperty?.getFirstValue())
+  const organizerName = readText(organizerProperty?.getParameter("cn"))
+
+  const attendees = component.getAllProperties("attendee").map((property) => {
+    const email = toEmail(property.getFirstValue())
+    return {
+      email,
+      displayName: readText(property.getParameter("cn")),
+      responseStatus: toResponseStatus(property.getParameter("partstat")),
+      optional: property.getParameter("role") === "OPT-PARTICIPANT",
+      organizer:
+        !!email &&
+        !!organizerEmail &&
+        email.toLowerCase() === organizerEmail.toLowerCase(),
+    }
+  })
+
+  const overrides = component
+    .getAllSubcomponents("valarm")
+    .map((alarm) => alarm.getFirstPropertyValue("trigger"))
+    .filter((trigger): trigger is ICAL.Duration => {
+      return trigger instanceof ICAL.Duration && trigger.isNegative
+    })
+    .map((trigger) => ({
+      method: "popup",
+      minutes: Math.round(Math.abs(trigger.toSeconds()) / 60),
+    }))
+
+  return {
+    externalEventId: occurrence.externalEventId,
+    calendarId: organizerEmail ?? undefined,
+    calendarTitle:
+      occurrence.calendarTitle ?? organizerName ?? item.summary ?? undefined,
+    title: item.summary || "Untitled Meeting",
+    description: item.description || undefined,
+    location: item.location || undefined,
+    meetingUrl: meetingInfo.url,
+    meetingPlatform: meetingInfo.platform,
+    htmlLink: url ?? undefined,
+    startTime: occurrence.start,
+    endTime: occurrence.end,
+    timezone: readTzid(item) ?? (item.startDate.isDate ? undefined : "UTC"),
+    attendees: attendees.length ? attendees : null,
+    reminders: overrides.length ? { useDefault: false, overrides } : null,
+    recurrence: occurrence.recurrence,
+    seriesId: occurrence.seriesId,
+    creatorEmail: organizerEmail,
+    creatorDisplayName: organizerName,
+    deduplicationKey: buildDeduplicationKey(
+      meetingInfo.url,
+      occurrence.start,
+      occurrence.externalEventId,
+    ),
+    status: CalendarEventStatus.UPCOMING,
+  }
+}
+
+/**
+ * Resolves an iCalendar time to an instant. Zones defined by a VTIMEZONE in
+ * the document are handled by ical.js; bare IANA TZIDs (common in feeds that
+ * omit VTIMEZONE) come back floating and are resolved here. Truly floating
+ * times and all-day dates are read as UTC so results do not depend on the
+ * server's local zone.
+ */
+function toDate(time: ICAL.Time, item: ICAL.Event) {
+  const zone = time.zone?.tzid
+  if (!time.isDate && zone && zone !== "floating") {
+    return time.toJSDate()
+  }
+
+  const wallClock = Date.UTC(
+    time.year,
+    time.month - 1,
+    time.day,
+    time.isDate ? 0 : time.hour,
+    time.isDate ? 0 : time.minute,
+    time.isDate ? 0 : time.second,
+  )
+  const tzid = time.isDate ? null : readTzid(item)
+  if (!tzid || !isKnownTimeZone(tzid)) {
+    return new Date(wallClock)
+  }
+
+  // Two passes settle the offset for instants next to a DST transition.
+  let instant = wallClock - getTimeZoneOffset(wallClock, tzid)
+  instant = wallClock - getTimeZoneOffset(instant, tzid)
+  return new Date(instant)
+}
+
+function getTimeZoneOffset(instant: number, timeZone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(new Date(instant))
+  const value = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value ?? 0)
+  const asUtc = Date.UTC(
+    value("year"),
+    value("month") - 1,
+    value("day"),
+    value("hour"),
+    value("minute"),
+    value("second"),
+  )
+  return asUtc - Math.floor(instant / 1000) * 1000
+}
+
+function isKnownTimeZone(timeZone: string) {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+function readRecurrence(master: ICAL.Component) {
+  const lines = ["rrule", "rdate", "exdate"].flatMap((name) =>
+    master
+      .getAllProperties(name)
+      .map((property) => property.toICALString().replace(/\r?\n /g, "")),
+  )
+  return lines.length ? lines : null
+}
+
+function readTzid(item: ICAL.Event) {
+  const tzid = item.component.getFirstProperty("dtstart")?.getParameter("tzid")
+  return readText(tzid)
+}
+
+function toEmail(value: unknown) {
+  const text = readText(value)
+  if (!text) return null
+  return text.replace(/^mailto:/i, "") || null
+}
+
+function toResponseStatus(partstat: unknown) {
+  switch (readText(partstat)?.toUpperCase()) {
+    case "ACCEPTED":
+      return "accepted"
+    case "DECLINED":
+      return "declined"
+    case "TENTATIVE":
+      return "tentative"
+    case "NEEDS-ACTION":
+      return "needsAction"
+    default:
+      return null
+  }
+}
+
+function readText(value: unknown) {
+  if (typeof value === "string") {
+    return value.trim() || null
+  }
+  if (Array.isArray(value) && typeof value[0] === "string") {
+    return value[0].trim() || null
+  }
+  return null
+}
@@ -0,0 +1,72 @@
+import { MeetingPlatform } from "@prisma/client"
+
+export type MeetingLinkMatch = {
+  url: string | null
+  platform: MeetingPlatform
+}
+
+const MEETING_LINK_PATTERNS = [
+  {
+    regex: /(https?:\/\/[\w.-]*zoom\.us\/[^\s"'<>]+)/i,
+    platform: MeetingPlatform.ZOOM,
+  },
+  {
+    regex: /(https?:\/\/meet\.google\.com\/[^\s"'<>]+)/i,
+    platform: MeetingPlatform.GOOGLE_MEET,
+  },
+  {
+    regex: /(https?:\/\/teams\.(?:microsoft|live)\.com\/[^\s"'<>]+)/i,
+    platform: MeetingPlatform.MICROSOFT_TEAMS,
+  },
+]
+
+/**
+ * Finds the first supported conferencing link in free text (location,
+ * description, HTML bodies) and reports which platform it belongs to.
+ */
+export function findMeetingUrl(text?: string | null): MeetingLinkMatch {
+  if (!text) {
+    return { url: null, platform: MeetingPlatform.UNKNOWN }
+  }
+
+  for (const pattern of MEETING_LINK_PATTERNS) {
+    const match = text.match(pattern.regex)
+    if (match) {
+      return {
+        url: match[0].replace(/&amp;/g, "&"),
+        platform: pattern.platform,
+      }
+    }
+  }
+
+  return { url: null, platform: MeetingPlatform.UNKNOWN }
+}
+
+/**
+ * Builds the key that links copies of one meeting across a user's calendars:
+ * the same invite on two accounts shares its join link and start time even
+ * though each provider assigns its own event id. Events without a link fall
+ * back to the provider event id, which still matches for the same invite on
+ * two accounts of one provider.
+ */
+export function buildDeduplicationKey(
+  meetingUrl: string | null | undefined,
+  startTime: Date,
+  externalEventId: string,
+) {
+  const normalizedUrl = meetingUrl ? normalizeMeetingUrl(meetingUrl) : null
+  return normalizedUrl
+    ? `${normalizedUrl}|${startTime.toISOString()}`
+    : `no-link|${startTime.toISOString()}|${externalEventId}`
+}
+
+function normalizeMeetingUrl(meetingUrl: string) {
+  try {
+    const url = new URL(meetingUrl.trim())
+    url.hash = ""
+    url.pathname = url.pathname.replace(/\/+$/, "")
+    return url.toString().toLowerCase()
+  } catch {
+    return meetingUrl.trim().toLowerCase()
+  }
+}
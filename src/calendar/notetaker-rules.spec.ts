@@ -0,0 +1,161 @@
+import {
+  MeetingPlatform,
+  NotetakerRule,
+  NotetakerRuleAction,
+  NotetakerRuleType,
+} from "@prisma/client"
+import {
+  evaluateNotetakerRules,
+  type NotetakerRuleSubject,
+} from "./notetaker-rules"
+
+const context = {
+  connectedAccountId: "account-1",
+  ownEmails: ["dana@example.com"],
+}
+
+const subject: NotetakerRuleSubject = {
+  title: "Quarterly review",
+  calendarId: "dana@example.com",
+  calendarTitle: "Work",
+  meetingPlatform: MeetingPlatform.ZOOM,
+  creatorEmail: "dana@example.com",
+  attendees: [
+    { email: "dana@example.com", organizer: true },
+    { email: "sam@example.com" },
+  ],
+}
+
+let sequence = 0
+const rule = (overrides: Partial<NotetakerRule>): NotetakerRule => {
+  sequence += 1
+  return {
+    id: `rule-${sequence}`,
+    userId: "user-1",
+    name: `Rule ${sequence}`,
+    type: NotetakerRuleType.TITLE_MATCH,
+    action: NotetakerRuleAction.SKIP,
+    value: null,
+    enabled: true,
+    priority: 0,
+    createdAt: new Date(2025, 10, 1, 0, sequence),
+    updatedAt: new Date(2025, 10, 1, 0, sequence),
+    ...overrides,
+  }
+}
+
+describe("evaluateNotetakerRules", () => {
+  it("falls back to the default when no rule decides", () => {
+    const outcome = evaluateNotetakerRules(
+      subject,
+      [rule({ type: NotetakerRuleType.TITLE_MATCH, value: "1:1" })],
+      context,
+      true,
+    )
+    expect(outcome.enabled).toBe(true)
+    expect(outcome.decidedBy).toBeNull()
+    expect(outcome.evaluations[0].matched).toBe(false)
+  })
+
+  it("skips events whose title matches", () => {
+    const skip = rule({ type: NotetakerRuleType.TITLE_MATCH, value: "1:1" })
+    const outcome = evaluateNotetakerRules(
+      { ...subject, title: "Dana / Sam 1:1" },
+      [skip],
+      context,
+      true,
+    )
+    expect(outcome.enabled).toBe(false)
+    expect(outcome.decidedBy).toBe(skip)
+  })
+
+  it("requires an external attendee unless the domain is listed", () => {
+    const requireExternal = rule({
+      type: NotetakerRuleType.EXTERNAL_ATTENDEE,
+      action: NotetakerRuleAction.REQUIRE,
+    })
+    const internal = evaluateNotetakerRules(
+      subject,
+      [requireExternal],
+      context,
+      true,
+    )
+    expect(internal.enabled).toBe(false)
+
+    const external = evaluateNotetakerRules(
+      {
+        ...subject,
+        attendees: [...subject.attendees!, { email: "lee@client.io" }],
+      },
+      [requireExternal],
+      context,
+      true,
+    )
+    expect(external.enabled).toBe(true)
+    expect(external.decidedBy).toBeNull()
+
+    const partner = evaluateNotetakerRules(
+      {
+        ...subject,
+        attendees: [...subject.attendees!, { email: "lee@client.io" }],
+      },
+      [{ ...requireExternal, value: "@client.io" }],
+      context,
+      true,
+    )
+    expect(partner.enabled).toBe(false)
+  })
+
+  it("joins organised meetings on a platform even when off by default", () => {
+    const outcome = evaluateNotetakerRules(
+      subject,
+      [
+        rule({
+          type: NotetakerRuleType.PLATFORM,
+          action: NotetakerRuleAction.REQUIRE,
+          value: "ZOOM",
+        }),
+        rule({
+          type: NotetakerRuleType.ORGANIZER,
+          action: NotetakerRuleAction.JOIN,
+        }),
+      ],
+      context,
+      false,
+    )
+    expect(outcome.enabled).toBe(true)
+    expect(outcome.decidedBy?.type).toBe(NotetakerRuleType.ORGANIZER)
+  })
+
+  it("lets the highest priority decision win and ignores disabled rules", () => {
+    const onlyPersonal = rule({
+      type: NotetakerRuleType.CALENDAR,
+      action: NotetakerRuleAction.REQUIRE,
+      value: "personal",
+      priority: 5,
+    })
+    const joinWork = rule({
+      type: NotetakerRuleType.CALENDAR,
+      action: NotetakerRuleAction.JOIN,
+      value: "account-1",
+      priority: 1,
+    })
+    const disabled = rule({
+      type: NotetakerRuleType.TITLE_MATCH,
+      value: "review",
+      enabled: false,
+    })
+    const outcome = evaluateNotetakerRules(
+      subject,
+      [onlyPersonal, joinWork, disabled],
+      context,
+      false,
+    )
+    expect(outcome.enabled).toBe(true)
+    expect(outcome.decidedBy).toBe(joinWork)
+    expect(outcome.evaluations.map((item) => item.rule)).toEqual([
+      joinWork,
+      onlyPersonal,
+    ])
+  })
+})
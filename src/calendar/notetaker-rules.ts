@@ -0,0 +1,161 @@
+import {
+  NotetakerRule,
+  NotetakerRuleAction,
+  NotetakerRuleType,
+} from "@prisma/client"
+import type { UpsertCalendarEventInput } from "./calendar.service"
+
+export type NotetakerRuleSubject = Pick<
+  UpsertCalendarEventInput,
+  | "title"
+  | "calendarId"
+  | "calendarTitle"
+  | "meetingPlatform"
+  | "attendees"
+  | "creatorEmail"
+>
+
+export type NotetakerRuleContext = {
+  connectedAccountId: string
+  // Lower-cased addresses that belong to the user (login + calendar accounts).
+  ownEmails: string[]
+}
+
+export type NotetakerRuleEvaluation = {
+  rule: NotetakerRule
+  matched: boolean
+  decision: boolean | null
+}
+
+export type NotetakerRulesOutcome = {
+  enabled: boolean
+  decidedBy: NotetakerRule | null
+  evaluations: NotetakerRuleEvaluation[]
+}
+
+/**
+ * Evaluates the user's auto-join rules against an event. Enabled rules run in
+ * priority order and the first one that reaches a decision wins:
+ * REQUIRE turns the notetaker off when the event does not match, SKIP turns it
+ * off when it does, and JOIN turns it on when it does. Events no rule decides
+ * fall back to `defaultNotetaker`.
+ */
+export function evaluateNotetakerRules(
+  subject: NotetakerRuleSubject,
+  rules: NotetakerRule[],
+  context: NotetakerRuleContext,
+  defaultNotetaker: boolean,
+): NotetakerRulesOutcome {
+  const ordered = rules
+    .filter((rule) => rule.enabled)
+    .sort(
+      (a, b) =>
+        a.priority - b.priority ||
+        a.createdAt.getTime() - b.createdAt.getTime(),
+    )
+
+  const evaluations: NotetakerRuleEvaluation[] = []
+  let decidedBy: NotetakerRule | null = null
+  let enabled = defaultNotetaker
+  for (const rule of ordered) {
+    const matched = matchesRule(subject, rule, context)
+    const decision = decide(rule.action, matched)
+    evaluations.push({ rule, matched, decision })
+    if (!decidedBy && decision !== null) {
+      decidedBy = rule
+      enabled = decision
+    }
+  }
+
+  return { enabled, decidedBy, evaluations }
+}
+
+function decide(action: NotetakerRuleAction, matched: boolean) {
+  switch (action) {
+    case NotetakerRuleAction.REQUIRE:
+      return matched ? null : false
+    case NotetakerRuleAction.SKIP:
+      return matched ? false : null
+    case NotetakerRuleAction.JOIN:
+      return matched ? true : null
+  }
+}
+
+function matchesRule(
+  subject: NotetakerRuleSubject,
+  rule: NotetakerRule,
+  context: NotetakerRuleContext,
+) {
+  const value = rule.value?.trim() ?? ""
+  switch (rule.type) {
+    case NotetakerRuleType.EXTERNAL_ATTENDEE:
+      return hasExternalParticipant(subject, value, context)
+    case NotetakerRuleType.TITLE_MATCH:
+      return (
+        !!value &&
+        !!subject.title &&
+        subject.title.toLowerCase().includes(value.toLowerCase())
+      )
+    case NotetakerRuleType.CALENDAR:
+      return (
+        !!value &&
+        (value === context.connectedAccountId ||
+          [subject.calendarId, subject.calendarTitle].some(
+            (candidate) => candidate?.toLowerCase() === value.toLowerCase(),
+          ))
+      )
+    case NotetakerRuleType.PLATFORM:
+      return !!value && subject.meetingPlatform === value.toUpperCase()
+    case NotetakerRuleType.ORGANIZER: {
+      const organizer = findOrganizerEmail(subject)
+      return !!organizer && context.ownEmails.includes(organizer)
+    }
+  }
+}
+
+// `value` optionally lists extra internal domains, comma separated; the
+// domains of the user's own addresses always count as internal.
+function hasExternalParticipant(
+  subject: NotetakerRuleSubject,
+  value: string,
+  context: NotetakerRuleContext,
+) {
+  const internalDomains = new Set(
+    [
+      ...context.ownEmails.map(toDomain),
+      ...value.split(",").map((domain) => domain.trim().replace(/^@/, "")),
+    ]
+      .filter((domain): domain is string => !!domain)
+      .map((domain) => domain.toLowerCase()),
+  )
+  return readParticipantEmails(subject).some((email) => {
+    const domain = toDomain(email)
+    return !!domain && !internalDomains.has(domain)
+  })
+}
+
+function findOrganizerEmail(subject: NotetakerRuleSubject) {
+  const organizer = (subject.attendees ?? []).find(
+    (attendee) => attendee.organizer === true,
+  )
+  const email =
+    typeof organizer?.email === "string"
+      ? organizer.email
+      : subject.creatorEmail
+  return email ? email.toLowerCase() : null
+}
+
+function readParticipantEmails(subject: NotetakerRuleSubject) {
+  const emails = (subject.attendees ?? [])
+    .map((attendee) => attendee.email)
+    .filter((email): email is string => typeof email === "string")
+  if (subject.creatorEmail) {
+    emails.push(subject.creatorEmail)
+  }
+  return emails.map((email) => email.toLowerCase())
+}
+
+function toDomain(email: string) {
+  const at = email.lastIndexOf("@")
+  return at >= 0 ? email.slice(at + 1).toLowerCase() : null
+}
@@ -0,0 +1,84 @@
+import { Injectable } from "@nestjs/common"
+import { ConnectedAccount, ConnectedProvider } from "@prisma/client"
+import { PrismaService } from "../../../prisma/prisma.service"
+import { CalendarFeedsService } from "../../integrations/calendar-feeds/calendar-feeds.service"
+import { CalDavService } from "../../integrations/calendar-feeds/caldav.service"
+import type { UpsertCalendarEventInput } from "../calendar.service"
+import { parseIcsEvents } from "../ics-parser"
+import type { CalendarSyncWindow } from "../types/calendar-sync.types"
+import type {
+  CalendarProviderAdapter,
+  CalendarProviderChanges,
+} from "../types/calendar-provider.types"
+
+@Injectable()
+export class CalDavCalendarAdapter implements CalendarProviderAdapter {
+  readonly provider = ConnectedProvider.CALDAV_CALENDAR
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly calendarFeeds: CalendarFeedsService,
+    private readonly calDav: CalDavService,
+  ) {}
+
+  // Basic-auth credentials do not expire.
+  refreshCredentials(account: ConnectedAccount) {
+    return Promise.resolve(account)
+  }
+
+  async listWindow(
+    account: ConnectedAccount,
+    window: CalendarSyncWindow,
+  ): Promise<CalendarProviderChanges> {
+    const { credentials, calendars } =
+      this.calendarFeeds.readCalDavAccount(account)
+    const calendarUrls = calendars.length
+      ? calendars.map((calendar) => calendar.url)
+      : await this.rediscoverCalendars(account)
+
+    const inputs = new Map<string, UpsertCalendarEventInput>()
+    const cancelledIds = new Set<string>()
+    for (const calendarUrl of calendarUrls) {
+      const objects = await this.calDav.fetchCalendarObjects(
+        credentials,
+        calendarUrl,
+        window,
+      )
+      for (const ics of objects) {
+        const parsed = parseIcsEvents(ics, window)
+        parsed.inputs.forEach((input) =>
+          inputs.set(input.externalEventId, input),
+        )
+        parsed.cancelledIds.forEach((id) => cancelledIds.add(id))
+      }
+    }
+
+    return {
+      inputs: Array.from(inputs.values()),
+      cancelledIds: Array.from(cancelledIds),
+      fullSync: true,
+    }
+  }
+
+  // calendar-query has no cheap change cursor across servers, so every pass
+  // lists the window.
+  fetchChanges(account: ConnectedAccount, window: CalendarSyncWindow) {
+    return this.listWindow(account, window)
+  }
+
+  private async rediscoverCalendars(account: ConnectedAccount) {
+    const { credentials } = this.calendarFeeds.readCalDavAccount(account)
+    const calendars = await this.calDav.discoverCalendars(credentials)
+    await this.prisma.connectedAccount.update({
+      where: { id: account.id },
+      data: {
+        metadata: {
+          serverUrl: credentials.serverUrl,
+          username: credentials.username,
+          calendars,
+        },
+      },
+    })
+    return calendars.map((calendar) => calendar.url)
+  }
+}
@@ -0,0 +1,53 @@
+import { Injectable } from "@nestjs/common"
+import { ConnectedProvider } from "@prisma/client"
+import { GoogleCalendarAdapter } from "./google-calendar.adapter"
+import { MicrosoftCalendarAdapter } from "./microsoft-calendar.adapter"
+import { IcsCalendarAdapter } from "./ics-calendar.adapter"
+import { CalDavCalendarAdapter } from "./caldav-calendar.adapter"
+import type { CalendarProviderAdapter } from "../types/calendar-provider.types"
+
+/**
+ * Resolves the calendar adapter for a connected account's provider. New
+ * calendar sources only need an adapter registered here.
+ */
+@Injectable()
+export class CalendarProviderRegistry {
+  private readonly adapters = new Map<
+    ConnectedProvider,
+    CalendarProviderAdapter
+  >()
+
+  constructor(
+    googleCalendar: GoogleCalendarAdapter,
+    microsoftCalendar: MicrosoftCalendarAdapter,
+    icsCalendar: IcsCalendarAdapter,
+    calDavCalendar: CalDavCalendarAdapter,
+  ) {
+    for (const adapter of [
+      googleCalendar,
+      microsoftCalendar,
+      icsCalendar,
+      calDavCalendar,
+    ]) {
+      this.adapters.set(adapter.provider, adapter)
+    }
+  }
+
+  get providers() {
+    return Array.from(this.adapters.keys())
+  }
+
+  get watchableProviders() {
+    return Array.from(this.adapters.values())
+      .filter((adapter) => !!adapter.watch)
+      .map((adapter) => adapter.provider)
+  }
+
+  supports(provider: ConnectedProvider) {
+    return this.adapters.has(provider)
+  }
+
+  find(provider: ConnectedProvider) {
+    return this.adapters.get(provider)
+  }
+}
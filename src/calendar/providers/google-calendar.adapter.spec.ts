@@ -0,0 +1,129 @@
+import { ConnectedProvider, type ConnectedAccount } from "@prisma/client"
+import type { PrismaService } from "../../../prisma/prisma.service"
+import type { GoogleOAuthService } from "../../integrations/google/google-oauth.service"
+import { GoogleCalendarAdapter } from "./google-calendar.adapter"
+
+const mockEventsList = jest.fn()
+jest.mock("googleapis", () => ({
+  google: { calendar: () => ({ events: { list: mockEventsList } }) },
+}))
+
+const window = {
+  timeMin: new Date("2025-11-20T00:00:00.000Z"),
+  timeMax: new Date("2025-12-20T00:00:00.000Z"),
+}
+
+const account = {
+  id: "account-1",
+  provider: ConnectedProvider.GOOGLE_CALENDAR,
+  accessToken: "access-token",
+  refreshToken: "refresh-token",
+  expiresAt: new Date("2099-01-01T00:00:00.000Z"),
+  calendarSyncToken: "sync-1",
+} as ConnectedAccount
+
+const event = (id: string, start: string, overrides: object = {}) => ({
+  id,
+  status: "confirmed",
+  summary: `Meeting ${id}`,
+  start: { dateTime: start },
+  end: { dateTime: start.replace("T10", "T11") },
+  hangoutLink: "https://meet.google.com/abc-defg-hij",
+  ...overrides,
+})
+
+describe("GoogleCalendarAdapter.fetchChanges", () => {
+  const adapter = new GoogleCalendarAdapter(
+    {} as PrismaService,
+    { createOAuthClient: () => ({}) } as unknown as GoogleOAuthService,
+  )
+
+  beforeEach(() => {
+    mockEventsList.mockReset()
+  })
+
+  it("lists changes since the sync token and reports cancellations", async () => {
+    mockEventsList
+      .mockResolvedValueOnce({
+        data: {
+          items: [
+            event("event-1", "2025-11-25T10:00:00.000Z"),
+            { id: "event-2", status: "cancelled" },
+          ],
+          nextPageToken: "page-2",
+        },
+      })
+      .mockResolvedValueOnce({
+        data: {
+          // Incremental results are not limited to the sync window.
+          items: [event("event-3", "2026-03-01T10:00:00.000Z")],
+          nextSyncToken: "sync-2",
+        },
+      })
+
+    const changes = await adapter.fetchChanges(account, window)
+
+    expect(mockEventsList).toHaveBeenCalledTimes(2)
+    expect(mockEventsList.mock.calls[1]).toEqual([
+      {
+        calendarId: "primary",
+        singleEvents: true,
+        syncToken: "sync-1",
+        pageToken: "page-2",
+        maxResults: 2500,
+      },
+    ])
+    expect(changes.inputs.map((input) => input.externalEventId)).toEqual([
+      "event-1",
+    ])
+    expect(changes.inputs[0]).toMatchObject({
+      meetingUrl: "https://meet.google.com/abc-defg-hij",
+      attendees: null,
+      recurrence: null,
+    })
+    expect(changes).toMatchObject({
+      cancelledIds: ["event-2"],
+      fullSync: false,
+      nextSyncToken: "sync-2",
+    })
+  })
+
+  it("falls back to a full listing when Google expires the sync token", async () => {
+    mockEventsList
+      .mockRejectedValueOnce({ response: { status: 410 } })
+      .mockResolvedValueOnce({
+        data: {
+          items: [event("event-1", "2025-11-25T10:00:00.000Z")],
+          nextSyncToken: "sync-fresh",
+        },
+      })
+
+    const changes = await adapter.fetchChanges(account, window)
+
+    expect(mockEventsList.mock.calls[1]).toEqual([
+      {
+        calendarId: "primary",
+        singleEvents: true,
+        timeMin: "2025-11-20T00:00:00.000Z",
+        timeMax: "2025-12-20T00:00:00.000Z",
+        pageToken: undefined,
+        maxResults: 2500,
+      },
+    ])
+    expect(changes).toMatchObject({
+      cancelledIds: [],
+      fullSync: true,
+      nextSyncToken: "sync-fresh",
+    })
+    expect(changes.inputs).toHaveLength(1)
+  })
+
+  it("passes other errors on", async () => {
+    mockEventsList.mockRejectedValueOnce({ response: { status: 500 } })
+
+    await expect(adapter.fetchChanges(account, window)).rejects.toEqual({
+      response: { status: 500 },
+    })
+    expect(mockEventsList).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,302 @@
+import { Injectable, Logger } from "@nestjs/common"
+import {
+  CalendarEventStatus,
+  ConnectedAccount,
+  ConnectedProvider,
+} from "@prisma/client"
+import { google, type calendar_v3 } from "googleapis"
+import { randomBytes, randomUUID } from "crypto"
+import { PrismaService } from "../../../prisma/prisma.service"
+import { GoogleOAuthService } from "../../integrations/google/google-oauth.service"
+import type { UpsertCalendarEventInput } from "../calendar.service"
+import { buildDeduplicationKey, findMeetingUrl } from "../meeting-link"
+import type { CalendarSyncWindow } from "../types/calendar-sync.types"
+import type {
+  CalendarProviderAdapter,
+  CalendarProviderChanges,
+  CalendarWatchOptions,
+} from "../types/calendar-provider.types"
+
+@Injectable()
+export class GoogleCalendarAdapter implements CalendarProviderAdapter {
+  readonly provider = ConnectedProvider.GOOGLE_CALENDAR
+  private readonly logger = new Logger(GoogleCalendarAdapter.name)
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly googleOAuth: GoogleOAuthService,
+  ) {}
+
+  buildAuthorizationUrl(userId: string, redirectPath?: string) {
+    return this.googleOAuth.buildAuthorizationUrl(userId, redirectPath)
+  }
+
+  async refreshCredentials(account: ConnectedAccount) {
+    if (
+      (account.accessToken && !this.isExpired(account.expiresAt)) ||
+      !account.refreshToken
+    ) {
+      return account
+    }
+
+    const client = this.googleOAuth.createOAuthClient({
+      refreshToken: account.refreshToken,
+    })
+    const { credentials } = await client.refreshAccessToken()
+    const updated = await this.prisma.connectedAccount.update({
+      where: { id: account.id },
+      data: {
+        accessToken: credentials.access_token ?? account.accessToken,
+        refreshToken: credentials.refresh_token ?? account.refreshToken,
+        expiresAt: credentials.expiry_date
+          ? new Date(credentials.expiry_date)
+          : account.expiresAt,
+      },
+    })
+    return Object.assign(account, {
+      accessToken: updated.accessToken,
+      refreshToken: updated.refreshToken,
+      expiresAt: updated.expiresAt,
+    })
+  }
+
+  async listWindow(
+    account: ConnectedAccount,
+    window: CalendarSyncWindow,
+  ): Promise<CalendarProviderChanges> {
+    const calendar = await this.createCalendarClient(account)
+    const { events, nextSyncToken } = await this.listCalendarEvents(calendar, {
+      timeMin: window.timeMin.toISOString(),
+      timeMax: window.timeMax.toISOString(),
+    })
+    return { ...this.toChanges(events, window), fullSync: true, nextSyncToken }
+  }
+
+  async fetchChanges(
+    account: ConnectedAccount,
+    window: CalendarSyncWindow,
+  ): Promise<CalendarProviderChanges> {
+    if (!account.calendarSyncToken) {
+      return this.listWindow(account, window)
+    }
+
+    const calendar = await this.createCalendarClient(account)
+    try {
+      const { events, nextSyncToken } = await this.listCalendarEvents(
+        calendar,
+        { syncToken: account.calendarSyncToken },
+      )
+      return {
+        ...this.toChanges(events, window),
+        fullSync: false,
+        nextSyncToken,
+      }
+    } catch (error) {
+      if (!this.isSyncTokenInvalid(error)) {
+        throw error
+      }
+      this.logger.verbose(
+        `Sync token expired for account ${account.id}; running full resync`,
+      )
+      return this.listWindow(account, window)
+    }
+  }
+
+  async watch(account: ConnectedAccount, options: CalendarWatchOptions) {
+    const calendar = await this.createCalendarClient(account)
+    const channelId = randomUUID()
+    const channelToken = randomBytes(24).toString("hex")
+
+    const { data } = await calendar.events.watch({
+      calendarId: "primary",
+      requestBody: {
+        id: channelId,
+        type: "web_hook",
+        address: options.address,
+        token: channelToken,
+        params: {
+          ttl: String(options.ttlSeconds),
+        },
+      },
+    })
+
+    return {
+      channelId,
+      channelToken,
+      resourceId: data.resourceId ?? null,
+      expiresAt: data.expiration
+        ? new Date(Number(data.expiration))
+        : new Date(Date.now() + options.ttlSeconds * 1000),
+    }
+  }
+
+  async unwatch(
+    account: ConnectedAccount,
+    channel: { channelId: string; resourceId: string },
+  ) {
+    const calendar = await this.createCalendarClient(account)
+    await calendar.channels.stop({
+      requestBody: {
+        id: channel.channelId,
+        resourceId: channel.resourceId,
+      },
+    })
+  }
+
+  private async createCalendarClient(account: ConnectedAccount) {
+    await this.refreshCredentials(account)
+    const client = this.googleOAuth.createOAuthClient({
+      accessToken: account.accessToken,
+      refreshToken: account.refreshToken,
+      expiryDate: account.expiresAt?.getTime(),
+    })
+    return google.calendar({ version: "v3", auth: client })
+  }
+
+  private async listCalendarEvents(
+    calendar: calendar_v3.Calendar,
+    params: { syncToken?: string; timeMin?: string; timeMax?: string },
+  ) {
+    let pageToken: string | undefined
+    let nextSyncToken: string | null = null
+    const allEvents: calendar_v3.Schema$Event[] = []
+
+    // orderBy cannot be combined with syncToken, so neither request uses it to
+    // keep the full and incremental listings consistent.
+    do {
+      const response = await calendar.events.list({
+        calendarId: "primary",
+        singleEvents: true,
+        ...params,
+        pageToken,
+        maxResults: 2500,
+      })
+      const data = response.data
+      pageToken = data.nextPageToken ?? undefined
+      nextSyncToken = data.nextSyncToken ?? nextSyncToken
+      if (data.items?.length) {
+        allEvents.push(...data.items)
+      }
+    } while (pageToken)
+
+    return { events: allEvents, nextSyncToken }
+  }
+
+  private toChanges(
+    events: calendar_v3.Schema$Event[],
+    window: CalendarSyncWindow,
+  ) {
+    const cancelledIds: string[] = []
+    const inputs: UpsertCalendarEventInput[] = []
+    for (const event of events) {
+      if (event.status === "cancelled") {
+        if (event.id) {
+          cancelledIds.push(event.id)
+        }
+        continue
+      }
+      const input = this.transformEvent(event)
+      // Incremental results are not bounded by the window, so trim them here.
+      if (input && this.isWithinWindow(input, window)) {
+        inputs.push(input)
+      }
+    }
+    return { inputs, cancelledIds }
+  }
+
+  private transformEvent(
+    event: calendar_v3.Schema$Event,
+  ): UpsertCalendarEventInput | undefined {
+    if (!event.id || !event.start || !event.end) {
+      return undefined
+    }
+
+    const start = this.parseDate(event.start)
+    const end = this.parseDate(event.end)
+    if (!start || !end) {
+      return undefined
+    }
+
+    const meetingInfo = this.extractMeetingInfo(event)
+
+    // Extract reminders
+    const reminders = event.reminders
+      ? {
+          useDefault: event.reminders.useDefault ?? false,
+          overrides: event.reminders.overrides ?? [],
+        }
+      : null
+
+    // Extract recurrence rules
+    const recurrence = event.recurrence ?? null
+
+    // Extract creator info
+    const creatorEmail = event.creator?.email ?? null
+    const creatorDisplayName = event.creator?.displayName ?? null
+
+    return {
+      externalEventId: event.id,
+      calendarId: event.organizer?.email ?? undefined,
+      calendarTitle: event.organizer?.displayName ?? event.summary ?? undefined,
+      title: event.summary ?? "Untitled Meeting",
+      description: event.description ?? undefined,
+      location: event.location ?? undefined,
+      meetingUrl: meetingInfo.url,
+      meetingPlatform: meetingInfo.platform,
+      htmlLink: event.htmlLink ?? undefined,
+      startTime: start,
+      endTime: end,
+      timezone: event.start.timeZone ?? event.end.timeZone ?? undefined,
+      attendees: event.attendees?.map((attendee) => ({ ...attendee })) ?? null,
+      reminders,
+      recurrence,
+      // Instances of an expanded series point back to their master event.
+      seriesId: event.recurringEventId ?? (recurrence ? event.id : null),
+      creatorEmail: creatorEmail,
+      creatorDisplayName: creatorDisplayName,
+      deduplicationKey: buildDeduplicationKey(meetingInfo.url, start, event.id),
+      status:
+        event.status === "cancelled"
+          ? CalendarEventStatus.CANCELLED
+          : CalendarEventStatus.UPCOMING,
+    }
+  }
+
+  private parseDate(dateInput: calendar_v3.Schema$EventDateTime) {
+    const value = dateInput.dateTime ?? dateInput.date
+    if (!value) return undefined
+    return new Date(value)
+  }
+
+  private extractMeetingInfo(event: calendar_v3.Schema$Event) {
+    const possibleFields = [
+      event.hangoutLink,
+      event.location,
+      event.description,
+      event.conferenceData?.entryPoints?.map((entry) => entry.uri).join(" "),
+    ]
+    return findMeetingUrl(possibleFields.filter(Boolean).join(" "))
+  }
+
+  private isWithinWindow(
+    input: UpsertCalendarEventInput,
+    window: CalendarSyncWindow,
+  ) {
+    return (
+      input.endTime.getTime() >= window.timeMin.getTime() &&
+      input.startTime.getTime() < window.timeMax.getTime()
+    )
+  }
+
+  private isSyncTokenInvalid(error: unknown) {
+    const status =
+      (error as { response?: { status?: number } })?.response?.status ??
+      (error as { code?: number | string })?.code
+    return Number(status) === 410
+  }
+
+  private isExpired(expiresAt?: Date | null) {
+    if (!expiresAt) return true
+    return expiresAt.getTime() <= Date.now() + 60 * 1000
+  }
+}
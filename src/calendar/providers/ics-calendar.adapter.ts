@@ -0,0 +1,36 @@
+import { Injectable } from "@nestjs/common"
+import { ConnectedAccount, ConnectedProvider } from "@prisma/client"
+import { CalendarFeedsService } from "../../integrations/calendar-feeds/calendar-feeds.service"
+import { parseIcsEvents } from "../ics-parser"
+import type { CalendarSyncWindow } from "../types/calendar-sync.types"
+import type {
+  CalendarProviderAdapter,
+  CalendarProviderChanges,
+} from "../types/calendar-provider.types"
+
+@Injectable()
+export class IcsCalendarAdapter implements CalendarProviderAdapter {
+  readonly provider = ConnectedProvider.ICS_CALENDAR
+
+  constructor(private readonly calendarFeeds: CalendarFeedsService) {}
+
+  // Feed URLs do not expire.
+  refreshCredentials(account: ConnectedAccount) {
+    return Promise.resolve(account)
+  }
+
+  async listWindow(
+    account: ConnectedAccount,
+    window: CalendarSyncWindow,
+  ): Promise<CalendarProviderChanges> {
+    const ics = await this.calendarFeeds.fetchIcsFeed(
+      this.calendarFeeds.readIcsFeedUrl(account),
+    )
+    return { ...parseIcsEvents(ics, window), fullSync: true }
+  }
+
+  // Feeds are always served whole, so every pass is a full sync
+  fetchChanges(account: ConnectedAccount, window: CalendarSyncWindow) {
+    return this.listWindow(account, window)
+  }
+}
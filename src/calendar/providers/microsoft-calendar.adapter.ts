@@ -0,0 +1,255 @@
+import { Injectable } from "@nestjs/common"
+import { HttpService } from "@nestjs/axios"
+import {
+  CalendarEventStatus,
+  ConnectedAccount,
+  ConnectedProvider,
+  MeetingPlatform,
+} from "@prisma/client"
+import { PrismaService } from "../../../prisma/prisma.service"
+import { MicrosoftOAuthService } from "../../integrations/microsoft/microsoft-oauth.service"
+import type { UpsertCalendarEventInput } from "../calendar.service"
+import { buildDeduplicationKey, findMeetingUrl } from "../meeting-link"
+import { CALENDAR_HTTP_TIMEOUT_MS } from "../calendar.constants"
+import type {
+  CalendarSyncWindow,
+  MicrosoftGraphEvent,
+} from "../types/calendar-sync.types"
+import type {
+  CalendarProviderAdapter,
+  CalendarProviderChanges,
+} from "../types/calendar-provider.types"
+
+const GRAPH_BASE_URL = "https://graph.microsoft.com/v1.0"
+const GRAPH_EVENT_FIELDS = [
+  "id",
+  "subject",
+  "bodyPreview",
+  "body",
+  "start",
+  "end",
+  "location",
+  "webLink",
+  "attendees",
+  "organizer",
+  "isCancelled",
+  "isOnlineMeeting",
+  "onlineMeeting",
+  "onlineMeetingUrl",
+  "isReminderOn",
+  "reminderMinutesBeforeStart",
+  "seriesMasterId",
+  "type",
+]
+
+type GraphEventPage = {
+  "value"?: MicrosoftGraphEvent[]
+  "@odata.nextLink"?: string
+}
+
+@Injectable()
+export class MicrosoftCalendarAdapter implements CalendarProviderAdapter {
+  readonly provider = ConnectedProvider.MICROSOFT_CALENDAR
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly http: HttpService,
+    private readonly microsoftOAuth: MicrosoftOAuthService,
+  ) {}
+
+  buildAuthorizationUrl(userId: string, redirectPath?: string) {
+    return this.microsoftOAuth.buildAuthorizationUrl(userId, redirectPath)
+  }
+
+  async refreshCredentials(account: ConnectedAccount) {
+    if (account.accessToken && !this.isExpired(account.expiresAt)) {
+      return account
+    }
+    if (!account.refreshToken) {
+      throw new Error("Microsoft account is missing a refresh token")
+    }
+
+    const tokens = await this.microsoftOAuth.refreshAccessToken(
+      account.refreshToken,
+    )
+    const expiresAt = new Date(Date.now() + tokens.expires_in * 1000)
+    await this.prisma.connectedAccount.update({
+      where: { id: account.id },
+      data: {
+        accessToken: tokens.access_token,
+        refreshToken: tokens.refresh_token ?? account.refreshToken,
+        expiresAt,
+      },
+    })
+    return Object.assign(account, {
+      accessToken: tokens.access_token,
+      refreshToken: tokens.refresh_token ?? account.refreshToken,
+      expiresAt,
+    })
+  }
+
+  async listWindow(
+    account: ConnectedAccount,
+    window: CalendarSyncWindow,
+  ): Promise<CalendarProviderChanges> {
+    const events = await this.fetchCalendarView(account, window)
+
+    const cancelledIds: string[] = []
+    const inputs: UpsertCalendarEventInput[] = []
+    for (const event of events) {
+      if (event.isCancelled) {
+        if (event.id) {
+          cancelledIds.push(event.id)
+        }
+        continue
+      }
+      const input = this.transformEvent(event)
+      if (input) {
+        inputs.push(input)
+      }
+    }
+
+    return { inputs, cancelledIds, fullSync: true }
+  }
+
+  // calendarView always returns the full window, so every pass is a full sync
+  fetchChanges(account: ConnectedAccount, window: CalendarSyncWindow) {
+    return this.listWindow(account, window)
+  }
+
+  private async fetchCalendarView(
+    account: ConnectedAccount,
+    window: CalendarSyncWindow,
+  ): Promise<MicrosoftGraphEvent[]> {
+    const { accessToken } = await this.refreshCredentials(account)
+    const events: MicrosoftGraphEvent[] = []
+
+    let nextUrl: string | undefined = `${GRAPH_BASE_URL}/me/calendarView`
+    let params: Record<string, string> | undefined = {
+      startDateTime: window.timeMin.toISOString(),
+      endDateTime: window.timeMax.toISOString(),
+      $select: GRAPH_EVENT_FIELDS.join(","),
+      $top: "250",
+    }
+
+    while (nextUrl) {
+      const { data: page }: { data: GraphEventPage } =
+        await this.http.axiosRef.get<GraphEventPage>(nextUrl, {
+          headers: {
+            Authorization: `Bearer ${accessToken}`,
+            Prefer: 'outlook.timezone="UTC"',
+          },
+          params,
+          timeout: CALENDAR_HTTP_TIMEOUT_MS,
+        })
+      if (page.value?.length) {
+        events.push(...page.value)
+      }
+      // nextLink already carries the original query string
+      nextUrl = page["@odata.nextLink"]
+      params = undefined
+    }
+
+    return events
+  }
+
+  private transformEvent(
+    event: MicrosoftGraphEvent,
+  ): UpsertCalendarEventInput | undefined {
+    if (!event.id || !event.start?.dateTime || !event.end?.dateTime) {
+      return undefined
+    }
+
+    const start = this.parseGraphDate(event.start)
+    const end = this.parseGraphDate(event.end)
+    if (!start || !end) {
+      return undefined
+    }
+
+    const meetingInfo = this.extractMeetingInfo(event)
+    const organizer = event.organizer?.emailAddress
+
+    const attendees = (event.attendees ?? []).map((attendee) => ({
+      email: attendee.emailAddress?.address ?? null,
+      displayName: attendee.emailAddress?.name ?? null,
+      responseStatus: attendee.status?.response ?? null,
+      optional: attendee.type === "optional",
+      organizer:
+        !!organizer?.address &&
+        organizer.address.toLowerCase() ===
+          attendee.emailAddress?.address?.toLowerCase(),
+    }))
+
+    const reminders = event.isReminderOn
+      ? {
+          useDefault: false,
+          overrides: [
+            {
+              method: "popup",
+              minutes: event.reminderMinutesBeforeStart ?? 15,
+            },
+          ],
+        }
+      : null
+
+    return {
+      externalEventId: event.id,
+      calendarId: organizer?.address ?? undefined,
+      calendarTitle: organizer?.name ?? event.subject ?? undefined,
+      title: event.subject ?? "Untitled Meeting",
+      description: event.bodyPreview ?? undefined,
+      location: event.location?.displayName || undefined,
+      meetingUrl: meetingInfo.url,
+      meetingPlatform: meetingInfo.platform,
+      htmlLink: event.webLink ?? undefined,
+      startTime: start,
+      endTime: end,
+      timezone: "UTC",
+      attendees: attendees.length ? attendees : null,
+      reminders,
+      recurrence: null,
+      seriesId: event.seriesMasterId ?? null,
+      creatorEmail: organizer?.address ?? null,
+      creatorDisplayName: organizer?.name ?? null,
+      deduplicationKey: buildDeduplicationKey(meetingInfo.url, start, event.id),
+      status: event.isCancelled
+        ? CalendarEventStatus.CANCELLED
+        : CalendarEventStatus.UPCOMING,
+    }
+  }
+
+  private extractMeetingInfo(event: MicrosoftGraphEvent) {
+    const teamsUrl = event.onlineMeeting?.joinUrl ?? event.onlineMeetingUrl
+    if (teamsUrl) {
+      const match = findMeetingUrl(teamsUrl)
+      return {
+        url: teamsUrl,
+        platform:
+          match.platform !== MeetingPlatform.UNKNOWN
+            ? match.platform
+            : MeetingPlatform.MICROSOFT_TEAMS,
+      }
+    }
+
+    return findMeetingUrl(
+      [event.location?.displayName, event.body?.content, event.bodyPreview]
+        .filter(Boolean)
+        .join(" "),
+    )
+  }
+
+  private parseGraphDate(value: { dateTime?: string; timeZone?: string }) {
+    if (!value.dateTime) {
+      return undefined
+    }
+    // Graph returns naive timestamps in the zone requested via Prefer header
+    const hasOffset = /(?:Z|[+-]\d{2}:\d{2})$/.test(value.dateTime)
+    const parsed = new Date(hasOffset ? value.dateTime : `${value.dateTime}Z`)
+    return Number.isNaN(parsed.getTime()) ? undefined : parsed
+  }
+
+  private isExpired(expiresAt?: Date | null) {
+    if (!expiresAt) return true
+    return expiresAt.getTime() <= Date.now() + 60 * 1000
+  }
+}
@@ -0,0 +1,61 @@
+import type { ConnectedAccount, ConnectedProvider } from "@prisma/client"
+import type { UpsertCalendarEventInput } from "../calendar.service"
+import type { CalendarSyncWindow } from "./calendar-sync.types"
+
+export type CalendarProviderChanges = {
+  inputs: UpsertCalendarEventInput[]
+  cancelledIds: string[]
+  /** True when the result covers the whole window and can be reconciled. */
+  fullSync: boolean
+  /** Cursor for the next incremental pass, when the provider has one. */
+  nextSyncToken?: string | null
+}
+
+export type CalendarWatchOptions = {
+  address: string
+  ttlSeconds: number
+}
+
+export type CalendarWatchChannel = {
+  channelId: string
+  channelToken: string
+  resourceId: string | null
+  expiresAt: Date
+}
+
+export interface CalendarProviderAdapter {
+  readonly provider: ConnectedProvider
+
+  /** OAuth providers only; feed-based sources are connected with credentials. */
+  buildAuthorizationUrl?(userId: string, redirectPath?: string): string
+
+  /**
+   * Makes sure the account holds a usable access token, refreshing and
+   * persisting it when needed. Mutates and returns the given account.
+   */
+  refreshCredentials(account: ConnectedAccount): Promise<ConnectedAccount>
+
+  listWindow(
+    account: ConnectedAccount,
+    window: CalendarSyncWindow,
+  ): Promise<CalendarProviderChanges>
+
+  /**
+   * Returns changes since the last sync. Adapters without an incremental API,
+   * or whose cursor is no longer valid, fall back to `listWindow`.
+   */
+  fetchChanges(
+    account: ConnectedAccount,
+    window: CalendarSyncWindow,
+  ): Promise<CalendarProviderChanges>
+
+  watch?(
+    account: ConnectedAccount,
+    options: CalendarWatchOptions,
+  ): Promise<CalendarWatchChannel>
+
+  unwatch?(
+    account: ConnectedAccount,
+    channel: { channelId: string; resourceId: string },
+  ): Promise<void>
+}
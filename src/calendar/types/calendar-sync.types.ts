@@ -1,4 +1,4 @@
-export type SyncTriggerSource = "scheduler" | "manual" | "oauth"
+export type SyncTriggerSource = "scheduler" | "manual" | "oauth" | "webhook"
 
 export type AccountSyncResult = {
   accountId: string
@@ -16,3 +16,46 @@ export type CalendarSyncSummary = {
     message: string
   }>
 }
+
+export type GoogleChannelNotification = {
+  channelId: string
+  resourceId: string
+  resourceState?: string
+  token?: string
+  messageNumber?: string
+}
+
+export type CalendarSyncWindow = {
+  timeMin: Date
+  timeMax: Date
+}
+
+type MicrosoftGraphEmailAddress = {
+  name?: string | null
+  address?: string | null
+}
+
+export type MicrosoftGraphEvent = {
+  id?: string
+  subject?: string | null
+  bodyPreview?: string | null
+  body?: { contentType?: string; content?: string | null } | null
+  start?: { dateTime?: string; timeZone?: string } | null
+  end?: { dateTime?: string; timeZone?: string } | null
+  location?: { displayName?: string | null } | null
+  webLink?: string | null
+  attendees?: Array<{
+    type?: string
+    emailAddress?: MicrosoftGraphEmailAddress
+    status?: { response?: string | null }
+  }> | null
+  organizer?: { emailAddress?: MicrosoftGraphEmailAddress } | null
+  isCancelled?: boolean
+  isOnlineMeeting?: boolean
+  onlineMeeting?: { joinUrl?: string | null } | null
+  onlineMeetingUrl?: string | null
+  isReminderOn?: boolean
+  reminderMinutesBeforeStart?: number | null
+  seriesMasterId?: string | null
+  type?: string | null
+}
@@ -0,0 +1,8 @@
+import { Module } from "@nestjs/common"
+import { FollowUpEmailService } from "./follow-up-email.service"
+
+@Module({
+  providers: [FollowUpEmailService],
+  exports: [FollowUpEmailService],
+})
+export class EmailModule {}
@@ -0,0 +1,107 @@
+import type { ConfigService } from "@nestjs/config"
+import { FollowUpEmailMethod, FollowUpEmailStatus } from "@prisma/client"
+import { createTransport } from "nodemailer"
+import type { PrismaService } from "../../prisma/prisma.service"
+import { AppError } from "../errors/app-error"
+import { FollowUpEmailService } from "./follow-up-email.service"
+
+jest.mock("nodemailer", () => ({ createTransport: jest.fn() }))
+
+const insight = {
+  id: "insight-1",
+  calendarEventId: "event-1",
+  followUpEmail: "Thanks for the time today.",
+  calendarEvent: {
+    id: "event-1",
+    userId: "user-1",
+    title: "Quarterly review",
+    attendees: [
+      { email: "dana@example.com", self: true },
+      { email: "Sam@Client.io", displayName: "Sam Lee" },
+      { email: "room-4@resource.calendar.google.com", resource: true },
+    ],
+    user: { id: "user-1", email: "dana@example.com", name: "Dana" },
+  },
+}
+
+const firstArg = (mock: jest.Mock) => (mock.mock.calls as unknown[][])[0][0]
+
+describe("FollowUpEmailService", () => {
+  const sendMail = jest.fn()
+  const prisma = {
+    meetingInsight: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+      count: jest.fn(),
+    },
+    connectedAccount: { findFirst: jest.fn() },
+    automationPreference: { findUnique: jest.fn() },
+  }
+  const config: Record<string, string> = {
+    SMTP_HOST: "localhost",
+    SMTP_PORT: "1025",
+    SMTP_FROM: "notes@example.com",
+  }
+  ;(createTransport as jest.Mock).mockReturnValue({ sendMail })
+  const service = new FollowUpEmailService(
+    prisma as unknown as PrismaService,
+    { get: (key: string) => config[key] } as unknown as ConfigService,
+  )
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    prisma.meetingInsight.findUnique.mockResolvedValue(insight)
+    prisma.meetingInsight.update.mockResolvedValue(insight)
+    prisma.connectedAccount.findFirst.mockResolvedValue(null)
+  })
+
+  it("sends over SMTP to the other attendees and records it", async () => {
+    sendMail.mockResolvedValue({ messageId: "<abc@example.com>" })
+
+    await service.deliver("insight-1")
+
+    expect(firstArg(sendMail)).toMatchObject({
+      to: ["sam@client.io"],
+      subject: "Follow-up: Quarterly review",
+      text: "Thanks for the time today.",
+      from: { name: "Dana", address: "notes@example.com" },
+      replyTo: "dana@example.com",
+    })
+    expect(firstArg(prisma.meetingInsight.update)).toMatchObject({
+      where: { id: "insight-1" },
+      data: {
+        emailDeliveryMethod: FollowUpEmailMethod.SMTP,
+        emailDeliveryStatus: FollowUpEmailStatus.SENT,
+        emailRecipients: ["sam@client.io"],
+        emailExternalId: "<abc@example.com>",
+      },
+    })
+  })
+
+  it("records the failure when the relay rejects the message", async () => {
+    sendMail.mockRejectedValue(new Error("550 relay denied"))
+
+    await expect(
+      service.deliver("insight-1", { to: ["ops@client.io"] }),
+    ).rejects.toBeInstanceOf(AppError)
+    expect(firstArg(prisma.meetingInsight.update)).toMatchObject({
+      data: {
+        emailDeliveryStatus: FollowUpEmailStatus.FAILED,
+        emailRecipients: ["ops@client.io"],
+        emailDeliveryError: "550 relay denied",
+      },
+    })
+  })
+
+  it("only drafts automatically through Gmail", async () => {
+    prisma.automationPreference.findUnique.mockResolvedValue({
+      createEmailDrafts: true,
+    })
+    prisma.meetingInsight.count.mockResolvedValue(0)
+
+    await service.draftAfterGeneration("insight-1")
+
+    expect(sendMail).not.toHaveBeenCalled()
+    expect(prisma.meetingInsight.update).not.toHaveBeenCalled()
+  })
+})
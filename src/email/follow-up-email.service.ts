@@ -0,0 +1,302 @@
+import { Injectable, Logger } from "@nestjs/common"
+import { ConfigService } from "@nestjs/config"
+import {
+  CalendarEvent,
+  ConnectedAccount,
+  ConnectedProvider,
+  FollowUpEmailMethod,
+  FollowUpEmailStatus,
+  MeetingInsight,
+  User,
+} from "@prisma/client"
+import { google } from "googleapis"
+import {
+  createTransport,
+  type SendMailOptions,
+  type Transporter,
+} from "nodemailer"
+import MailComposer from "nodemailer/lib/mail-composer"
+import { PrismaService } from "../../prisma/prisma.service"
+import { AppError } from "../errors/app-error"
+import { ErrorCodes, FieldErrorCodes } from "../errors/error-codes"
+
+const GMAIL_COMPOSE_SCOPE = "https://www.googleapis.com/auth/gmail.compose"
+
+type InsightWithMeeting = MeetingInsight & {
+  calendarEvent: CalendarEvent & { user: User }
+}
+
+export type FollowUpDeliveryOptions = {
+  method?: FollowUpEmailMethod
+  // Defaults to the meeting attendees other than the owner.
+  to?: string[]
+}
+
+/**
+ * Delivers the follow-up email of an insight revision either as a draft in
+ * the owner's Gmail (needs the gmail.compose scope on their Google account)
+ * or through the SMTP relay from `SMTP_*`. The outcome is stored on the
+ * revision.
+ */
+@Injectable()
+export class FollowUpEmailService {
+  private readonly logger = new Logger(FollowUpEmailService.name)
+  private readonly smtp: Transporter | null
+  private readonly smtpFrom: string | null
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+  ) {
+    const host = this.configService.get<string>("SMTP_HOST")
+    const user = this.configService.get<string>("SMTP_USER")
+    this.smtp = host
+      ? createTransport({
+          host,
+          port: Number(this.configService.get<string>("SMTP_PORT") ?? 587),
+          secure: this.configService.get<string>("SMTP_SECURE") === "true",
+          auth: user
+            ? { user, pass: this.configService.get<string>("SMTP_PASSWORD") }
+            : undefined,
+        })
+      : null
+    this.smtpFrom = this.configService.get<string>("SMTP_FROM") ?? null
+  }
+
+  async deliver(
+    insightId: string,
+    options: FollowUpDeliveryOptions = {},
+  ): Promise<MeetingInsight> {
+    const insight = await this.loadInsight(insightId)
+    const meeting = insight.calendarEvent
+    if (!insight.followUpEmail?.trim()) {
+      throw new AppError(ErrorCodes.BAD_REQUEST, {
+        params: { resource: "FollowUpEmail" },
+      })
+    }
+
+    const gmailAccount = await this.findGmailAccount(meeting.userId)
+    const method =
+      options.method ??
+      (gmailAccount
+        ? FollowUpEmailMethod.GMAIL_DRAFT
+        : this.smtp
+          ? FollowUpEmailMethod.SMTP
+          : null)
+    if (!method) {
+      throw new AppError(ErrorCodes.SERVICE_UNAVAILABLE, {
+        params: { resource: "FollowUpEmail" },
+      })
+    }
+    if (
+      (method === FollowUpEmailMethod.GMAIL_DRAFT && !gmailAccount) ||
+      (method === FollowUpEmailMethod.SMTP && !this.smtp)
+    ) {
+      throw new AppError(ErrorCodes.VALIDATION, {
+        fields: [{ field: "method", code: FieldErrorCodes.INVALID }],
+      })
+    }
+
+    const recipients = options.to
+      ? [...new Set(options.to.map((email) => email.trim().toLowerCase()))]
+      : this.defaultRecipients(meeting, gmailAccount)
+    // A draft can be addressed later in Gmail; a sent email cannot.
+    if (method === FollowUpEmailMethod.SMTP && !recipients.length) {
+      throw new AppError(ErrorCodes.VALIDATION, {
+        fields: [{ field: "to", code: FieldErrorCodes.REQUIRED }],
+      })
+    }
+
+    const message: SendMailOptions = {
+      to: recipients,
+      subject: `Follow-up: ${meeting.title}`,
+      text: insight.followUpEmail,
+    }
+    try {
+      const externalId =
+        method === FollowUpEmailMethod.GMAIL_DRAFT
+          ? await this.createGmailDraft(gmailAccount!, message)
+          : await this.sendSmtp(meeting.user, message)
+      return await this.prisma.meetingInsight.update({
+        where: { id: insight.id },
+        data: {
+          emailDeliveryMethod: method,
+          emailDeliveryStatus:
+            method === FollowUpEmailMethod.GMAIL_DRAFT
+              ? FollowUpEmailStatus.DRAFTED
+              : FollowUpEmailStatus.SENT,
+          emailRecipients: recipients,
+          emailExternalId: externalId,
+          emailDeliveredAt: new Date(),
+          emailDeliveryError: null,
+        },
+      })
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error)
+      this.logger.error(
+        `Follow-up email for insight ${insight.id} failed via ${method}: ${reason}`,
+      )
+      await this.prisma.meetingInsight.update({
+        where: { id: insight.id },
+        data: {
+          emailDeliveryMethod: method,
+          emailDeliveryStatus: FollowUpEmailStatus.FAILED,
+          emailRecipients: recipients,
+          emailDeliveryError: reason.slice(0, 1000),
+        },
+      })
+      throw new AppError(ErrorCodes.SERVICE_UNAVAILABLE, {
+        params: { resource: "FollowUpEmail" },
+      })
+    }
+  }
+
+  /**
+   * Called after a new AI revision is saved. Creates a Gmail draft when the
+   * owner has `createEmailDrafts` on and nothing was drafted or sent for the
+   * meeting yet; never sends anything on its own.
+   */
+  async draftAfterGeneration(insightId: string) {
+    const insight = await this.prisma.meetingInsight.findUnique({
+      where: { id: insightId },
+      select: {
+        calendarEventId: true,
+        calendarEvent: { select: { userId: true } },
+      },
+    })
+    if (!insight) {
+      return
+    }
+    const userId = insight.calendarEvent.userId
+    const preference = await this.prisma.automationPreference.findUnique({
+      where: { userId },
+      select: { createEmailDrafts: true },
+    })
+    if (preference && !preference.createEmailDrafts) {
+      return
+    }
+    const delivered = await this.prisma.meetingInsight.count({
+      where: {
+        calendarEventId: insight.calendarEventId,
+        emailDeliveryStatus: {
+          in: [FollowUpEmailStatus.DRAFTED, FollowUpEmailStatus.SENT],
+        },
+      },
+    })
+    if (delivered || !(await this.findGmailAccount(userId))) {
+      return
+    }
+
+    try {
+      await this.deliver(insightId, {
+        method: FollowUpEmailMethod.GMAIL_DRAFT,
+      })
+    } catch (error) {
+      this.logger.warn(
+        `Skipping follow-up draft for insight ${insightId}: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      )
+    }
+  }
+
+  private async loadInsight(insightId: string): Promise<InsightWithMeeting> {
+    const insight = await this.prisma.meetingInsight.findUnique({
+      where: { id: insightId },
+      include: { calendarEvent: { include: { user: true } } },
+    })
+    if (!insight) {
+      throw new AppError(ErrorCodes.NOT_FOUND, {
+        params: { resource: "MeetingInsight" },
+      })
+    }
+    return insight
+  }
+
+  private findGmailAccount(userId: string) {
+    return this.prisma.connectedAccount.findFirst({
+      where: {
+        userId,
+        provider: ConnectedProvider.GOOGLE_CALENDAR,
+        scopes: { has: GMAIL_COMPOSE_SCOPE },
+        refreshToken: { not: null },
+      },
+      orderBy: { linkedAt: "asc" },
+    })
+  }
+
+  private defaultRecipients(
+    meeting: CalendarEvent & { user: User },
+    gmailAccount: ConnectedAccount | null,
+  ): string[] {
+    const attendees = (meeting.attendees ?? []) as Array<{
+      email?: string
+      self?: boolean
+      resource?: boolean
+    }>
+    if (!Array.isArray(attendees)) {
+      return []
+    }
+    const own = new Set(
+      [meeting.user.email, gmailAccount?.label]
+        .filter((email): email is string => !!email)
+        .map((email) => email.toLowerCase()),
+    )
+    const recipients = attendees
+      .filter((attendee) => !attendee.self && !attendee.resource)
+      .map((attendee) => attendee.email?.trim().toLowerCase())
+      .filter((email): email is string => !!email && !own.has(email))
+    return [...new Set(recipients)]
+  }
+
+  private async createGmailDraft(
+    account: ConnectedAccount,
+    message: SendMailOptions,
+  ) {
+    const auth = new google.auth.OAuth2(
+      this.configService.getOrThrow<string>("GOOGLE_OAUTH_CLIENT_ID"),
+      this.configService.getOrThrow<string>("GOOGLE_OAUTH_CLIENT_SECRET"),
+    )
+    auth.setCredentials({
+      access_token: account.accessToken ?? undefined,
+      refresh_token: account.refreshToken ?? undefined,
+      expiry_date: account.expiresAt?.getTime(),
+    })
+    // The client refreshes expired tokens itself; keep the new ones.
+    auth.on("tokens", (tokens) => {
+      void this.prisma.connectedAccount
+        .update({
+          where: { id: account.id },
+          data: {
+            accessToken: tokens.access_token ?? account.accessToken,
+            refreshToken: tokens.refresh_token ?? account.refreshToken,
+            expiresAt: tokens.expiry_date
+              ? new Date(tokens.expiry_date)
+              : account.expiresAt,
+          },
+        })
+        .catch((error: unknown) =>
+          this.logger.warn(
+            `Failed to store refreshed Google tokens for ${account.id}: ${String(error)}`,
+          ),
+        )
+    })
+
+    const raw = await new MailComposer(message).compile().build()
+    const gmail = google.gmail({ version: "v1", auth })
+    const { data } = await gmail.users.drafts.create({
+      userId: "me",
+      requestBody: { message: { raw: raw.toString("base64url") } },
+    })
+    return data.id ?? null
+  }
+
+  private async sendSmtp(owner: User, message: SendMailOptions) {
+    const info = (await this.smtp!.sendMail({
+      ...message,
+      from: { name: owner.name, address: this.smtpFrom ?? owner.email },
+      replyTo: owner.email,
+    })) as { messageId?: string }
+    return info.messageId ?? null
+  }
+}
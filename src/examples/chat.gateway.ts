@@ -9,6 +9,7 @@ import {
   WebSocketServer,
 } from "@nestjs/websockets"
 import { Logger, OnModuleDestroy } from "@nestjs/common"
+import { randomUUID } from "crypto"
 import type { Server, Socket } from "socket.io"
 import {
   Subject,
@@ -23,6 +24,7 @@ import { ChatTokenService } from "./services/chat-token.service"
 import { ChatService } from "./services/chat.service"
 import { NotificationsService } from "./services/notifications.service"
 import { MeetingChatService } from "../meetings/services/meeting-chat.service"
+import { MeetingAssistantService } from "../meetings/services/meeting-assistant.service"
 import type { ChatMessagePayload, ChatNotificationPayload } from "./types"
 import type { MeetingChatMessagePayload } from "../meetings/types/chat.types"
 
@@ -62,6 +64,14 @@ type ServerToClientEvents = {
     status: "online" | "away"
   }) => void
   "meeting:new": (message: MeetingChatMessagePayload) => void
+  // Streamed text of an assistant reply; the stored reply follows as
+  // `meeting:new` with the same `clientMessageId`.
+  "meeting:assistant-delta": (payload: {
+    meetingId: string
+    clientMessageId: string
+    replyToMessageId: string
+    delta: string
+  }) => void
   "meeting:typing": (payload: {
     meetingId: string
     userId: string
@@ -146,6 +156,7 @@ export class ChatGateway
     private readonly chatTokens: ChatTokenService,
     private readonly chatService: ChatService,
     private readonly meetingChat: MeetingChatService,
+    private readonly meetingAssistant: MeetingAssistantService,
     private readonly notifications: NotificationsService,
   ) {}
 
@@ -527,6 +538,9 @@ export class ChatGateway
         })
       const roomSlug = this.meetingRoomSlug(meetingId)
       this.server.to(roomSlug).emit("meeting:new", message)
+      if (this.meetingAssistant.isMentioned(message.body)) {
+        void this.replyAsAssistant(meetingId, message, socket)
+      }
 
       const offlineRecipients = recipients.filter(
         (recipient) => !this.isUserWatchingRoom(recipient, roomSlug),
@@ -552,6 +566,39 @@ export class ChatGateway
     }
   }
 
+  private async replyAsAssistant(
+    meetingId: string,
+    question: MeetingChatMessagePayload,
+    socket: ChatSocket,
+  ) {
+    const roomSlug = this.meetingRoomSlug(meetingId)
+    const clientMessageId = randomUUID()
+    try {
+      const reply = await this.meetingAssistant.reply({
+        meetingId,
+        question,
+        clientMessageId,
+        onDelta: (delta) => {
+          this.server.to(roomSlug).emit("meeting:assistant-delta", {
+            meetingId,
+            clientMessageId,
+            replyToMessageId: question.id,
+            delta,
+          })
+        },
+      })
+      this.server.to(roomSlug).emit("meeting:new", reply)
+    } catch (error) {
+      this.logger.warn(
+        `Assistant reply in meeting ${meetingId} failed: ${(error as Error).message}`,
+      )
+      socket.emit("meeting:error", {
+        message: (error as Error).message,
+        clientMessageId,
+      })
+    }
+  }
+
   onModuleDestroy() {
     this.subscriptions.forEach((sub) => sub.unsubscribe())
   }
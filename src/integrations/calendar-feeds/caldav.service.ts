@@ -0,0 +1,215 @@
+import { Injectable } from "@nestjs/common"
+import { HttpService } from "@nestjs/axios"
+import type { CalendarSyncWindow } from "../../calendar/types/calendar-sync.types"
+import { CALENDAR_HTTP_TIMEOUT_MS } from "../../calendar/calendar.constants"
+import { publicRequestOptions } from "./public-address"
+
+export type CalDavCredentials = {
+  serverUrl: string
+  username: string
+  password: string
+}
+
+export type CalDavCalendar = {
+  url: string
+  displayName: string | null
+}
+
+type DavResponse = {
+  href: string
+  body: string
+}
+
+@Injectable()
+export class CalDavService {
+  constructor(private readonly http: HttpService) {}
+
+  /**
+   * Walks principal -> calendar-home-set -> calendar collections (RFC 4791
+   * section 7.1). A URL that already points at a calendar collection is
+   * returned as-is.
+   */
+  async discoverCalendars(
+    credentials: CalDavCredentials,
+  ): Promise<CalDavCalendar[]> {
+    const [root] = await this.propfind(
+      credentials,
+      credentials.serverUrl,
+      "<d:current-user-principal/><d:resourcetype/><d:displayname/>",
+      0,
+    )
+    if (root && isCalendarCollection(root.body)) {
+      return [
+        {
+          url: credentials.serverUrl,
+          displayName: readTag(root.body, "displayname"),
+        },
+      ]
+    }
+
+    const principalHref = root && readHref(root.body, "current-user-principal")
+    if (!principalHref) {
+      return []
+    }
+    const principalUrl = resolveUrl(credentials.serverUrl, principalHref)
+
+    const [principal] = await this.propfind(
+      credentials,
+      principalUrl,
+      "<c:calendar-home-set/>",
+      0,
+    )
+    const homeHref = principal && readHref(principal.body, "calendar-home-set")
+    if (!homeHref) {
+      return []
+    }
+    const homeUrl = resolveUrl(principalUrl, homeHref)
+
+    const collections = await this.propfind(
+      credentials,
+      homeUrl,
+      "<d:resourcetype/><d:displayname/><c:supported-calendar-component-set/>",
+      1,
+    )
+    return collections
+      .filter(
+        (collection) =>
+          isCalendarCollection(collection.body) &&
+          supportsEvents(collection.body),
+      )
+      .map((collection) => ({
+        url: resolveUrl(homeUrl, collection.href),
+        displayName: readTag(collection.body, "displayname"),
+      }))
+  }
+
+  /** Returns the raw iCalendar objects with a VEVENT overlapping the window. */
+  async fetchCalendarObjects(
+    credentials: CalDavCredentials,
+    calendarUrl: string,
+    window: CalendarSyncWindow,
+  ) {
+    const body = `<?xml version="1.0" encoding="utf-8"?>
+<c:calendar-query xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav">
+  <d:prop><c:calendar-data/></d:prop>
+  <c:filter>
+    <c:comp-filter name="VCALENDAR">
+      <c:comp-filter name="VEVENT">
+        <c:time-range start="${toCalDavTime(window.timeMin)}" end="${toCalDavTime(window.timeMax)}"/>
+      </c:comp-filter>
+    </c:comp-filter>
+  </c:filter>
+</c:calendar-query>`
+
+    const responses = await this.request(
+      credentials,
+      "REPORT",
+      calendarUrl,
+      body,
+      1,
+    )
+    return responses
+      .map((response) => readTag(response.body, "calendar-data"))
+      .filter((data): data is string => !!data)
+  }
+
+  private async propfind(
+    credentials: CalDavCredentials,
+    url: string,
+    props: string,
+    depth: 0 | 1,
+  ) {
+    const body = `<?xml version="1.0" encoding="utf-8"?>
+<d:propfind xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav">
+  <d:prop>${props}</d:prop>
+</d:propfind>`
+    return this.request(credentials, "PROPFIND", url, body, depth)
+  }
+
+  private async request(
+    credentials: CalDavCredentials,
+    method: "PROPFIND" | "REPORT",
+    url: string,
+    body: string,
+    depth: 0 | 1,
+  ): Promise<DavResponse[]> {
+    const { data } = await this.http.axiosRef.request<string>({
+      ...publicRequestOptions(url),
+      method,
+      url,
+      data: body,
+      responseType: "text",
+      timeout: CALENDAR_HTTP_TIMEOUT_MS,
+      auth: {
+        username: credentials.username,
+        password: credentials.password,
+      },
+      headers: {
+        "Depth": String(depth),
+        "Content-Type": "application/xml; charset=utf-8",
+      },
+    })
+    return parseMultistatus(data)
+  }
+}
+
+// CalDAV servers disagree on namespace prefixes (d:, D:, none), so the
+// helpers below match on local names only.
+function tagPattern(localName: string) {
+  return new RegExp(
+    `<(?:[\\w-]+:)?${localName}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:[\\w-]+:)?${localName}>`,
+    "i",
+  )
+}
+
+function parseMultistatus(xml: string): DavResponse[] {
+  const responsePattern = new RegExp(tagPattern("response").source, "gi")
+  return Array.from(xml.matchAll(responsePattern)).map((match) => ({
+    href: readTag(match[1], "href") ?? "",
+    body: match[1],
+  }))
+}
+
+function readTag(xml: string, localName: string) {
+  const match = xml.match(tagPattern(localName))
+  return match ? decodeXml(match[1].trim()) : null
+}
+
+function readHref(xml: string, localName: string) {
+  const container = xml.match(tagPattern(localName))
+  return container ? readTag(container[1], "href") : null
+}
+
+function isCalendarCollection(xml: string) {
+  const resourceType = xml.match(tagPattern("resourcetype"))
+  return !!resourceType && /<(?:[\w-]+:)?calendar[\s/>]/i.test(resourceType[1])
+}
+
+function supportsEvents(xml: string) {
+  const components = xml.match(tagPattern("supported-calendar-component-set"))
+  // Servers that omit the set accept every component type.
+  return !components || /name=["']VEVENT["']/i.test(components[1])
+}
+
+function resolveUrl(base: string, href: string) {
+  return new URL(href, base).toString()
+}
+
+function decodeXml(value: string) {
+  return value
+    .replace(/^<!\[CDATA\[([\s\S]*)\]\]>$/, "$1")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#13;/g, "\r")
+    .replace(/&amp;/g, "&")
+}
+
+function toCalDavTime(date: Date) {
+  // 2025-11-01T00:00:00.000Z -> 20251101T000000Z
+  return date
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "")
+}
@@ -0,0 +1,39 @@
+import { Body, Controller, Post } from "@nestjs/common"
+import { ApiTags } from "@nestjs/swagger"
+import type { User } from "@prisma/client"
+import { CalendarFeedsService } from "./calendar-feeds.service"
+import {
+  ConnectCalDavDto,
+  ConnectIcsFeedDto,
+} from "../dto/connect-calendar-feed.dto"
+import { CalendarSyncService } from "../../calendar/calendar-sync.service"
+import { CurrentDbUser } from "../../users/decorators/current-db-user.decorator"
+
+@ApiTags("Integrations")
+@Controller("integrations/calendar-feeds")
+export class CalendarFeedsController {
+  constructor(
+    private readonly calendarFeeds: CalendarFeedsService,
+    private readonly calendarSync: CalendarSyncService,
+  ) {}
+
+  @Post("ics")
+  async connectIcsFeed(
+    @CurrentDbUser() user: User,
+    @Body() body: ConnectIcsFeedDto,
+  ) {
+    const account = await this.calendarFeeds.connectIcsFeed(user.id, body)
+    await this.calendarSync.syncAccountById(account.id)
+    return { success: true, accountId: account.id }
+  }
+
+  @Post("caldav")
+  async connectCalDav(
+    @CurrentDbUser() user: User,
+    @Body() body: ConnectCalDavDto,
+  ) {
+    const account = await this.calendarFeeds.connectCalDav(user.id, body)
+    await this.calendarSync.syncAccountById(account.id)
+    return { success: true, accountId: account.id }
+  }
+}
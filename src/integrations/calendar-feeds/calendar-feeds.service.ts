@@ -0,0 +1,162 @@
+import { Injectable, Logger } from "@nestjs/common"
+import { HttpService } from "@nestjs/axios"
+import { ConnectedAccount, ConnectedProvider } from "@prisma/client"
+import { createHash } from "crypto"
+import { ConnectedAccountsService } from "../connected-accounts.service"
+import { CalDavService, type CalDavCalendar } from "./caldav.service"
+import type {
+  ConnectCalDavDto,
+  ConnectIcsFeedDto,
+} from "../dto/connect-calendar-feed.dto"
+import { AppError } from "../../errors/app-error"
+import { ErrorCodes, FieldErrorCodes } from "../../errors/error-codes"
+import { CALENDAR_HTTP_TIMEOUT_MS } from "../../calendar/calendar.constants"
+import { publicRequestOptions } from "./public-address"
+
+const ICS_MAX_CONTENT_LENGTH = 10 * 1024 * 1024
+
+type CalDavMetadata = {
+  serverUrl: string
+  username: string
+  calendars: CalDavCalendar[]
+}
+
+/**
+ * Connects read-only calendar sources that authenticate with a secret URL or
+ * basic credentials instead of OAuth. The feed URL / CalDAV password is kept
+ * in `accessToken` so it never appears in account metadata returned to
+ * clients.
+ */
+@Injectable()
+export class CalendarFeedsService {
+  private readonly logger = new Logger(CalendarFeedsService.name)
+
+  constructor(
+    private readonly http: HttpService,
+    private readonly connectedAccounts: ConnectedAccountsService,
+    private readonly calDav: CalDavService,
+  ) {}
+
+  async connectIcsFeed(userId: string, dto: ConnectIcsFeedDto) {
+    const feedUrl = this.normalizeFeedUrl(dto.url)
+    try {
+      await this.fetchIcsFeed(feedUrl)
+    } catch (error) {
+      this.logger.warn(
+        `ICS feed validation failed for user ${userId}: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      )
+      throw new AppError(ErrorCodes.VALIDATION, {
+        fields: [{ field: "url", code: FieldErrorCodes.INVALID }],
+      })
+    }
+
+    const host = new URL(feedUrl).host
+    return this.connectedAccounts.upsertAccount(
+      userId,
+      ConnectedProvider.ICS_CALENDAR,
+      this.fingerprint(userId, feedUrl),
+      {
+        label: dto.label ?? host,
+        accessToken: feedUrl,
+        metadata: { host },
+      },
+    )
+  }
+
+  async connectCalDav(userId: string, dto: ConnectCalDavDto) {
+    const credentials = {
+      serverUrl: dto.serverUrl,
+      username: dto.username,
+      password: dto.password,
+    }
+
+    let calendars: CalDavCalendar[]
+    try {
+      calendars = await this.calDav.discoverCalendars(credentials)
+    } catch (error) {
+      const status = (error as { response?: { status?: number } })?.response
+        ?.status
+      if (status === 401 || status === 403) {
+        throw new AppError(ErrorCodes.VALIDATION, {
+          fields: [{ field: "password", code: FieldErrorCodes.INVALID }],
+        })
+      }
+      this.logger.warn(
+        `CalDAV discovery failed for user ${userId}: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      )
+      calendars = []
+    }
+
+    if (!calendars.length) {
+      throw new AppError(ErrorCodes.VALIDATION, {
+        fields: [{ field: "serverUrl", code: FieldErrorCodes.INVALID }],
+      })
+    }
+
+    const metadata: CalDavMetadata = {
+      serverUrl: dto.serverUrl,
+      username: dto.username,
+      calendars,
+    }
+    return this.connectedAccounts.upsertAccount(
+      userId,
+      ConnectedProvider.CALDAV_CALENDAR,
+      this.fingerprint(userId, `${dto.serverUrl}|${dto.username}`),
+      {
+        label: dto.label ?? dto.username,
+        accessToken: dto.password,
+        metadata,
+      },
+    )
+  }
+
+  async fetchIcsFeed(feedUrl: string) {
+    const { data } = await this.http.axiosRef.get<string>(feedUrl, {
+      ...publicRequestOptions(feedUrl),
+      responseType: "text",
+      maxContentLength: ICS_MAX_CONTENT_LENGTH,
+      timeout: CALENDAR_HTTP_TIMEOUT_MS,
+      headers: { Accept: "text/calendar" },
+    })
+    if (typeof data !== "string" || !data.includes("BEGIN:VCALENDAR")) {
+      throw new Error("Response is not an iCalendar document")
+    }
+    return data
+  }
+
+  readIcsFeedUrl(account: ConnectedAccount) {
+    if (!account.accessToken) {
+      throw new Error("ICS account is missing its feed URL")
+    }
+    return account.accessToken
+  }
+
+  readCalDavAccount(account: ConnectedAccount) {
+    const metadata = account.metadata as Partial<CalDavMetadata> | null
+    if (!metadata?.serverUrl || !metadata.username || !account.accessToken) {
+      throw new Error("CalDAV account is missing its credentials")
+    }
+    return {
+      credentials: {
+        serverUrl: metadata.serverUrl,
+        username: metadata.username,
+        password: account.accessToken,
+      },
+      calendars: metadata.calendars ?? [],
+    }
+  }
+
+  private normalizeFeedUrl(url: string) {
+    // webcal:// is a client-side hint for "subscribe"; the feed itself is
+    // served over HTTPS.
+    return url.trim().replace(/^webcal:\/\//i, "https://")
+  }
+
+  private fingerprint(userId: string, value: string) {
+    return createHash("sha256").update(`${userId}:${value}`).digest("hex")
+  }
+}
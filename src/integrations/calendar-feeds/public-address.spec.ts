@@ -0,0 +1,38 @@
+import { isPublicAddress, publicRequestOptions } from "./public-address"
+
+describe("public address guard", () => {
+  it("tells public addresses from private, loopback and link-local ones", () => {
+    for (const address of ["93.184.216.34", "2606:4700::1111"]) {
+      expect(isPublicAddress(address)).toBe(true)
+    }
+    for (const address of [
+      "127.0.0.1",
+      "10.1.2.3",
+      "172.20.0.1",
+      "192.168.1.10",
+      "169.254.169.254",
+      "0.0.0.0",
+      "::1",
+      "fd00::1",
+      "fe80::1",
+      "::ffff:127.0.0.1",
+    ]) {
+      expect(isPublicAddress(address)).toBe(false)
+    }
+  })
+
+  it("rejects private hosts before and after resolving them", async () => {
+    expect(() => publicRequestOptions("http://169.254.169.254/latest")).toThrow(
+      "private address",
+    )
+    expect(() => publicRequestOptions("https://[::1]/cal.ics")).toThrow(
+      "private address",
+    )
+
+    const options = publicRequestOptions("https://localhost/cal.ics")
+    await expect(options.lookup("localhost")).rejects.toThrow("private address")
+    expect(() => options.beforeRedirect({ hostname: "10.0.0.5" })).toThrow(
+      "private address",
+    )
+  })
+})
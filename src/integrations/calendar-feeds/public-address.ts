@@ -0,0 +1,63 @@
+import { promises as dns } from "dns"
+import { BlockList, isIP } from "net"
+
+// Feed and CalDAV URLs come from users, so requests to them must not reach
+// the server's own network.
+const PRIVATE_RANGES = new BlockList()
+PRIVATE_RANGES.addSubnet("0.0.0.0", 8, "ipv4")
+PRIVATE_RANGES.addSubnet("10.0.0.0", 8, "ipv4")
+PRIVATE_RANGES.addSubnet("100.64.0.0", 10, "ipv4")
+PRIVATE_RANGES.addSubnet("127.0.0.0", 8, "ipv4")
+PRIVATE_RANGES.addSubnet("169.254.0.0", 16, "ipv4")
+PRIVATE_RANGES.addSubnet("172.16.0.0", 12, "ipv4")
+PRIVATE_RANGES.addSubnet("192.168.0.0", 16, "ipv4")
+PRIVATE_RANGES.addSubnet("224.0.0.0", 3, "ipv4")
+PRIVATE_RANGES.addAddress("::", "ipv6")
+PRIVATE_RANGES.addAddress("::1", "ipv6")
+PRIVATE_RANGES.addSubnet("fc00::", 7, "ipv6")
+PRIVATE_RANGES.addSubnet("fe80::", 10, "ipv6")
+PRIVATE_RANGES.addSubnet("ff00::", 8, "ipv6")
+
+export function isPublicAddress(address: string) {
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address)
+  if (mapped) {
+    return isPublicAddress(mapped[1])
+  }
+  const family = isIP(address)
+  if (!family) {
+    return false
+  }
+  return !PRIVATE_RANGES.check(address, family === 4 ? "ipv4" : "ipv6")
+}
+
+function assertPublicHost(hostname: string) {
+  const host = hostname.replace(/^\[|\]$/g, "")
+  if (isIP(host) && !isPublicAddress(host)) {
+    throw new Error(`Refusing to connect to private address ${host}`)
+  }
+}
+
+async function lookupPublicAddress(hostname: string) {
+  const addresses = await dns.lookup(hostname, { all: true })
+  const blocked = addresses.find(({ address }) => !isPublicAddress(address))
+  if (blocked) {
+    throw new Error(
+      `Refusing to connect to ${hostname}: it resolves to private address ${blocked.address}`,
+    )
+  }
+  return [addresses] as [typeof addresses]
+}
+
+/**
+ * Axios options for a request to a user-supplied URL. Host names are checked
+ * when the connection resolves them, so redirects and DNS changes after
+ * validation cannot point the request at a private address either.
+ */
+export function publicRequestOptions(url: string) {
+  assertPublicHost(new URL(url).hostname)
+  return {
+    lookup: lookupPublicAddress,
+    beforeRedirect: (options: Record<string, unknown>) =>
+      assertPublicHost(String(options.hostname)),
+  }
+}
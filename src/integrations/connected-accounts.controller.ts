@@ -3,11 +3,15 @@ import { ApiTags } from "@nestjs/swagger"
 import { ConnectedAccountsService } from "./connected-accounts.service"
 import { CurrentDbUser } from "../users/decorators/current-db-user.decorator"
 import type { User } from "@prisma/client"
+import { CalendarWebhookService } from "../calendar/calendar-webhook.service"
 
 @ApiTags("Integrations")
 @Controller("integrations/connected-accounts")
 export class ConnectedAccountsController {
-  constructor(private readonly connectedAccounts: ConnectedAccountsService) {}
+  constructor(
+    private readonly connectedAccounts: ConnectedAccountsService,
+    private readonly calendarWebhooks: CalendarWebhookService,
+  ) {}
 
   @Get()
   async list(@CurrentDbUser() user: User) {
@@ -16,6 +20,8 @@ export class ConnectedAccountsController {
 
   @Delete(":id")
   async disconnect(@Param("id") id: string, @CurrentDbUser() user: User) {
+    const account = await this.connectedAccounts.getById(id, user.id)
+    await this.calendarWebhooks.stopChannel(account)
     await this.connectedAccounts.disconnect(id, user.id)
     return { success: true }
   }
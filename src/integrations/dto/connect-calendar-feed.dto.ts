@@ -0,0 +1,48 @@
+import { ApiProperty } from "@nestjs/swagger"
+import {
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUrl,
+  MaxLength,
+} from "class-validator"
+
+export class ConnectIcsFeedDto {
+  @ApiProperty({
+    example: "webcal://p01-caldav.icloud.com/published/2/abc123",
+  })
+  @IsUrl({ protocols: ["http", "https", "webcal"], require_protocol: true })
+  @MaxLength(2048)
+  url!: string
+
+  @ApiProperty({ example: "Family calendar", required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  label?: string
+}
+
+export class ConnectCalDavDto {
+  @ApiProperty({ example: "https://caldav.fastmail.com/dav/" })
+  @IsUrl({ protocols: ["http", "https"], require_protocol: true })
+  @MaxLength(2048)
+  serverUrl!: string
+
+  @ApiProperty({ example: "alex@fastmail.com" })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  username!: string
+
+  @ApiProperty({ description: "App-specific password" })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  password!: string
+
+  @ApiProperty({ example: "Fastmail", required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  label?: string
+}
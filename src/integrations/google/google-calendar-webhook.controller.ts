@@ -0,0 +1,53 @@
+import { Controller, Headers, HttpCode, Logger, Post } from "@nestjs/common"
+import { ApiTags } from "@nestjs/swagger"
+import { Public } from "nest-keycloak-connect"
+import { CalendarWebhookService } from "../../calendar/calendar-webhook.service"
+import { AppError } from "../../errors/app-error"
+import { ErrorCodes } from "../../errors/error-codes"
+
+@ApiTags("Integrations")
+@Controller("integrations/google/webhook")
+export class GoogleCalendarWebhookController {
+  private readonly logger = new Logger(GoogleCalendarWebhookController.name)
+
+  constructor(private readonly calendarWebhooks: CalendarWebhookService) {}
+
+  @Post("calendar")
+  @Public()
+  @HttpCode(200)
+  async handleCalendarNotification(
+    @Headers("x-goog-channel-id") channelId?: string,
+    @Headers("x-goog-resource-id") resourceId?: string,
+    @Headers("x-goog-resource-state") resourceState?: string,
+    @Headers("x-goog-channel-token") token?: string,
+    @Headers("x-goog-message-number") messageNumber?: string,
+  ) {
+    if (!channelId || !resourceId) {
+      throw new AppError(ErrorCodes.BAD_REQUEST, {
+        params: { resource: "CalendarNotification" },
+      })
+    }
+
+    const result = await this.calendarWebhooks.handleNotification({
+      channelId,
+      resourceId,
+      resourceState,
+      token,
+      messageNumber,
+    })
+
+    if (!result.accepted) {
+      this.logger.warn(
+        `Rejected calendar notification for channel ${channelId}: ${result.reason}`,
+      )
+      throw new AppError(
+        result.reason === "invalid-token"
+          ? ErrorCodes.FORBIDDEN
+          : ErrorCodes.NOT_FOUND,
+        { params: { resource: "CalendarChannel" } },
+      )
+    }
+
+    return { success: true }
+  }
+}
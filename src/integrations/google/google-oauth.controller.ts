@@ -1,6 +1,7 @@
 import {
   Controller,
   Get,
+  Logger,
   Query,
   Res,
   BadRequestException,
@@ -10,6 +11,7 @@ import { Public } from "nest-keycloak-connect"
 import { ApiTags } from "@nestjs/swagger"
 import { GoogleOAuthService } from "./google-oauth.service"
 import { CalendarSyncService } from "../../calendar/calendar-sync.service"
+import { CalendarWebhookService } from "../../calendar/calendar-webhook.service"
 import { CurrentDbUser } from "../../users/decorators/current-db-user.decorator"
 import type { User } from "@prisma/client"
 
@@ -26,9 +28,12 @@ function buildRedirectUrl(baseUrl: string, params: Record<string, string>) {
 @ApiTags("Integrations")
 @Controller("integrations/google/oauth")
 export class GoogleOAuthController {
+  private readonly logger = new Logger(GoogleOAuthController.name)
+
   constructor(
     private readonly googleOAuth: GoogleOAuthService,
     private readonly calendarSync: CalendarSyncService,
+    private readonly calendarWebhooks: CalendarWebhookService,
   ) {}
 
   @Get("url")
@@ -56,6 +61,15 @@ export class GoogleOAuthController {
         await this.googleOAuth.handleOAuthCallback(code, state)
       if (account?.id) {
         await this.calendarSync.syncAccountById(account.id)
+        await this.calendarWebhooks
+          .ensureChannel(account.id)
+          .catch((error: unknown) => {
+            this.logger.warn(
+              `Google Calendar channel registration failed for account ${account.id}: ${
+                error instanceof Error ? error.message : String(error)
+              }`,
+            )
+          })
       }
       return res.redirect(
         buildRedirectUrl(redirectUri, {
@@ -63,7 +77,12 @@ export class GoogleOAuthController {
         }),
       )
     } catch (error) {
-      console.error("Google OAuth error", error)
+      this.logger.error(
+        `Google OAuth callback failed: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        error instanceof Error ? error.stack : undefined,
+      )
       const redirectBase = this.googleOAuth.settingsRedirectBase
       return res.redirect(
         buildRedirectUrl(redirectBase, {
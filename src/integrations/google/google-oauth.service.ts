@@ -55,6 +55,8 @@ export class GoogleOAuthService {
     )
     this.scopes = [
       "https://www.googleapis.com/auth/calendar.readonly",
+      // Follow-up emails are saved as Gmail drafts.
+      "https://www.googleapis.com/auth/gmail.compose",
       "https://www.googleapis.com/auth/userinfo.email",
       "https://www.googleapis.com/auth/userinfo.profile",
       "openid",
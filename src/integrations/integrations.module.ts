@@ -4,10 +4,16 @@ import { ConnectedAccountsController } from "./connected-accounts.controller"
 import { ConnectedAccountsService } from "./connected-accounts.service"
 import { GoogleOAuthService } from "./google/google-oauth.service"
 import { GoogleOAuthController } from "./google/google-oauth.controller"
+import { GoogleCalendarWebhookController } from "./google/google-calendar-webhook.controller"
 import { LinkedInOAuthService } from "./linkedin/linkedin-oauth.service"
 import { LinkedInOAuthController } from "./linkedin/linkedin-oauth.controller"
 import { FacebookOAuthService } from "./facebook/facebook-oauth.service"
 import { FacebookOAuthController } from "./facebook/facebook-oauth.controller"
+import { MicrosoftOAuthService } from "./microsoft/microsoft-oauth.service"
+import { MicrosoftOAuthController } from "./microsoft/microsoft-oauth.controller"
+import { CalendarFeedsService } from "./calendar-feeds/calendar-feeds.service"
+import { CalendarFeedsController } from "./calendar-feeds/calendar-feeds.controller"
+import { CalDavService } from "./calendar-feeds/caldav.service"
 import { CalendarModule } from "../calendar/calendar.module"
 
 @Module({
@@ -15,20 +21,29 @@ import { CalendarModule } from "../calendar/calendar.module"
   controllers: [
     ConnectedAccountsController,
     GoogleOAuthController,
+    GoogleCalendarWebhookController,
     LinkedInOAuthController,
     FacebookOAuthController,
+    MicrosoftOAuthController,
+    CalendarFeedsController,
   ],
   providers: [
     ConnectedAccountsService,
     GoogleOAuthService,
     LinkedInOAuthService,
     FacebookOAuthService,
+    MicrosoftOAuthService,
+    CalendarFeedsService,
+    CalDavService,
   ],
   exports: [
     ConnectedAccountsService,
     GoogleOAuthService,
     LinkedInOAuthService,
     FacebookOAuthService,
+    MicrosoftOAuthService,
+    CalendarFeedsService,
+    CalDavService,
   ],
 })
 export class IntegrationsModule {}
@@ -0,0 +1,96 @@
+import {
+  BadRequestException,
+  Controller,
+  Get,
+  Logger,
+  Query,
+  Res,
+} from "@nestjs/common"
+import type { Response } from "express"
+import { ApiTags } from "@nestjs/swagger"
+import { Public } from "nest-keycloak-connect"
+import type { User } from "@prisma/client"
+import { MicrosoftOAuthService } from "./microsoft-oauth.service"
+import { CalendarSyncService } from "../../calendar/calendar-sync.service"
+import { CurrentDbUser } from "../../users/decorators/current-db-user.decorator"
+
+function buildRedirectUrl(baseUrl: string, params: Record<string, string>) {
+  const url = new URL(baseUrl)
+  Object.entries(params).forEach(([key, value]) => {
+    if (value !== undefined && value !== null) {
+      url.searchParams.set(key, value)
+    }
+  })
+  return url.toString()
+}
+
+@ApiTags("Integrations")
+@Controller("integrations/microsoft/oauth")
+export class MicrosoftOAuthController {
+  private readonly logger = new Logger(MicrosoftOAuthController.name)
+
+  constructor(
+    private readonly microsoftOAuth: MicrosoftOAuthService,
+    private readonly calendarSync: CalendarSyncService,
+  ) {}
+
+  @Get("url")
+  getAuthUrl(
+    @CurrentDbUser() user: User,
+    @Query("redirect") redirect?: string,
+  ) {
+    const url = this.microsoftOAuth.buildAuthorizationUrl(user.id, redirect)
+    return { url }
+  }
+
+  @Get("callback")
+  @Public()
+  async handleCallback(
+    @Query("code") code: string,
+    @Query("state") state: string,
+    @Query("error") error: string,
+    @Query("error_description") errorDescription: string,
+    @Res() res: Response,
+  ) {
+    if (error) {
+      this.logger.error(
+        `Microsoft OAuth error: ${error} - ${errorDescription || "No description"}`,
+      )
+      return res.redirect(
+        buildRedirectUrl(this.microsoftOAuth.settingsRedirectBase, {
+          status: "error",
+          error,
+        }),
+      )
+    }
+
+    if (!code || !state) {
+      throw new BadRequestException("Missing OAuth parameters")
+    }
+
+    try {
+      const { account, redirectUri } =
+        await this.microsoftOAuth.handleOAuthCallback(code, state)
+      if (account?.id) {
+        await this.calendarSync.syncAccountById(account.id)
+      }
+      return res.redirect(
+        buildRedirectUrl(redirectUri, {
+          status: "success",
+        }),
+      )
+    } catch (error) {
+      this.logger.error(
+        `Microsoft OAuth callback failed: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        error instanceof Error ? error.stack : undefined,
+      )
+      return res.redirect(
+        buildRedirectUrl(this.microsoftOAuth.settingsRedirectBase, {
+          status: "error",
+        }),
+      )
+    }
+  }
+}
@@ -0,0 +1,236 @@
+import { Injectable, Logger } from "@nestjs/common"
+import { ConfigService } from "@nestjs/config"
+import { HttpService } from "@nestjs/axios"
+import { JwtPayload, sign, verify } from "jsonwebtoken"
+import { ConnectedProvider } from "@prisma/client"
+import { ConnectedAccountsService } from "../connected-accounts.service"
+
+interface StatePayload extends JwtPayload {
+  userId: string
+  redirectPath?: string
+}
+
+export type MicrosoftTokenResponse = {
+  access_token: string
+  expires_in: number
+  refresh_token?: string
+  scope?: string
+  id_token?: string
+}
+
+type MicrosoftProfile = {
+  id: string
+  displayName?: string | null
+  mail?: string | null
+  userPrincipalName?: string | null
+}
+
+@Injectable()
+export class MicrosoftOAuthService {
+  private readonly logger = new Logger(MicrosoftOAuthService.name)
+  private readonly clientId: string
+  private readonly clientSecret: string
+  private readonly redirectUri: string
+  private readonly tenant: string
+  private readonly scopes: string[]
+  private readonly stateSecret: string
+  private readonly appOrigin: string
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly http: HttpService,
+    private readonly connectedAccounts: ConnectedAccountsService,
+  ) {
+    this.clientId = this.configService.getOrThrow<string>(
+      "MICROSOFT_OAUTH_CLIENT_ID",
+    )
+    this.clientSecret = this.configService.getOrThrow<string>(
+      "MICROSOFT_OAUTH_CLIENT_SECRET",
+    )
+    this.redirectUri = this.configService.getOrThrow<string>(
+      "MICROSOFT_OAUTH_REDIRECT_URI",
+    )
+    this.tenant =
+      this.configService.get<string>("MICROSOFT_OAUTH_TENANT") ?? "common"
+    this.scopes = [
+      "openid",
+      "profile",
+      "email",
+      "offline_access",
+      "User.Read",
+      "Calendars.Read",
+    ]
+    this.stateSecret =
+      this.configService.get<string>("MICROSOFT_OAUTH_STATE_SECRET") ??
+      this.configService.getOrThrow<string>("NEXTAUTH_SECRET")
+    this.appOrigin = this.configService.getOrThrow<string>("APP_ORIGIN")
+  }
+
+  buildAuthorizationUrl(userId: string, redirectPath?: string) {
+    const state = this.signState({
+      userId,
+      redirectPath: this.sanitizeRedirectPath(redirectPath),
+    })
+    const params = new URLSearchParams({
+      client_id: this.clientId,
+      response_type: "code",
+      redirect_uri: this.redirectUri,
+      response_mode: "query",
+      scope: this.scopes.join(" "),
+      prompt: "select_account",
+      state,
+    })
+    return `${this.authorityUrl}/authorize?${params.toString()}`
+  }
+
+  async handleOAuthCallback(code: string, stateToken: string) {
+    const state = this.verifyState(stateToken)
+    const tokens = await this.exchangeCode(code)
+    const profile = await this.fetchProfile(tokens.access_token)
+
+    if (!profile?.id) {
+      throw new Error("Unable to determine Microsoft account id")
+    }
+
+    const email = profile.mail ?? profile.userPrincipalName ?? null
+    const account = await this.connectedAccounts.upsertAccount(
+      state.userId,
+      ConnectedProvider.MICROSOFT_CALENDAR,
+      profile.id,
+      {
+        label: email ?? profile.displayName ?? "Microsoft Calendar",
+        scopes: (tokens.scope ?? this.scopes.join(" "))
+          .split(" ")
+          .filter(Boolean),
+        accessToken: tokens.access_token,
+        refreshToken: tokens.refresh_token ?? null,
+        expiresAt: new Date(Date.now() + tokens.expires_in * 1000),
+        metadata: {
+          email,
+          name: profile.displayName ?? null,
+        },
+      },
+    )
+
+    return {
+      account,
+      redirectUri: this.resolveRedirectUri(state.redirectPath),
+    }
+  }
+
+  async refreshAccessToken(
+    refreshToken: string,
+  ): Promise<MicrosoftTokenResponse> {
+    const params = new URLSearchParams({
+      grant_type: "refresh_token",
+      refresh_token: refreshToken,
+      client_id: this.clientId,
+      client_secret: this.clientSecret,
+      scope: this.scopes.join(" "),
+    })
+    const { data } = await this.http.axiosRef.post<MicrosoftTokenResponse>(
+      `${this.authorityUrl}/token`,
+      params.toString(),
+      {
+        headers: {
+          "Content-Type": "application/x-www-form-urlencoded",
+        },
+      },
+    )
+    return data
+  }
+
+  private async exchangeCode(code: string): Promise<MicrosoftTokenResponse> {
+    const params = new URLSearchParams({
+      grant_type: "authorization_code",
+      code,
+      redirect_uri: this.redirectUri,
+      client_id: this.clientId,
+      client_secret: this.clientSecret,
+      scope: this.scopes.join(" "),
+    })
+    try {
+      const { data } = await this.http.axiosRef.post<MicrosoftTokenResponse>(
+        `${this.authorityUrl}/token`,
+        params.toString(),
+        {
+          headers: {
+            "Content-Type": "application/x-www-form-urlencoded",
+          },
+        },
+      )
+      return data
+    } catch (error) {
+      this.logger.error(
+        `Microsoft token exchange failed: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      )
+      throw error
+    }
+  }
+
+  private async fetchProfile(accessToken: string) {
+    const { data } = await this.http.axiosRef.get<MicrosoftProfile>(
+      "https://graph.microsoft.com/v1.0/me",
+      {
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+        },
+        params: {
+          $select: "id,displayName,mail,userPrincipalName",
+        },
+      },
+    )
+    return data
+  }
+
+  private get authorityUrl() {
+    return `https://login.microsoftonline.com/${this.tenant}/oauth2/v2.0`
+  }
+
+  private signState(payload: StatePayload) {
+    return sign(
+      {
+        ...payload,
+        ts: Date.now(),
+      },
+      this.stateSecret,
+      { expiresIn: "15m" },
+    )
+  }
+
+  private verifyState(token: string): StatePayload {
+    const payload = verify(token, this.stateSecret) as StatePayload
+    if (!payload.userId) {
+      throw new Error("Invalid Microsoft OAuth state payload")
+    }
+    return payload
+  }
+
+  private sanitizeRedirectPath(path?: string) {
+    if (!path || !path.startsWith("/")) {
+      return undefined
+    }
+    return path
+  }
+
+  private resolveRedirectUri(redirectPath?: string) {
+    if (!redirectPath) {
+      return this.settingsRedirectBase
+    }
+    try {
+      const url = new URL(redirectPath, this.appOrigin)
+      if (url.origin !== this.appOrigin) {
+        return this.settingsRedirectBase
+      }
+      return url.toString()
+    } catch {
+      return this.settingsRedirectBase
+    }
+  }
+
+  get settingsRedirectBase() {
+    return `${this.appOrigin}/settings/integrations?provider=microsoft`
+  }
+}
@@ -7,7 +7,8 @@ import { GlobalExceptionFilter } from "./errors/global-exception.filter"
 import { validationExceptionFactory } from "./errors/validation-exception.factory"
 import cookieParser from "cookie-parser"
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule)
+  // rawBody keeps the exact request bytes for webhook signature checks.
+  const app = await NestFactory.create(AppModule, { rawBody: true })
   const configService = app.get(ConfigService)
 
   app.use(cookieParser(configService.get<string>("COOKIE_SECRET") ?? undefined))
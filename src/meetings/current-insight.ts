@@ -0,0 +1,22 @@
+import type { Prisma } from "@prisma/client"
+
+// The pinned revision wins, otherwise the latest one.
+export const CURRENT_INSIGHT_ORDER: Prisma.MeetingInsightOrderByWithRelationInput[] =
+  [{ pinnedAt: { sort: "desc", nulls: "last" } }, { revision: "desc" }]
+
+/**
+ * Locks the meeting row so user edits and AI generations running at the same
+ * time get distinct revision numbers. Call inside a transaction.
+ */
+export async function nextInsightRevision(
+  tx: Prisma.TransactionClient,
+  meetingId: string,
+) {
+  await tx.$queryRaw`SELECT id FROM "CalendarEvent" WHERE id = ${meetingId} FOR UPDATE`
+  const latest = await tx.meetingInsight.findFirst({
+    where: { calendarEventId: meetingId },
+    orderBy: { revision: "desc" },
+    select: { revision: true },
+  })
+  return (latest?.revision ?? 0) + 1
+}
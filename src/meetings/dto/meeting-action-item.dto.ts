@@ -0,0 +1,63 @@
+import {
+  IsDateString,
+  IsEmail,
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+  ValidateIf,
+} from "class-validator"
+import { MeetingActionItemStatus } from "@prisma/client"
+
+export class MeetingActionItemDto {
+  id!: string
+  meetingId!: string
+  meetingTitle?: string | null
+  meetingStartTime?: string
+  description!: string
+  assigneeEmail!: string | null
+  assigneeName!: string | null
+  // Calendar date, YYYY-MM-DD.
+  dueDate!: string | null
+  sourceSeconds!: number | null
+  status!: MeetingActionItemStatus
+  completedAt!: string | null
+  createdAt!: string
+  updatedAt!: string
+}
+
+export class UpdateMeetingActionItemDto {
+  @IsOptional()
+  @IsEnum(MeetingActionItemStatus)
+  status?: MeetingActionItemStatus
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(1000)
+  description?: string
+
+  // null clears the assignee.
+  @IsOptional()
+  @ValidateIf((_, value) => value !== null)
+  @IsEmail()
+  assigneeEmail?: string | null
+
+  @IsOptional()
+  @ValidateIf((_, value) => value !== null)
+  @IsString()
+  @MaxLength(200)
+  assigneeName?: string | null
+
+  @IsOptional()
+  @ValidateIf((_, value) => value !== null)
+  @IsDateString({ strict: true })
+  dueDate?: string | null
+}
+
+export class MeetingActionItemsQueryDto {
+  @IsOptional()
+  @IsEnum(MeetingActionItemStatus)
+  status?: MeetingActionItemStatus
+}
@@ -0,0 +1,16 @@
+import { AiJobStatus, AiJobType } from "@prisma/client"
+
+export class MeetingAiJobDto {
+  id: string
+  type: AiJobType
+  status: AiJobStatus
+  attempts: number
+  maxAttempts: number
+  lastError?: string | null
+  nextAttemptAt?: string | null
+  startedAt?: string | null
+  completedAt?: string | null
+  deadLetteredAt?: string | null
+  createdAt: string
+  updatedAt: string
+}
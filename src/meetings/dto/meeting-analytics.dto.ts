@@ -0,0 +1,54 @@
+import type { SpeakerAnalyticsSource } from "../../transcripts/speaker-analytics"
+
+export class MeetingSpeakerStatsDto {
+  // Platform participant id, when reported.
+  participantId!: string | null
+  name!: string
+  email!: string | null
+  talkSeconds!: number
+  // Share of all talk time, 0..1.
+  talkShare!: number
+  turns!: number
+  longestMonologueSeconds!: number
+  // Times the speaker talked over someone else, and was talked over.
+  interruptions!: number
+  interrupted!: number
+  // Offsets into the recording; negative when they joined before it started.
+  joinedAtSeconds!: number | null
+  leftAtSeconds!: number | null
+  joinedAt!: string | null
+  leftAt!: string | null
+}
+
+export class MeetingInviteeDto {
+  email!: string
+  name!: string | null
+}
+
+export class MeetingAttendedInviteeDto extends MeetingInviteeDto {
+  // Name the invitee had in the meeting.
+  participantName!: string
+}
+
+export class MeetingUninvitedParticipantDto {
+  name!: string
+  email!: string | null
+}
+
+export class MeetingAttendanceDto {
+  invited!: number
+  attended!: MeetingAttendedInviteeDto[]
+  absent!: MeetingInviteeDto[]
+  uninvited!: MeetingUninvitedParticipantDto[]
+}
+
+export class MeetingAnalyticsDto {
+  // Where speaking time came from: Recall's speech events or the transcript.
+  source!: SpeakerAnalyticsSource
+  durationSeconds!: number | null
+  totalTalkSeconds!: number
+  // Ordered by talk time.
+  speakers!: MeetingSpeakerStatsDto[]
+  attendance!: MeetingAttendanceDto
+  computedAt!: string
+}
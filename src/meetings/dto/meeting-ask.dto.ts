@@ -0,0 +1,71 @@
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger"
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+  MinLength,
+} from "class-validator"
+import type { MeetingViewerRole } from "./meeting-details.dto"
+
+export class AskMeetingsDto {
+  @ApiProperty({
+    description: "Question about past meetings",
+    example: "What did we agree on pricing with Acme?",
+  })
+  @IsString()
+  @MinLength(3)
+  @MaxLength(1000)
+  question!: string
+
+  @ApiPropertyOptional({
+    description: "Only search these meetings",
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(50)
+  @IsString({ each: true })
+  meetingIds?: string[]
+
+  @ApiPropertyOptional({
+    description: "Number of transcript excerpts to retrieve",
+    example: 8,
+    default: 8,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(20)
+  limit?: number
+}
+
+export class MeetingAnswerCitationDto {
+  // The [n] marker used in the answer.
+  number!: number
+  meetingId!: string
+  title!: string | null
+  startTime!: string
+  viewerRole!: MeetingViewerRole
+  speakers!: string[]
+  // Offsets into the recording covered by the excerpt.
+  startSeconds!: number | null
+  endSeconds!: number | null
+  excerpt!: string
+  // Cosine similarity to the question, 1 being identical.
+  score!: number
+  // Whether the answer refers to this excerpt.
+  cited!: boolean
+}
+
+export class MeetingAnswerDto {
+  // null when no excerpt matched or no LLM provider is available; the
+  // citations are still returned in the latter case.
+  answer!: string | null
+  model!: string | null
+  citations!: MeetingAnswerCitationDto[]
+}
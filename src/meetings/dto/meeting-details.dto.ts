@@ -1,4 +1,8 @@
 import {
+  FollowUpEmailMethod,
+  FollowUpEmailStatus,
+  LlmProviderKind,
+  MeetingInsightSource,
   MeetingMediaStatus,
   MeetingMediaType,
   MeetingPlatform,
@@ -7,6 +11,7 @@ import {
   SocialPostStatus,
 } from "@prisma/client"
 import { CalendarEventDto } from "../../calendar/dto/calendar-event.dto"
+import { MeetingAnalyticsDto } from "./meeting-analytics.dto"
 
 export class RecallBotDto {
   id: string
@@ -27,9 +32,22 @@ export class MeetingMediaDto {
 
 export class MeetingInsightDto {
   id: string
+  revision: number
+  source: MeetingInsightSource
+  pinned: boolean
+  createdByUserId?: string | null
+  createdAt: string
   summary?: string | null
   followUpEmail?: string | null
   generatedAt?: string | null
+  promptVersion?: number | null
+  llmProvider?: LlmProviderKind | null
+  model?: string | null
+  emailDeliveryMethod?: FollowUpEmailMethod | null
+  emailDeliveryStatus?: FollowUpEmailStatus | null
+  emailRecipients?: string[]
+  emailDeliveredAt?: string | null
+  emailDeliveryError?: string | null
 }
 
 export class SocialPostDto {
@@ -49,6 +67,8 @@ export class MeetingDetailsDto {
   media: MeetingMediaDto[]
   insight?: MeetingInsightDto | null
   socialPosts: SocialPostDto[]
+  // Speaker analytics, once the bot is done and the media was captured.
+  analytics?: MeetingAnalyticsDto | null
 }
 
 export type MeetingViewerRole = "owner" | "guest"
@@ -0,0 +1,65 @@
+import {
+  ArrayMaxSize,
+  IsEmail,
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from "class-validator"
+import { FollowUpEmailMethod } from "@prisma/client"
+import type { TextDiffPart } from "../text-diff"
+import { MeetingInsightDto } from "./meeting-details.dto"
+
+export class CreateMeetingInsightRevisionDto {
+  // Revision the edit starts from; defaults to the one currently shown.
+  @IsOptional()
+  @IsString()
+  baseRevisionId?: string
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(20000)
+  summary?: string
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(20000)
+  followUpEmail?: string
+}
+
+export class SendFollowUpEmailDto {
+  // Revision whose email is delivered; defaults to the one currently shown.
+  @IsOptional()
+  @IsString()
+  insightId?: string
+
+  // Defaults to a Gmail draft when Google is connected with Gmail access,
+  // otherwise SMTP.
+  @IsOptional()
+  @IsEnum(FollowUpEmailMethod)
+  method?: FollowUpEmailMethod
+
+  // Defaults to the meeting attendees other than the owner.
+  @IsOptional()
+  @ArrayMaxSize(50)
+  @IsEmail({}, { each: true })
+  to?: string[]
+}
+
+export class MeetingInsightDiffQueryDto {
+  @IsString()
+  @IsNotEmpty()
+  from!: string
+
+  @IsString()
+  @IsNotEmpty()
+  to!: string
+}
+
+export class MeetingInsightDiffDto {
+  from!: MeetingInsightDto
+  to!: MeetingInsightDto
+  summary!: TextDiffPart[]
+  followUpEmail!: TextDiffPart[]
+}
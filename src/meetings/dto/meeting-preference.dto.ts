@@ -1,8 +1,42 @@
-import { IsBoolean, IsInt, Max, Min, IsOptional } from "class-validator"
+import {
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUrl,
+  Matches,
+  Max,
+  MaxLength,
+  Min,
+  ValidateIf,
+} from "class-validator"
+import {
+  BotRecordingMode,
+  LlmProviderKind,
+  NotetakerRuleAction,
+  NotetakerRuleType,
+} from "@prisma/client"
+import {
+  BOT_ANNOUNCEMENT_MAX_LENGTH,
+  BOT_NAME_MAX_LENGTH,
+  TRANSCRIPT_LANGUAGE_PATTERN,
+} from "../../recall/bot-config"
 
 export class MeetingPreferenceDto {
   leadMinutes!: number
   defaultNotetaker!: boolean
+  llmProvider?: LlmProviderKind | null
+  // Providers configured on this deployment that `llmProvider` may name.
+  availableLlmProviders?: LlmProviderKind[]
+  botName?: string
+  botAvatarUrl?: string | null
+  announceRecording?: boolean
+  botAnnouncement?: string
+  recordingMode?: BotRecordingMode
+  // Null leaves the language to the transcription provider.
+  transcriptLanguage?: string | null
 }
 
 export class UpdateMeetingPreferenceDto {
@@ -14,4 +48,117 @@ export class UpdateMeetingPreferenceDto {
   @IsOptional()
   @IsBoolean()
   defaultNotetaker?: boolean
+
+  // null goes back to the deployment default.
+  @IsOptional()
+  @ValidateIf((_, value) => value !== null)
+  @IsEnum(LlmProviderKind)
+  llmProvider?: LlmProviderKind | null
+
+  // null goes back to the default name.
+  @IsOptional()
+  @ValidateIf((_, value) => value !== null)
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(BOT_NAME_MAX_LENGTH)
+  botName?: string | null
+
+  // A JPEG the bot shows as its camera; null removes it.
+  @IsOptional()
+  @ValidateIf((_, value) => value !== null)
+  @IsUrl({ protocols: ["https"], require_protocol: true })
+  @MaxLength(2048)
+  botAvatarUrl?: string | null
+
+  // These two have no default to go back to, so null is rejected.
+  @ValidateIf((_, value) => value !== undefined)
+  @IsBoolean()
+  announceRecording?: boolean
+
+  // null goes back to the default message.
+  @IsOptional()
+  @ValidateIf((_, value) => value !== null)
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(BOT_ANNOUNCEMENT_MAX_LENGTH)
+  botAnnouncement?: string | null
+
+  @ValidateIf((_, value) => value !== undefined)
+  @IsEnum(BotRecordingMode)
+  recordingMode?: BotRecordingMode
+
+  // Language code such as "en" or "pt-BR"; null lets the provider decide.
+  @IsOptional()
+  @ValidateIf((_, value) => value !== null)
+  @Matches(TRANSCRIPT_LANGUAGE_PATTERN)
+  transcriptLanguage?: string | null
+}
+
+export class NotetakerRuleDto {
+  id!: string
+  name!: string
+  type!: NotetakerRuleType
+  action!: NotetakerRuleAction
+  value!: string | null
+  enabled!: boolean
+  priority!: number
+  createdAt!: string
+  updatedAt!: string
+}
+
+export class CreateNotetakerRuleDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(120)
+  name!: string
+
+  @IsEnum(NotetakerRuleType)
+  type!: NotetakerRuleType
+
+  @IsEnum(NotetakerRuleAction)
+  action!: NotetakerRuleAction
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  value?: string
+
+  @IsOptional()
+  @IsBoolean()
+  enabled?: boolean
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  priority?: number
+}
+
+export class UpdateNotetakerRuleDto {
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(120)
+  name?: string
+
+  @IsOptional()
+  @IsEnum(NotetakerRuleType)
+  type?: NotetakerRuleType
+
+  @IsOptional()
+  @IsEnum(NotetakerRuleAction)
+  action?: NotetakerRuleAction
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  value?: string
+
+  @IsOptional()
+  @IsBoolean()
+  enabled?: boolean
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  priority?: number
 }
@@ -0,0 +1,71 @@
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger"
+import { Transform } from "class-transformer"
+import {
+  IsInt,
+  IsString,
+  IsOptional,
+  Max,
+  MaxLength,
+  Min,
+  MinLength,
+} from "class-validator"
+import type { MeetingViewerRole } from "./meeting-details.dto"
+
+export class MeetingSearchQueryDto {
+  @ApiProperty({
+    description:
+      'Search terms; supports "quoted phrases", OR and -excluded words',
+    example: "pricing",
+  })
+  @IsString()
+  @MinLength(2)
+  @MaxLength(200)
+  q!: string
+
+  @ApiPropertyOptional({
+    description: "Maximum number of meetings to return",
+    example: 20,
+    default: 20,
+  })
+  @IsOptional()
+  @Transform(({ value }: { value: unknown }) =>
+    value === undefined ? value : Number(value),
+  )
+  @IsInt()
+  @Min(1)
+  @Max(50)
+  limit?: number
+}
+
+export type MeetingSearchHitSource =
+  | "transcript"
+  | "summary"
+  | "action_item"
+  | "chat"
+
+export class MeetingSearchHighlightDto {
+  start!: number
+  end!: number
+}
+
+export class MeetingSearchHitDto {
+  source!: MeetingSearchHitSource
+  // Segment, insight, action item or chat message id.
+  id!: string
+  snippet!: string
+  // Character ranges of `snippet` that matched the query.
+  highlights!: MeetingSearchHighlightDto[]
+  speaker!: string | null
+  // Offset into the recording, for transcript lines and action items.
+  startSeconds!: number | null
+  rank!: number
+}
+
+export class MeetingSearchResultDto {
+  meetingId!: string
+  title!: string | null
+  startTime!: string
+  viewerRole!: MeetingViewerRole
+  rank!: number
+  hits!: MeetingSearchHitDto[]
+}
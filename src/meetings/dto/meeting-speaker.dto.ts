@@ -0,0 +1,57 @@
+import { ApiProperty } from "@nestjs/swagger"
+import { Type } from "class-transformer"
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsEmail,
+  IsString,
+  MaxLength,
+  MinLength,
+  ValidateIf,
+  ValidateNested,
+} from "class-validator"
+import { MeetingSpeakerSource } from "@prisma/client"
+
+export class MeetingSpeakerDto {
+  // Identifies the speaker in `PATCH /meetings/:id/speakers`.
+  speakerKey!: string
+  participantId!: string | null
+  // Name the meeting platform reported.
+  name!: string
+  // Attendee or user the speaker was identified as.
+  email!: string | null
+  displayName!: string | null
+  userId!: string | null
+  // Null while the speaker is unmatched.
+  source!: MeetingSpeakerSource | null
+  confidence!: number | null
+}
+
+export class UpdateMeetingSpeakerDto {
+  @ApiProperty({ description: "`speakerKey` from the speaker list" })
+  @IsString()
+  @MinLength(1)
+  @MaxLength(300)
+  speakerKey!: string
+
+  @ApiProperty({
+    description: "Who the speaker is; null when they are nobody on the invite",
+    example: "dana@example.com",
+    nullable: true,
+    type: String,
+  })
+  @ValidateIf((_, value) => value !== null)
+  @IsEmail()
+  email!: string | null
+}
+
+export class UpdateMeetingSpeakersDto {
+  @ApiProperty({ type: [UpdateMeetingSpeakerDto] })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(100)
+  @ValidateNested({ each: true })
+  @Type(() => UpdateMeetingSpeakerDto)
+  speakers!: UpdateMeetingSpeakerDto[]
+}
@@ -0,0 +1,89 @@
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger"
+import { Transform } from "class-transformer"
+import { IsIn, IsInt, IsNumber, IsOptional, Max, Min } from "class-validator"
+import {
+  TRANSCRIPT_EXPORT_FORMATS,
+  type TranscriptExportFormat,
+} from "../transcript-export"
+
+const toNumber = ({ value }: { value: unknown }) =>
+  value === undefined ? value : Number(value)
+
+export class MeetingTranscriptQueryDto {
+  @ApiPropertyOptional({
+    description: "Index of the first segment, from a previous `nextCursor`",
+    example: 0,
+  })
+  @IsOptional()
+  @Transform(toNumber)
+  @IsInt()
+  @Min(0)
+  cursor?: number
+
+  @ApiPropertyOptional({
+    description: "Maximum number of segments to return",
+    example: 200,
+    default: 200,
+  })
+  @IsOptional()
+  @Transform(toNumber)
+  @IsInt()
+  @Min(1)
+  @Max(1000)
+  limit?: number
+
+  @ApiPropertyOptional({
+    description: "Only segments that end at or after this offset (seconds)",
+    example: 60,
+  })
+  @IsOptional()
+  @Transform(toNumber)
+  @IsNumber()
+  @Min(0)
+  from?: number
+
+  @ApiPropertyOptional({
+    description: "Only segments that start at or before this offset (seconds)",
+    example: 300,
+  })
+  @IsOptional()
+  @Transform(toNumber)
+  @IsNumber()
+  @Min(0)
+  to?: number
+}
+
+export class MeetingTranscriptExportQueryDto {
+  @ApiProperty({
+    description: "File format; vtt can be used as the video's caption track",
+    enum: TRANSCRIPT_EXPORT_FORMATS,
+    example: "vtt",
+  })
+  @IsIn(TRANSCRIPT_EXPORT_FORMATS)
+  format!: TranscriptExportFormat
+}
+
+export class MeetingTranscriptWordDto {
+  text!: string
+  startSeconds!: number | null
+  endSeconds!: number | null
+}
+
+export class MeetingTranscriptSegmentDto {
+  index!: number
+  // Platform participant id, when reported.
+  speakerId!: string | null
+  speaker!: string
+  speakerEmail!: string | null
+  text!: string
+  startSeconds!: number | null
+  endSeconds!: number | null
+  words!: MeetingTranscriptWordDto[]
+}
+
+export class MeetingTranscriptPageDto {
+  meetingId!: string
+  segments!: MeetingTranscriptSegmentDto[]
+  // Pass as `cursor` to read on; null on the last page.
+  nextCursor!: number | null
+}
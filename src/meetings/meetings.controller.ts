@@ -1,8 +1,11 @@
 import {
   Body,
   Controller,
+  Delete,
   Get,
+  HttpCode,
   Param,
+  Patch,
   Post,
   Put,
   Query,
@@ -16,18 +19,53 @@ import type { User } from "@prisma/client"
 import {
   MeetingActivityDto,
   MeetingDetailsDto,
+  MeetingInsightDto,
 } from "./dto/meeting-details.dto"
 import {
+  CreateNotetakerRuleDto,
   MeetingPreferenceDto,
+  NotetakerRuleDto,
   UpdateMeetingPreferenceDto,
+  UpdateNotetakerRuleDto,
 } from "./dto/meeting-preference.dto"
 import { CreateMeetingShareDto, MeetingShareDto } from "./dto/meeting-share.dto"
+import { MeetingAiJobDto } from "./dto/meeting-ai-job.dto"
+import {
+  MeetingActionItemDto,
+  MeetingActionItemsQueryDto,
+  UpdateMeetingActionItemDto,
+} from "./dto/meeting-action-item.dto"
+import {
+  CreateMeetingInsightRevisionDto,
+  MeetingInsightDiffDto,
+  MeetingInsightDiffQueryDto,
+  SendFollowUpEmailDto,
+} from "./dto/meeting-insight.dto"
 import {
   MeetingChatHistoryDto,
   MeetingChatHistoryQueryDto,
   MeetingChatReadDto,
 } from "./dto/meeting-chat.dto"
 import { MeetingChatService } from "./services/meeting-chat.service"
+import { MeetingSearchService } from "./services/meeting-search.service"
+import {
+  MeetingSearchQueryDto,
+  MeetingSearchResultDto,
+} from "./dto/meeting-search.dto"
+import { MeetingAskService } from "./services/meeting-ask.service"
+import { AskMeetingsDto, MeetingAnswerDto } from "./dto/meeting-ask.dto"
+import { MeetingTranscriptService } from "./services/meeting-transcript.service"
+import {
+  MeetingTranscriptExportQueryDto,
+  MeetingTranscriptPageDto,
+  MeetingTranscriptQueryDto,
+} from "./dto/meeting-transcript.dto"
+import { MeetingAnalyticsDto } from "./dto/meeting-analytics.dto"
+import { MeetingSpeakersService } from "./services/meeting-speakers.service"
+import {
+  MeetingSpeakerDto,
+  UpdateMeetingSpeakersDto,
+} from "./dto/meeting-speaker.dto"
 
 @ApiTags("Meetings")
 @Controller("meetings")
@@ -35,6 +73,10 @@ export class MeetingsController {
   constructor(
     private readonly meetingsService: MeetingsService,
     private readonly meetingChat: MeetingChatService,
+    private readonly meetingSearch: MeetingSearchService,
+    private readonly meetingAsk: MeetingAskService,
+    private readonly meetingTranscript: MeetingTranscriptService,
+    private readonly meetingSpeakers: MeetingSpeakersService,
   ) {}
 
   @Get(":id/details")
@@ -53,6 +95,14 @@ export class MeetingsController {
     return this.meetingsService.getMeetingActivity(meetingId, user)
   }
 
+  @Get(":id/analytics")
+  async getAnalytics(
+    @Param("id") meetingId: string,
+    @CurrentDbUser() user: User,
+  ): Promise<MeetingAnalyticsDto> {
+    return this.meetingsService.getMeetingAnalytics(meetingId, user)
+  }
+
   @Get(":id/media/transcript")
   async streamTranscript(
     @Param("id") meetingId: string,
@@ -62,6 +112,52 @@ export class MeetingsController {
     await this.meetingsService.streamTranscript(meetingId, user.id, res)
   }
 
+  @Get(":id/transcript")
+  async getTranscript(
+    @Param("id") meetingId: string,
+    @Query() query: MeetingTranscriptQueryDto,
+    @CurrentDbUser() user: User,
+  ): Promise<MeetingTranscriptPageDto> {
+    return this.meetingTranscript.getSegments(meetingId, user.id, query)
+  }
+
+  @Get(":id/transcript/export")
+  async exportTranscript(
+    @Param("id") meetingId: string,
+    @Query() query: MeetingTranscriptExportQueryDto,
+    @CurrentDbUser() user: User,
+    @Res() res: Response,
+  ) {
+    const file = await this.meetingTranscript.exportTranscript(
+      meetingId,
+      user.id,
+      query.format,
+    )
+    res.setHeader("Content-Type", file.contentType)
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="${file.filename}"`,
+    )
+    res.send(file.body)
+  }
+
+  @Get(":id/speakers")
+  async getSpeakers(
+    @Param("id") meetingId: string,
+    @CurrentDbUser() user: User,
+  ): Promise<MeetingSpeakerDto[]> {
+    return this.meetingSpeakers.list(meetingId, user.id)
+  }
+
+  @Patch(":id/speakers")
+  async updateSpeakers(
+    @Param("id") meetingId: string,
+    @Body() dto: UpdateMeetingSpeakersDto,
+    @CurrentDbUser() user: User,
+  ): Promise<MeetingSpeakerDto[]> {
+    return this.meetingSpeakers.update(meetingId, user.id, dto)
+  }
+
   @Get(":id/media/video")
   async getVideoPlaybackUrl(
     @Param("id") meetingId: string,
@@ -75,8 +171,108 @@ export class MeetingsController {
     @Param("id") meetingId: string,
     @CurrentDbUser() user: User,
   ) {
-    await this.meetingsService.regenerateAiContent(meetingId, user.id)
-    return { success: true }
+    const job = await this.meetingsService.regenerateAiContent(
+      meetingId,
+      user.id,
+    )
+    return { success: true, job }
+  }
+
+  @Get(":id/ai/jobs")
+  async listAiJobs(
+    @Param("id") meetingId: string,
+    @CurrentDbUser() user: User,
+  ): Promise<MeetingAiJobDto[]> {
+    return this.meetingsService.listAiJobs(meetingId, user.id)
+  }
+
+  @Get(":id/insights")
+  async listInsightRevisions(
+    @Param("id") meetingId: string,
+    @CurrentDbUser() user: User,
+  ): Promise<MeetingInsightDto[]> {
+    return this.meetingsService.listInsightRevisions(meetingId, user.id)
+  }
+
+  @Post(":id/insights")
+  async createInsightRevision(
+    @Param("id") meetingId: string,
+    @Body() body: CreateMeetingInsightRevisionDto,
+    @CurrentDbUser() user: User,
+  ): Promise<MeetingInsightDto> {
+    return this.meetingsService.createInsightRevision(meetingId, user.id, body)
+  }
+
+  @Get(":id/insights/diff")
+  async diffInsightRevisions(
+    @Param("id") meetingId: string,
+    @Query() query: MeetingInsightDiffQueryDto,
+    @CurrentDbUser() user: User,
+  ): Promise<MeetingInsightDiffDto> {
+    return this.meetingsService.diffInsightRevisions(
+      meetingId,
+      user.id,
+      query.from,
+      query.to,
+    )
+  }
+
+  @Put(":id/insights/:insightId/pin")
+  async pinInsightRevision(
+    @Param("id") meetingId: string,
+    @Param("insightId") insightId: string,
+    @CurrentDbUser() user: User,
+  ): Promise<MeetingInsightDto> {
+    return this.meetingsService.pinInsightRevision(
+      meetingId,
+      insightId,
+      user.id,
+    )
+  }
+
+  @Delete(":id/insights/:insightId/pin")
+  async unpinInsightRevision(
+    @Param("id") meetingId: string,
+    @Param("insightId") insightId: string,
+    @CurrentDbUser() user: User,
+  ): Promise<MeetingInsightDto> {
+    return this.meetingsService.unpinInsightRevision(
+      meetingId,
+      insightId,
+      user.id,
+    )
+  }
+
+  @Post(":id/follow-up-email")
+  async sendFollowUpEmail(
+    @Param("id") meetingId: string,
+    @Body() body: SendFollowUpEmailDto,
+    @CurrentDbUser() user: User,
+  ): Promise<MeetingInsightDto> {
+    return this.meetingsService.sendFollowUpEmail(meetingId, user.id, body)
+  }
+
+  @Get(":id/action-items")
+  async listActionItems(
+    @Param("id") meetingId: string,
+    @CurrentDbUser() user: User,
+  ): Promise<MeetingActionItemDto[]> {
+    return this.meetingsService.listActionItems(meetingId, user.id)
+  }
+
+  @Patch(":id/action-items/:itemId")
+  async updateActionItem(
+    @Param("id") meetingId: string,
+    @Param("itemId") itemId: string,
+    @Body() body: UpdateMeetingActionItemDto,
+    @CurrentDbUser() user: User,
+  ): Promise<MeetingActionItemDto> {
+    return this.meetingsService.updateActionItem(
+      meetingId,
+      itemId,
+      user.id,
+      body,
+    )
   }
 
   @Get(":id/shares")
@@ -124,6 +320,30 @@ export class MeetingsController {
     })
   }
 
+  @Get("search")
+  async search(
+    @Query() query: MeetingSearchQueryDto,
+    @CurrentDbUser() user: User,
+  ): Promise<MeetingSearchResultDto[]> {
+    return this.meetingSearch.search(user, query.q, query.limit)
+  }
+
+  @Post("ask")
+  async ask(
+    @Body() body: AskMeetingsDto,
+    @CurrentDbUser() user: User,
+  ): Promise<MeetingAnswerDto> {
+    return this.meetingAsk.ask(user, body)
+  }
+
+  @Get("action-items")
+  async listUserActionItems(
+    @Query() query: MeetingActionItemsQueryDto,
+    @CurrentDbUser() user: User,
+  ): Promise<MeetingActionItemDto[]> {
+    return this.meetingsService.listUserActionItems(user.id, query.status)
+  }
+
   @Get("preferences")
   async getPreferences(
     @CurrentDbUser() user: User,
@@ -138,4 +358,37 @@ export class MeetingsController {
   ): Promise<MeetingPreferenceDto> {
     return this.meetingsService.updateMeetingPreference(user.id, body)
   }
+
+  @Get("preferences/rules")
+  async listNotetakerRules(
+    @CurrentDbUser() user: User,
+  ): Promise<NotetakerRuleDto[]> {
+    return this.meetingsService.listNotetakerRules(user.id)
+  }
+
+  @Post("preferences/rules")
+  async createNotetakerRule(
+    @Body() body: CreateNotetakerRuleDto,
+    @CurrentDbUser() user: User,
+  ): Promise<NotetakerRuleDto> {
+    return this.meetingsService.createNotetakerRule(user.id, body)
+  }
+
+  @Patch("preferences/rules/:ruleId")
+  async updateNotetakerRule(
+    @Param("ruleId") ruleId: string,
+    @Body() body: UpdateNotetakerRuleDto,
+    @CurrentDbUser() user: User,
+  ): Promise<NotetakerRuleDto> {
+    return this.meetingsService.updateNotetakerRule(ruleId, user.id, body)
+  }
+
+  @Delete("preferences/rules/:ruleId")
+  @HttpCode(204)
+  async deleteNotetakerRule(
+    @Param("ruleId") ruleId: string,
+    @CurrentDbUser() user: User,
+  ) {
+    await this.meetingsService.deleteNotetakerRule(ruleId, user.id)
+  }
 }
@@ -2,13 +2,35 @@ import { Module } from "@nestjs/common"
 import { MeetingsController } from "./meetings.controller"
 import { MeetingsService } from "./meetings.service"
 import { MeetingChatService } from "./services/meeting-chat.service"
+import { MeetingSearchService } from "./services/meeting-search.service"
+import { MeetingAskService } from "./services/meeting-ask.service"
+import { MeetingAssistantService } from "./services/meeting-assistant.service"
+import { MeetingTranscriptService } from "./services/meeting-transcript.service"
+import { MeetingSpeakersService } from "./services/meeting-speakers.service"
 import { RecallModule } from "../recall/recall.module"
 import { AiModule } from "../ai/ai.module"
+import { StorageModule } from "../storage/storage.module"
+import { EmailModule } from "../email/email.module"
+import { TranscriptsModule } from "../transcripts/transcripts.module"
 
 @Module({
-  imports: [RecallModule, AiModule],
+  imports: [
+    RecallModule,
+    AiModule,
+    StorageModule,
+    EmailModule,
+    TranscriptsModule,
+  ],
   controllers: [MeetingsController],
-  providers: [MeetingsService, MeetingChatService],
-  exports: [MeetingsService, MeetingChatService],
+  providers: [
+    MeetingsService,
+    MeetingChatService,
+    MeetingSearchService,
+    MeetingAskService,
+    MeetingAssistantService,
+    MeetingTranscriptService,
+    MeetingSpeakersService,
+  ],
+  exports: [MeetingsService, MeetingChatService, MeetingAssistantService],
 })
 export class MeetingsModule {}
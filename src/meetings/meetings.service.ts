@@ -1,21 +1,41 @@
 import { Injectable } from "@nestjs/common"
 import type { Response } from "express"
 import {
+  AiJob,
+  AiJobStatus,
+  BotRecordingMode,
   CalendarEvent,
   ConnectedAccount,
+  MeetingActionItem,
+  MeetingAnalytics,
+  MeetingActionItemStatus,
   MeetingInsight,
+  MeetingInsightSource,
   MeetingMedia,
   MeetingMediaStatus,
   MeetingMediaType,
+  MeetingPlatform,
   MeetingPreference,
   MeetingShare,
+  NotetakerRule,
+  NotetakerRuleType,
   RecallBot,
+  RecallBotStatus,
   SocialPost,
   User,
 } from "@prisma/client"
 import { PrismaService } from "../../prisma/prisma.service"
 import { RecallService } from "../recall/recall.service"
-import { AiContentService } from "../ai/ai-content.service"
+import {
+  BOT_PREFERENCE_SELECT,
+  DEFAULT_BOT_ANNOUNCEMENT,
+  DEFAULT_BOT_NAME,
+} from "../recall/bot-config"
+import { AiJobsService } from "../ai/ai-jobs.service"
+import { LlmProvidersService } from "../ai/llm/llm-providers.service"
+import { MediaStorageService } from "../storage/media-storage.service"
+import { FollowUpEmailService } from "../email/follow-up-email.service"
+import { MeetingAnalyticsService } from "../transcripts/meeting-analytics.service"
 import { CalendarEventDto } from "../calendar/dto/calendar-event.dto"
 import {
   MeetingActivityDto,
@@ -27,18 +47,40 @@ import {
   SocialPostDto,
 } from "./dto/meeting-details.dto"
 import {
+  CreateNotetakerRuleDto,
   MeetingPreferenceDto,
+  NotetakerRuleDto,
   UpdateMeetingPreferenceDto,
+  UpdateNotetakerRuleDto,
 } from "./dto/meeting-preference.dto"
 import { AppError } from "../errors/app-error"
-import { ErrorCodes } from "../errors/error-codes"
+import { ErrorCodes, FieldErrorCodes } from "../errors/error-codes"
 import { MeetingShareDto } from "./dto/meeting-share.dto"
+import { MeetingAiJobDto } from "./dto/meeting-ai-job.dto"
+import {
+  MeetingActionItemDto,
+  UpdateMeetingActionItemDto,
+} from "./dto/meeting-action-item.dto"
+import {
+  CreateMeetingInsightRevisionDto,
+  MeetingInsightDiffDto,
+  SendFollowUpEmailDto,
+} from "./dto/meeting-insight.dto"
+import { MeetingAnalyticsDto } from "./dto/meeting-analytics.dto"
+import type {
+  AttendanceReport,
+  SpeakerAnalyticsSource,
+  SpeakerStats,
+} from "../transcripts/speaker-analytics"
+import { diffLines } from "./text-diff"
+import { CURRENT_INSIGHT_ORDER, nextInsightRevision } from "./current-insight"
 
 type MeetingEvent = CalendarEvent & {
   connectedAccount: ConnectedAccount
   recallBot: (RecallBot & { media: MeetingMedia[] }) | null
   meetingInsights: MeetingInsight[]
   socialPosts: SocialPost[]
+  analytics: MeetingAnalytics | null
 }
 
 type MeetingDetailsAccessOptions = {
@@ -51,7 +93,11 @@ export class MeetingsService {
   constructor(
     private readonly prisma: PrismaService,
     private readonly recallService: RecallService,
-    private readonly aiContent: AiContentService,
+    private readonly aiJobs: AiJobsService,
+    private readonly llmProviders: LlmProvidersService,
+    private readonly mediaStorage: MediaStorageService,
+    private readonly followUpEmail: FollowUpEmailService,
+    private readonly meetingAnalytics: MeetingAnalyticsService,
   ) {}
 
   async getMeetingDetails(
@@ -103,6 +149,41 @@ export class MeetingsService {
     }
   }
 
+  /**
+   * Speaker analytics for the owner and the people the meeting is shared
+   * with. Meetings captured before analytics existed are computed on first
+   * request.
+   */
+  async getMeetingAnalytics(
+    meetingId: string,
+    viewer: User,
+  ): Promise<MeetingAnalyticsDto> {
+    const meeting = await this.findMeetingEvent(meetingId)
+
+    if (!meeting) {
+      throw new AppError(ErrorCodes.NOT_FOUND, {
+        params: { resource: "Meeting" },
+      })
+    }
+
+    await this.resolveViewerRole(meeting, viewer.id, {
+      allowShared: true,
+      viewerEmail: viewer.email,
+    })
+
+    const analytics =
+      meeting.analytics ??
+      (meeting.recallBot?.status === RecallBotStatus.DONE
+        ? await this.meetingAnalytics.computeMeetingAnalytics(meeting.id)
+        : null)
+    if (!analytics) {
+      throw new AppError(ErrorCodes.NOT_FOUND, {
+        params: { resource: "MeetingAnalytics" },
+      })
+    }
+    return this.toMeetingAnalyticsDto(analytics)
+  }
+
   async streamTranscript(
     meetingId: string,
     userId: string,
@@ -134,6 +215,23 @@ export class MeetingsService {
       })
     }
 
+    const archived = await this.prisma.meetingMedia.findFirst({
+      where: {
+        recallBotId: event.recallBot.id,
+        type: MeetingMediaType.VIDEO,
+        storagePath: { not: null },
+      },
+    })
+    if (archived?.storagePath && this.mediaStorage.isEnabled) {
+      const signed = await this.mediaStorage.getSignedDownloadUrl(
+        archived.storagePath,
+      )
+      return {
+        downloadUrl: signed.url,
+        expiresAt: signed.expiresAt.toISOString(),
+      }
+    }
+
     const media = await this.recallService.refreshVideoMedia(event.recallBot.id)
     if (!media?.downloadUrl) {
       throw new AppError(ErrorCodes.NOT_FOUND, {
@@ -147,11 +245,255 @@ export class MeetingsService {
     }
   }
 
-  async regenerateAiContent(meetingId: string, userId: string) {
+  async regenerateAiContent(
+    meetingId: string,
+    userId: string,
+  ): Promise<MeetingAiJobDto> {
     await this.ensureOwnership(meetingId, userId)
-    await this.aiContent.generateMeetingContent(meetingId, {
+    const job = await this.aiJobs.enqueueMeetingGeneration(meetingId, {
       regenerate: true,
     })
+    return this.toMeetingAiJobDto(job)
+  }
+
+  async listAiJobs(
+    meetingId: string,
+    userId: string,
+  ): Promise<MeetingAiJobDto[]> {
+    await this.ensureOwnership(meetingId, userId)
+    const jobs = await this.aiJobs.listJobsForMeeting(meetingId)
+    return jobs.map((job) => this.toMeetingAiJobDto(job))
+  }
+
+  async listInsightRevisions(
+    meetingId: string,
+    userId: string,
+  ): Promise<MeetingInsightDto[]> {
+    await this.ensureOwnership(meetingId, userId)
+    const insights = await this.prisma.meetingInsight.findMany({
+      where: { calendarEventId: meetingId },
+      orderBy: { revision: "desc" },
+    })
+    return insights.map((insight) => this.toMeetingInsightDto(insight))
+  }
+
+  /**
+   * Saves a user edit of the summary and/or follow-up email as a new revision.
+   * Fields left out are copied from the base revision, and editing the pinned
+   * revision moves the pin to the edit so it stays on screen.
+   */
+  async createInsightRevision(
+    meetingId: string,
+    userId: string,
+    dto: CreateMeetingInsightRevisionDto,
+  ): Promise<MeetingInsightDto> {
+    await this.ensureOwnership(meetingId, userId)
+    if (dto.summary === undefined && dto.followUpEmail === undefined) {
+      throw new AppError(ErrorCodes.VALIDATION, {
+        fields: [{ field: "summary", code: FieldErrorCodes.REQUIRED }],
+      })
+    }
+
+    const insight = await this.prisma.$transaction(async (tx) => {
+      const base = dto.baseRevisionId
+        ? await tx.meetingInsight.findFirst({
+            where: { id: dto.baseRevisionId, calendarEventId: meetingId },
+          })
+        : await tx.meetingInsight.findFirst({
+            where: { calendarEventId: meetingId },
+            orderBy: CURRENT_INSIGHT_ORDER,
+          })
+      if (dto.baseRevisionId && !base) {
+        throw new AppError(ErrorCodes.NOT_FOUND, {
+          params: { resource: "MeetingInsight" },
+        })
+      }
+      const revision = await nextInsightRevision(tx, meetingId)
+      if (base?.pinnedAt) {
+        await tx.meetingInsight.update({
+          where: { id: base.id },
+          data: { pinnedAt: null },
+        })
+      }
+      return tx.meetingInsight.create({
+        data: {
+          calendarEventId: meetingId,
+          revision,
+          source: MeetingInsightSource.USER,
+          createdByUserId: userId,
+          summary:
+            dto.summary !== undefined
+              ? dto.summary.trim()
+              : (base?.summary ?? null),
+          followUpEmail:
+            dto.followUpEmail !== undefined
+              ? dto.followUpEmail.trim()
+              : (base?.followUpEmail ?? null),
+          pinnedAt: base?.pinnedAt ? new Date() : null,
+        },
+      })
+    })
+    return this.toMeetingInsightDto(insight)
+  }
+
+  async pinInsightRevision(
+    meetingId: string,
+    insightId: string,
+    userId: string,
+  ): Promise<MeetingInsightDto> {
+    await this.ensureOwnership(meetingId, userId)
+    const existing = await this.findInsightRevision(meetingId, insightId)
+    const [, insight] = await this.prisma.$transaction([
+      this.prisma.meetingInsight.updateMany({
+        where: { calendarEventId: meetingId, pinnedAt: { not: null } },
+        data: { pinnedAt: null },
+      }),
+      this.prisma.meetingInsight.update({
+        where: { id: existing.id },
+        data: { pinnedAt: new Date() },
+      }),
+    ])
+    return this.toMeetingInsightDto(insight)
+  }
+
+  async unpinInsightRevision(
+    meetingId: string,
+    insightId: string,
+    userId: string,
+  ): Promise<MeetingInsightDto> {
+    await this.ensureOwnership(meetingId, userId)
+    const existing = await this.findInsightRevision(meetingId, insightId)
+    const insight = await this.prisma.meetingInsight.update({
+      where: { id: existing.id },
+      data: { pinnedAt: null },
+    })
+    return this.toMeetingInsightDto(insight)
+  }
+
+  async diffInsightRevisions(
+    meetingId: string,
+    userId: string,
+    fromId: string,
+    toId: string,
+  ): Promise<MeetingInsightDiffDto> {
+    await this.ensureOwnership(meetingId, userId)
+    const from = await this.findInsightRevision(meetingId, fromId)
+    const to = await this.findInsightRevision(meetingId, toId)
+    return {
+      from: this.toMeetingInsightDto(from),
+      to: this.toMeetingInsightDto(to),
+      summary: diffLines(from.summary, to.summary),
+      followUpEmail: diffLines(from.followUpEmail, to.followUpEmail),
+    }
+  }
+
+  async sendFollowUpEmail(
+    meetingId: string,
+    userId: string,
+    dto: SendFollowUpEmailDto,
+  ): Promise<MeetingInsightDto> {
+    await this.ensureOwnership(meetingId, userId)
+    const insight = dto.insightId
+      ? await this.findInsightRevision(meetingId, dto.insightId)
+      : await this.prisma.meetingInsight.findFirst({
+          where: { calendarEventId: meetingId },
+          orderBy: CURRENT_INSIGHT_ORDER,
+        })
+    if (!insight) {
+      throw new AppError(ErrorCodes.NOT_FOUND, {
+        params: { resource: "MeetingInsight" },
+      })
+    }
+    const delivered = await this.followUpEmail.deliver(insight.id, {
+      method: dto.method,
+      to: dto.to,
+    })
+    return this.toMeetingInsightDto(delivered)
+  }
+
+  async listActionItems(
+    meetingId: string,
+    userId: string,
+  ): Promise<MeetingActionItemDto[]> {
+    await this.ensureOwnership(meetingId, userId)
+    const items = await this.prisma.meetingActionItem.findMany({
+      where: { calendarEventId: meetingId },
+      orderBy: [
+        { sourceSeconds: { sort: "asc", nulls: "last" } },
+        { createdAt: "asc" },
+      ],
+    })
+    return items.map((item) => this.toMeetingActionItemDto(item))
+  }
+
+  async listUserActionItems(
+    userId: string,
+    status: MeetingActionItemStatus = MeetingActionItemStatus.OPEN,
+  ): Promise<MeetingActionItemDto[]> {
+    const items = await this.prisma.meetingActionItem.findMany({
+      where: { userId, status, calendarEvent: { deletedAt: null } },
+      include: { calendarEvent: { select: { title: true, startTime: true } } },
+      orderBy: [
+        { dueDate: { sort: "asc", nulls: "last" } },
+        { createdAt: "desc" },
+      ],
+    })
+    return items.map((item) => ({
+      ...this.toMeetingActionItemDto(item),
+      meetingTitle: item.calendarEvent.title,
+      meetingStartTime: item.calendarEvent.startTime.toISOString(),
+    }))
+  }
+
+  async updateActionItem(
+    meetingId: string,
+    itemId: string,
+    userId: string,
+    dto: UpdateMeetingActionItemDto,
+  ): Promise<MeetingActionItemDto> {
+    await this.ensureOwnership(meetingId, userId)
+    const existing = await this.prisma.meetingActionItem.findFirst({
+      where: { id: itemId, calendarEventId: meetingId },
+    })
+    if (!existing) {
+      throw new AppError(ErrorCodes.NOT_FOUND, {
+        params: { resource: "ActionItem" },
+      })
+    }
+
+    const item = await this.prisma.meetingActionItem.update({
+      where: { id: existing.id },
+      data: {
+        ...(dto.status !== undefined && {
+          status: dto.status,
+          completedAt:
+            dto.status === MeetingActionItemStatus.DONE
+              ? (existing.completedAt ?? new Date())
+              : null,
+        }),
+        ...(dto.description !== undefined && {
+          description: dto.description.trim(),
+        }),
+        // A new assignee email replaces the previous assignee's name too.
+        ...(dto.assigneeEmail !== undefined && {
+          assigneeEmail: dto.assigneeEmail
+            ? this.normalizeEmail(dto.assigneeEmail)
+            : null,
+          assigneeName: dto.assigneeName?.trim() || null,
+        }),
+        ...(dto.assigneeEmail === undefined &&
+          dto.assigneeName !== undefined && {
+            assigneeName: dto.assigneeName?.trim() || null,
+          }),
+        ...(dto.dueDate !== undefined && {
+          dueDate: dto.dueDate
+            ? new Date(`${dto.dueDate.slice(0, 10)}T00:00:00.000Z`)
+            : null,
+        }),
+        editedAt: new Date(),
+      },
+    })
+    return this.toMeetingActionItemDto(item)
   }
 
   async addMeetingShare(
@@ -203,6 +545,12 @@ export class MeetingsService {
     userId: string,
     dto: UpdateMeetingPreferenceDto,
   ): Promise<MeetingPreferenceDto> {
+    if (dto.llmProvider && !this.llmProviders.isAvailable(dto.llmProvider)) {
+      throw new AppError(ErrorCodes.VALIDATION, {
+        fields: [{ field: "llmProvider", code: FieldErrorCodes.INVALID }],
+      })
+    }
+
     const preference = await this.prisma.meetingPreference.upsert({
       where: { userId },
       create: {
@@ -210,18 +558,160 @@ export class MeetingsService {
         leadMinutes: dto.leadMinutes,
         defaultNotetaker:
           dto.defaultNotetaker !== undefined ? dto.defaultNotetaker : true,
+        llmProvider: dto.llmProvider ?? null,
+        botName: dto.botName ?? null,
+        botAvatarUrl: dto.botAvatarUrl ?? null,
+        announceRecording: dto.announceRecording ?? true,
+        botAnnouncement: dto.botAnnouncement ?? null,
+        recordingMode: dto.recordingMode ?? BotRecordingMode.VIDEO,
+        transcriptLanguage: dto.transcriptLanguage ?? null,
       },
       update: {
         leadMinutes: dto.leadMinutes,
         ...(dto.defaultNotetaker !== undefined && {
           defaultNotetaker: dto.defaultNotetaker,
         }),
+        ...(dto.llmProvider !== undefined && {
+          llmProvider: dto.llmProvider,
+        }),
+        ...(dto.botName !== undefined && { botName: dto.botName }),
+        ...(dto.botAvatarUrl !== undefined && {
+          botAvatarUrl: dto.botAvatarUrl,
+        }),
+        ...(dto.announceRecording !== undefined && {
+          announceRecording: dto.announceRecording,
+        }),
+        ...(dto.botAnnouncement !== undefined && {
+          botAnnouncement: dto.botAnnouncement,
+        }),
+        ...(dto.recordingMode !== undefined && {
+          recordingMode: dto.recordingMode,
+        }),
+        ...(dto.transcriptLanguage !== undefined && {
+          transcriptLanguage: dto.transcriptLanguage,
+        }),
       },
     })
 
+    const botSettingsChanged = Object.keys(BOT_PREFERENCE_SELECT).some(
+      (key) => dto[key as keyof typeof BOT_PREFERENCE_SELECT] !== undefined,
+    )
+    if (botSettingsChanged) {
+      await this.recallService.updateScheduledBotsForUser(userId)
+    }
+
     return this.toMeetingPreferenceDto(preference)
   }
 
+  async listNotetakerRules(userId: string): Promise<NotetakerRuleDto[]> {
+    const rules = await this.prisma.notetakerRule.findMany({
+      where: { userId },
+      orderBy: [{ priority: "asc" }, { createdAt: "asc" }],
+    })
+    return rules.map((rule) => this.toNotetakerRuleDto(rule))
+  }
+
+  async createNotetakerRule(
+    userId: string,
+    dto: CreateNotetakerRuleDto,
+  ): Promise<NotetakerRuleDto> {
+    const value = this.normalizeRuleValue(dto.type, dto.value)
+    const rule = await this.prisma.notetakerRule.create({
+      data: {
+        userId,
+        name: dto.name.trim(),
+        type: dto.type,
+        action: dto.action,
+        value,
+        enabled: dto.enabled ?? true,
+        priority: dto.priority ?? 0,
+      },
+    })
+    return this.toNotetakerRuleDto(rule)
+  }
+
+  async updateNotetakerRule(
+    ruleId: string,
+    userId: string,
+    dto: UpdateNotetakerRuleDto,
+  ): Promise<NotetakerRuleDto> {
+    const existing = await this.findNotetakerRule(ruleId, userId)
+    const type = dto.type ?? existing.type
+    const value = this.normalizeRuleValue(
+      type,
+      dto.value !== undefined ? dto.value : existing.value,
+    )
+    const rule = await this.prisma.notetakerRule.update({
+      where: { id: existing.id },
+      data: {
+        ...(dto.name !== undefined && { name: dto.name.trim() }),
+        ...(dto.action !== undefined && { action: dto.action }),
+        ...(dto.enabled !== undefined && { enabled: dto.enabled }),
+        ...(dto.priority !== undefined && { priority: dto.priority }),
+        type,
+        value,
+      },
+    })
+    return this.toNotetakerRuleDto(rule)
+  }
+
+  async deleteNotetakerRule(ruleId: string, userId: string) {
+    const existing = await this.findNotetakerRule(ruleId, userId)
+    await this.prisma.notetakerRule.delete({ where: { id: existing.id } })
+  }
+
+  private async findInsightRevision(meetingId: string, insightId: string) {
+    const insight = await this.prisma.meetingInsight.findFirst({
+      where: { id: insightId, calendarEventId: meetingId },
+    })
+    if (!insight) {
+      throw new AppError(ErrorCodes.NOT_FOUND, {
+        params: { resource: "MeetingInsight" },
+      })
+    }
+    return insight
+  }
+
+  private async findNotetakerRule(ruleId: string, userId: string) {
+    const rule = await this.prisma.notetakerRule.findUnique({
+      where: { id: ruleId },
+    })
+    if (!rule || rule.userId !== userId) {
+      throw new AppError(ErrorCodes.NOT_FOUND, {
+        params: { resource: "Notetaker rule" },
+      })
+    }
+    return rule
+  }
+
+  // External-attendee and organiser rules work without a value; the others
+  // have nothing to match against otherwise.
+  private normalizeRuleValue(
+    type: NotetakerRuleType,
+    value?: string | null,
+  ): string | null {
+    const trimmed = value?.trim() || null
+    if (type === NotetakerRuleType.PLATFORM) {
+      const platform = trimmed?.toUpperCase()
+      if (!platform || !(platform in MeetingPlatform)) {
+        throw new AppError(ErrorCodes.VALIDATION, {
+          fields: [{ field: "value", code: FieldErrorCodes.INVALID }],
+        })
+      }
+      return platform
+    }
+    if (
+      !trimmed &&
+      (type === NotetakerRuleType.TITLE_MATCH ||
+        type === NotetakerRuleType.CALENDAR)
+    ) {
+      throw new AppError(ErrorCodes.VALIDATION, {
+        fields: [{ field: "value", code: FieldErrorCodes.REQUIRED }],
+      })
+    }
+    return type === NotetakerRuleType.ORGANIZER ? null : trimmed
+  }
+
   private async getTranscriptMedia(meetingId: string, userId: string) {
     const media = await this.prisma.meetingMedia.findFirst({
       where: {
@@ -244,7 +734,7 @@ export class MeetingsService {
         params: { resource: "MeetingTranscript" },
       })
     }
-    if (!media.downloadUrl) {
+    if (!media.storagePath && !media.downloadUrl) {
       throw new AppError(ErrorCodes.NOT_FOUND, {
         params: { resource: "MeetingTranscript" },
       })
@@ -277,12 +767,13 @@ export class MeetingsService {
           },
         },
         meetingInsights: {
-          orderBy: { createdAt: "desc" },
+          orderBy: CURRENT_INSIGHT_ORDER,
           take: 1,
         },
         socialPosts: {
           orderBy: { createdAt: "desc" },
         },
+        analytics: true,
       },
     })
 
@@ -327,7 +818,7 @@ export class MeetingsService {
   }
 
   private toMeetingDetailsDto(meeting: MeetingEvent): MeetingDetailsDto {
-    const [latestInsight] = meeting.meetingInsights
+    const [currentInsight] = meeting.meetingInsights
     const media = meeting.recallBot?.media ?? []
 
     return {
@@ -336,10 +827,13 @@ export class MeetingsService {
         ? this.toRecallBotDto(meeting.recallBot)
         : null,
       media: media.map((item) => this.toMeetingMediaDto(item)),
-      insight: latestInsight ? this.toMeetingInsightDto(latestInsight) : null,
+      insight: currentInsight ? this.toMeetingInsightDto(currentInsight) : null,
       socialPosts: meeting.socialPosts.map((post) =>
         this.toSocialPostDto(post),
       ),
+      analytics: meeting.analytics
+        ? this.toMeetingAnalyticsDto(meeting.analytics)
+        : null,
     }
   }
 
@@ -380,8 +874,10 @@ export class MeetingsService {
   }
 
   private toMeetingMediaDto(media: MeetingMedia): MeetingMediaDto {
+    // Pending media can still be served from Recall's link.
     const available =
-      media.status === MeetingMediaStatus.STORED && !!media.downloadUrl
+      !!media.storagePath ||
+      (media.status !== MeetingMediaStatus.FAILED && !!media.downloadUrl)
     return {
       id: media.id,
       type: media.type,
@@ -391,14 +887,81 @@ export class MeetingsService {
     }
   }
 
+  private toMeetingAnalyticsDto(
+    analytics: MeetingAnalytics,
+  ): MeetingAnalyticsDto {
+    return {
+      source: analytics.source as SpeakerAnalyticsSource,
+      durationSeconds: analytics.durationSeconds,
+      totalTalkSeconds: analytics.totalTalkSeconds,
+      speakers: analytics.speakers as unknown as SpeakerStats[],
+      attendance: analytics.attendance as unknown as AttendanceReport,
+      computedAt: analytics.computedAt.toISOString(),
+    }
+  }
+
   private toMeetingInsightDto(insight: MeetingInsight): MeetingInsightDto {
     return {
       id: insight.id,
+      revision: insight.revision,
+      source: insight.source,
+      pinned: !!insight.pinnedAt,
+      createdByUserId: insight.createdByUserId,
+      createdAt: insight.createdAt.toISOString(),
       summary: insight.summary,
       followUpEmail: insight.followUpEmail,
       generatedAt: insight.generatedAt
         ? insight.generatedAt.toISOString()
         : null,
+      promptVersion: insight.promptVersion,
+      llmProvider: insight.llmProvider,
+      model: insight.model,
+      emailDeliveryMethod: insight.emailDeliveryMethod,
+      emailDeliveryStatus: insight.emailDeliveryStatus,
+      emailRecipients: insight.emailRecipients,
+      emailDeliveredAt: insight.emailDeliveredAt
+        ? insight.emailDeliveredAt.toISOString()
+        : null,
+      emailDeliveryError: insight.emailDeliveryError,
+    }
+  }
+
+  private toMeetingActionItemDto(
+    item: MeetingActionItem,
+  ): MeetingActionItemDto {
+    return {
+      id: item.id,
+      meetingId: item.calendarEventId,
+      description: item.description,
+      assigneeEmail: item.assigneeEmail,
+      assigneeName: item.assigneeName,
+      dueDate: item.dueDate ? item.dueDate.toISOString().slice(0, 10) : null,
+      sourceSeconds: item.sourceSeconds,
+      status: item.status,
+      completedAt: item.completedAt ? item.completedAt.toISOString() : null,
+      createdAt: item.createdAt.toISOString(),
+      updatedAt: item.updatedAt.toISOString(),
+    }
+  }
+
+  private toMeetingAiJobDto(job: AiJob): MeetingAiJobDto {
+    const waiting =
+      job.status === AiJobStatus.PENDING || job.status === AiJobStatus.RETRYING
+    return {
+      id: job.id,
+      type: job.type,
+      status: job.status,
+      attempts: job.attempts,
+      maxAttempts: job.maxAttempts,
+      lastError: job.lastError,
+      nextAttemptAt: waiting ? job.runAt.toISOString() : null,
+      startedAt: job.startedAt ? job.startedAt.toISOString() : null,
+      completedAt: job.completedAt ? job.completedAt.toISOString() : null,
+      deadLetteredAt: job.deadLetteredAt
+        ? job.deadLetteredAt.toISOString()
+        : null,
+      createdAt: job.createdAt.toISOString(),
+      updatedAt: job.updatedAt.toISOString(),
     }
   }
 
@@ -435,6 +998,28 @@ export class MeetingsService {
     return {
       leadMinutes: preference.leadMinutes,
       defaultNotetaker: preference.defaultNotetaker,
+      llmProvider: preference.llmProvider,
+      availableLlmProviders: this.llmProviders.available,
+      botName: preference.botName ?? DEFAULT_BOT_NAME,
+      botAvatarUrl: preference.botAvatarUrl,
+      announceRecording: preference.announceRecording,
+      botAnnouncement: preference.botAnnouncement ?? DEFAULT_BOT_ANNOUNCEMENT,
+      recordingMode: preference.recordingMode,
+      transcriptLanguage: preference.transcriptLanguage,
+    }
+  }
+
+  private toNotetakerRuleDto(rule: NotetakerRule): NotetakerRuleDto {
+    return {
+      id: rule.id,
+      name: rule.name,
+      type: rule.type,
+      action: rule.action,
+      value: rule.value,
+      enabled: rule.enabled,
+      priority: rule.priority,
+      createdAt: rule.createdAt.toISOString(),
+      updatedAt: rule.updatedAt.toISOString(),
     }
   }
 
@@ -0,0 +1,120 @@
+import type { PrismaService } from "../../../prisma/prisma.service"
+import type { MeetingEmbeddingsService } from "../../ai/embeddings/meeting-embeddings.service"
+import {
+  HashingEmbeddingProvider,
+  hashEmbedding,
+} from "../../ai/embeddings/hashing.provider"
+import { FakeLlmProvider } from "../../ai/llm/fake.provider"
+import type { LlmProvidersService } from "../../ai/llm/llm-providers.service"
+import type { PromptTemplatesService } from "../../ai/prompt-templates.service"
+import { AppError } from "../../errors/app-error"
+import { MeetingAskService } from "./meeting-ask.service"
+
+const cosine = (a: number[], b: number[]) =>
+  a.reduce((sum, value, index) => sum + value * b[index], 0)
+
+describe("hashEmbedding", () => {
+  it("places texts with shared words closer together", () => {
+    const question = hashEmbedding("What did we decide about pricing tiers?")
+    const related = hashEmbedding("Dana: we decided on three pricing tiers")
+    const unrelated = hashEmbedding("Sam: the office move is next week")
+
+    expect(cosine(question, related)).toBeGreaterThan(
+      cosine(question, unrelated),
+    )
+    expect(cosine(related, related)).toBeCloseTo(1)
+  })
+})
+
+describe("MeetingAskService", () => {
+  const prisma = { $queryRaw: jest.fn() }
+  const embeddings = { provider: new HashingEmbeddingProvider() as unknown }
+  const llmProviders = { forUser: jest.fn() }
+  const service = new MeetingAskService(
+    prisma as unknown as PrismaService,
+    embeddings as MeetingEmbeddingsService,
+    llmProviders as unknown as LlmProvidersService,
+    {
+      getActive: jest.fn().mockResolvedValue({
+        key: "meeting-qa",
+        version: 1,
+        templateId: null,
+        systemPrompt: "Answer from the excerpts.",
+      }),
+    } as unknown as PromptTemplatesService,
+  )
+  const viewer = { id: "user-1", email: "dana@example.com" }
+
+  const row = (meetingId: string, distance: number) => ({
+    meetingId,
+    viewerRole: "owner",
+    title: meetingId === "event-1" ? "Pricing review" : "Acme sync",
+    startTime: new Date("2025-11-19T10:00:00.000Z"),
+    speakers: ["Dana"],
+    startSeconds: 61,
+    endSeconds: 184,
+    text: "[1:01] Dana: we decided on three pricing tiers",
+    distance,
+  })
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    embeddings.provider = new HashingEmbeddingProvider()
+    prisma.$queryRaw.mockResolvedValue([
+      row("event-1", 0.2),
+      row("event-2", 0.4),
+    ])
+  })
+
+  it("answers from the retrieved excerpts and marks the cited ones", async () => {
+    const llm = new FakeLlmProvider(
+      () => "Three tiers were agreed [1].",
+    ).recordCalls()
+    llmProviders.forUser.mockResolvedValue(llm)
+
+    const result = await service.ask(viewer, {
+      question: "What did we decide about pricing?",
+    })
+
+    expect(result).toMatchObject({
+      answer: "Three tiers were agreed [1].",
+      model: "fake",
+      citations: [
+        {
+          number: 1,
+          meetingId: "event-1",
+          viewerRole: "owner",
+          startSeconds: 61,
+          endSeconds: 184,
+          cited: true,
+        },
+        { number: 2, meetingId: "event-2", viewerRole: "owner", cited: false },
+      ],
+    })
+    // Transcripts of meetings shared with the viewer stay out of retrieval.
+    const [sql] = (prisma.$queryRaw.mock.calls as unknown[][])[0] as [string[]]
+    expect(sql.join("?")).toContain(`a."viewerRole" = 'owner'`)
+    expect(result.citations[0].score).toBeCloseTo(0.8)
+    const prompt = llm.calls[0].messages[1].content
+    expect(prompt).toContain("Question: What did we decide about pricing?")
+    expect(prompt).toContain('[1] "Pricing review" (2025-11-19, 1:01–3:04)')
+  })
+
+  it("returns the excerpts without an answer when no LLM is configured", async () => {
+    llmProviders.forUser.mockResolvedValue(null)
+
+    const result = await service.ask(viewer, { question: "pricing?" })
+
+    expect(result.answer).toBeNull()
+    expect(result.citations).toHaveLength(2)
+  })
+
+  it("fails when no embedding provider is configured", async () => {
+    embeddings.provider = null
+
+    await expect(
+      service.ask(viewer, { question: "pricing?" }),
+    ).rejects.toBeInstanceOf(AppError)
+    expect(prisma.$queryRaw).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,153 @@
+import { Injectable, Logger } from "@nestjs/common"
+import { Prisma } from "@prisma/client"
+import { PrismaService } from "../../../prisma/prisma.service"
+import { AppError } from "../../errors/app-error"
+import { ErrorCodes } from "../../errors/error-codes"
+import {
+  MeetingEmbeddingsService,
+  toVectorLiteral,
+} from "../../ai/embeddings/meeting-embeddings.service"
+import { LlmProvidersService } from "../../ai/llm/llm-providers.service"
+import { PromptTemplatesService } from "../../ai/prompt-templates.service"
+import { MEETING_QA_PROMPT } from "../../ai/prompts"
+import { formatOffset } from "../../ai/transcript-chunks"
+import type {
+  AskMeetingsDto,
+  MeetingAnswerCitationDto,
+  MeetingAnswerDto,
+} from "../dto/meeting-ask.dto"
+import { accessibleMeetingsQuery } from "./meeting-search.service"
+
+type ChunkRow = {
+  meetingId: string
+  viewerRole: "owner" | "guest"
+  title: string | null
+  startTime: Date
+  speakers: string[]
+  startSeconds: number | null
+  endSeconds: number | null
+  text: string
+  distance: number
+}
+
+const DEFAULT_LIMIT = 8
+
+/**
+ * Answers questions over the transcripts of the viewer's own meetings: the
+ * closest transcript chunks by embedding are handed to the viewer's LLM
+ * provider, which cites them as [n]. Guests of a shared meeting cannot read
+ * its transcript, so it is left out like in search.
+ */
+@Injectable()
+export class MeetingAskService {
+  private readonly logger = new Logger(MeetingAskService.name)
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly embeddings: MeetingEmbeddingsService,
+    private readonly llmProviders: LlmProvidersService,
+    private readonly promptTemplates: PromptTemplatesService,
+  ) {}
+
+  async ask(
+    viewer: { id: string; email: string },
+    dto: AskMeetingsDto,
+  ): Promise<MeetingAnswerDto> {
+    const provider = this.embeddings.provider
+    if (!provider) {
+      throw new AppError(ErrorCodes.SERVICE_UNAVAILABLE, {
+        params: { resource: "MeetingEmbeddings" },
+      })
+    }
+
+    const question = dto.question.trim()
+    const [vector] = await provider.embed([question])
+    const meetingFilter = dto.meetingIds?.length
+      ? Prisma.sql`AND c."calendarEventId" IN (${Prisma.join(dto.meetingIds)})`
+      : Prisma.empty
+    const rows = await this.prisma.$queryRaw<ChunkRow[]>`
+      WITH accessible AS (${accessibleMeetingsQuery(viewer)}),
+      question AS (SELECT ${toVectorLiteral(vector)}::vector AS v)
+      SELECT c."calendarEventId" AS "meetingId", a."viewerRole", ce."title",
+        ce."startTime", c."speakers", c."startSeconds", c."endSeconds", c."text",
+        (c."embedding" <=> question.v)::float8 AS "distance"
+      FROM "MeetingTranscriptChunk" c
+      JOIN accessible a ON a."id" = c."calendarEventId"
+      JOIN "CalendarEvent" ce ON ce."id" = c."calendarEventId"
+      CROSS JOIN question
+      WHERE a."viewerRole" = 'owner'
+        AND c."embeddingModel" = ${provider.model}
+        AND c."embedding" IS NOT NULL
+        ${meetingFilter}
+      ORDER BY c."embedding" <=> question.v
+      LIMIT ${dto.limit ?? DEFAULT_LIMIT}
+    `
+    if (!rows.length) {
+      return { answer: null, model: null, citations: [] }
+    }
+
+    const citations: MeetingAnswerCitationDto[] = rows.map((row, index) => ({
+      number: index + 1,
+      meetingId: row.meetingId,
+      title: row.title,
+      startTime: row.startTime.toISOString(),
+      viewerRole: row.viewerRole,
+      speakers: row.speakers,
+      startSeconds: row.startSeconds === null ? null : Number(row.startSeconds),
+      endSeconds: row.endSeconds === null ? null : Number(row.endSeconds),
+      excerpt: row.text,
+      score: 1 - Number(row.distance),
+      cited: false,
+    }))
+
+    const llm = await this.llmProviders.forUser(viewer.id)
+    if (!llm) {
+      return { answer: null, model: null, citations }
+    }
+    const prompt = await this.promptTemplates.getActive(MEETING_QA_PROMPT)
+    try {
+      const completion = await llm.complete({
+        messages: [
+          { role: "system", content: prompt.systemPrompt },
+          {
+            role: "user",
+            content: `Question: ${question}\n\nExcerpts:\n\n${citations
+              .map(formatExcerpt)
+              .join("\n\n")}`,
+          },
+        ],
+        temperature: 0.2,
+        maxTokens: 800,
+      })
+      const cited = new Set(
+        [...completion.text.matchAll(/\[(\d+)\]/g)].map((match) =>
+          Number(match[1]),
+        ),
+      )
+      return {
+        answer: completion.text,
+        model: completion.model,
+        citations: citations.map((citation) => ({
+          ...citation,
+          cited: cited.has(citation.number),
+        })),
+      }
+    } catch (error) {
+      this.logger.warn(
+        `Meeting Q&A via ${llm.kind} failed: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      )
+      return { answer: null, model: null, citations }
+    }
+  }
+}
+
+function formatExcerpt(citation: MeetingAnswerCitationDto) {
+  const date = citation.startTime.slice(0, 10)
+  const span =
+    citation.startSeconds === null
+      ? ""
+      : `, ${formatOffset(citation.startSeconds)}–${formatOffset(citation.endSeconds)}`
+  return `[${citation.number}] "${citation.title ?? "Untitled meeting"}" (${date}${span})\n${citation.excerpt}`
+}
@@ -0,0 +1,200 @@
+import type { ConfigService } from "@nestjs/config"
+import type { PrismaService } from "../../../prisma/prisma.service"
+import type { MeetingEmbeddingsService } from "../../ai/embeddings/meeting-embeddings.service"
+import { FakeLlmProvider } from "../../ai/llm/fake.provider"
+import type { LlmProvidersService } from "../../ai/llm/llm-providers.service"
+import type { PromptTemplatesService } from "../../ai/prompt-templates.service"
+import { AppError } from "../../errors/app-error"
+import type { MeetingChatMessagePayload } from "../types/chat.types"
+import { MeetingAssistantService } from "./meeting-assistant.service"
+import type { MeetingChatService } from "./meeting-chat.service"
+
+const firstArg = (mock: jest.Mock) => (mock.mock.calls as unknown[][])[0][0]
+
+const segment = (index: number, text: string) => ({
+  index,
+  speaker: index % 2 ? "Sam" : "Dana",
+  text,
+  startSeconds: index * 30,
+  endSeconds: index * 30 + 25,
+})
+
+const meeting = {
+  id: "event-1",
+  userId: "user-1",
+  title: "Pricing review",
+  startTime: new Date("2025-11-19T10:00:00.000Z"),
+  meetingInsights: [{ summary: "The team agreed on three pricing tiers." }],
+  actionItems: [
+    {
+      description: "Update the pricing page",
+      assigneeName: "Sam",
+      assigneeEmail: null,
+      dueDate: new Date("2025-11-28T00:00:00.000Z"),
+      sourceSeconds: 90,
+      status: "OPEN",
+    },
+  ],
+  transcriptSegments: [
+    segment(0, "Let's settle pricing today."),
+    segment(1, "Three tiers: starter, team and enterprise."),
+  ],
+}
+
+const question: MeetingChatMessagePayload = {
+  id: "message-2",
+  meetingId: "event-1",
+  senderId: "user-1",
+  senderName: "Dana",
+  body: "@assistant which tiers did we agree on?",
+  createdAt: "2025-11-19T11:00:00.000Z",
+  readBy: ["user-1"],
+}
+
+describe("MeetingAssistantService", () => {
+  const prisma = {
+    calendarEvent: { findUnique: jest.fn() },
+    meetingChatMessage: { findMany: jest.fn() },
+  }
+  const meetingChat = { createAssistantMessage: jest.fn() }
+  const llmProviders = { forUser: jest.fn() }
+  const embeddings = { rankMeetingChunks: jest.fn() }
+  const createService = (transcriptTokens?: string) =>
+    new MeetingAssistantService(
+      prisma as unknown as PrismaService,
+      {
+        get: (key: string) =>
+          key === "AI_ASSISTANT_TRANSCRIPT_TOKENS"
+            ? transcriptTokens
+            : undefined,
+      } as unknown as ConfigService,
+      meetingChat as unknown as MeetingChatService,
+      llmProviders as unknown as LlmProvidersService,
+      {
+        getActive: jest.fn().mockResolvedValue({
+          key: "meeting-assistant",
+          version: 1,
+          templateId: null,
+          systemPrompt: "Answer in the meeting chat.",
+        }),
+      } as unknown as PromptTemplatesService,
+      embeddings as unknown as MeetingEmbeddingsService,
+    )
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    prisma.calendarEvent.findUnique.mockResolvedValue(meeting)
+    prisma.meetingChatMessage.findMany.mockResolvedValue([
+      { senderId: "user-2", senderName: "Alex", body: "Recap please" },
+    ])
+    meetingChat.createAssistantMessage.mockImplementation(
+      ({ body, clientMessageId }: { body: string; clientMessageId: string }) =>
+        Promise.resolve({ ...question, id: "reply-1", body, clientMessageId }),
+    )
+  })
+
+  it("detects @assistant mentions", () => {
+    const service = createService()
+    expect(service.isMentioned("@assistant summarise")).toBe(true)
+    expect(service.isMentioned("ask the @Assistant")).toBe(true)
+    expect(service.isMentioned("mail me@assistant.io")).toBe(false)
+  })
+
+  it("streams a grounded answer and posts it as the assistant", async () => {
+    const llm = new FakeLlmProvider(
+      () => "Starter, team and enterprise [0:30].",
+    ).recordCalls()
+    llmProviders.forUser.mockResolvedValue(llm)
+    const deltas: string[] = []
+
+    const reply = await createService().reply({
+      meetingId: "event-1",
+      question,
+      clientMessageId: "stream-1",
+      onDelta: (delta) => deltas.push(delta),
+    })
+
+    expect(llmProviders.forUser).toHaveBeenCalledWith("user-1")
+    expect(deltas.join("")).toBe("Starter, team and enterprise [0:30].")
+    expect(deltas.length).toBeGreaterThan(1)
+    expect(firstArg(meetingChat.createAssistantMessage)).toEqual({
+      meetingId: "event-1",
+      body: "Starter, team and enterprise [0:30].",
+      clientMessageId: "stream-1",
+    })
+    expect(reply).toMatchObject({ id: "reply-1", clientMessageId: "stream-1" })
+
+    const [, context, history, latest] = llm.calls[0].messages
+    expect(context.content).toContain("three pricing tiers")
+    expect(context.content).toContain(
+      "- Update the pricing page (Sam, due 2025-11-28, [1:30], open)",
+    )
+    expect(context.content).toContain(
+      "[0:30] Sam: Three tiers: starter, team and enterprise.",
+    )
+    expect(history).toEqual({ role: "user", content: "Alex: Recap please" })
+    expect(latest.content).toBe("Dana: which tiers did we agree on?")
+    expect(embeddings.rankMeetingChunks).not.toHaveBeenCalled()
+  })
+
+  it("uses the indexed chunks closest to the question for long transcripts", async () => {
+    const llm = new FakeLlmProvider(() => "Three tiers.").recordCalls()
+    llmProviders.forUser.mockResolvedValue(llm)
+    embeddings.rankMeetingChunks.mockResolvedValue([
+      { index: 4, text: "[2:00] Sam: tiers are final" },
+      { index: 1, text: "[0:30] Dana: pricing first" },
+      { index: 2, text: "x".repeat(400) },
+    ])
+
+    await createService("20").reply({
+      meetingId: "event-1",
+      question,
+      clientMessageId: "stream-1",
+      onDelta: () => undefined,
+    })
+
+    expect(embeddings.rankMeetingChunks).toHaveBeenCalledWith(
+      "event-1",
+      "which tiers did we agree on?",
+    )
+    expect(llm.calls[0].messages[1].content).toContain(
+      "Transcript:\n[0:30] Dana: pricing first\n…\n[2:00] Sam: tiers are final",
+    )
+  })
+
+  it("only answers the owner, one reply at a time", async () => {
+    llmProviders.forUser.mockResolvedValue(new FakeLlmProvider(() => "Hi."))
+    const service = createService()
+    const reply = (from: MeetingChatMessagePayload) =>
+      service.reply({
+        meetingId: "event-1",
+        question: from,
+        clientMessageId: "stream-1",
+        onDelta: () => undefined,
+      })
+
+    await expect(
+      reply({ ...question, senderId: "user-2", senderName: "Alex" }),
+    ).rejects.toMatchObject({ status: 403 })
+    expect(llmProviders.forUser).not.toHaveBeenCalled()
+
+    const first = reply(question)
+    await expect(reply(question)).rejects.toMatchObject({ status: 409 })
+    await first
+    await expect(reply(question)).resolves.toMatchObject({ id: "reply-1" })
+  })
+
+  it("fails without an LLM provider", async () => {
+    llmProviders.forUser.mockResolvedValue(null)
+
+    await expect(
+      createService().reply({
+        meetingId: "event-1",
+        question,
+        clientMessageId: "stream-1",
+        onDelta: () => undefined,
+      }),
+    ).rejects.toBeInstanceOf(AppError)
+    expect(meetingChat.createAssistantMessage).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,229 @@
+import { Injectable } from "@nestjs/common"
+import { ConfigService } from "@nestjs/config"
+import { MeetingActionItem, MeetingTranscriptSegment } from "@prisma/client"
+import { PrismaService } from "../../../prisma/prisma.service"
+import { AppError } from "../../errors/app-error"
+import { ErrorCodes } from "../../errors/error-codes"
+import { MeetingEmbeddingsService } from "../../ai/embeddings/meeting-embeddings.service"
+import { streamCompletion } from "../../ai/llm/llm-provider"
+import { LlmProvidersService } from "../../ai/llm/llm-providers.service"
+import { PromptTemplatesService } from "../../ai/prompt-templates.service"
+import { MEETING_ASSISTANT_PROMPT } from "../../ai/prompts"
+import {
+  chunkTranscript,
+  estimateTokens,
+  formatOffset,
+} from "../../ai/transcript-chunks"
+import { CURRENT_INSIGHT_ORDER } from "../current-insight"
+import type { MeetingChatMessagePayload } from "../types/chat.types"
+import { ASSISTANT_SENDER_ID, MeetingChatService } from "./meeting-chat.service"
+
+const ASSISTANT_MENTION = /(^|\s)@assistant\b/i
+// Chat messages before the question that are passed along as context.
+const HISTORY_MESSAGES = 12
+const TRANSCRIPT_CHUNK_TOKENS = 1500
+const TRANSCRIPT_CHUNK_SECONDS = 10 * 60
+
+/**
+ * Answers `@assistant` mentions in a meeting's chat thread. Replies are
+ * grounded in the shown insight, the meeting's action items and the stored
+ * transcript segments; when the transcript exceeds the budget, the indexed
+ * chunks closest to the question are used instead of the whole text.
+ * Only the owner may ask: guests cannot read the transcript, and replies are
+ * billed to the owner's provider.
+ */
+@Injectable()
+export class MeetingAssistantService {
+  private readonly transcriptTokens: number
+  // Meetings with a reply streaming; one at a time per meeting.
+  private readonly replying = new Set<string>()
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+    private readonly meetingChat: MeetingChatService,
+    private readonly llmProviders: LlmProvidersService,
+    private readonly promptTemplates: PromptTemplatesService,
+    private readonly embeddings: MeetingEmbeddingsService,
+  ) {
+    this.transcriptTokens = Number(
+      this.configService.get<string>("AI_ASSISTANT_TRANSCRIPT_TOKENS") ?? 12000,
+    )
+  }
+
+  isMentioned(body: string) {
+    return ASSISTANT_MENTION.test(body)
+  }
+
+  /**
+   * Streams the answer to `question` through `onDelta`, then posts it to the
+   * thread with `clientMessageId` so clients can swap their streamed draft
+   * for the stored message. Uses the meeting owner's LLM provider.
+   */
+  async reply(params: {
+    meetingId: string
+    question: MeetingChatMessagePayload
+    clientMessageId: string
+    onDelta: (text: string) => void
+  }): Promise<MeetingChatMessagePayload> {
+    if (this.replying.has(params.meetingId)) {
+      throw new AppError(ErrorCodes.CONFLICT, {
+        params: { resource: "MeetingAssistant" },
+      })
+    }
+    this.replying.add(params.meetingId)
+    try {
+      return await this.answer(params)
+    } finally {
+      this.replying.delete(params.meetingId)
+    }
+  }
+
+  private async answer(params: {
+    meetingId: string
+    question: MeetingChatMessagePayload
+    clientMessageId: string
+    onDelta: (text: string) => void
+  }) {
+    const meeting = await this.prisma.calendarEvent.findUnique({
+      where: { id: params.meetingId },
+      include: {
+        meetingInsights: { orderBy: CURRENT_INSIGHT_ORDER, take: 1 },
+        actionItems: { orderBy: { createdAt: "asc" } },
+        transcriptSegments: { orderBy: { index: "asc" } },
+      },
+    })
+    if (!meeting) {
+      throw new AppError(ErrorCodes.NOT_FOUND, {
+        params: { resource: "Meeting" },
+      })
+    }
+    if (params.question.senderId !== meeting.userId) {
+      throw new AppError(ErrorCodes.FORBIDDEN, {
+        params: { resource: "MeetingAssistant" },
+      })
+    }
+    const llm = await this.llmProviders.forUser(meeting.userId)
+    if (!llm) {
+      throw new AppError(ErrorCodes.SERVICE_UNAVAILABLE, {
+        params: { resource: "MeetingAssistant" },
+      })
+    }
+
+    const question = params.question.body.replace(ASSISTANT_MENTION, " ").trim()
+    const [prompt, history, transcript] = await Promise.all([
+      this.promptTemplates.getActive(MEETING_ASSISTANT_PROMPT),
+      this.loadHistory(meeting.id, params.question),
+      this.selectTranscript(meeting.id, meeting.transcriptSegments, question),
+    ])
+    const [insight] = meeting.meetingInsights
+    const context = [
+      `Meeting: ${meeting.title ?? "Untitled meeting"} (${meeting.startTime.toISOString().slice(0, 10)})`,
+      `Summary:\n${insight?.summary?.trim() || "No summary yet."}`,
+      `Action items:\n${formatActionItems(meeting.actionItems)}`,
+      `Transcript:\n${transcript || "No transcript is stored for this meeting."}`,
+    ].join("\n\n")
+
+    const completion = await streamCompletion(
+      llm,
+      {
+        messages: [
+          { role: "system", content: prompt.systemPrompt },
+          { role: "user", content: context },
+          ...history.map((message) => ({
+            role:
+              message.senderId === ASSISTANT_SENDER_ID
+                ? ("assistant" as const)
+                : ("user" as const),
+            content:
+              message.senderId === ASSISTANT_SENDER_ID
+                ? message.body
+                : `${message.senderName}: ${message.body}`,
+          })),
+          {
+            role: "user",
+            content: `${params.question.senderName}: ${question || params.question.body}`,
+          },
+        ],
+        temperature: 0.3,
+        maxTokens: 800,
+      },
+      params.onDelta,
+    )
+
+    return this.meetingChat.createAssistantMessage({
+      meetingId: meeting.id,
+      body: completion.text,
+      clientMessageId: params.clientMessageId,
+    })
+  }
+
+  private async loadHistory(
+    meetingId: string,
+    question: MeetingChatMessagePayload,
+  ) {
+    const messages = await this.prisma.meetingChatMessage.findMany({
+      where: {
+        thread: { calendarEventId: meetingId },
+        id: { not: question.id },
+        createdAt: { lte: new Date(question.createdAt) },
+      },
+      orderBy: { createdAt: "desc" },
+      take: HISTORY_MESSAGES,
+      select: { senderId: true, senderName: true, body: true },
+    })
+    return messages.reverse()
+  }
+
+  private async selectTranscript(
+    meetingId: string,
+    segments: MeetingTranscriptSegment[],
+    question: string,
+  ) {
+    const chunks = chunkTranscript(
+      segments,
+      TRANSCRIPT_CHUNK_TOKENS,
+      TRANSCRIPT_CHUNK_SECONDS,
+    )
+    const total = chunks.reduce((sum, chunk) => sum + chunk.tokens, 0)
+    if (total <= this.transcriptTokens) {
+      return chunks.map((chunk) => chunk.text).join("\n")
+    }
+
+    const ranked = question
+      ? await this.embeddings.rankMeetingChunks(meetingId, question)
+      : []
+    const candidates = ranked.length ? ranked : chunks
+    const picked: { index: number; text: string }[] = []
+    let tokens = 0
+    for (const chunk of candidates) {
+      const chunkTokens = estimateTokens(chunk.text)
+      if (tokens + chunkTokens > this.transcriptTokens) {
+        break
+      }
+      picked.push(chunk)
+      tokens += chunkTokens
+    }
+    return picked
+      .sort((a, b) => a.index - b.index)
+      .map((chunk) => chunk.text)
+      .join("\n…\n")
+  }
+}
+
+function formatActionItems(items: MeetingActionItem[]) {
+  if (!items.length) {
+    return "None."
+  }
+  return items
+    .map((item) => {
+      const details = [
+        item.assigneeName ?? item.assigneeEmail,
+        item.dueDate && `due ${item.dueDate.toISOString().slice(0, 10)}`,
+        item.sourceSeconds !== null && `[${formatOffset(item.sourceSeconds)}]`,
+        item.status.toLowerCase(),
+      ].filter(Boolean)
+      return `- ${item.description} (${details.join(", ")})`
+    })
+    .join("\n")
+}
@@ -8,6 +8,9 @@ import { PrismaService } from "../../../prisma/prisma.service"
 import type { MeetingChatHistoryPayload } from "../types/chat.types"
 import type { MeetingChatMessagePayload } from "../types/chat.types"
 
+export const ASSISTANT_SENDER_ID = "system"
+export const ASSISTANT_SENDER_NAME = "Assistant"
+
 type ViewerContext = {
   id: string
   email?: string | null
@@ -126,6 +129,43 @@ export class MeetingChatService {
     }
   }
 
+  /**
+   * Posts a message from the meeting assistant. It has no read receipt and
+   * no notifications; callers broadcast the returned payload.
+   */
+  async createAssistantMessage(params: {
+    meetingId: string
+    body: string
+    clientMessageId?: string
+  }): Promise<MeetingChatMessagePayload> {
+    const thread = await this.ensureThread(params.meetingId)
+    const entry = await this.prisma.meetingChatMessage.create({
+      data: {
+        threadId: thread.id,
+        senderId: ASSISTANT_SENDER_ID,
+        senderName: ASSISTANT_SENDER_NAME,
+        body: params.body,
+      },
+      include: {
+        receipts: true,
+      },
+    })
+
+    this.prisma.meetingChatThread
+      .update({
+        where: { id: thread.id },
+        data: { updatedAt: entry.createdAt },
+      })
+      .catch(() => undefined)
+
+    return {
+      ...this.toPayload(entry, params.meetingId),
+      ...(params.clientMessageId && {
+        clientMessageId: params.clientMessageId,
+      }),
+    }
+  }
+
   async markMessagesRead(params: {
     meetingId: string
     viewer: ViewerContext
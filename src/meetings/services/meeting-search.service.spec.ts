@@ -0,0 +1,80 @@
+import type { PrismaService } from "../../../prisma/prisma.service"
+import { MeetingSearchService, splitHighlights } from "./meeting-search.service"
+
+describe("splitHighlights", () => {
+  it("turns ts_headline markers into character ranges", () => {
+    expect(
+      splitHighlights("we moved \u0002pricing\u0003 to \u0002tiers\u0003"),
+    ).toEqual({
+      snippet: "we moved pricing to tiers",
+      highlights: [
+        { start: 9, end: 16 },
+        { start: 20, end: 25 },
+      ],
+    })
+  })
+})
+
+describe("MeetingSearchService", () => {
+  const prisma = {
+    $queryRaw: jest.fn(),
+    calendarEvent: { findMany: jest.fn() },
+  }
+  const service = new MeetingSearchService(prisma as unknown as PrismaService)
+
+  const row = (meetingId: string, rank: number, source = "transcript") => ({
+    meetingId,
+    viewerRole: "owner",
+    source,
+    sourceId: `${meetingId}-${rank}`,
+    speaker: "Dana",
+    startSeconds: 61,
+    rank,
+    snippet: "the \u0002pricing\u0003 page",
+  })
+
+  it("groups ranked hits by meeting", async () => {
+    prisma.$queryRaw.mockResolvedValue([
+      row("event-2", 0.9, "summary"),
+      row("event-1", 0.5),
+      row("event-2", 0.3),
+      row("event-3", 0.1),
+    ])
+    prisma.calendarEvent.findMany.mockResolvedValue([
+      {
+        id: "event-1",
+        title: "Kickoff",
+        startTime: new Date("2025-11-18T10:00:00.000Z"),
+      },
+      {
+        id: "event-2",
+        title: "Pricing review",
+        startTime: new Date("2025-11-19T10:00:00.000Z"),
+      },
+    ])
+
+    const results = await service.search(
+      { id: "user-1", email: "Dana@Example.com" },
+      "pricing",
+      2,
+    )
+
+    expect(prisma.calendarEvent.findMany).toHaveBeenCalledWith({
+      where: { id: { in: ["event-2", "event-1"] } },
+      select: { id: true, title: true, startTime: true },
+    })
+    expect(results.map((result) => result.meetingId)).toEqual([
+      "event-2",
+      "event-1",
+    ])
+    expect(results[0]).toMatchObject({
+      title: "Pricing review",
+      rank: 0.9,
+      hits: [
+        { source: "summary", snippet: "the pricing page" },
+        { source: "transcript", startSeconds: 61 },
+      ],
+    })
+    expect(results[0].hits[0].highlights).toEqual([{ start: 4, end: 11 }])
+  })
+})
@@ -0,0 +1,200 @@
+import { Injectable } from "@nestjs/common"
+import { Prisma } from "@prisma/client"
+import { PrismaService } from "../../../prisma/prisma.service"
+import type {
+  MeetingSearchHighlightDto,
+  MeetingSearchHitSource,
+  MeetingSearchResultDto,
+} from "../dto/meeting-search.dto"
+
+type SearchRow = {
+  meetingId: string
+  viewerRole: "owner" | "guest"
+  source: MeetingSearchHitSource
+  sourceId: string
+  speaker: string | null
+  startSeconds: number | null
+  rank: number
+  snippet: string
+}
+
+// Matches are wrapped in control characters by ts_headline and turned into
+// character ranges here, so snippets never carry markup.
+const HIGHLIGHT_START = "\u0002"
+const HIGHLIGHT_END = "\u0003"
+const HEADLINE_OPTIONS = `StartSel="${HIGHLIGHT_START}", StopSel="${HIGHLIGHT_END}", MaxWords=35, MinWords=12, MaxFragments=2, FragmentDelimiter=" … "`
+// Ranked hits fetched before grouping by meeting.
+const MAX_HITS = 200
+const HITS_PER_MEETING = 5
+
+/**
+ * Full-text search over transcript segments, the shown insight summary,
+ * action items and chat messages, using the generated `searchVector`
+ * columns. Guests of a shared meeting only match what the meeting activity
+ * shows them: the summary and the chat.
+ */
+@Injectable()
+export class MeetingSearchService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async search(
+    viewer: { id: string; email: string },
+    query: string,
+    limit = 20,
+  ): Promise<MeetingSearchResultDto[]> {
+    const rows = await this.prisma.$queryRaw<SearchRow[]>(
+      this.buildQuery(viewer, query.trim()),
+    )
+
+    const grouped = new Map<string, SearchRow[]>()
+    for (const row of rows) {
+      const hits = grouped.get(row.meetingId)
+      if (hits) {
+        if (hits.length < HITS_PER_MEETING) {
+          hits.push(row)
+        }
+      } else if (grouped.size < limit) {
+        grouped.set(row.meetingId, [row])
+      }
+    }
+    if (!grouped.size) {
+      return []
+    }
+
+    const meetings = await this.prisma.calendarEvent.findMany({
+      where: { id: { in: [...grouped.keys()] } },
+      select: { id: true, title: true, startTime: true },
+    })
+    const meetingsById = new Map(
+      meetings.map((meeting) => [meeting.id, meeting]),
+    )
+
+    return [...grouped.entries()].flatMap(([meetingId, hits]) => {
+      const meeting = meetingsById.get(meetingId)
+      if (!meeting) {
+        return []
+      }
+      return [
+        {
+          meetingId,
+          title: meeting.title,
+          startTime: meeting.startTime.toISOString(),
+          viewerRole: hits[0].viewerRole,
+          rank: Number(hits[0].rank),
+          hits: hits.map((hit) => ({
+            source: hit.source,
+            id: hit.sourceId,
+            ...splitHighlights(hit.snippet),
+            speaker: hit.speaker,
+            startSeconds:
+              hit.startSeconds === null ? null : Number(hit.startSeconds),
+            rank: Number(hit.rank),
+          })),
+        },
+      ]
+    })
+  }
+
+  private buildQuery(viewer: { id: string; email: string }, query: string) {
+    // Summaries are weighted above single transcript lines; only the
+    // revision that is currently shown (pinned, else latest) is searched.
+    return Prisma.sql`
+      WITH accessible AS (${accessibleMeetingsQuery(viewer)}),
+      search AS (
+        SELECT websearch_to_tsquery('english', ${query}) AS q
+      ),
+      hits AS (
+        SELECT s."calendarEventId" AS "meetingId", a."viewerRole",
+          'transcript' AS "source", s."id" AS "sourceId", s."speaker",
+          s."startSeconds", s."text" AS "content",
+          ts_rank(s."searchVector", search.q) AS "rank"
+        FROM "MeetingTranscriptSegment" s
+        JOIN accessible a ON a."id" = s."calendarEventId"
+        CROSS JOIN search
+        WHERE a."viewerRole" = 'owner' AND s."searchVector" @@ search.q
+        UNION ALL
+        SELECT mi."calendarEventId", a."viewerRole", 'summary', mi."id", NULL,
+          NULL, mi."summary", ts_rank(mi."searchVector", search.q) * 2
+        FROM "MeetingInsight" mi
+        JOIN accessible a ON a."id" = mi."calendarEventId"
+        CROSS JOIN search
+        WHERE mi."searchVector" @@ search.q
+          AND mi."id" = (
+            SELECT c."id" FROM "MeetingInsight" c
+            WHERE c."calendarEventId" = mi."calendarEventId"
+            ORDER BY c."pinnedAt" DESC NULLS LAST, c."revision" DESC
+            LIMIT 1
+          )
+        UNION ALL
+        SELECT ai."calendarEventId", a."viewerRole", 'action_item', ai."id",
+          ai."assigneeName", ai."sourceSeconds", ai."description",
+          ts_rank(ai."searchVector", search.q) * 1.5
+        FROM "MeetingActionItem" ai
+        JOIN accessible a ON a."id" = ai."calendarEventId"
+        CROSS JOIN search
+        WHERE a."viewerRole" = 'owner' AND ai."searchVector" @@ search.q
+        UNION ALL
+        SELECT t."calendarEventId", a."viewerRole", 'chat', m."id",
+          m."senderName", NULL, m."body", ts_rank(m."searchVector", search.q)
+        FROM "MeetingChatMessage" m
+        JOIN "MeetingChatThread" t ON t."id" = m."threadId"
+        JOIN accessible a ON a."id" = t."calendarEventId"
+        CROSS JOIN search
+        WHERE m."searchVector" @@ search.q
+      ),
+      top AS (
+        SELECT * FROM hits ORDER BY "rank" DESC LIMIT ${MAX_HITS}
+      )
+      SELECT top."meetingId", top."viewerRole", top."source", top."sourceId",
+        top."speaker", top."startSeconds", top."rank"::float8 AS "rank",
+        ts_headline('english', top."content", search.q, ${HEADLINE_OPTIONS}) AS "snippet"
+      FROM top
+      CROSS JOIN search
+      ORDER BY top."rank" DESC
+    `
+  }
+}
+
+/**
+ * Meetings the viewer owns or that are shared with their email, with their
+ * `viewerRole`; the SQL form of `MeetingsService.resolveViewerRole`.
+ */
+export function accessibleMeetingsQuery(viewer: { id: string; email: string }) {
+  const email = viewer.email.trim().toLowerCase()
+  return Prisma.sql`
+    SELECT ce."id",
+      CASE WHEN ce."userId" = ${viewer.id} THEN 'owner' ELSE 'guest' END AS "viewerRole"
+    FROM "CalendarEvent" ce
+    WHERE ce."deletedAt" IS NULL
+      AND (
+        ce."userId" = ${viewer.id}
+        OR EXISTS (
+          SELECT 1 FROM "MeetingShare" ms
+          WHERE ms."calendarEventId" = ce."id" AND ms."email" = ${email}
+        )
+      )
+  `
+}
+
+/** Strips the ts_headline markers and returns where they were. */
+export function splitHighlights(marked: string): {
+  snippet: string
+  highlights: MeetingSearchHighlightDto[]
+} {
+  const highlights: MeetingSearchHighlightDto[] = []
+  let snippet = ""
+  let start: number | null = null
+  for (const char of marked) {
+    if (char === HIGHLIGHT_START) {
+      start = snippet.length
+    } else if (char === HIGHLIGHT_END) {
+      if (start !== null && snippet.length > start) {
+        highlights.push({ start, end: snippet.length })
+      }
+      start = null
+    } else {
+      snippet += char
+    }
+  }
+  return { snippet, highlights }
+}
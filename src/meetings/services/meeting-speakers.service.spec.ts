@@ -0,0 +1,105 @@
+import { MeetingSpeakerSource } from "@prisma/client"
+import type { PrismaService } from "../../../prisma/prisma.service"
+import { AppError } from "../../errors/app-error"
+import type { MeetingAnalyticsService } from "../../transcripts/meeting-analytics.service"
+import type { SpeakerMappingService } from "../../transcripts/speaker-mapping.service"
+import { MeetingSpeakersService } from "./meeting-speakers.service"
+
+const firstArg = (mock: jest.Mock) => (mock.mock.calls as unknown[][])[0][0]
+
+const speaker = (overrides: Record<string, unknown> = {}) => ({
+  id: "speaker-1",
+  calendarEventId: "event-1",
+  speakerKey: "id:100",
+  participantId: "100",
+  name: "Pat",
+  email: "pat.kim@client.io",
+  displayName: "Patricia Kim",
+  userId: null,
+  source: MeetingSpeakerSource.FUZZY,
+  confidence: 0.85,
+  createdAt: new Date("2025-11-21T12:00:00.000Z"),
+  updatedAt: new Date("2025-11-21T12:00:00.000Z"),
+  ...overrides,
+})
+
+describe("MeetingSpeakersService", () => {
+  const prisma = {
+    calendarEvent: { findUnique: jest.fn() },
+    meetingActionItem: { updateMany: jest.fn() },
+    meetingAnalytics: { count: jest.fn() },
+  }
+  const speakerMapping = {
+    getSpeakers: jest.fn(),
+    overrideSpeaker: jest.fn(),
+  }
+  const meetingAnalytics = { computeMeetingAnalytics: jest.fn() }
+  const service = new MeetingSpeakersService(
+    prisma as unknown as PrismaService,
+    speakerMapping as unknown as SpeakerMappingService,
+    meetingAnalytics as unknown as MeetingAnalyticsService,
+  )
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    prisma.calendarEvent.findUnique.mockResolvedValue({ userId: "user-1" })
+    prisma.meetingAnalytics.count.mockResolvedValue(1)
+    speakerMapping.getSpeakers.mockResolvedValue([speaker()])
+  })
+
+  it("moves action items and analytics over to the corrected speaker", async () => {
+    const updated = speaker({
+      email: "pat.jones@client.io",
+      displayName: "Pat Jones",
+      source: MeetingSpeakerSource.MANUAL,
+      confidence: 1,
+    })
+    speakerMapping.overrideSpeaker.mockResolvedValue({
+      previous: speaker(),
+      updated,
+    })
+
+    await service.update("event-1", "user-1", {
+      speakers: [{ speakerKey: "id:100", email: "Pat.Jones@client.io" }],
+    })
+
+    expect(speakerMapping.overrideSpeaker).toHaveBeenCalledWith(
+      "event-1",
+      "id:100",
+      "Pat.Jones@client.io",
+    )
+    expect(firstArg(prisma.meetingActionItem.updateMany)).toEqual({
+      where: {
+        calendarEventId: "event-1",
+        editedAt: null,
+        OR: [
+          { assigneeEmail: "pat.kim@client.io" },
+          {
+            assigneeEmail: null,
+            assigneeName: { in: ["Pat", "Patricia Kim"], mode: "insensitive" },
+          },
+        ],
+      },
+      data: { assigneeEmail: "pat.jones@client.io", assigneeName: "Pat Jones" },
+    })
+    expect(meetingAnalytics.computeMeetingAnalytics).toHaveBeenCalledWith(
+      "event-1",
+    )
+  })
+
+  it("rejects unknown speakers before changing anything", async () => {
+    await expect(
+      service.update("event-1", "user-1", {
+        speakers: [
+          { speakerKey: "id:100", email: null },
+          { speakerKey: "id:999", email: null },
+        ],
+      }),
+    ).rejects.toBeInstanceOf(AppError)
+    expect(speakerMapping.overrideSpeaker).not.toHaveBeenCalled()
+
+    await expect(service.list("event-1", "user-2")).rejects.toBeInstanceOf(
+      AppError,
+    )
+  })
+})
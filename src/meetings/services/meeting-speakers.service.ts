@@ -0,0 +1,147 @@
+import { Injectable, Logger } from "@nestjs/common"
+import { MeetingSpeaker, Prisma } from "@prisma/client"
+import { PrismaService } from "../../../prisma/prisma.service"
+import { AppError } from "../../errors/app-error"
+import { ErrorCodes, FieldErrorCodes } from "../../errors/error-codes"
+import { SpeakerMappingService } from "../../transcripts/speaker-mapping.service"
+import { MeetingAnalyticsService } from "../../transcripts/meeting-analytics.service"
+import type {
+  MeetingSpeakerDto,
+  UpdateMeetingSpeakersDto,
+} from "../dto/meeting-speaker.dto"
+
+/**
+ * Lets the owner see and correct who the transcript speakers of a meeting
+ * are. Corrections carry over to the meeting's action items and analytics;
+ * transcript pages and exports read the mapping when they are served.
+ */
+@Injectable()
+export class MeetingSpeakersService {
+  private readonly logger = new Logger(MeetingSpeakersService.name)
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly speakerMapping: SpeakerMappingService,
+    private readonly meetingAnalytics: MeetingAnalyticsService,
+  ) {}
+
+  async list(meetingId: string, userId: string): Promise<MeetingSpeakerDto[]> {
+    await this.ensureOwner(meetingId, userId)
+    const speakers = await this.speakerMapping.getSpeakers(meetingId)
+    return speakers.map((speaker) => this.toSpeakerDto(speaker))
+  }
+
+  async update(
+    meetingId: string,
+    userId: string,
+    dto: UpdateMeetingSpeakersDto,
+  ): Promise<MeetingSpeakerDto[]> {
+    await this.ensureOwner(meetingId, userId)
+    const known = new Set(
+      (await this.speakerMapping.getSpeakers(meetingId)).map(
+        (speaker) => speaker.speakerKey,
+      ),
+    )
+    const unknown = dto.speakers.findIndex(
+      (speaker) => !known.has(speaker.speakerKey),
+    )
+    if (unknown !== -1) {
+      throw new AppError(ErrorCodes.VALIDATION, {
+        fields: [
+          {
+            field: `speakers.${unknown}.speakerKey`,
+            code: FieldErrorCodes.INVALID,
+          },
+        ],
+      })
+    }
+
+    for (const entry of dto.speakers) {
+      const { previous, updated } = await this.speakerMapping.overrideSpeaker(
+        meetingId,
+        entry.speakerKey,
+        entry.email,
+      )
+      await this.reassignActionItems(meetingId, previous, updated)
+    }
+
+    const analytics = await this.prisma.meetingAnalytics.count({
+      where: { calendarEventId: meetingId },
+    })
+    if (analytics) {
+      try {
+        await this.meetingAnalytics.computeMeetingAnalytics(meetingId)
+      } catch (error) {
+        this.logger.warn(
+          `Failed to refresh analytics for meeting ${meetingId}: ${
+            error instanceof Error ? error.message : String(error)
+          }`,
+        )
+      }
+    }
+
+    const speakers = await this.speakerMapping.getSpeakers(meetingId)
+    return speakers.map((speaker) => this.toSpeakerDto(speaker))
+  }
+
+  // Items assigned to the speaker's old identity follow the correction;
+  // items the owner edited keep their assignee.
+  private async reassignActionItems(
+    meetingId: string,
+    previous: MeetingSpeaker,
+    updated: MeetingSpeaker,
+  ) {
+    if (previous.email === updated.email) {
+      return
+    }
+    const names = [
+      ...new Set(
+        [previous.name, previous.displayName].filter(
+          (name): name is string => !!name,
+        ),
+      ),
+    ]
+    await this.prisma.meetingActionItem.updateMany({
+      where: {
+        calendarEventId: meetingId,
+        editedAt: null,
+        OR: [
+          ...(previous.email ? [{ assigneeEmail: previous.email }] : []),
+          {
+            assigneeEmail: null,
+            assigneeName: { in: names, mode: Prisma.QueryMode.insensitive },
+          },
+        ],
+      },
+      data: {
+        assigneeEmail: updated.email,
+        assigneeName: updated.displayName ?? updated.name,
+      },
+    })
+  }
+
+  private async ensureOwner(meetingId: string, userId: string) {
+    const meeting = await this.prisma.calendarEvent.findUnique({
+      where: { id: meetingId },
+      select: { userId: true },
+    })
+    if (!meeting || meeting.userId !== userId) {
+      throw new AppError(ErrorCodes.NOT_FOUND, {
+        params: { resource: "Meeting" },
+      })
+    }
+  }
+
+  private toSpeakerDto(speaker: MeetingSpeaker): MeetingSpeakerDto {
+    return {
+      speakerKey: speaker.speakerKey,
+      participantId: speaker.participantId,
+      name: speaker.name,
+      email: speaker.email,
+      displayName: speaker.displayName,
+      userId: speaker.userId,
+      source: speaker.source,
+      confidence: speaker.confidence,
+    }
+  }
+}
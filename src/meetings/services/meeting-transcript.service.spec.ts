@@ -0,0 +1,97 @@
+import type { PrismaService } from "../../../prisma/prisma.service"
+import { AppError } from "../../errors/app-error"
+import type { TranscriptsService } from "../../transcripts/transcripts.service"
+import type { SpeakerMappingService } from "../../transcripts/speaker-mapping.service"
+import { MeetingTranscriptService } from "./meeting-transcript.service"
+
+const firstArg = (mock: jest.Mock) => (mock.mock.calls as unknown[][])[0][0]
+
+const row = (index: number) => ({
+  id: `segment-${index}`,
+  calendarEventId: "event-1",
+  index,
+  speakerId: "100",
+  speaker: "Dana",
+  speakerEmail: "dana@example.com",
+  text: `Line ${index}`,
+  startSeconds: index * 10,
+  endSeconds: index * 10 + 8,
+  words: [
+    { text: "Line", startSeconds: index * 10, endSeconds: index * 10 + 4 },
+  ],
+  createdAt: new Date("2025-11-19T12:00:00.000Z"),
+})
+
+describe("MeetingTranscriptService", () => {
+  const prisma = {
+    calendarEvent: { findUnique: jest.fn() },
+    meetingTranscriptSegment: { findMany: jest.fn() },
+  }
+  const transcripts = { ensureIndexed: jest.fn() }
+  const speakerMapping = { getMapping: jest.fn() }
+  const service = new MeetingTranscriptService(
+    prisma as unknown as PrismaService,
+    transcripts as unknown as TranscriptsService,
+    speakerMapping as unknown as SpeakerMappingService,
+  )
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    prisma.calendarEvent.findUnique.mockResolvedValue({ userId: "user-1" })
+    transcripts.ensureIndexed.mockResolvedValue(3)
+    speakerMapping.getMapping.mockResolvedValue(new Map())
+  })
+
+  it("pages through segments within a time range", async () => {
+    prisma.meetingTranscriptSegment.findMany.mockResolvedValue([
+      row(2),
+      row(3),
+      row(4),
+    ])
+
+    const page = await service.getSegments("event-1", "user-1", {
+      cursor: 2,
+      limit: 2,
+      from: 15,
+      to: 60,
+    })
+
+    expect(firstArg(prisma.meetingTranscriptSegment.findMany)).toEqual({
+      where: {
+        calendarEventId: "event-1",
+        index: { gte: 2 },
+        AND: [
+          {
+            OR: [
+              { endSeconds: { gte: 15 } },
+              { endSeconds: null, startSeconds: { gte: 15 } },
+            ],
+          },
+          { startSeconds: { lte: 60 } },
+        ],
+      },
+      orderBy: { index: "asc" },
+      take: 3,
+    })
+    expect(page.nextCursor).toBe(4)
+    expect(page.segments.map((segment) => segment.index)).toEqual([2, 3])
+    expect(page.segments[0]).toMatchObject({
+      speakerId: "100",
+      speaker: "Dana",
+      startSeconds: 20,
+      words: [{ text: "Line", startSeconds: 20, endSeconds: 24 }],
+    })
+  })
+
+  it("hides other users' meetings and missing transcripts", async () => {
+    await expect(
+      service.getSegments("event-1", "user-2", {}),
+    ).rejects.toBeInstanceOf(AppError)
+
+    transcripts.ensureIndexed.mockResolvedValue(0)
+    await expect(
+      service.getSegments("event-1", "user-1", {}),
+    ).rejects.toBeInstanceOf(AppError)
+    expect(prisma.meetingTranscriptSegment.findMany).not.toHaveBeenCalled()
+  })
+})
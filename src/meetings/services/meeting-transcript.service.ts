@@ -0,0 +1,156 @@
+import { Injectable } from "@nestjs/common"
+import { MeetingTranscriptSegment, Prisma } from "@prisma/client"
+import { PrismaService } from "../../../prisma/prisma.service"
+import { AppError } from "../../errors/app-error"
+import { ErrorCodes, FieldErrorCodes } from "../../errors/error-codes"
+import { TranscriptsService } from "../../transcripts/transcripts.service"
+import { SpeakerMappingService } from "../../transcripts/speaker-mapping.service"
+import { applySpeakerMapping } from "../../transcripts/speaker-mapping"
+import type { SpeakerMapping } from "../../transcripts/speaker-analytics"
+import type { TranscriptWord } from "../../ai/transcript-chunks"
+import type {
+  MeetingTranscriptPageDto,
+  MeetingTranscriptQueryDto,
+  MeetingTranscriptSegmentDto,
+} from "../dto/meeting-transcript.dto"
+import {
+  renderTranscript,
+  TRANSCRIPT_EXPORT_CONTENT_TYPES,
+  type TranscriptExportFormat,
+} from "../transcript-export"
+
+const DEFAULT_PAGE_SIZE = 200
+
+/**
+ * Serves the canonical transcript segments of a meeting to its owner, as
+ * pages or as a file export, with speakers shown as the attendees they were
+ * mapped to.
+ */
+@Injectable()
+export class MeetingTranscriptService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly transcripts: TranscriptsService,
+    private readonly speakerMapping: SpeakerMappingService,
+  ) {}
+
+  async getSegments(
+    meetingId: string,
+    userId: string,
+    query: MeetingTranscriptQueryDto,
+  ): Promise<MeetingTranscriptPageDto> {
+    if (
+      query.from !== undefined &&
+      query.to !== undefined &&
+      query.from > query.to
+    ) {
+      throw new AppError(ErrorCodes.VALIDATION, {
+        fields: [{ field: "to", code: FieldErrorCodes.INVALID }],
+      })
+    }
+    await this.ensureTranscript(meetingId, userId)
+
+    const limit = query.limit ?? DEFAULT_PAGE_SIZE
+    const filters: Prisma.MeetingTranscriptSegmentWhereInput[] = []
+    if (query.from !== undefined) {
+      // Segments without an end offset are matched on their start.
+      filters.push({
+        OR: [
+          { endSeconds: { gte: query.from } },
+          { endSeconds: null, startSeconds: { gte: query.from } },
+        ],
+      })
+    }
+    if (query.to !== undefined) {
+      filters.push({ startSeconds: { lte: query.to } })
+    }
+    const rows = await this.prisma.meetingTranscriptSegment.findMany({
+      where: {
+        calendarEventId: meetingId,
+        index: { gte: query.cursor ?? 0 },
+        AND: filters,
+      },
+      orderBy: { index: "asc" },
+      take: limit + 1,
+    })
+
+    const next = rows.length > limit ? rows.pop() : undefined
+    const mapping = await this.speakerMapping.getMapping(meetingId)
+    return {
+      meetingId,
+      segments: rows.map((row) => this.toSegmentDto(row, mapping)),
+      nextCursor: next?.index ?? null,
+    }
+  }
+
+  async exportTranscript(
+    meetingId: string,
+    userId: string,
+    format: TranscriptExportFormat,
+  ): Promise<{ filename: string; contentType: string; body: string }> {
+    const meeting = await this.ensureTranscript(meetingId, userId)
+    const rows = await this.prisma.meetingTranscriptSegment.findMany({
+      where: { calendarEventId: meetingId },
+      orderBy: { index: "asc" },
+    })
+    const mapping = await this.speakerMapping.getMapping(meetingId)
+    const name =
+      (meeting.title ?? "")
+        .normalize("NFKD")
+        .replace(/[^\w\s-]/g, "")
+        .trim()
+        .replace(/[\s_]+/g, "-")
+        .toLowerCase() || "meeting"
+
+    return {
+      filename: `${name}-${meeting.startTime.toISOString().slice(0, 10)}.${format}`,
+      contentType: TRANSCRIPT_EXPORT_CONTENT_TYPES[format],
+      body: renderTranscript(
+        format,
+        meeting,
+        rows.map((row) => this.toSegmentDto(row, mapping)),
+      ),
+    }
+  }
+
+  /**
+   * Checks ownership and that a transcript is stored, indexing meetings
+   * captured before transcripts were stored.
+   */
+  private async ensureTranscript(meetingId: string, userId: string) {
+    const meeting = await this.prisma.calendarEvent.findUnique({
+      where: { id: meetingId },
+      select: { id: true, userId: true, title: true, startTime: true },
+    })
+    if (!meeting || meeting.userId !== userId) {
+      throw new AppError(ErrorCodes.NOT_FOUND, {
+        params: { resource: "Meeting" },
+      })
+    }
+    if (!(await this.transcripts.ensureIndexed(meetingId))) {
+      throw new AppError(ErrorCodes.NOT_FOUND, {
+        params: { resource: "MeetingTranscript" },
+      })
+    }
+    return meeting
+  }
+
+  private toSegmentDto(
+    row: MeetingTranscriptSegment,
+    mapping: Map<string, SpeakerMapping>,
+  ): MeetingTranscriptSegmentDto {
+    const segment = applySpeakerMapping(row, mapping)
+    return {
+      index: segment.index,
+      speakerId: segment.speakerId,
+      speaker: segment.speaker,
+      speakerEmail: segment.speakerEmail,
+      text: segment.text,
+      startSeconds: segment.startSeconds,
+      endSeconds: segment.endSeconds,
+      words: Array.isArray(segment.words)
+        ? (segment.words as TranscriptWord[])
+        : [],
+    }
+  }
+}
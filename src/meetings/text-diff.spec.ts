@@ -0,0 +1,27 @@
+import { diffLines } from "./text-diff"
+
+describe("diffLines", () => {
+  it("groups unchanged, removed and added lines", () => {
+    expect(
+      diffLines(
+        "Intro\nBudget approved\nNext call Friday\nThanks",
+        "Intro\nBudget approved at 40k\nNext call Friday\nThanks\nPS: slides attached",
+      ),
+    ).toEqual([
+      { type: "unchanged", lines: ["Intro"] },
+      { type: "removed", lines: ["Budget approved"] },
+      { type: "added", lines: ["Budget approved at 40k"] },
+      { type: "unchanged", lines: ["Next call Friday", "Thanks"] },
+      { type: "added", lines: ["PS: slides attached"] },
+    ])
+  })
+
+  it("treats missing text as empty", () => {
+    expect(diffLines(null, "New summary")).toEqual([
+      { type: "added", lines: ["New summary"] },
+    ])
+    expect(diffLines("Same\r\ntext", "Same\ntext")).toEqual([
+      { type: "unchanged", lines: ["Same", "text"] },
+    ])
+  })
+})
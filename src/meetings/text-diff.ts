@@ -0,0 +1,104 @@
+export type TextDiffPart = {
+  type: "unchanged" | "added" | "removed"
+  lines: string[]
+}
+
+// Past this many cells the LCS table costs more than the diff is worth; the
+// changed middle is then reported as removed and re-added.
+const MAX_TABLE_CELLS = 4_000_000
+
+const splitLines = (text: string | null | undefined) =>
+  text ? text.replace(/\r\n/g, "\n").split("\n") : []
+
+/**
+ * Line diff of two texts based on their longest common subsequence. Adjacent
+ * lines of the same kind are grouped into one part, and within a change the
+ * removed lines come before the added ones.
+ */
+export function diffLines(
+  from: string | null | undefined,
+  to: string | null | undefined,
+): TextDiffPart[] {
+  const a = splitLines(from)
+  const b = splitLines(to)
+
+  let prefix = 0
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++
+  }
+  let suffix = 0
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++
+  }
+
+  const parts: TextDiffPart[] = []
+  const push = (type: TextDiffPart["type"], line: string) => {
+    const last = parts[parts.length - 1]
+    if (last?.type === type) {
+      last.lines.push(line)
+    } else {
+      parts.push({ type, lines: [line] })
+    }
+  }
+
+  a.slice(0, prefix).forEach((line) => push("unchanged", line))
+  for (const [type, line] of diffMiddle(
+    a.slice(prefix, a.length - suffix),
+    b.slice(prefix, b.length - suffix),
+  )) {
+    push(type, line)
+  }
+  a.slice(a.length - suffix).forEach((line) => push("unchanged", line))
+
+  return parts
+}
+
+function diffMiddle(
+  a: string[],
+  b: string[],
+): [TextDiffPart["type"], string][] {
+  if (a.length * b.length > MAX_TABLE_CELLS) {
+    return [
+      ...a.map((line): [TextDiffPart["type"], string] => ["removed", line]),
+      ...b.map((line): [TextDiffPart["type"], string] => ["added", line]),
+    ]
+  }
+
+  // lcs[i][j] is the LCS length of a[i..] and b[j..].
+  const lcs = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0),
+  )
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] =
+        a[i] === b[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+    }
+  }
+
+  const ops: [TextDiffPart["type"], string][] = []
+  let i = 0
+  let j = 0
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      ops.push(["unchanged", a[i]])
+      i++
+      j++
+    } else if (
+      j >= b.length ||
+      (i < a.length && lcs[i + 1][j] >= lcs[i][j + 1])
+    ) {
+      ops.push(["removed", a[i]])
+      i++
+    } else {
+      ops.push(["added", b[j]])
+      j++
+    }
+  }
+  return ops
+}
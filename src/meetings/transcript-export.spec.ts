@@ -0,0 +1,113 @@
+import type { MeetingTranscriptSegmentDto } from "./dto/meeting-transcript.dto"
+import {
+  buildCaptionCues,
+  formatTimestamp,
+  renderTranscript,
+} from "./transcript-export"
+
+const meeting = {
+  id: "event-1",
+  title: "Pricing review",
+  startTime: new Date("2025-11-19T15:00:00.000Z"),
+}
+
+const segment = (
+  index: number,
+  speaker: string,
+  text: string,
+  startSeconds: number | null,
+  endSeconds: number | null,
+  timedWords = false,
+): MeetingTranscriptSegmentDto => ({
+  index,
+  speakerId: null,
+  speaker,
+  speakerEmail: null,
+  text,
+  startSeconds,
+  endSeconds,
+  words:
+    timedWords && startSeconds !== null
+      ? text.split(" ").map((word, position) => ({
+          text: word,
+          startSeconds: startSeconds + position,
+          endSeconds: startSeconds + position + 0.8,
+        }))
+      : [],
+})
+
+const segments = [
+  segment(0, "Dana", "Let's <settle> pricing & tiers.", 61.5, 64),
+  segment(1, "Dana", "Starter first.", 64.2, null),
+  segment(2, "Sam", "Agreed.", 3700, 3701.25),
+]
+
+describe("transcript export", () => {
+  it("formats caption timestamps", () => {
+    expect(formatTimestamp(3723.4567, ",")).toBe("01:02:03,457")
+    expect(formatTimestamp(0.5, ".")).toBe("00:00:00.500")
+  })
+
+  it("renders SRT cues with speaker labels", () => {
+    expect(renderTranscript("srt", meeting, segments)).toBe(
+      [
+        "1\n00:01:01,500 --> 00:01:04,000\nDana: Let's <settle> pricing & tiers.\n",
+        "2\n00:01:04,200 --> 00:01:05,000\nDana: Starter first.\n",
+        "3\n01:01:40,000 --> 01:01:41,250\nSam: Agreed.\n",
+      ].join("\n"),
+    )
+  })
+
+  it("renders WebVTT with voice tags and escaped text", () => {
+    const vtt = renderTranscript("vtt", meeting, segments)
+
+    expect(vtt.startsWith("WEBVTT\n\n00:01:01.500 --> 00:01:04.000\n")).toBe(
+      true,
+    )
+    expect(vtt).toContain("<v Dana>Let's &lt;settle&gt; pricing &amp; tiers.")
+  })
+
+  it("merges speaker turns in text and Markdown", () => {
+    expect(renderTranscript("txt", meeting, segments)).toBe(
+      [
+        "Pricing review",
+        "2025-11-19 15:00 UTC",
+        "",
+        "[00:01:01] Dana: Let's <settle> pricing & tiers. Starter first.",
+        "[01:01:40] Sam: Agreed.",
+        "",
+      ].join("\n"),
+    )
+    expect(renderTranscript("md", meeting, segments)).toContain(
+      "**Sam** (01:01:40)\n\nAgreed.\n",
+    )
+  })
+
+  it("splits long segments into short cues on word timings", () => {
+    const long = segment(
+      0,
+      "Dana",
+      "one two three four five six seven eight nine ten",
+      10,
+      20,
+      true,
+    )
+
+    const cues = buildCaptionCues([long, segment(1, "Sam", "Hi", null, null)])
+
+    expect(cues).toEqual([
+      {
+        speaker: "Dana",
+        text: "one two three four five six seven eight",
+        startSeconds: 10,
+        endSeconds: 17.8,
+      },
+      {
+        speaker: "Dana",
+        text: "nine ten",
+        startSeconds: 18,
+        endSeconds: 19.8,
+      },
+    ])
+  })
+})
@@ -0,0 +1,242 @@
+import type {
+  MeetingTranscriptSegmentDto,
+  MeetingTranscriptWordDto,
+} from "./dto/meeting-transcript.dto"
+
+export const TRANSCRIPT_EXPORT_FORMATS = [
+  "srt",
+  "vtt",
+  "md",
+  "txt",
+  "json",
+] as const
+export type TranscriptExportFormat = (typeof TRANSCRIPT_EXPORT_FORMATS)[number]
+
+export const TRANSCRIPT_EXPORT_CONTENT_TYPES: Record<
+  TranscriptExportFormat,
+  string
+> = {
+  srt: "application/x-subrip; charset=utf-8",
+  vtt: "text/vtt; charset=utf-8",
+  md: "text/markdown; charset=utf-8",
+  txt: "text/plain; charset=utf-8",
+  json: "application/json; charset=utf-8",
+}
+
+export type TranscriptExportMeeting = {
+  id: string
+  title: string | null
+  startTime: Date
+}
+
+export type CaptionCue = {
+  startSeconds: number
+  endSeconds: number
+  speaker: string
+  text: string
+}
+
+// Caption cues stay short enough to read: two lines of ~42 characters.
+const MAX_CUE_SECONDS = 7
+const MAX_CUE_CHARS = 84
+// Reading time assumed when a segment has no end offset.
+const SECONDS_PER_WORD = 0.4
+const MIN_CUE_SECONDS = 0.5
+
+/**
+ * Renders stored transcript segments in one of the export formats. Offsets
+ * are relative to the start of the recording, so SRT and WebVTT line up with
+ * the meeting video.
+ */
+export function renderTranscript(
+  format: TranscriptExportFormat,
+  meeting: TranscriptExportMeeting,
+  segments: MeetingTranscriptSegmentDto[],
+): string {
+  switch (format) {
+    case "srt":
+      return buildCaptionCues(segments)
+        .map(
+          (cue, index) =>
+            `${index + 1}\n${formatTimestamp(cue.startSeconds, ",")} --> ${formatTimestamp(cue.endSeconds, ",")}\n${cue.speaker}: ${cue.text}\n`,
+        )
+        .join("\n")
+    case "vtt":
+      return [
+        "WEBVTT\n",
+        ...buildCaptionCues(segments).map(
+          (cue) =>
+            `${formatTimestamp(cue.startSeconds, ".")} --> ${formatTimestamp(cue.endSeconds, ".")}\n<v ${escapeVtt(cue.speaker)}>${escapeVtt(cue.text)}\n`,
+        ),
+      ].join("\n")
+    case "md":
+      return [
+        `# ${meeting.title ?? "Untitled meeting"}\n`,
+        `${formatMeetingDate(meeting.startTime)}\n`,
+        ...mergeTurns(segments).map(
+          (turn) =>
+            `**${turn.speaker}**${turn.startSeconds === null ? "" : ` (${formatClock(turn.startSeconds)})`}\n\n${turn.text}\n`,
+        ),
+      ].join("\n")
+    case "txt":
+      return [
+        meeting.title ?? "Untitled meeting",
+        formatMeetingDate(meeting.startTime),
+        "",
+        ...mergeTurns(segments).map(
+          (turn) =>
+            `${turn.startSeconds === null ? "" : `[${formatClock(turn.startSeconds)}] `}${turn.speaker}: ${turn.text}`,
+        ),
+        "",
+      ].join("\n")
+    case "json":
+      return JSON.stringify(
+        {
+          meetingId: meeting.id,
+          title: meeting.title,
+          startTime: meeting.startTime.toISOString(),
+          segments,
+        },
+        null,
+        2,
+      )
+  }
+}
+
+/**
+ * Splits segments into caption cues, on word timings when every word has
+ * one. Segments without a start offset cannot be placed and are skipped.
+ */
+export function buildCaptionCues(
+  segments: MeetingTranscriptSegmentDto[],
+): CaptionCue[] {
+  const cues: CaptionCue[] = []
+  segments.forEach((segment, position) => {
+    if (segment.startSeconds === null) {
+      return
+    }
+    const nextStart =
+      segments.slice(position + 1).find((next) => next.startSeconds !== null)
+        ?.startSeconds ?? null
+
+    if (
+      segment.words.length &&
+      segment.words.every((word) => word.startSeconds !== null)
+    ) {
+      let words: MeetingTranscriptWordDto[] = []
+      const flush = (followingStart: number | null) => {
+        if (!words.length) {
+          return
+        }
+        const last = words[words.length - 1]
+        cues.push(
+          cue(
+            segment.speaker,
+            words.map((word) => word.text).join(" "),
+            words[0].startSeconds!,
+            last.endSeconds,
+            followingStart,
+            words.length,
+          ),
+        )
+        words = []
+      }
+      for (const word of segment.words) {
+        const length = words.reduce(
+          (sum, item) => sum + item.text.length + 1,
+          0,
+        )
+        if (
+          words.length &&
+          (word.startSeconds! - words[0].startSeconds! > MAX_CUE_SECONDS ||
+            length + word.text.length > MAX_CUE_CHARS)
+        ) {
+          flush(word.startSeconds)
+        }
+        words.push(word)
+      }
+      flush(segment.endSeconds ?? nextStart)
+      return
+    }
+
+    cues.push(
+      cue(
+        segment.speaker,
+        segment.text,
+        segment.startSeconds,
+        segment.endSeconds,
+        nextStart,
+        segment.text.split(/\s+/).length,
+      ),
+    )
+  })
+  return cues
+}
+
+// Without an end offset the cue lasts its reading time, but not past
+// whatever starts next.
+function cue(
+  speaker: string,
+  text: string,
+  startSeconds: number,
+  endSeconds: number | null,
+  nextStart: number | null,
+  wordCount: number,
+): CaptionCue {
+  const end =
+    endSeconds ??
+    Math.min(
+      startSeconds + wordCount * SECONDS_PER_WORD,
+      nextStart ?? Number.POSITIVE_INFINITY,
+    )
+  return {
+    speaker,
+    text,
+    startSeconds,
+    endSeconds: Math.max(end, startSeconds + MIN_CUE_SECONDS),
+  }
+}
+
+function mergeTurns(segments: MeetingTranscriptSegmentDto[]) {
+  const turns: {
+    speaker: string
+    startSeconds: number | null
+    text: string
+  }[] = []
+  for (const segment of segments) {
+    const previous = turns[turns.length - 1]
+    if (previous?.speaker === segment.speaker) {
+      previous.text = `${previous.text} ${segment.text}`
+    } else {
+      turns.push({
+        speaker: segment.speaker,
+        startSeconds: segment.startSeconds,
+        text: segment.text,
+      })
+    }
+  }
+  return turns
+}
+
+/** `HH:MM:SS,mmm` (SRT) or `HH:MM:SS.mmm` (WebVTT). */
+export function formatTimestamp(seconds: number, separator: "," | ".") {
+  const millis = Math.round(seconds * 1000)
+  const hours = Math.floor(millis / 3_600_000)
+  const minutes = Math.floor((millis % 3_600_000) / 60_000)
+  const rest = Math.floor((millis % 60_000) / 1000)
+  return `${pad(hours)}:${pad(minutes)}:${pad(rest)}${separator}${String(millis % 1000).padStart(3, "0")}`
+}
+
+function formatClock(seconds: number) {
+  return formatTimestamp(seconds, ".").slice(0, 8)
+}
+
+function formatMeetingDate(date: Date) {
+  return `${date.toISOString().slice(0, 16).replace("T", " ")} UTC`
+}
+
+const pad = (value: number) => String(value).padStart(2, "0")
+
+function escapeVtt(text: string) {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;")
+}
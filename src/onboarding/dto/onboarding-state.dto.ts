@@ -1,6 +1,6 @@
 import { MeetingPreferenceDto } from "../../meetings/dto/meeting-preference.dto"
 
-export class OnboardingGoogleAccountDto {
+export class OnboardingCalendarAccountDto {
   id!: string
   providerAccountId!: string
   email!: string | null
@@ -9,6 +9,10 @@ export class OnboardingGoogleAccountDto {
   lastSyncedAt!: string | null
 }
 
+export class OnboardingGoogleAccountDto extends OnboardingCalendarAccountDto {}
+
+export class OnboardingMicrosoftAccountDto extends OnboardingCalendarAccountDto {}
+
 export class OnboardingSocialConnectionsDto {
   linkedin!: boolean
   facebook!: boolean
@@ -22,9 +26,11 @@ export class OnboardingAutomationPreferencesDto {
 
 export class OnboardingStateDto {
   hasGoogleCalendar!: boolean
+  hasMicrosoftCalendar!: boolean
   isComplete!: boolean
   completedAt!: string | null
   googleAccounts!: OnboardingGoogleAccountDto[]
+  microsoftAccounts!: OnboardingMicrosoftAccountDto[]
   socialConnections!: OnboardingSocialConnectionsDto
   meetingPreference!: MeetingPreferenceDto
   automationPreferences!: OnboardingAutomationPreferencesDto
@@ -8,9 +8,10 @@ import {
 import { PrismaService } from "../../prisma/prisma.service"
 import {
   OnboardingStateDto,
-  OnboardingGoogleAccountDto,
+  OnboardingCalendarAccountDto,
 } from "./dto/onboarding-state.dto"
 import { UpdateOnboardingPreferencesDto } from "./dto/update-onboarding-preferences.dto"
+import { CALENDAR_PROVIDERS } from "../calendar/calendar.constants"
 
 @Injectable()
 export class OnboardingService {
@@ -73,16 +74,16 @@ export class OnboardingService {
       })
 
       if (dto.completeOnboarding) {
-        const hasGoogleAccount = await tx.connectedAccount.count({
+        const hasCalendarAccount = await tx.connectedAccount.count({
           where: {
             userId,
-            provider: ConnectedProvider.GOOGLE_CALENDAR,
+            provider: { in: CALENDAR_PROVIDERS },
           },
         })
 
-        if (!hasGoogleAccount) {
+        if (!hasCalendarAccount) {
           throw new BadRequestException(
-            "Connect at least one Google Calendar to complete onboarding",
+            "Connect at least one calendar to complete onboarding",
           )
         }
 
@@ -135,16 +136,28 @@ export class OnboardingService {
       (account) => account.provider === ConnectedProvider.GOOGLE_CALENDAR,
     )
 
+    const microsoftAccounts = accounts.filter(
+      (account) => account.provider === ConnectedProvider.MICROSOFT_CALENDAR,
+    )
+
     const hasGoogleCalendar = googleAccounts.length > 0
+    const hasMicrosoftCalendar = microsoftAccounts.length > 0
+    const hasAnyCalendar = accounts.some((account) =>
+      CALENDAR_PROVIDERS.includes(account.provider),
+    )
 
     return {
       hasGoogleCalendar,
-      isComplete: hasGoogleCalendar && !!onboardingCompletedAt,
+      hasMicrosoftCalendar,
+      isComplete: hasAnyCalendar && !!onboardingCompletedAt,
       completedAt: onboardingCompletedAt
         ? onboardingCompletedAt.toISOString()
         : null,
       googleAccounts: googleAccounts.map((account) =>
-        this.toGoogleAccountDto(account),
+        this.toCalendarAccountDto(account),
+      ),
+      microsoftAccounts: microsoftAccounts.map((account) =>
+        this.toCalendarAccountDto(account),
       ),
       socialConnections: {
         linkedin: accounts.some(
@@ -166,9 +179,9 @@ export class OnboardingService {
     }
   }
 
-  private toGoogleAccountDto(
+  private toCalendarAccountDto(
     account: ConnectedAccount,
-  ): OnboardingGoogleAccountDto {
+  ): OnboardingCalendarAccountDto {
     const metadata = (account.metadata ?? null) as Record<
       string,
       unknown
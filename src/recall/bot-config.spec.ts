@@ -0,0 +1,81 @@
+import { BotRecordingMode } from "@prisma/client"
+import {
+  DEFAULT_BOT_ANNOUNCEMENT,
+  DEFAULT_BOT_NAME,
+  buildBotSettingsPayload,
+  mergeBotConfigOverrides,
+  readBotConfigOverrides,
+  resolveBotConfig,
+} from "./bot-config"
+
+const preference = {
+  botName: "Dana's Notetaker",
+  botAvatarUrl: "https://cdn.example.com/dana.jpg",
+  announceRecording: true,
+  botAnnouncement: null,
+  recordingMode: BotRecordingMode.VIDEO,
+  transcriptLanguage: "de",
+}
+
+describe("bot config", () => {
+  it("layers meeting overrides over preferences and defaults", () => {
+    expect(resolveBotConfig(null)).toEqual({
+      botName: DEFAULT_BOT_NAME,
+      avatarUrl: null,
+      announcement: DEFAULT_BOT_ANNOUNCEMENT,
+      recordingMode: BotRecordingMode.VIDEO,
+      transcriptLanguage: null,
+    })
+
+    expect(
+      resolveBotConfig(preference, {
+        announceRecording: false,
+        recordingMode: BotRecordingMode.AUDIO_ONLY,
+      }),
+    ).toEqual({
+      botName: "Dana's Notetaker",
+      avatarUrl: "https://cdn.example.com/dana.jpg",
+      announcement: null,
+      recordingMode: BotRecordingMode.AUDIO_ONLY,
+      transcriptLanguage: "de",
+    })
+  })
+
+  it("sets, keeps and clears stored overrides", () => {
+    const stored = readBotConfigOverrides({
+      botName: "Board bot",
+      recordingMode: "HOLOGRAM",
+      transcriptLanguage: "fr",
+    })
+    expect(stored).toEqual({ botName: "Board bot", transcriptLanguage: "fr" })
+
+    expect(
+      mergeBotConfigOverrides(stored, {
+        botName: undefined,
+        transcriptLanguage: null,
+        announceRecording: false,
+      }),
+    ).toEqual({ botName: "Board bot", announceRecording: false })
+  })
+
+  it("asks Recall for audio only and the chosen language", () => {
+    const config = resolveBotConfig(preference, {
+      recordingMode: BotRecordingMode.AUDIO_ONLY,
+    })
+
+    expect(buildBotSettingsPayload(config, "aGVsbG8=")).toEqual({
+      bot_name: "Dana's Notetaker",
+      recording_config: {
+        transcript: {
+          provider: { recallai_streaming: { language_code: "de" } },
+        },
+        video_mixed_mp4: null,
+        audio_mixed_mp3: {},
+      },
+      automatic_video_output: {
+        in_call_recording: { kind: "jpeg", b64_data: "aGVsbG8=" },
+        in_call_not_recording: { kind: "jpeg", b64_data: "aGVsbG8=" },
+      },
+    })
+  })
+})
@@ -0,0 +1,141 @@
+import { BotRecordingMode, MeetingPreference, Prisma } from "@prisma/client"
+
+export const DEFAULT_BOT_NAME = "Jump Notetaker"
+export const DEFAULT_BOT_ANNOUNCEMENT =
+  "Hello Everyone, I'm here to help you with the meeting, I'm recording the meeting and I'll be summarizing the meeting after it's over."
+export const BOT_NAME_MAX_LENGTH = 100
+export const BOT_ANNOUNCEMENT_MAX_LENGTH = 500
+export const TRANSCRIPT_LANGUAGE_PATTERN = /^[a-z]{2,3}(-[A-Za-z0-9]{2,8})?$/
+
+export const BOT_PREFERENCE_SELECT = {
+  botName: true,
+  botAvatarUrl: true,
+  announceRecording: true,
+  botAnnouncement: true,
+  recordingMode: true,
+  transcriptLanguage: true,
+} satisfies Prisma.MeetingPreferenceSelect
+
+export type BotPreference = Pick<
+  MeetingPreference,
+  keyof typeof BOT_PREFERENCE_SELECT
+>
+
+// Stored in `CalendarEvent.botConfig`; settings left out follow the owner's
+// preference.
+export type BotConfigOverrides = {
+  [K in keyof BotPreference]?: NonNullable<BotPreference[K]>
+}
+
+// Null clears a meeting's override.
+export type BotConfigChanges = {
+  [K in keyof BotPreference]?: BotPreference[K] | null
+}
+
+export type BotConfig = {
+  botName: string
+  avatarUrl: string | null
+  // Null when the bot joins without posting a chat message.
+  announcement: string | null
+  recordingMode: BotRecordingMode
+  // Null leaves the language to the transcription provider.
+  transcriptLanguage: string | null
+}
+
+const OVERRIDE_TYPES: Record<keyof BotPreference, (value: unknown) => boolean> =
+  {
+    botName: (value) => typeof value === "string",
+    botAvatarUrl: (value) => typeof value === "string",
+    announceRecording: (value) => typeof value === "boolean",
+    botAnnouncement: (value) => typeof value === "string",
+    recordingMode: (value) =>
+      Object.values(BotRecordingMode).includes(value as BotRecordingMode),
+    transcriptLanguage: (value) => typeof value === "string",
+  }
+
+export function readBotConfigOverrides(value: unknown): BotConfigOverrides {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return {}
+  }
+  const stored = value as Record<string, unknown>
+  return Object.fromEntries(
+    Object.entries(OVERRIDE_TYPES)
+      .filter(([key, isValid]) => isValid(stored[key]))
+      .map(([key]) => [key, stored[key]]),
+  ) as BotConfigOverrides
+}
+
+export function mergeBotConfigOverrides(
+  current: BotConfigOverrides,
+  changes: BotConfigChanges,
+): BotConfigOverrides {
+  const merged: Record<string, unknown> = { ...current }
+  for (const key of Object.keys(OVERRIDE_TYPES)) {
+    const value = changes[key as keyof BotPreference]
+    if (value === null) {
+      delete merged[key]
+    } else if (value !== undefined) {
+      merged[key] = value
+    }
+  }
+  return merged as BotConfigOverrides
+}
+
+export function resolveBotConfig(
+  preference: BotPreference | null,
+  overrides: BotConfigOverrides = {},
+): BotConfig {
+  const announce =
+    overrides.announceRecording ?? preference?.announceRecording ?? true
+  return {
+    botName: overrides.botName ?? preference?.botName ?? DEFAULT_BOT_NAME,
+    avatarUrl: overrides.botAvatarUrl ?? preference?.botAvatarUrl ?? null,
+    announcement: announce
+      ? (overrides.botAnnouncement ??
+        preference?.botAnnouncement ??
+        DEFAULT_BOT_ANNOUNCEMENT)
+      : null,
+    recordingMode:
+      overrides.recordingMode ??
+      preference?.recordingMode ??
+      BotRecordingMode.VIDEO,
+    transcriptLanguage:
+      overrides.transcriptLanguage ?? preference?.transcriptLanguage ?? null,
+  }
+}
+
+/**
+ * The part of a Recall bot request the bot settings control. `avatarJpeg` is
+ * the base64 image shown as the bot's camera; Recall only takes JPEG data.
+ */
+export function buildBotSettingsPayload(
+  config: BotConfig,
+  avatarJpeg: string | null = null,
+): Record<string, unknown> {
+  const transcript = {
+    provider: {
+      recallai_streaming: config.transcriptLanguage
+        ? { language_code: config.transcriptLanguage }
+        : {},
+    },
+  }
+  const payload: Record<string, unknown> = {
+    bot_name: config.botName,
+    recording_config:
+      config.recordingMode === BotRecordingMode.AUDIO_ONLY
+        ? { transcript, video_mixed_mp4: null, audio_mixed_mp3: {} }
+        : {
+            transcript,
+            video_mixed_mp4: {},
+            video_mixed_layout: "gallery_view_v2",
+          },
+  }
+  if (avatarJpeg) {
+    const image = { kind: "jpeg", b64_data: avatarJpeg }
+    payload.automatic_video_output = {
+      in_call_recording: image,
+      in_call_not_recording: image,
+    }
+  }
+  return payload
+}
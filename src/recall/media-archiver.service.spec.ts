@@ -0,0 +1,139 @@
+import type { HttpService } from "@nestjs/axios"
+import { MeetingMediaStatus, MeetingMediaType } from "@prisma/client"
+import type { PrismaService } from "../../prisma/prisma.service"
+import type { MediaStorageService } from "../storage/media-storage.service"
+import { MediaArchiverService } from "./media-archiver.service"
+import type { RecallService } from "./recall.service"
+
+// p-queue ships ESM only; the AI service chain pulls it in.
+jest.mock("p-queue", () => jest.fn())
+
+const firstArg = (mock: jest.Mock) => (mock.mock.calls as unknown[][])[0][0]
+
+const now = new Date("2025-11-22T10:00:00.000Z")
+
+const media = (overrides: Record<string, unknown> = {}) => ({
+  id: "media-1",
+  recallBotId: "bot-1",
+  type: MeetingMediaType.VIDEO,
+  status: MeetingMediaStatus.PENDING,
+  downloadUrl: "https://recall.example.com/video.mp4",
+  expiresAt: new Date(now.getTime() + 60 * 60_000),
+  storagePath: null,
+  archiveAttempts: 0,
+  nextArchiveAt: null,
+  recallBot: { id: "bot-1", calendarEventId: "event-1" },
+  ...overrides,
+})
+
+describe("MediaArchiverService", () => {
+  const prisma = {
+    meetingMedia: { findMany: jest.fn(), update: jest.fn() },
+  }
+  const http = { axiosRef: { get: jest.fn() } }
+  const mediaStorage = { isEnabled: true, upload: jest.fn() }
+  const recallService = { refreshMediaLinks: jest.fn() }
+  const service = new MediaArchiverService(
+    prisma as unknown as PrismaService,
+    http as unknown as HttpService,
+    mediaStorage as unknown as MediaStorageService,
+    recallService as unknown as RecallService,
+  )
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    jest.useFakeTimers({ now })
+    http.axiosRef.get.mockResolvedValue({
+      data: "stream",
+      headers: { "content-type": "video/mp4" },
+    })
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it("copies due media into the bucket and marks it stored", async () => {
+    prisma.meetingMedia.findMany.mockResolvedValue([media()])
+
+    await service.archivePendingMedia()
+
+    expect(firstArg(prisma.meetingMedia.findMany)).toMatchObject({
+      where: {
+        status: MeetingMediaStatus.PENDING,
+        OR: [{ nextArchiveAt: null }, { nextArchiveAt: { lte: now } }],
+      },
+    })
+    expect(mediaStorage.upload).toHaveBeenCalledWith(
+      "meetings/event-1/bot-1/video.mp4",
+      "stream",
+      { contentType: "video/mp4" },
+    )
+    expect(firstArg(prisma.meetingMedia.update)).toEqual({
+      where: { id: "media-1" },
+      data: {
+        status: MeetingMediaStatus.STORED,
+        storagePath: "meetings/event-1/bot-1/video.mp4",
+        contentType: "video/mp4",
+        archiveAttempts: 1,
+        archiveError: null,
+        nextArchiveAt: null,
+      },
+    })
+  })
+
+  it("asks Recall for a fresh link when the stored one is about to expire", async () => {
+    prisma.meetingMedia.findMany.mockResolvedValue([
+      media({ expiresAt: new Date(now.getTime() + 30_000) }),
+    ])
+    recallService.refreshMediaLinks.mockResolvedValue([
+      { id: "media-1", downloadUrl: "https://recall.example.com/fresh.mp4" },
+    ])
+
+    await service.archivePendingMedia()
+
+    expect(recallService.refreshMediaLinks).toHaveBeenCalledWith("bot-1")
+    expect(http.axiosRef.get).toHaveBeenCalledWith(
+      "https://recall.example.com/fresh.mp4",
+      expect.objectContaining({ responseType: "stream" }),
+    )
+  })
+
+  it("retries failed downloads with exponential backoff, then gives up", async () => {
+    http.axiosRef.get.mockRejectedValue(new Error("socket hang up"))
+    prisma.meetingMedia.findMany.mockResolvedValue([
+      media({ archiveAttempts: 2 }),
+    ])
+
+    await service.archivePendingMedia()
+
+    expect(mediaStorage.upload).not.toHaveBeenCalled()
+    expect(firstArg(prisma.meetingMedia.update)).toEqual({
+      where: { id: "media-1" },
+      data: {
+        status: MeetingMediaStatus.PENDING,
+        archiveAttempts: 3,
+        archiveError: "socket hang up",
+        // Third attempt: 2 minutes * 2^2.
+        nextArchiveAt: new Date(now.getTime() + 8 * 60_000),
+      },
+    })
+
+    prisma.meetingMedia.update.mockClear()
+    prisma.meetingMedia.findMany.mockResolvedValue([
+      media({ archiveAttempts: 4 }),
+    ])
+
+    await service.archivePendingMedia()
+
+    expect(firstArg(prisma.meetingMedia.update)).toEqual({
+      where: { id: "media-1" },
+      data: {
+        status: MeetingMediaStatus.FAILED,
+        archiveAttempts: 5,
+        archiveError: "socket hang up",
+        nextArchiveAt: null,
+      },
+    })
+  })
+})
@@ -0,0 +1,157 @@
+import { Injectable, Logger } from "@nestjs/common"
+import { HttpService } from "@nestjs/axios"
+import { Interval } from "@nestjs/schedule"
+import {
+  MeetingMedia,
+  MeetingMediaStatus,
+  MeetingMediaType,
+  RecallBot,
+} from "@prisma/client"
+import type { Readable } from "stream"
+import { PrismaService } from "../../prisma/prisma.service"
+import { MediaStorageService } from "../storage/media-storage.service"
+import { RecallService } from "./recall.service"
+import {
+  MEDIA_ARCHIVE_BATCH_SIZE,
+  MEDIA_ARCHIVE_DOWNLOAD_TIMEOUT_MS,
+  MEDIA_ARCHIVE_INTERVAL_MS,
+  MEDIA_ARCHIVE_MAX_ATTEMPTS,
+  MEDIA_ARCHIVE_RETRY_BASE_MS,
+} from "./recall.constants"
+
+type ArchivableMedia = MeetingMedia & { recallBot: RecallBot }
+
+const MEDIA_FILES: Record<
+  MeetingMediaType,
+  { name: string; contentType: string }
+> = {
+  TRANSCRIPT: { name: "transcript.json", contentType: "application/json" },
+  VIDEO: { name: "video.mp4", contentType: "video/mp4" },
+  AUDIO: { name: "audio.mp3", contentType: "audio/mpeg" },
+  PARTICIPANT_EVENTS: {
+    name: "participant-events.json",
+    contentType: "application/json",
+  },
+  METADATA: { name: "metadata.json", contentType: "application/json" },
+}
+
+/**
+ * Copies Recall media into our own bucket before Recall's links (and
+ * eventually the recordings) expire. Media moves PENDING → STORED once
+ * archived, or → FAILED after `MEDIA_ARCHIVE_MAX_ATTEMPTS` tries with
+ * exponential backoff.
+ */
+@Injectable()
+export class MediaArchiverService {
+  private readonly logger = new Logger(MediaArchiverService.name)
+  private archiveInFlight = false
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly http: HttpService,
+    private readonly mediaStorage: MediaStorageService,
+    private readonly recallService: RecallService,
+  ) {}
+
+  @Interval(MEDIA_ARCHIVE_INTERVAL_MS)
+  async archivePendingMedia() {
+    if (!this.mediaStorage.isEnabled || this.archiveInFlight) {
+      return
+    }
+    this.archiveInFlight = true
+    try {
+      const pending = await this.prisma.meetingMedia.findMany({
+        where: {
+          status: MeetingMediaStatus.PENDING,
+          OR: [{ nextArchiveAt: null }, { nextArchiveAt: { lte: new Date() } }],
+        },
+        include: { recallBot: true },
+        orderBy: { createdAt: "asc" },
+        take: MEDIA_ARCHIVE_BATCH_SIZE,
+      })
+
+      for (const media of pending) {
+        await this.archiveMedia(media)
+      }
+    } catch (error) {
+      this.logger.error(
+        `Media archival run failed: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      )
+    } finally {
+      this.archiveInFlight = false
+    }
+  }
+
+  private async archiveMedia(media: ArchivableMedia) {
+    const file = MEDIA_FILES[media.type]
+    const storagePath = `meetings/${media.recallBot.calendarEventId}/${media.recallBotId}/${file.name}`
+
+    try {
+      const sourceUrl = await this.resolveSourceUrl(media)
+      const upstream = await this.http.axiosRef.get<Readable>(sourceUrl, {
+        responseType: "stream",
+        timeout: MEDIA_ARCHIVE_DOWNLOAD_TIMEOUT_MS,
+      })
+      const contentType =
+        (upstream.headers["content-type"] as string | undefined) ??
+        file.contentType
+
+      await this.mediaStorage.upload(storagePath, upstream.data, {
+        contentType,
+      })
+      await this.prisma.meetingMedia.update({
+        where: { id: media.id },
+        data: {
+          status: MeetingMediaStatus.STORED,
+          storagePath,
+          contentType,
+          archiveAttempts: media.archiveAttempts + 1,
+          archiveError: null,
+          nextArchiveAt: null,
+        },
+      })
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      const attempts = media.archiveAttempts + 1
+      const exhausted = attempts >= MEDIA_ARCHIVE_MAX_ATTEMPTS
+      this.logger.warn(
+        `Failed to archive media ${media.id} (attempt ${attempts}): ${message}`,
+      )
+      await this.prisma.meetingMedia.update({
+        where: { id: media.id },
+        data: {
+          status: exhausted
+            ? MeetingMediaStatus.FAILED
+            : MeetingMediaStatus.PENDING,
+          archiveAttempts: attempts,
+          archiveError: message,
+          nextArchiveAt: exhausted
+            ? null
+            : new Date(
+                Date.now() + MEDIA_ARCHIVE_RETRY_BASE_MS * 2 ** (attempts - 1),
+              ),
+        },
+      })
+    }
+  }
+
+  // Recall links last a few hours; ask for fresh ones before using a stale one.
+  private async resolveSourceUrl(media: MeetingMedia) {
+    const expiresSoon =
+      !!media.expiresAt && media.expiresAt.getTime() <= Date.now() + 60_000
+    if (media.downloadUrl && !expiresSoon) {
+      return media.downloadUrl
+    }
+
+    const refreshed = await this.recallService.refreshMediaLinks(
+      media.recallBotId,
+    )
+    const current = refreshed.find((item) => item.id === media.id)
+    if (!current?.downloadUrl) {
+      throw new Error("Recall no longer provides a download link")
+    }
+    return current.downloadUrl
+  }
+}
@@ -1,9 +1,19 @@
 import { Injectable, Logger } from "@nestjs/common"
-import { Cron } from "@nestjs/schedule"
+import { Cron, CronExpression } from "@nestjs/schedule"
 import { RecallBotStatus } from "@prisma/client"
 import { PrismaService } from "../../prisma/prisma.service"
 import { RecallService } from "./recall.service"
+import {
+  RECALL_MEDIA_CAPTURE_RETRY_WINDOW_MS,
+  RECALL_RECONCILE_BATCH_SIZE,
+  RECALL_RECONCILE_STALE_MS,
+} from "./recall.constants"
 
+/**
+ * Status changes arrive through the Recall webhook; this only reconciles
+ * active bots that have gone quiet, in case a delivery was lost, and finished
+ * bots whose transcript was not ready when they were captured.
+ */
 @Injectable()
 export class RecallPollingService {
   private readonly logger = new Logger(RecallPollingService.name)
@@ -13,22 +23,33 @@ export class RecallPollingService {
     private readonly prisma: PrismaService,
     private readonly recallService: RecallService,
   ) {
-    this.batchSize = Number(process.env.RECALL_POLL_BATCH_SIZE ?? 25)
+    this.batchSize = Number(
+      process.env.RECALL_POLL_BATCH_SIZE ?? RECALL_RECONCILE_BATCH_SIZE,
+    )
   }
 
-  @Cron("*/15 * * * * *")
-  async pollActiveBots() {
+  @Cron(CronExpression.EVERY_5_MINUTES)
+  async reconcileStaleBots() {
+    const now = new Date()
+    const staleBefore = new Date(now.getTime() - RECALL_RECONCILE_STALE_MS)
     const bots = await this.prisma.recallBot.findMany({
       where: {
-        status: {
-          in: [
-            RecallBotStatus.SCHEDULED,
-            RecallBotStatus.JOINING,
-            RecallBotStatus.IN_CALL,
-          ],
-        },
+        OR: [
+          {
+            status: {
+              in: [RecallBotStatus.JOINING, RecallBotStatus.IN_CALL],
+            },
+          },
+          // Scheduled bots have nothing to report before they join.
+          { status: RecallBotStatus.SCHEDULED, joinAt: { lte: now } },
+        ],
+        AND: [
+          {
+            OR: [{ lastStatusAt: null }, { lastStatusAt: { lt: staleBefore } }],
+          },
+        ],
       },
-      orderBy: { createdAt: "asc" },
+      orderBy: { lastStatusAt: { sort: "asc", nulls: "first" } },
       take: this.batchSize,
       include: {
         calendarEvent: true,
@@ -46,5 +67,31 @@ export class RecallPollingService {
         )
       }
     }
+
+    const uncaptured = await this.prisma.recallBot.findMany({
+      where: {
+        status: RecallBotStatus.DONE,
+        mediaCapturedAt: null,
+        joinAt: {
+          gte: new Date(now.getTime() - RECALL_MEDIA_CAPTURE_RETRY_WINDOW_MS),
+        },
+        updatedAt: { lt: staleBefore },
+      },
+      orderBy: { updatedAt: "asc" },
+      take: this.batchSize,
+      select: { id: true },
+    })
+
+    for (const bot of uncaptured) {
+      try {
+        await this.recallService.captureBotMedia(bot.id)
+      } catch (error) {
+        this.logger.warn(
+          `Failed to capture media for bot ${bot.id}: ${
+            error instanceof Error ? error.message : String(error)
+          }`,
+        )
+      }
+    }
   }
 }
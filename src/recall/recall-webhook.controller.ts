@@ -0,0 +1,55 @@
+import {
+  Body,
+  Controller,
+  Headers,
+  HttpCode,
+  Logger,
+  Post,
+  Req,
+  type RawBodyRequest,
+} from "@nestjs/common"
+import type { Request } from "express"
+import { ApiTags } from "@nestjs/swagger"
+import { Public } from "nest-keycloak-connect"
+import {
+  RecallWebhookService,
+  type RecallWebhookPayload,
+} from "./recall-webhook.service"
+import { AppError } from "../errors/app-error"
+import { ErrorCodes } from "../errors/error-codes"
+
+@ApiTags("Recall")
+@Controller("recall/webhook")
+export class RecallWebhookController {
+  private readonly logger = new Logger(RecallWebhookController.name)
+
+  constructor(private readonly recallWebhooks: RecallWebhookService) {}
+
+  @Post()
+  @Public()
+  @HttpCode(200)
+  async handleWebhook(
+    @Req() req: RawBodyRequest<Request>,
+    @Body() payload: RecallWebhookPayload,
+    @Headers() headers: Record<string, string>,
+  ) {
+    if (!this.recallWebhooks.isEnabled) {
+      throw new AppError(ErrorCodes.SERVICE_UNAVAILABLE, {
+        params: { resource: "RecallWebhook" },
+      })
+    }
+
+    if (
+      !req.rawBody ||
+      !this.recallWebhooks.verifySignature(headers, req.rawBody)
+    ) {
+      this.logger.warn("Rejected Recall webhook with an invalid signature")
+      throw new AppError(ErrorCodes.UNAUTHORIZED, {
+        params: { resource: "RecallWebhook" },
+      })
+    }
+
+    const result = await this.recallWebhooks.handleEvent(payload)
+    return { success: true, handled: result.handled }
+  }
+}
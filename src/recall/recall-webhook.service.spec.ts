@@ -0,0 +1,106 @@
+import { ConfigService } from "@nestjs/config"
+import { createHmac } from "crypto"
+import {
+  RecallWebhookService,
+  type RecallWebhookPayload,
+} from "./recall-webhook.service"
+import type { RecallService } from "./recall.service"
+
+// p-queue ships ESM only; the AI service chain pulls it in.
+jest.mock("p-queue", () => jest.fn())
+
+const secretBytes = Buffer.from("recall-webhook-test-secret")
+const secret = `whsec_${secretBytes.toString("base64")}`
+
+const sign = (id: string, timestamp: string, body: string) =>
+  createHmac("sha256", secretBytes)
+    .update(`${id}.${timestamp}.${body}`)
+    .digest("base64")
+
+describe("RecallWebhookService", () => {
+  const recallService = {
+    handleBotStatusWebhook: jest.fn().mockResolvedValue(true),
+    handleRecordingDoneWebhook: jest.fn().mockResolvedValue(true),
+  }
+  const service = new RecallWebhookService(
+    { get: () => secret } as unknown as ConfigService,
+    recallService as unknown as RecallService,
+  )
+
+  const body = JSON.stringify({
+    event: "bot.status_change",
+    data: { bot_id: "bot-1", status: { code: "in_call_recording" } },
+  })
+  const now = () => String(Math.floor(Date.now() / 1000))
+
+  beforeEach(() => jest.clearAllMocks())
+
+  describe("verifySignature", () => {
+    it("accepts a valid signature among several", () => {
+      const timestamp = now()
+      const headers = {
+        "webhook-id": "msg_1",
+        "webhook-timestamp": timestamp,
+        "webhook-signature": `v1,bm90LWl0 v1,${sign("msg_1", timestamp, body)}`,
+      }
+      expect(service.verifySignature(headers, Buffer.from(body))).toBe(true)
+    })
+
+    it("rejects a tampered body", () => {
+      const timestamp = now()
+      const headers = {
+        "webhook-id": "msg_1",
+        "webhook-timestamp": timestamp,
+        "webhook-signature": `v1,${sign("msg_1", timestamp, body)}`,
+      }
+      expect(service.verifySignature(headers, Buffer.from(`${body} `))).toBe(
+        false,
+      )
+    })
+
+    it("rejects stale timestamps", () => {
+      const timestamp = String(Math.floor(Date.now() / 1000) - 60 * 60)
+      const headers = {
+        "webhook-id": "msg_1",
+        "webhook-timestamp": timestamp,
+        "webhook-signature": `v1,${sign("msg_1", timestamp, body)}`,
+      }
+      expect(service.verifySignature(headers, Buffer.from(body))).toBe(false)
+    })
+  })
+
+  describe("handleEvent", () => {
+    it("routes legacy and per-status bot events", async () => {
+      await service.handleEvent(JSON.parse(body) as RecallWebhookPayload)
+      await service.handleEvent({
+        event: "bot.done",
+        data: {
+          bot: { id: "bot-2" },
+          data: { code: "done", updated_at: "2025-11-18T10:00:00Z" },
+        },
+      })
+
+      expect(recallService.handleBotStatusWebhook).toHaveBeenNthCalledWith(
+        1,
+        "bot-1",
+        { code: "in_call_recording", sub_code: null, updated_at: undefined },
+      )
+      expect(recallService.handleBotStatusWebhook).toHaveBeenNthCalledWith(
+        2,
+        "bot-2",
+        { code: "done", sub_code: null, updated_at: "2025-11-18T10:00:00Z" },
+      )
+    })
+
+    it("captures media on recording.done", async () => {
+      const result = await service.handleEvent({
+        event: "recording.done",
+        data: { bot: { id: "bot-3" }, recording: { id: "rec-1" } },
+      })
+      expect(result.handled).toBe(true)
+      expect(recallService.handleRecordingDoneWebhook).toHaveBeenCalledWith(
+        "bot-3",
+      )
+    })
+  })
+})
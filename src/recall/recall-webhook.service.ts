@@ -0,0 +1,94 @@
+import { Injectable, Logger } from "@nestjs/common"
+import { ConfigService } from "@nestjs/config"
+import { Webhook, WebhookVerificationError } from "svix"
+import { RecallService, type RecallStatusChange } from "./recall.service"
+
+/**
+ * Verifies and dispatches Recall webhooks. Recall signs deliveries through
+ * Svix, so verification goes through the Svix library with the endpoint's
+ * `whsec_` secret.
+ */
+@Injectable()
+export class RecallWebhookService {
+  private readonly logger = new Logger(RecallWebhookService.name)
+  private readonly webhook: Webhook | null
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly recallService: RecallService,
+  ) {
+    const secret = this.configService.get<string>("RECALL_WEBHOOK_SECRET")
+    this.webhook = secret ? new Webhook(secret) : null
+  }
+
+  get isEnabled() {
+    return !!this.webhook
+  }
+
+  verifySignature(headers: Record<string, string>, rawBody: Buffer) {
+    if (!this.webhook) {
+      return false
+    }
+    try {
+      this.webhook.verify(rawBody, headers)
+      return true
+    } catch (error) {
+      if (error instanceof WebhookVerificationError) {
+        return false
+      }
+      throw error
+    }
+  }
+
+  async handleEvent(payload: RecallWebhookPayload) {
+    const botId = payload.data?.bot?.id ?? payload.data?.bot_id
+    if (!payload.event || !botId) {
+      return { handled: false, reason: "unsupported-event" as const }
+    }
+
+    if (payload.event === "recording.done") {
+      const handled = await this.recallService.handleRecordingDoneWebhook(botId)
+      return this.toResult(handled, payload.event, botId)
+    }
+
+    // Legacy deliveries use `bot.status_change`; current ones name the status
+    // in the event (`bot.joining_call`, `bot.done`, ...).
+    if (payload.event.startsWith("bot.")) {
+      const status = payload.data?.status ?? payload.data?.data
+      if (!status?.code) {
+        return { handled: false, reason: "unsupported-event" as const }
+      }
+      const handled = await this.recallService.handleBotStatusWebhook(botId, {
+        code: status.code,
+        sub_code: status.sub_code ?? null,
+        updated_at: status.updated_at ?? status.created_at,
+      })
+      return this.toResult(handled, payload.event, botId)
+    }
+
+    return { handled: false, reason: "unsupported-event" as const }
+  }
+
+  private toResult(handled: boolean, event: string, botId: string) {
+    if (!handled) {
+      this.logger.debug(`Ignoring Recall ${event} for unknown bot ${botId}`)
+      return { handled: false, reason: "unknown-bot" as const }
+    }
+    return { handled: true }
+  }
+}
+
+type RecallWebhookStatus = RecallStatusChange & {
+  created_at?: string
+}
+
+export type RecallWebhookPayload = {
+  event?: string
+  data?: {
+    bot_id?: string
+    bot?: { id?: string; metadata?: Record<string, unknown> }
+    status?: RecallWebhookStatus
+    data?: RecallWebhookStatus
+    recording?: { id?: string }
+  }
+}
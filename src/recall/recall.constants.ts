@@ -0,0 +1,14 @@
+export const RECALL_RECONCILE_STALE_MS = 10 * 60_000
+export const RECALL_RECONCILE_BATCH_SIZE = 25
+export const RECALL_MEDIA_CAPTURE_LOCK_MS = 10 * 60_000
+// Finished bots still missing a transcript are retried for this long.
+export const RECALL_MEDIA_CAPTURE_RETRY_WINDOW_MS = 24 * 60 * 60_000
+
+export const MEDIA_ARCHIVE_INTERVAL_MS = 60_000
+export const MEDIA_ARCHIVE_BATCH_SIZE = 5
+export const MEDIA_ARCHIVE_MAX_ATTEMPTS = 5
+export const MEDIA_ARCHIVE_RETRY_BASE_MS = 2 * 60_000
+export const MEDIA_ARCHIVE_DOWNLOAD_TIMEOUT_MS = 10 * 60_000
+
+export const BOT_AVATAR_FETCH_TIMEOUT_MS = 10_000
+export const BOT_AVATAR_MAX_BYTES = 2 * 1024 * 1024
@@ -2,11 +2,22 @@ import { Module } from "@nestjs/common"
 import { HttpModule } from "@nestjs/axios"
 import { RecallService } from "./recall.service"
 import { RecallPollingService } from "./recall-polling.service"
+import { RecallWebhookService } from "./recall-webhook.service"
+import { RecallWebhookController } from "./recall-webhook.controller"
+import { MediaArchiverService } from "./media-archiver.service"
 import { AiModule } from "../ai/ai.module"
+import { StorageModule } from "../storage/storage.module"
+import { TranscriptsModule } from "../transcripts/transcripts.module"
 
 @Module({
-  imports: [HttpModule, AiModule],
-  providers: [RecallService, RecallPollingService],
+  imports: [HttpModule, AiModule, StorageModule, TranscriptsModule],
+  controllers: [RecallWebhookController],
+  providers: [
+    RecallService,
+    RecallPollingService,
+    RecallWebhookService,
+    MediaArchiverService,
+  ],
   exports: [RecallService],
 })
 export class RecallModule {}
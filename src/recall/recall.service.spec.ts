@@ -3,8 +3,15 @@ import { ConfigService } from '@nestjs/config';
 import { HttpService } from '@nestjs/axios';
 import { PrismaService } from '../../prisma/prisma.service';
 import { RecallService } from './recall.service';
-import { AiContentService } from '../ai/ai-content.service';
-import { RecallBotStatus, CalendarEventStatus } from '@prisma/client';
+import { AiJobsService } from '../ai/ai-jobs.service';
+import { MediaStorageService } from '../storage/media-storage.service';
+import { TranscriptsService } from '../transcripts/transcripts.service';
+import { MeetingAnalyticsService } from '../transcripts/meeting-analytics.service';
+import {
+  RecallBotStatus,
+  CalendarEventStatus,
+  type CalendarEvent,
+} from '@prisma/client';
 import { mockRecallApi, createMockPrisma } from '../../test/helpers/mocks.helper';
 import { AppError } from '../errors/app-error';
 import { ErrorCodes } from '../errors/error-codes';
@@ -20,7 +27,7 @@ describe('RecallService', () => {
   let service: RecallService;
   let prisma: PrismaService;
   let httpService: HttpService;
-  let aiContent: AiContentService;
+  let aiJobs: AiJobsService;
   let configService: ConfigService;
 
   // Mock implementations
@@ -32,8 +39,14 @@ describe('RecallService', () => {
       delete: jest.fn(),
     },
   };
-  const mockAiContent = {
-    queueMeetingGeneration: jest.fn(),
+  const mockAiJobs = {
+    enqueueMeetingGeneration: jest.fn(),
+  };
+  const mockTranscripts = {
+    indexMeetingTranscript: jest.fn(),
+  };
+  const mockMeetingAnalytics = {
+    computeMeetingAnalytics: jest.fn(),
   };
   const mockConfigService = {
     getOrThrow: jest.fn((key: string) => {
@@ -66,8 +79,20 @@ describe('RecallService', () => {
           useValue: mockConfigService,
         },
         {
-          provide: AiContentService,
-          useValue: mockAiContent,
+          provide: AiJobsService,
+          useValue: mockAiJobs,
+        },
+        {
+          provide: MediaStorageService,
+          useValue: { isEnabled: false },
+        },
+        {
+          provide: TranscriptsService,
+          useValue: mockTranscripts,
+        },
+        {
+          provide: MeetingAnalyticsService,
+          useValue: mockMeetingAnalytics,
         },
       ],
     }).compile();
@@ -75,7 +100,7 @@ describe('RecallService', () => {
     service = module.get<RecallService>(RecallService);
     prisma = module.get<PrismaService>(PrismaService);
     httpService = module.get<HttpService>(HttpService);
-    aiContent = module.get<AiContentService>(AiContentService);
+    aiJobs = module.get<AiJobsService>(AiJobsService);
     configService = module.get<ConfigService>(ConfigService);
 
     // Reset all mocks
@@ -383,8 +408,12 @@ describe('RecallService', () => {
 
       (mockPrisma.recallBot.findUnique as jest.Mock).mockResolvedValue({
         ...bot,
-        calendarEvent: { id: 'event-1' },
+        status: RecallBotStatus.DONE,
       });
+      (mockPrisma.recallBot.updateMany as jest.Mock).mockResolvedValue({
+        count: 1,
+      });
+      mockTranscripts.indexMeetingTranscript.mockResolvedValue(12);
       (mockPrisma.meetingMedia.findFirst as jest.Mock).mockResolvedValue(null);
       (mockPrisma.meetingMedia.create as jest.Mock).mockResolvedValue({});
       (mockPrisma.calendarEvent.updateMany as jest.Mock).mockResolvedValue({
@@ -404,9 +433,100 @@ describe('RecallService', () => {
         where: { id: 'event-1' },
         data: { status: CalendarEventStatus.COMPLETED },
       });
-      expect(mockAiContent.queueMeetingGeneration).toHaveBeenCalledWith(
+      expect(mockTranscripts.indexMeetingTranscript).toHaveBeenCalledWith(
         'event-1',
       );
+      expect(mockPrisma.recallBot.update).toHaveBeenCalledWith({
+        where: { id: 'bot-123' },
+        data: { mediaCapturedAt: expect.any(Date) },
+      });
+      expect(mockAiJobs.enqueueMeetingGeneration).toHaveBeenCalledWith(
+        'event-1',
+      );
+    });
+
+    it('leaves the capture open while the transcript is missing', async () => {
+      // Arrange
+      (mockPrisma.recallBot.updateMany as jest.Mock).mockResolvedValue({
+        count: 1,
+      });
+      (mockPrisma.recallBot.findUnique as jest.Mock).mockResolvedValue({
+        id: 'bot-123',
+        status: RecallBotStatus.DONE,
+        calendarEventId: 'event-1',
+        metadata: null,
+      });
+      (mockHttpService.axiosRef.get as jest.Mock).mockResolvedValue({
+        data: { recordings: [] },
+      });
+      mockTranscripts.indexMeetingTranscript.mockResolvedValue(0);
+
+      // Act
+      await service.captureBotMedia('bot-123');
+
+      // Assert
+      expect(mockPrisma.recallBot.update).not.toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: { mediaCapturedAt: expect.any(Date) },
+        }),
+      );
+      expect(mockAiJobs.enqueueMeetingGeneration).not.toHaveBeenCalled();
+      // The claim is released so a later delivery or the poller can retry.
+      expect(mockPrisma.recallBot.update).toHaveBeenCalledWith({
+        where: { id: 'bot-123' },
+        data: { mediaCaptureStartedAt: null },
+      });
+    });
+
+    it('only stores media shortcuts until the bot is done', async () => {
+      // Arrange
+      (mockPrisma.recallBot.updateMany as jest.Mock).mockResolvedValue({
+        count: 1,
+      });
+      (mockPrisma.recallBot.findUnique as jest.Mock).mockResolvedValue({
+        id: 'bot-123',
+        status: RecallBotStatus.IN_CALL,
+        calendarEventId: 'event-1',
+        metadata: null,
+      });
+      (mockHttpService.axiosRef.get as jest.Mock).mockResolvedValue(
+        mockRecallApi.getBotWithMedia('bot-123'),
+      );
+      (mockPrisma.meetingMedia.findFirst as jest.Mock).mockResolvedValue(null);
+
+      // Act
+      await service.captureBotMedia('bot-123');
+
+      // Assert
+      expect(mockPrisma.meetingMedia.create).toHaveBeenCalled();
+      expect(mockPrisma.calendarEvent.updateMany).not.toHaveBeenCalled();
+      expect(mockTranscripts.indexMeetingTranscript).not.toHaveBeenCalled();
+      expect(mockAiJobs.enqueueMeetingGeneration).not.toHaveBeenCalled();
+    });
+
+    it('skips a capture another delivery already claimed', async () => {
+      // Arrange
+      (mockPrisma.recallBot.updateMany as jest.Mock).mockResolvedValue({
+        count: 0,
+      });
+
+      // Act
+      await service.captureBotMedia('bot-123');
+
+      // Assert
+      expect(mockPrisma.recallBot.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: 'bot-123',
+          mediaCapturedAt: null,
+          OR: [
+            { mediaCaptureStartedAt: null },
+            { mediaCaptureStartedAt: { lt: expect.any(Date) } },
+          ],
+        },
+        data: { mediaCaptureStartedAt: expect.any(Date) },
+      });
+      expect(mockHttpService.axiosRef.get).not.toHaveBeenCalled();
+      expect(mockPrisma.recallBot.update).not.toHaveBeenCalled();
     });
 
     it('should handle API errors gracefully', async () => {
@@ -430,6 +550,68 @@ describe('RecallService', () => {
     });
   });
 
+  describe('bot avatar', () => {
+    const event = {
+      id: 'event-1',
+      userId: 'user-1',
+      meetingUrl: 'https://zoom.us/j/123456',
+      startTime: new Date(Date.now() + 3600000),
+      meetingPlatform: 'ZOOM' as const,
+    };
+
+    const scheduleWithAvatar = async (botAvatarUrl: string) => {
+      (mockPrisma.recallBot.findUnique as jest.Mock).mockResolvedValue(null);
+      (mockPrisma.meetingPreference.findUnique as jest.Mock).mockResolvedValue(
+        { leadMinutes: 10, botAvatarUrl },
+      );
+      (mockHttpService.axiosRef.post as jest.Mock).mockResolvedValue(
+        mockRecallApi.createBot('bot-123'),
+      );
+      (mockPrisma.recallBot.create as jest.Mock).mockResolvedValue({
+        id: 'bot-123',
+      });
+      await service.ensureBotScheduled(event as unknown as CalendarEvent);
+      const [, payload] = mockHttpService.axiosRef.post.mock.calls[0] as [
+        string,
+        Record<string, unknown>,
+      ];
+      return payload;
+    };
+
+    it('refuses avatar URLs that point at a private address', async () => {
+      // Act
+      const payload = await scheduleWithAvatar('https://10.0.0.5/avatar.jpg');
+
+      // Assert
+      expect(mockHttpService.axiosRef.get).not.toHaveBeenCalled();
+      expect(payload.automatic_video_output).toBeUndefined();
+    });
+
+    it('refuses redirects from the avatar host to a private address', async () => {
+      // Arrange
+      (mockHttpService.axiosRef.get as jest.Mock).mockRejectedValue(
+        new Error('Refusing to connect'),
+      );
+
+      // Act
+      const payload = await scheduleWithAvatar(
+        'https://cdn.example.com/avatar.jpg',
+      );
+
+      // Assert
+      const [url, options] = mockHttpService.axiosRef.get.mock.calls[0] as [
+        string,
+        { lookup: unknown; beforeRedirect: (options: object) => void },
+      ];
+      expect(url).toBe('https://cdn.example.com/avatar.jpg');
+      expect(options.lookup).toEqual(expect.any(Function));
+      expect(() =>
+        options.beforeRedirect({ hostname: '169.254.169.254' }),
+      ).toThrow('private address');
+      expect(payload.automatic_video_output).toBeUndefined();
+    });
+  });
+
   describe('proxyMediaDownload', () => {
     it('should stream media from download URL', async () => {
       // Arrange
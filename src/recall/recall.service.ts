@@ -14,9 +14,26 @@ import {
 } from "@prisma/client"
 import { AxiosRequestConfig, isAxiosError } from "axios"
 import type { Response } from "express"
-import { AiContentService } from "../ai/ai-content.service"
+import type { Readable } from "stream"
+import { AiJobsService } from "../ai/ai-jobs.service"
+import { MediaStorageService } from "../storage/media-storage.service"
+import { TranscriptsService } from "../transcripts/transcripts.service"
+import { MeetingAnalyticsService } from "../transcripts/meeting-analytics.service"
 import { AppError } from "../errors/app-error"
 import { ErrorCodes } from "../errors/error-codes"
+import { publicRequestOptions } from "../integrations/calendar-feeds/public-address"
+import {
+  BOT_PREFERENCE_SELECT,
+  BotConfig,
+  buildBotSettingsPayload,
+  readBotConfigOverrides,
+  resolveBotConfig,
+} from "./bot-config"
+import {
+  BOT_AVATAR_FETCH_TIMEOUT_MS,
+  BOT_AVATAR_MAX_BYTES,
+  RECALL_MEDIA_CAPTURE_LOCK_MS,
+} from "./recall.constants"
 
 @Injectable()
 export class RecallService {
@@ -29,7 +46,10 @@ export class RecallService {
     private readonly configService: ConfigService,
     private readonly http: HttpService,
     private readonly prisma: PrismaService,
-    private readonly aiContent: AiContentService,
+    private readonly aiJobs: AiJobsService,
+    private readonly mediaStorage: MediaStorageService,
+    private readonly transcripts: TranscriptsService,
+    private readonly meetingAnalytics: MeetingAnalyticsService,
   ) {
     this.apiKey = this.configService.getOrThrow<string>("RECALL_API_KEY")
     const region =
@@ -71,9 +91,19 @@ export class RecallService {
       })
     }
 
+    // The same meeting may be on several of the user's calendars; one bot is
+    // enough for all of them.
+    const duplicateBot = await this.findActiveDuplicateBot(event)
+    if (duplicateBot) {
+      this.logger.debug(
+        `Skipping scheduling for event ${event.id}: Recall bot ${duplicateBot.id} already covers event ${duplicateBot.calendarEventId}`,
+      )
+      return duplicateBot
+    }
+
     const preference = await this.prisma.meetingPreference.findUnique({
       where: { userId: event.userId },
-      select: { leadMinutes: true },
+      select: { leadMinutes: true, ...BOT_PREFERENCE_SELECT },
     })
     const leadMinutes = preference?.leadMinutes ?? this.leadMinutesDefault
 
@@ -97,22 +127,17 @@ export class RecallService {
       joinAtPayload = undefined
     }
 
+    const config = resolveBotConfig(
+      preference,
+      readBotConfigOverrides(event.botConfig),
+    )
     const payload: Record<string, unknown> = {
       meeting_url: event.meetingUrl,
-      bot_name: "Jump Notetaker",
+      ...(await this.buildBotSettings(config)),
       metadata: {
         calendarEventId: event.id,
         userId: event.userId,
       },
-      recording_config: {
-        transcript: {
-          provider: {
-            recallai_streaming: {},
-          },
-        },
-        video_mixed_mp4: {},
-        video_mixed_layout: "gallery_view_v2",
-      },
     }
 
     if (joinAtPayload) {
@@ -142,6 +167,38 @@ export class RecallService {
     return bot
   }
 
+  /**
+   * Sends changed bot settings to a bot that has not joined yet. Bots already
+   * in the meeting keep their name and recording setup.
+   */
+  async updateScheduledBot(event: CalendarEvent) {
+    const bot = await this.prisma.recallBot.findUnique({
+      where: { calendarEventId: event.id },
+    })
+    if (!bot || bot.status !== RecallBotStatus.SCHEDULED) {
+      return
+    }
+
+    await this.patchBotSettings(bot.id, event)
+  }
+
+  /**
+   * Sends a user's changed bot preferences to their upcoming scheduled bots.
+   * Settings a meeting overrides keep the override.
+   */
+  async updateScheduledBotsForUser(userId: string) {
+    const bots = await this.prisma.recallBot.findMany({
+      where: {
+        status: RecallBotStatus.SCHEDULED,
+        calendarEvent: { userId, startTime: { gt: new Date() } },
+      },
+      include: { calendarEvent: true },
+    })
+    for (const bot of bots) {
+      await this.patchBotSettings(bot.id, bot.calendarEvent)
+    }
+  }
+
   async cancelBotForEvent(eventId: string) {
     const bot = await this.prisma.recallBot.findUnique({
       where: { calendarEventId: eventId },
@@ -181,6 +238,26 @@ export class RecallService {
     })
   }
 
+  private async findActiveDuplicateBot(event: CalendarEvent) {
+    return this.prisma.recallBot.findFirst({
+      where: {
+        status: {
+          in: [
+            RecallBotStatus.SCHEDULED,
+            RecallBotStatus.JOINING,
+            RecallBotStatus.IN_CALL,
+          ],
+        },
+        calendarEvent: {
+          id: { not: event.id },
+          userId: event.userId,
+          deduplicationKey: event.deduplicationKey,
+          deletedAt: null,
+        },
+      },
+    })
+  }
+
   async pollBotStatus(bot: RecallBotWithEvent) {
     let response: { data: RecallBotApiResponse }
     try {
@@ -200,8 +277,56 @@ export class RecallService {
       return
     }
 
+    await this.applyBotStatus(bot, latestStatus)
+  }
+
+  /**
+   * Applies a `bot.*` status webhook. Returns false when the bot is not one
+   * of ours so the caller can acknowledge without retrying.
+   */
+  async handleBotStatusWebhook(botId: string, status: RecallStatusChange) {
+    const bot = await this.prisma.recallBot.findUnique({
+      where: { id: botId },
+      include: { calendarEvent: true },
+    })
+    if (!bot) {
+      return false
+    }
+
+    // Deliveries are not ordered; never step back to an older status.
+    const previous = this.parseBotMetadata(bot).lastStatus?.updated_at
+    if (
+      typeof previous === "string" &&
+      status.updated_at &&
+      new Date(status.updated_at).getTime() < new Date(previous).getTime()
+    ) {
+      return true
+    }
+
+    await this.applyBotStatus(bot, status)
+    return true
+  }
+
+  async handleRecordingDoneWebhook(botId: string) {
+    const bot = await this.prisma.recallBot.findUnique({
+      where: { id: botId },
+    })
+    if (!bot) {
+      return false
+    }
+
+    await this.touchBotStatus(bot.id)
+    await this.captureBotMedia(bot.id)
+    return true
+  }
+
+  private async applyBotStatus(
+    bot: RecallBotWithEvent,
+    latestStatus: RecallStatusChange,
+  ) {
     const mappedStatus = this.mapRecallStatus(latestStatus.code)
     if (!mappedStatus) {
+      await this.touchBotStatus(bot.id)
       return
     }
 
@@ -209,6 +334,8 @@ export class RecallService {
     if (statusChanged) {
       await this.markBotStatus(bot, mappedStatus, latestStatus)
       bot.status = mappedStatus
+    } else {
+      await this.touchBotStatus(bot.id)
     }
 
     await this.maybeAnnounceRecordingStart(bot)
@@ -243,6 +370,7 @@ export class RecallService {
       data: {
         status,
         metadata: serialized,
+        lastStatusAt: new Date(),
       },
     })
 
@@ -251,67 +379,124 @@ export class RecallService {
       : (null as Prisma.JsonValue)
   }
 
+  // Records that Recall reported in, so reconciliation polling skips the bot.
+  private async touchBotStatus(botId: string) {
+    await this.prisma.recallBot.update({
+      where: { id: botId },
+      data: { lastStatusAt: new Date() },
+    })
+  }
+
   private shouldResetBot(status: RecallBotStatus) {
     return (
       status === RecallBotStatus.CANCELLED || status === RecallBotStatus.FATAL
     )
   }
 
-  private async captureBotMedia(botId: string) {
-    const response = await this.http.axiosRef.get(
-      `${this.apiBaseUrl}/bot/${botId}`,
-      {
-        headers: this.authHeaders,
+  /**
+   * Stores the bot's media links and, once the bot is done, its transcript,
+   * analytics and AI content. `recording.done` may arrive while the bot is
+   * still in the call; the final `bot.done` capture then finishes the job.
+   * Captures that found no transcript yet are retried by reconciliation.
+   */
+  async captureBotMedia(botId: string) {
+    // Claimed in one statement, so `recording.done` and `bot.done` never
+    // capture side by side.
+    const claimed = await this.prisma.recallBot.updateMany({
+      where: {
+        id: botId,
+        mediaCapturedAt: null,
+        OR: [
+          { mediaCaptureStartedAt: null },
+          {
+            mediaCaptureStartedAt: {
+              lt: new Date(Date.now() - RECALL_MEDIA_CAPTURE_LOCK_MS),
+            },
+          },
+        ],
       },
-    )
+      data: { mediaCaptureStartedAt: new Date() },
+    })
+    if (!claimed.count) {
+      return
+    }
+
+    try {
+      await this.runMediaCapture(botId)
+    } finally {
+      await this.prisma.recallBot.update({
+        where: { id: botId },
+        data: { mediaCaptureStartedAt: null },
+      })
+    }
+  }
+
+  private async runMediaCapture(botId: string) {
     const recallBot = await this.prisma.recallBot.findUnique({
       where: { id: botId },
-      include: { calendarEvent: true },
     })
     if (!recallBot) {
       this.logger.warn(`Received media for unknown bot ${botId}`)
       return
     }
+    const eventId = recallBot.calendarEventId
 
-    const recordings = response.data?.recordings ?? []
-    for (const recording of recordings) {
-      const shortcuts = recording?.media_shortcuts ?? {}
-      await this.upsertMeetingMedia(
-        botId,
-        MeetingMediaType.TRANSCRIPT,
-        shortcuts.transcript,
-        recording,
-      )
-      await this.upsertMeetingMedia(
-        botId,
-        MeetingMediaType.VIDEO,
-        shortcuts.video_mixed,
-        recording,
+    const response = await this.http.axiosRef.get(
+      `${this.apiBaseUrl}/bot/${botId}`,
+      {
+        headers: this.authHeaders,
+      },
+    )
+
+    await this.storeRecordingMedia(botId, response.data?.recordings ?? [])
+
+    if (recallBot.status !== RecallBotStatus.DONE) {
+      return
+    }
+
+    await this.prisma.calendarEvent.updateMany({
+      where: { id: eventId },
+      data: { status: CalendarEventStatus.COMPLETED },
+    })
+
+    // Search works without the AI content, so index the transcript right away.
+    let segments = 0
+    try {
+      segments = await this.transcripts.indexMeetingTranscript(eventId)
+    } catch (error) {
+      this.logger.error(
+        `Failed to index transcript for event ${eventId}: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
       )
-      await this.upsertMeetingMedia(
-        botId,
-        MeetingMediaType.PARTICIPANT_EVENTS,
-        shortcuts.participant_events,
-        recording,
+    }
+    if (!segments) {
+      this.logger.debug(
+        `No transcript stored yet for event ${eventId}; capture will be retried`,
       )
-      await this.upsertMeetingMedia(
-        botId,
-        MeetingMediaType.METADATA,
-        shortcuts.meeting_metadata,
-        recording,
+      return
+    }
+
+    try {
+      await this.meetingAnalytics.computeMeetingAnalytics(eventId)
+    } catch (error) {
+      this.logger.error(
+        `Failed to compute analytics for event ${eventId}: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
       )
     }
 
-    await this.prisma.calendarEvent.updateMany({
-      where: { id: recallBot.calendarEventId },
-      data: { status: CalendarEventStatus.COMPLETED },
+    await this.prisma.recallBot.update({
+      where: { id: botId },
+      data: { mediaCapturedAt: new Date() },
     })
 
     try {
-      this.aiContent.queueMeetingGeneration(recallBot.calendarEventId)
+      await this.aiJobs.enqueueMeetingGeneration(eventId)
     } catch (error) {
       this.logger.error(
-        `Failed to enqueue AI job for event ${recallBot.calendarEventId}: ${
+        `Failed to enqueue AI job for event ${eventId}: ${
           error instanceof Error ? error.message : String(error)
         }`,
       )
@@ -333,8 +518,21 @@ export class RecallService {
       return
     }
 
+    const event =
+      bot.calendarEvent ??
+      (await this.prisma.calendarEvent.findUnique({
+        where: { id: bot.calendarEventId },
+      }))
+    if (!event) {
+      return
+    }
+    const { announcement } = await this.resolveEventBotConfig(event)
+    if (!announcement) {
+      return
+    }
+
     try {
-      await this.announceRecordingStart(bot.id)
+      await this.announceRecordingStart(bot.id, announcement)
       await this.markRecordingAnnouncementSent(bot)
     } catch (error) {
       this.logger.warn(
@@ -345,12 +543,11 @@ export class RecallService {
     }
   }
 
-  private async announceRecordingStart(botId: string) {
+  private async announceRecordingStart(botId: string, message: string) {
     await this.http.axiosRef.post(
       `${this.apiBaseUrl}/bot/${botId}/send_chat_message/`,
       {
-        message:
-          "Hello Everyone, I'm here to help you with the meeting, I'm recording the meeting and I'll be summarizing the meeting after it's over.",
+        message,
         to: "everyone",
       },
       {
@@ -377,6 +574,71 @@ export class RecallService {
       : (null as Prisma.JsonValue)
   }
 
+  private async patchBotSettings(
+    botId: string,
+    event: Pick<CalendarEvent, "userId" | "botConfig">,
+  ) {
+    const config = await this.resolveEventBotConfig(event)
+    try {
+      await this.http.axiosRef.patch(
+        `${this.apiBaseUrl}/bot/${botId}/`,
+        await this.buildBotSettings(config),
+        { headers: this.authHeaders },
+      )
+    } catch (error) {
+      this.logger.warn(
+        `Failed to update Recall bot ${botId} settings: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      )
+    }
+  }
+
+  private async resolveEventBotConfig(
+    event: Pick<CalendarEvent, "userId" | "botConfig">,
+  ) {
+    const preference = await this.prisma.meetingPreference.findUnique({
+      where: { userId: event.userId },
+      select: BOT_PREFERENCE_SELECT,
+    })
+    return resolveBotConfig(preference, readBotConfigOverrides(event.botConfig))
+  }
+
+  private async buildBotSettings(config: BotConfig) {
+    const avatar = config.avatarUrl
+      ? await this.loadBotAvatar(config.avatarUrl)
+      : null
+    return buildBotSettingsPayload(config, avatar)
+  }
+
+  // A bot without its avatar still records, so failures only get logged.
+  private async loadBotAvatar(url: string): Promise<string | null> {
+    try {
+      // The URL comes from the user, so it must not reach internal hosts.
+      const response = await this.http.axiosRef.get<ArrayBuffer>(url, {
+        ...publicRequestOptions(url),
+        responseType: "arraybuffer",
+        timeout: BOT_AVATAR_FETCH_TIMEOUT_MS,
+        maxContentLength: BOT_AVATAR_MAX_BYTES,
+      })
+      const contentType = String(response.headers["content-type"] ?? "")
+      if (!contentType.startsWith("image/jpeg")) {
+        this.logger.warn(
+          `Skipping bot avatar ${url}: expected a JPEG image, got ${contentType || "no content type"}`,
+        )
+        return null
+      }
+      return Buffer.from(response.data).toString("base64")
+    } catch (error) {
+      this.logger.warn(
+        `Failed to load bot avatar ${url}: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      )
+      return null
+    }
+  }
+
   private async getBotStartTime(bot: RecallBotWithEvent): Promise<Date | null> {
     if (bot.calendarEvent?.startTime) {
       return bot.calendarEvent.startTime
@@ -390,6 +652,45 @@ export class RecallService {
     return event?.startTime ?? null
   }
 
+  private async storeRecordingMedia(
+    botId: string,
+    recordings: RecallRecording[],
+  ) {
+    for (const recording of recordings) {
+      const shortcuts = recording?.media_shortcuts ?? {}
+      await this.upsertMeetingMedia(
+        botId,
+        MeetingMediaType.TRANSCRIPT,
+        shortcuts.transcript,
+        recording,
+      )
+      await this.upsertMeetingMedia(
+        botId,
+        MeetingMediaType.VIDEO,
+        shortcuts.video_mixed,
+        recording,
+      )
+      await this.upsertMeetingMedia(
+        botId,
+        MeetingMediaType.AUDIO,
+        shortcuts.audio_mixed,
+        recording,
+      )
+      await this.upsertMeetingMedia(
+        botId,
+        MeetingMediaType.PARTICIPANT_EVENTS,
+        shortcuts.participant_events,
+        recording,
+      )
+      await this.upsertMeetingMedia(
+        botId,
+        MeetingMediaType.METADATA,
+        shortcuts.meeting_metadata,
+        recording,
+      )
+    }
+  }
+
   private async upsertMeetingMedia(
     botId: string,
     type: MeetingMediaType,
@@ -406,19 +707,27 @@ export class RecallService {
 
     const mediaPayload = (shortcut as Prisma.InputJsonValue) ?? Prisma.JsonNull
     const expiresAt = shortcut.expires_at ? new Date(shortcut.expires_at) : null
+    // Media waits for the archiver when our bucket is configured. Archived
+    // copies stay STORED and media the archiver gave up on stays FAILED; both
+    // only get a fresh Recall link.
+    let status: MeetingMediaStatus = MeetingMediaStatus.PENDING
+    if (existing?.storagePath || !this.mediaStorage.isEnabled) {
+      status = MeetingMediaStatus.STORED
+    } else if (existing?.status === MeetingMediaStatus.FAILED) {
+      status = MeetingMediaStatus.FAILED
+    }
     const mediaCreate: Prisma.MeetingMediaUncheckedCreateInput = {
       recallBotId: botId,
       type,
-      status: MeetingMediaStatus.STORED,
+      status,
       downloadUrl: shortcut.data.download_url,
       storagePath: null,
       payload: mediaPayload,
       expiresAt,
     }
     const mediaUpdate: Prisma.MeetingMediaUncheckedUpdateInput = {
-      status: MeetingMediaStatus.STORED,
+      status,
       downloadUrl: shortcut.data.download_url,
-      storagePath: null,
       payload: mediaPayload,
       expiresAt,
       type,
@@ -434,6 +743,21 @@ export class RecallService {
     }
   }
 
+  /**
+   * Re-reads the bot's recordings to replace expired Recall download links.
+   * Returns the bot's media rows afterwards.
+   */
+  async refreshMediaLinks(botId: string): Promise<MeetingMedia[]> {
+    const response: { data: RecallBotApiResponse } =
+      await this.http.axiosRef.get(`${this.apiBaseUrl}/bot/${botId}`, {
+        headers: this.authHeaders,
+      })
+    await this.storeRecordingMedia(botId, response.data?.recordings ?? [])
+    return this.prisma.meetingMedia.findMany({
+      where: { recallBotId: botId },
+    })
+  }
+
   async refreshVideoMedia(botId: string): Promise<MeetingMedia | null> {
     let response: { data: RecallBotApiResponse }
     try {
@@ -478,6 +802,11 @@ export class RecallService {
     response: Response,
     options?: { fallbackContentType?: string },
   ) {
+    if (media.storagePath && this.mediaStorage.isEnabled) {
+      await this.proxyArchivedMedia(media, media.storagePath, response, options)
+      return
+    }
+
     if (!media.downloadUrl) {
       throw new AppError(ErrorCodes.NOT_FOUND, {
         params: { resource: "MeetingMedia" },
@@ -511,6 +840,39 @@ export class RecallService {
       })
     }
   }
+
+  private async proxyArchivedMedia(
+    media: MeetingMedia,
+    storagePath: string,
+    response: Response,
+    options?: { fallbackContentType?: string },
+  ) {
+    try {
+      const object = await this.mediaStorage.getObject(storagePath)
+      response.setHeader(
+        "Content-Type",
+        object.ContentType ??
+          media.contentType ??
+          options?.fallbackContentType ??
+          "application/octet-stream",
+      )
+      if (object.ContentLength !== undefined) {
+        response.setHeader("Content-Length", String(object.ContentLength))
+      }
+      const body = object.Body as Readable
+      body.pipe(response)
+    } catch (error) {
+      this.logger.error(
+        `Failed to read archived media ${media.id}: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      )
+      throw new AppError(ErrorCodes.SERVICE_UNAVAILABLE, {
+        params: { resource: "MeetingMedia" },
+      })
+    }
+  }
+
   private extractLatestStatus(
     payload: RecallBotApiResponse,
   ): RecallStatusChange | null {
@@ -582,7 +944,7 @@ type RecallRecording = {
   media_shortcuts?: Record<string, RecallMediaShortcut>
 }
 
-type RecallStatusChange = {
+export type RecallStatusChange = {
   code: string
   sub_code?: string | null
   updated_at?: string
@@ -0,0 +1,111 @@
+import { Injectable, Logger } from "@nestjs/common"
+import { ConfigService } from "@nestjs/config"
+import {
+  GetObjectCommand,
+  S3Client,
+  type GetObjectCommandOutput,
+} from "@aws-sdk/client-s3"
+import { Upload } from "@aws-sdk/lib-storage"
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner"
+import type { Readable } from "stream"
+
+/**
+ * Thin wrapper around an S3-compatible bucket (AWS S3 in production, MinIO
+ * locally) that holds our own copies of meeting media. Disabled when no
+ * bucket is configured, in which case callers keep using Recall's links.
+ */
+@Injectable()
+export class MediaStorageService {
+  private readonly logger = new Logger(MediaStorageService.name)
+  private readonly client: S3Client | null
+  private readonly bucket: string | null
+  private readonly signedUrlTtlSeconds: number
+
+  constructor(private readonly configService: ConfigService) {
+    this.bucket = this.configService.get<string>("MEDIA_STORAGE_BUCKET") ?? null
+    this.signedUrlTtlSeconds = parseInt(
+      this.configService.get<string>("MEDIA_STORAGE_SIGNED_URL_TTL", "3600"),
+      10,
+    )
+
+    if (!this.bucket) {
+      this.logger.warn(
+        "MEDIA_STORAGE_BUCKET is not set; meeting media will not be archived",
+      )
+      this.client = null
+      return
+    }
+
+    const accessKeyId = this.configService.get<string>(
+      "MEDIA_STORAGE_ACCESS_KEY_ID",
+    )
+    const secretAccessKey = this.configService.get<string>(
+      "MEDIA_STORAGE_SECRET_ACCESS_KEY",
+    )
+    this.client = new S3Client({
+      region: this.configService.get<string>(
+        "MEDIA_STORAGE_REGION",
+        "us-east-1",
+      ),
+      endpoint: this.configService.get<string>("MEDIA_STORAGE_ENDPOINT"),
+      // MinIO serves buckets from the path rather than a subdomain.
+      forcePathStyle:
+        this.configService.get<string>("MEDIA_STORAGE_FORCE_PATH_STYLE") ===
+        "true",
+      credentials:
+        accessKeyId && secretAccessKey
+          ? { accessKeyId, secretAccessKey }
+          : undefined,
+    })
+  }
+
+  get isEnabled() {
+    return !!this.client
+  }
+
+  async upload(
+    key: string,
+    body: Readable | Buffer,
+    options: { contentType?: string } = {},
+  ) {
+    const { client, bucket } = this.requireBucket()
+    // Multipart upload so large recordings stream through without buffering.
+    await new Upload({
+      client,
+      params: {
+        Bucket: bucket,
+        Key: key,
+        Body: body,
+        ContentType: options.contentType,
+      },
+    }).done()
+  }
+
+  async getSignedDownloadUrl(key: string, ttlSeconds?: number) {
+    const { client, bucket } = this.requireBucket()
+    const expiresIn = ttlSeconds ?? this.signedUrlTtlSeconds
+    const url = await getSignedUrl(
+      client,
+      new GetObjectCommand({ Bucket: bucket, Key: key }),
+      { expiresIn },
+    )
+    return { url, expiresAt: new Date(Date.now() + expiresIn * 1000) }
+  }
+
+  async getObject(key: string): Promise<GetObjectCommandOutput> {
+    const { client, bucket } = this.requireBucket()
+    return client.send(new GetObjectCommand({ Bucket: bucket, Key: key }))
+  }
+
+  async getObjectText(key: string) {
+    const object = await this.getObject(key)
+    return object.Body ? object.Body.transformToString("utf-8") : ""
+  }
+
+  private requireBucket() {
+    if (!this.client || !this.bucket) {
+      throw new Error("Media storage is not configured")
+    }
+    return { client: this.client, bucket: this.bucket }
+  }
+}
@@ -0,0 +1,118 @@
+import { Injectable, Logger } from "@nestjs/common"
+import {
+  MeetingAnalytics,
+  MeetingMedia,
+  MeetingMediaStatus,
+  MeetingMediaType,
+  Prisma,
+} from "@prisma/client"
+import { PrismaService } from "../../prisma/prisma.service"
+import { TranscriptsService } from "./transcripts.service"
+import {
+  indexSpeakerMapping,
+  SpeakerMappingService,
+} from "./speaker-mapping.service"
+import {
+  computeSpeakerAnalytics,
+  readInvitedAttendees,
+  readMetadataParticipants,
+  readParticipantEvents,
+} from "./speaker-analytics"
+
+/**
+ * Speaker analytics of a captured meeting, computed from Recall's participant
+ * events and meeting metadata plus the stored transcript segments, with
+ * speakers shown as the attendees they were mapped to.
+ */
+@Injectable()
+export class MeetingAnalyticsService {
+  private readonly logger = new Logger(MeetingAnalyticsService.name)
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly transcripts: TranscriptsService,
+    private readonly speakerMapping: SpeakerMappingService,
+  ) {}
+
+  /**
+   * Computes the analytics of a meeting and stores them, replacing an earlier
+   * run. Returns null while nothing about the meeting was captured.
+   */
+  async computeMeetingAnalytics(
+    eventId: string,
+  ): Promise<MeetingAnalytics | null> {
+    const event = await this.prisma.calendarEvent.findUnique({
+      where: { id: eventId },
+      select: { attendees: true, recallBot: { select: { media: true } } },
+    })
+    if (!event?.recallBot) {
+      return null
+    }
+
+    const media = event.recallBot.media
+    const events = readParticipantEvents(
+      await this.readMedia(media, MeetingMediaType.PARTICIPANT_EVENTS),
+    )
+    const participants = readMetadataParticipants(
+      await this.readMedia(media, MeetingMediaType.METADATA),
+    )
+    const segments = await this.transcripts.loadSegments(eventId)
+    if (!events.length && !segments.length) {
+      return null
+    }
+
+    // Identifies everyone who joined, not only those who spoke.
+    const speakers = await this.speakerMapping.mapSpeakers(eventId, [
+      ...events,
+      ...participants,
+    ])
+    const analytics = computeSpeakerAnalytics({
+      events,
+      segments,
+      participants,
+      attendees: readInvitedAttendees(event.attendees),
+      mapping: indexSpeakerMapping(speakers),
+    })
+    const data = {
+      source: analytics.source,
+      durationSeconds: analytics.durationSeconds,
+      totalTalkSeconds: analytics.totalTalkSeconds,
+      speakers: analytics.speakers as unknown as Prisma.InputJsonValue,
+      attendance: analytics.attendance as unknown as Prisma.InputJsonValue,
+      computedAt: new Date(),
+    }
+    const stored = await this.prisma.meetingAnalytics.upsert({
+      where: { calendarEventId: eventId },
+      create: { calendarEventId: eventId, ...data },
+      update: data,
+    })
+    this.logger.log(
+      `Computed analytics for meeting ${eventId} from ${analytics.source} (${analytics.speakers.length} participants)`,
+    )
+    return stored
+  }
+
+  // Missing or unreadable media only narrows the analytics down.
+  private async readMedia(media: MeetingMedia[], type: MeetingMediaType) {
+    const item = media.find(
+      (candidate) =>
+        candidate.type === type &&
+        (!!candidate.storagePath ||
+          (candidate.status !== MeetingMediaStatus.FAILED &&
+            !!candidate.downloadUrl)),
+    )
+    if (!item) {
+      return null
+    }
+    try {
+      return await this.transcripts.fetchPayload(item)
+    } catch (error) {
+      this.logger.warn(
+        `Could not read ${type} media ${item.id}: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      )
+      return null
+    }
+  }
+}
@@ -0,0 +1,140 @@
+import {
+  computeSpeakerAnalytics,
+  readInvitedAttendees,
+  readParticipantEvents,
+} from "./speaker-analytics"
+
+const event = (
+  id: number,
+  name: string,
+  action: string,
+  relative: number,
+  email: string | null = null,
+) => ({
+  participant: { id, name, email, is_host: false },
+  action,
+  timestamp: {
+    relative,
+    absolute: new Date(Date.UTC(2025, 10, 21, 15, 0, relative)).toISOString(),
+  },
+})
+
+describe("speaker analytics", () => {
+  const attendees = readInvitedAttendees([
+    { email: "Dana.Lee@example.com", displayName: "Dana Lee", self: true },
+    { email: "sam@example.com" },
+    { email: "pat@example.com", displayName: "Pat" },
+    { email: "room-1@resource.calendar.google.com", resource: true },
+  ])
+
+  it("computes talk time, turns and interruptions from speech events", () => {
+    const events = readParticipantEvents([
+      event(1, "Dana Lee", "join", -30),
+      event(2, "Sam", "join", 5, "sam@example.com"),
+      event(1, "Dana Lee", "speech_on", 0),
+      event(1, "Dana Lee", "speech_off", 40),
+      event(2, "Sam", "speech_on", 30),
+      event(2, "Sam", "speech_off", 50),
+      event(1, "Dana Lee", "speech_on", 50.2),
+      event(1, "Dana Lee", "speech_off", 60),
+      event(3, "Guest", "join", 55),
+      event(3, "Guest", "speech_on", 55),
+      event(3, "Guest", "speech_off", 55.5),
+      event(1, "Dana Lee", "leave", 90),
+      event(2, "Sam", "leave", 80),
+    ])
+
+    const analytics = computeSpeakerAnalytics({
+      events,
+      segments: [],
+      attendees,
+    })
+
+    expect(analytics.source).toBe("participant_events")
+    expect(analytics.durationSeconds).toBe(90)
+    expect(analytics.totalTalkSeconds).toBe(70.3)
+    const [dana, sam, guest] = analytics.speakers
+    expect(dana).toMatchObject({
+      name: "Dana Lee",
+      talkSeconds: 49.8,
+      turns: 2,
+      longestMonologueSeconds: 40,
+      interruptions: 0,
+      interrupted: 1,
+      joinedAtSeconds: -30,
+      leftAtSeconds: 90,
+    })
+    expect(sam).toMatchObject({
+      talkSeconds: 20,
+      turns: 1,
+      interruptions: 1,
+      interrupted: 0,
+      joinedAt: "2025-11-21T15:00:05.000Z",
+    })
+    // A half-second "yes" is talk time, but not a turn.
+    expect(guest).toMatchObject({ talkSeconds: 0.5, turns: 0 })
+    expect(dana.talkShare + sam.talkShare + guest.talkShare).toBeCloseTo(1)
+
+    expect(analytics.attendance).toEqual({
+      invited: 3,
+      attended: [
+        {
+          email: "dana.lee@example.com",
+          name: "Dana Lee",
+          participantName: "Dana Lee",
+        },
+        { email: "sam@example.com", name: null, participantName: "Sam" },
+      ],
+      absent: [{ email: "pat@example.com", name: "Pat" }],
+      uninvited: [{ name: "Guest", email: null }],
+    })
+  })
+
+  it("falls back to transcript timings without speech events", () => {
+    const analytics = computeSpeakerAnalytics({
+      events: readParticipantEvents({
+        events: [event(1, "Dana Lee", "join", 0)],
+      }),
+      segments: [
+        {
+          speakerId: "1",
+          speaker: "Dana Lee",
+          speakerEmail: null,
+          startSeconds: 0,
+          endSeconds: 12,
+        },
+        {
+          speakerId: "1",
+          speaker: "Dana Lee",
+          speakerEmail: null,
+          startSeconds: 12,
+          endSeconds: 20,
+        },
+        {
+          speakerId: null,
+          speaker: "Pat",
+          speakerEmail: null,
+          startSeconds: 21,
+          endSeconds: 30,
+        },
+      ],
+      attendees,
+    })
+
+    expect(analytics.source).toBe("transcript")
+    expect(
+      analytics.speakers.map(({ name, talkSeconds, turns }) => ({
+        name,
+        talkSeconds,
+        turns,
+      })),
+    ).toEqual([
+      { name: "Dana Lee", talkSeconds: 20, turns: 1 },
+      { name: "Pat", talkSeconds: 9, turns: 1 },
+    ])
+    expect(analytics.speakers[0].longestMonologueSeconds).toBe(20)
+    expect(analytics.attendance.absent).toEqual([
+      { email: "sam@example.com", name: null },
+    ])
+  })
+})
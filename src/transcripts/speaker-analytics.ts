@@ -0,0 +1,497 @@
+import type { ParsedTranscriptSegment } from "../ai/transcript-chunks"
+
+/** One entry of Recall's `participant_events` download. */
+export type ParticipantEvent = {
+  participantId: string | null
+  name: string
+  email: string | null
+  // "join", "leave", "speech_on", "speech_off", "webcam_on", ...
+  action: string
+  // Offset into the recording.
+  seconds: number | null
+  at: string | null
+}
+
+export type MeetingParticipant = {
+  participantId: string | null
+  name: string
+  email: string | null
+}
+
+/** Attendee (or user) a meeting speaker was identified as. */
+export type SpeakerMapping = {
+  email: string | null
+  displayName: string | null
+}
+
+export type InvitedAttendee = {
+  email: string
+  name: string | null
+}
+
+export type SpeakerStats = MeetingParticipant & {
+  talkSeconds: number
+  talkShare: number
+  turns: number
+  longestMonologueSeconds: number
+  // Times this speaker started talking over someone else, and was talked over.
+  interruptions: number
+  interrupted: number
+  joinedAtSeconds: number | null
+  leftAtSeconds: number | null
+  joinedAt: string | null
+  leftAt: string | null
+}
+
+export type AttendanceReport = {
+  invited: number
+  attended: { email: string; name: string | null; participantName: string }[]
+  absent: InvitedAttendee[]
+  uninvited: { name: string; email: string | null }[]
+}
+
+export type SpeakerAnalyticsSource = "participant_events" | "transcript"
+
+export type SpeakerAnalytics = {
+  source: SpeakerAnalyticsSource
+  durationSeconds: number | null
+  totalTalkSeconds: number
+  speakers: SpeakerStats[]
+  attendance: AttendanceReport
+}
+
+// The parts of a stored transcript segment the analytics read.
+export type SpokenSegment = Pick<
+  ParsedTranscriptSegment,
+  "speakerId" | "speaker" | "speakerEmail" | "startSeconds" | "endSeconds"
+>
+
+type SpeechInterval = { key: string; start: number; end: number }
+
+// Speech shorter than this ("yes", "mm-hm") counts as talk time but neither
+// starts a turn nor interrupts anyone.
+const BACKCHANNEL_SECONDS = 1
+// Starting to talk this close to someone's start or end is a handover, not an
+// interruption.
+const OVERLAP_GRACE_SECONDS = 0.5
+
+/**
+ * Normalises Recall's participant events (a bare list or `{ events }`) into
+ * `ParticipantEvent`s ordered by their recording offset.
+ */
+export function readParticipantEvents(payload: unknown): ParticipantEvent[] {
+  const source = Array.isArray(payload)
+    ? payload
+    : isRecord(payload) && Array.isArray(payload.events)
+      ? payload.events
+      : isRecord(payload) && Array.isArray(payload.participant_events)
+        ? payload.participant_events
+        : []
+
+  const events: ParticipantEvent[] = []
+  for (const item of source as unknown[]) {
+    if (!isRecord(item)) {
+      continue
+    }
+    const participant = readParticipant(item.participant)
+    const action =
+      readString(item.action) ?? readString(item.event) ?? readString(item.type)
+    if (!participant || !action) {
+      continue
+    }
+    const stamp = item.timestamp
+    const seconds = isRecord(stamp) ? stamp.relative : stamp
+    const at = isRecord(stamp) ? stamp.absolute : item.created_at
+    events.push({
+      ...participant,
+      action: action.toLowerCase(),
+      seconds:
+        typeof seconds === "number" && Number.isFinite(seconds)
+          ? seconds
+          : null,
+      at: readString(at),
+    })
+  }
+  return events.sort(
+    (a, b) => (a.seconds ?? Infinity) - (b.seconds ?? Infinity),
+  )
+}
+
+/** Participants listed in Recall's meeting metadata, when it has any. */
+export function readMetadataParticipants(
+  payload: unknown,
+): MeetingParticipant[] {
+  if (!isRecord(payload) || !Array.isArray(payload.participants)) {
+    return []
+  }
+  return (payload.participants as unknown[])
+    .map(readParticipant)
+    .filter((participant): participant is MeetingParticipant => !!participant)
+}
+
+/** Invited people of a calendar event's `attendees`, without rooms. */
+export function readInvitedAttendees(attendees: unknown): InvitedAttendee[] {
+  if (!Array.isArray(attendees)) {
+    return []
+  }
+  const invited = new Map<string, InvitedAttendee>()
+  for (const attendee of attendees as unknown[]) {
+    if (!isRecord(attendee) || attendee.resource === true) {
+      continue
+    }
+    const email = readString(attendee.email)?.trim().toLowerCase()
+    if (email && !invited.has(email)) {
+      invited.set(email, {
+        email,
+        name: readString(attendee.displayName) ?? null,
+      })
+    }
+  }
+  return [...invited.values()]
+}
+
+/**
+ * Talk time, turns, longest monologue, interruptions, join/leave times and
+ * attendance of a meeting. Speaking time comes from the `speech_on`/
+ * `speech_off` events when Recall sent any, otherwise from the transcript
+ * timings. A turn runs until somebody else speaks for longer than a
+ * backchannel; an interruption is speech starting while another speaker is
+ * mid-sentence.
+ */
+export function computeSpeakerAnalytics(input: {
+  events: ParticipantEvent[]
+  segments: SpokenSegment[]
+  participants?: MeetingParticipant[]
+  attendees: InvitedAttendee[]
+  // Speaker mapping by `participantKey`; overrides reported names and emails.
+  mapping?: Map<string, SpeakerMapping>
+}): SpeakerAnalytics {
+  const roster = new Map<string, SpeakerStats>()
+  const register = (participant: MeetingParticipant) => {
+    const key = participantKey(participant)
+    const existing = roster.get(key)
+    if (existing) {
+      existing.email ??= participant.email
+      return key
+    }
+    roster.set(key, {
+      ...participant,
+      talkSeconds: 0,
+      talkShare: 0,
+      turns: 0,
+      longestMonologueSeconds: 0,
+      interruptions: 0,
+      interrupted: 0,
+      joinedAtSeconds: null,
+      leftAtSeconds: null,
+      joinedAt: null,
+      leftAt: null,
+    })
+    return key
+  }
+
+  for (const event of input.events) {
+    const stats = roster.get(register(event))!
+    if (event.action === "join" && stats.joinedAtSeconds === null) {
+      stats.joinedAtSeconds = event.seconds
+      stats.joinedAt = event.at
+    } else if (event.action === "leave") {
+      stats.leftAtSeconds = event.seconds
+      stats.leftAt = event.at
+    }
+  }
+  const lastSeconds = [
+    ...input.events.map((event) => event.seconds),
+    ...input.segments.map(
+      (segment) => segment.endSeconds ?? segment.startSeconds,
+    ),
+  ].reduce<number | null>(
+    (latest, seconds) =>
+      seconds === null ? latest : Math.max(latest ?? seconds, seconds),
+    null,
+  )
+
+  const source: SpeakerAnalyticsSource = input.events.some(
+    (event) => event.action === "speech_on",
+  )
+    ? "participant_events"
+    : "transcript"
+  const intervals =
+    source === "participant_events"
+      ? speechFromEvents(input.events, lastSeconds)
+      : speechFromSegments(input.segments, register)
+  for (const participant of input.participants ?? []) {
+    register(participant)
+  }
+
+  for (const [key, spans] of groupBy(intervals)) {
+    roster.get(key)!.talkSeconds = sumUnion(spans)
+  }
+  countTurns(intervals, roster)
+  countInterruptions(intervals, roster)
+
+  const totalTalkSeconds = [...roster.values()].reduce(
+    (total, speaker) => total + speaker.talkSeconds,
+    0,
+  )
+  for (const speaker of roster.values()) {
+    speaker.talkShare = totalTalkSeconds
+      ? round(speaker.talkSeconds / totalTalkSeconds, 4)
+      : 0
+    speaker.talkSeconds = round(speaker.talkSeconds, 2)
+    speaker.longestMonologueSeconds = round(speaker.longestMonologueSeconds, 2)
+  }
+  const entries = [...roster.entries()].sort(
+    ([, a], [, b]) => b.talkSeconds - a.talkSeconds,
+  )
+  const attendance = matchAttendance(entries, input.attendees, input.mapping)
+  for (const [key, speaker] of entries) {
+    const mapped = input.mapping?.get(key)
+    if (mapped) {
+      speaker.name = mapped.displayName ?? speaker.name
+      speaker.email = mapped.email
+    }
+  }
+
+  return {
+    source,
+    durationSeconds: lastSeconds === null ? null : round(lastSeconds, 2),
+    totalTalkSeconds: round(totalTalkSeconds, 2),
+    speakers: entries.map(([, speaker]) => speaker),
+    attendance,
+  }
+}
+
+function speechFromEvents(
+  events: ParticipantEvent[],
+  lastSeconds: number | null,
+): SpeechInterval[] {
+  const intervals: SpeechInterval[] = []
+  const open = new Map<string, number>()
+  const close = (key: string, end: number) => {
+    const start = open.get(key)
+    if (start !== undefined) {
+      open.delete(key)
+      if (end > start) {
+        intervals.push({ key, start, end })
+      }
+    }
+  }
+
+  for (const event of events) {
+    if (event.seconds === null) {
+      continue
+    }
+    const key = participantKey(event)
+    if (event.action === "speech_on") {
+      if (!open.has(key)) {
+        open.set(key, event.seconds)
+      }
+    } else if (event.action === "speech_off" || event.action === "leave") {
+      close(key, event.seconds)
+    }
+  }
+  // Still talking when the recording stopped.
+  for (const key of [...open.keys()]) {
+    close(key, lastSeconds ?? 0)
+  }
+  return intervals.sort((a, b) => a.start - b.start)
+}
+
+function speechFromSegments(
+  segments: SpokenSegment[],
+  register: (participant: MeetingParticipant) => string,
+): SpeechInterval[] {
+  const intervals: SpeechInterval[] = []
+  for (const segment of segments) {
+    const key = register({
+      participantId: segment.speakerId,
+      name: segment.speaker,
+      email: segment.speakerEmail,
+    })
+    if (segment.startSeconds === null) {
+      continue
+    }
+    const end = segment.endSeconds ?? segment.startSeconds
+    if (end > segment.startSeconds) {
+      intervals.push({ key, start: segment.startSeconds, end })
+    }
+  }
+  return intervals.sort((a, b) => a.start - b.start)
+}
+
+function countTurns(
+  intervals: SpeechInterval[],
+  roster: Map<string, SpeakerStats>,
+) {
+  let turn: SpeechInterval | null = null
+  const closeTurn = () => {
+    if (turn) {
+      const stats = roster.get(turn.key)!
+      stats.turns++
+      stats.longestMonologueSeconds = Math.max(
+        stats.longestMonologueSeconds,
+        turn.end - turn.start,
+      )
+    }
+  }
+
+  for (const interval of intervals) {
+    if (interval.end - interval.start < BACKCHANNEL_SECONDS) {
+      continue
+    }
+    if (turn?.key === interval.key) {
+      turn.end = Math.max(turn.end, interval.end)
+    } else {
+      closeTurn()
+      turn = { ...interval }
+    }
+  }
+  closeTurn()
+}
+
+function countInterruptions(
+  intervals: SpeechInterval[],
+  roster: Map<string, SpeakerStats>,
+) {
+  let active: SpeechInterval[] = []
+  for (const interval of intervals) {
+    active = active.filter((other) => other.end > interval.start)
+    if (interval.end - interval.start >= BACKCHANNEL_SECONDS) {
+      const talkedOver = active.find(
+        (other) =>
+          other.key !== interval.key &&
+          interval.start > other.start + OVERLAP_GRACE_SECONDS &&
+          interval.start < other.end - OVERLAP_GRACE_SECONDS,
+      )
+      if (talkedOver) {
+        roster.get(interval.key)!.interruptions++
+        roster.get(talkedOver.key)!.interrupted++
+      }
+    }
+    active.push(interval)
+  }
+}
+
+// Matches participants to invitees by their mapped email. Participants
+// without a speaker mapping fall back to their reported email, display name
+// or the name part of the invitee's email.
+function matchAttendance(
+  entries: [string, SpeakerStats][],
+  attendees: InvitedAttendee[],
+  mapping: Map<string, SpeakerMapping> | undefined,
+): AttendanceReport {
+  const unmatched = [...attendees]
+  const attended: AttendanceReport["attended"] = []
+  const uninvited: AttendanceReport["uninvited"] = []
+
+  for (const [key, speaker] of entries) {
+    const mapped = mapping?.get(key)
+    const email = (mapped ? mapped.email : speaker.email)?.toLowerCase() ?? null
+    const name = mapped ? "" : normalizeName(speaker.name)
+    const index = unmatched.findIndex(
+      (attendee) =>
+        (email && attendee.email === email) ||
+        (!!name &&
+          (normalizeName(attendee.name) === name ||
+            normalizeName(attendee.email.split("@")[0]) === name)),
+    )
+    if (index === -1) {
+      uninvited.push({
+        name: mapped?.displayName ?? speaker.name,
+        email: mapped ? mapped.email : speaker.email,
+      })
+      continue
+    }
+    const [attendee] = unmatched.splice(index, 1)
+    attended.push({ ...attendee, participantName: speaker.name })
+  }
+
+  return {
+    invited: attendees.length,
+    attended,
+    absent: unmatched,
+    uninvited,
+  }
+}
+
+function groupBy(intervals: SpeechInterval[]) {
+  const groups = new Map<string, SpeechInterval[]>()
+  for (const interval of intervals) {
+    const group = groups.get(interval.key)
+    if (group) {
+      group.push(interval)
+    } else {
+      groups.set(interval.key, [interval])
+    }
+  }
+  return groups
+}
+
+// Total length of (start-sorted) intervals with overlaps counted once.
+function sumUnion(intervals: SpeechInterval[]) {
+  let total = 0
+  let start: number | null = null
+  let end = 0
+  for (const interval of intervals) {
+    if (start === null || interval.start > end) {
+      total += start === null ? 0 : end - start
+      start = interval.start
+      end = interval.end
+    } else {
+      end = Math.max(end, interval.end)
+    }
+  }
+  return total + (start === null ? 0 : end - start)
+}
+
+/**
+ * Identity of a participant within one meeting: the platform participant id
+ * when reported, else their normalised name.
+ */
+export function participantKey(participant: MeetingParticipant) {
+  return participant.participantId
+    ? `id:${participant.participantId}`
+    : `name:${normalizeName(participant.name)}`
+}
+
+/** Lowercased name without accents and punctuation, for comparisons. */
+export function normalizeName(name: string | null) {
+  return (name ?? "")
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim()
+}
+
+function readParticipant(value: unknown): MeetingParticipant | null {
+  if (!isRecord(value)) {
+    return null
+  }
+  const email = readString(value.email)
+  const name = readString(value.name) ?? email
+  if (!name) {
+    return null
+  }
+  const id = value.id
+  return {
+    participantId:
+      typeof id === "string" || typeof id === "number" ? String(id) : null,
+    name,
+    email,
+  }
+}
+
+function round(value: number, digits: number) {
+  const factor = 10 ** digits
+  return Math.round(value * factor) / factor
+}
+
+function readString(value: unknown) {
+  return typeof value === "string" && value.trim() ? value : null
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value)
+}
@@ -0,0 +1,226 @@
+import { Injectable } from "@nestjs/common"
+import { MeetingSpeaker, MeetingSpeakerSource } from "@prisma/client"
+import { PrismaService } from "../../prisma/prisma.service"
+import { AppError } from "../errors/app-error"
+import { ErrorCodes } from "../errors/error-codes"
+import { TranscriptsService } from "./transcripts.service"
+import {
+  type MeetingParticipant,
+  type SpeakerMapping,
+  readInvitedAttendees,
+} from "./speaker-analytics"
+import { matchSpeakers, speakerAlias } from "./speaker-mapping"
+
+/**
+ * Stores who each transcript speaker of a meeting is (`MeetingSpeaker`), and
+ * remembers the owner's corrections as aliases for their later meetings.
+ */
+@Injectable()
+export class SpeakerMappingService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly transcripts: TranscriptsService,
+  ) {}
+
+  /**
+   * Matches the meeting's transcript speakers and the given participants to
+   * its attendees. Mappings the owner set by hand are kept.
+   */
+  async mapSpeakers(
+    eventId: string,
+    participants: MeetingParticipant[] = [],
+  ): Promise<MeetingSpeaker[]> {
+    const event = await this.prisma.calendarEvent.findUnique({
+      where: { id: eventId },
+      select: { userId: true, attendees: true },
+    })
+    if (!event) {
+      throw new AppError(ErrorCodes.NOT_FOUND, {
+        params: { resource: "Meeting" },
+      })
+    }
+
+    await this.transcripts.ensureIndexed(eventId)
+    const [spoken, existing, aliases] = await Promise.all([
+      this.prisma.meetingTranscriptSegment.findMany({
+        where: { calendarEventId: eventId },
+        distinct: ["speakerId", "speaker"],
+        select: { speakerId: true, speaker: true, speakerEmail: true },
+      }),
+      this.prisma.meetingSpeaker.findMany({
+        where: { calendarEventId: eventId },
+      }),
+      this.prisma.speakerAlias.findMany({ where: { userId: event.userId } }),
+    ])
+
+    const matches = matchSpeakers({
+      speakers: [
+        ...spoken.map((segment) => ({
+          participantId: segment.speakerId,
+          name: segment.speaker,
+          email: segment.speakerEmail,
+        })),
+        ...participants,
+        ...existing.map((speaker) => ({
+          participantId: speaker.participantId,
+          name: speaker.name,
+          email: null,
+        })),
+      ],
+      attendees: readInvitedAttendees(event.attendees),
+      aliases: new Map(aliases.map((alias) => [alias.alias, alias.email])),
+      overrides: new Map(
+        existing
+          .filter((speaker) => speaker.source === MeetingSpeakerSource.MANUAL)
+          .map((speaker) => [
+            speaker.speakerKey,
+            { email: speaker.email, displayName: speaker.displayName },
+          ]),
+      ),
+    })
+    const users = await this.findUsers(matches.map((match) => match.email))
+
+    return this.prisma.$transaction(
+      matches.map((match) => {
+        const user = match.email ? users.get(match.email) : undefined
+        const data = {
+          participantId: match.participantId,
+          name: match.name,
+          email: match.email,
+          displayName: match.displayName ?? user?.name ?? null,
+          userId: user?.id ?? null,
+          source: match.source,
+          confidence: match.confidence,
+        }
+        return this.prisma.meetingSpeaker.upsert({
+          where: {
+            calendarEventId_speakerKey: {
+              calendarEventId: eventId,
+              speakerKey: match.speakerKey,
+            },
+          },
+          create: {
+            calendarEventId: eventId,
+            speakerKey: match.speakerKey,
+            ...data,
+          },
+          update: data,
+        })
+      }),
+    )
+  }
+
+  /** The stored mapping, created on first use. */
+  async getSpeakers(eventId: string): Promise<MeetingSpeaker[]> {
+    const speakers = await this.prisma.meetingSpeaker.findMany({
+      where: { calendarEventId: eventId },
+      orderBy: { name: "asc" },
+    })
+    if (speakers.length) {
+      return speakers
+    }
+    const mapped = await this.mapSpeakers(eventId)
+    return mapped.sort((a, b) => a.name.localeCompare(b.name))
+  }
+
+  /** `getSpeakers` keyed by `participantKey`, as the transcript consumers use it. */
+  async getMapping(eventId: string): Promise<Map<string, SpeakerMapping>> {
+    return indexSpeakerMapping(await this.getSpeakers(eventId))
+  }
+
+  /**
+   * Sets who a speaker is (null: nobody on the invite) on the owner's behalf
+   * and remembers it for their later meetings. Returns the mapping before and
+   * after the change.
+   */
+  async overrideSpeaker(
+    eventId: string,
+    speakerKey: string,
+    email: string | null,
+  ) {
+    const previous = await this.prisma.meetingSpeaker.findUnique({
+      where: {
+        calendarEventId_speakerKey: { calendarEventId: eventId, speakerKey },
+      },
+    })
+    const event = await this.prisma.calendarEvent.findUnique({
+      where: { id: eventId },
+      select: { userId: true, attendees: true },
+    })
+    if (!previous || !event) {
+      throw new AppError(ErrorCodes.NOT_FOUND, {
+        params: { resource: "MeetingSpeaker" },
+      })
+    }
+
+    const normalized = email?.trim().toLowerCase() || null
+    const attendee = readInvitedAttendees(event.attendees).find(
+      (candidate) => candidate.email === normalized,
+    )
+    const user = normalized
+      ? (await this.findUsers([normalized])).get(normalized)
+      : undefined
+    const ownerId = event.userId
+    const alias = speakerAlias(previous.name)
+
+    const updated = await this.prisma.$transaction(async (tx) => {
+      if (alias && normalized) {
+        await tx.speakerAlias.upsert({
+          where: { userId_alias: { userId: ownerId, alias } },
+          create: { userId: ownerId, alias, email: normalized },
+          update: { email: normalized },
+        })
+      } else if (alias) {
+        await tx.speakerAlias.deleteMany({ where: { userId: ownerId, alias } })
+      }
+      return tx.meetingSpeaker.update({
+        where: { id: previous.id },
+        data: {
+          email: normalized,
+          displayName: attendee?.name ?? user?.name ?? null,
+          userId: user?.id ?? null,
+          source: MeetingSpeakerSource.MANUAL,
+          confidence: 1,
+        },
+      })
+    })
+    return { previous, updated }
+  }
+
+  private async findUsers(emails: (string | null)[]) {
+    const wanted = [
+      ...new Set(emails.filter((email): email is string => !!email)),
+    ]
+    if (!wanted.length) {
+      return new Map<string, { id: string; name: string }>()
+    }
+    const users = await this.prisma.user.findMany({
+      where: { email: { in: wanted, mode: "insensitive" } },
+      select: { id: true, email: true, name: true },
+    })
+    return new Map(users.map((user) => [user.email.toLowerCase(), user]))
+  }
+}
+
+/**
+ * Identified speakers by `participantKey`. Unmatched speakers are left out,
+ * so they keep their reported name, unless the owner marked them as nobody
+ * on the invite.
+ */
+export function indexSpeakerMapping(
+  speakers: MeetingSpeaker[],
+): Map<string, SpeakerMapping> {
+  return new Map(
+    speakers
+      .filter(
+        (speaker) =>
+          speaker.email ||
+          speaker.displayName ||
+          speaker.source === MeetingSpeakerSource.MANUAL,
+      )
+      .map((speaker) => [
+        speaker.speakerKey,
+        { email: speaker.email, displayName: speaker.displayName },
+      ]),
+  )
+}
@@ -0,0 +1,126 @@
+import { MeetingSpeakerSource } from "@prisma/client"
+import {
+  applySpeakerMapping,
+  matchSpeakers,
+  nameSimilarity,
+  speakerAlias,
+} from "./speaker-mapping"
+
+const attendees = [
+  { email: "dana.lee@example.com", name: "Dana Lee" },
+  { email: "sam@client.io", name: null },
+  { email: "pat.kim@client.io", name: "Patricia Kim" },
+  { email: "pat.jones@client.io", name: "Pat Jones" },
+]
+
+const speaker = (
+  participantId: string | null,
+  name: string,
+  email: string | null = null,
+) => ({ participantId, name, email })
+
+describe("speaker mapping", () => {
+  it("scores differently written names of the same person", () => {
+    expect(nameSimilarity("Dana Lee", attendees[0])).toBe(1)
+    expect(nameSimilarity("Dana's iPhone", attendees[0])).toBe(0.85)
+    expect(nameSimilarity("dlee", attendees[0])).toBe(0.85)
+    expect(nameSimilarity("D. Lee (Guest)", attendees[0])).toBe(0.85)
+    expect(nameSimilarity("DanaLee", attendees[0])).toBe(0.95)
+    expect(nameSimilarity("Sam", attendees[1])).toBe(1)
+    expect(nameSimilarity("Chris", attendees[0])).toBeLessThan(0.8)
+  })
+
+  it("matches by trust order and leaves ambiguous names unmatched", () => {
+    const matches = matchSpeakers({
+      speakers: [
+        speaker("1", "Dana's iPhone"),
+        speaker("2", "Samuel", "sam@client.io"),
+        speaker("3", "Pat"),
+        speaker("4", "Boss"),
+        speaker("5", "Chris"),
+        speaker("1", "Dana's iPhone"),
+      ],
+      attendees,
+      aliases: new Map([[speakerAlias("Boss"), "pat.kim@client.io"]]),
+      overrides: new Map([["id:5", { email: null, displayName: null }]]),
+    })
+
+    expect(
+      matches.map(({ speakerKey, email, displayName, source }) => ({
+        speakerKey,
+        email,
+        displayName,
+        source,
+      })),
+    ).toEqual([
+      {
+        speakerKey: "id:1",
+        email: "dana.lee@example.com",
+        displayName: "Dana Lee",
+        source: MeetingSpeakerSource.FUZZY,
+      },
+      {
+        speakerKey: "id:2",
+        email: "sam@client.io",
+        displayName: null,
+        source: MeetingSpeakerSource.PLATFORM,
+      },
+      // Only Pat Jones is left once the alias claimed Patricia Kim.
+      {
+        speakerKey: "id:3",
+        email: "pat.jones@client.io",
+        displayName: "Pat Jones",
+        source: MeetingSpeakerSource.FUZZY,
+      },
+      {
+        speakerKey: "id:4",
+        email: "pat.kim@client.io",
+        displayName: "Patricia Kim",
+        source: MeetingSpeakerSource.ALIAS,
+      },
+      {
+        speakerKey: "id:5",
+        email: null,
+        displayName: null,
+        source: MeetingSpeakerSource.MANUAL,
+      },
+    ])
+  })
+
+  it("does not guess between equally good attendees", () => {
+    const [match] = matchSpeakers({
+      speakers: [speaker(null, "Pat")],
+      attendees: [
+        { email: "pat@one.io", name: "Pat Kim" },
+        { email: "pat@two.io", name: "Pat Jones" },
+      ],
+    })
+
+    expect(match).toMatchObject({
+      speakerKey: "name:pat",
+      email: null,
+      source: null,
+    })
+  })
+
+  it("shows segments under the mapped identity", () => {
+    const mapping = new Map([
+      ["id:1", { email: "dana.lee@example.com", displayName: "Dana Lee" }],
+    ])
+    const segment = {
+      speakerId: "1",
+      speaker: "Dana's iPhone",
+      speakerEmail: null,
+      text: "Hi",
+    }
+
+    expect(applySpeakerMapping(segment, mapping)).toEqual({
+      ...segment,
+      speaker: "Dana Lee",
+      speakerEmail: "dana.lee@example.com",
+    })
+    expect(
+      applySpeakerMapping({ ...segment, speakerId: "2" }, mapping).speaker,
+    ).toBe("Dana's iPhone")
+  })
+})
@@ -0,0 +1,275 @@
+import { MeetingSpeakerSource } from "@prisma/client"
+import {
+  type InvitedAttendee,
+  type MeetingParticipant,
+  type SpeakerMapping,
+  normalizeName,
+  participantKey,
+} from "./speaker-analytics"
+
+export type SpeakerMatch = SpeakerMapping & {
+  speakerKey: string
+  participantId: string | null
+  // Name the platform reported.
+  name: string
+  source: MeetingSpeakerSource | null
+  confidence: number | null
+}
+
+// Below this score a fuzzy match is left for the owner to make.
+const FUZZY_THRESHOLD = 0.8
+
+// "Dana (Guest)", "Dana's iPhone" and the like.
+const DEVICE_SUFFIX =
+  /['’]s\s+(iphone|ipad|android|phone|galaxy|pixel|macbook|laptop|pc|computer)\b.*$/i
+
+/**
+ * Identifies meeting speakers as calendar attendees, in order of trust:
+ * the owner's corrections for this meeting, the email the platform reported,
+ * the owner's corrections remembered from earlier meetings (`aliases`, keyed
+ * by `speakerAlias`), then name similarity against the attendee's display
+ * name and email. Each attendee is given to one speaker at most, and a name
+ * that fits several attendees equally well stays unmatched.
+ */
+export function matchSpeakers(input: {
+  speakers: MeetingParticipant[]
+  attendees: InvitedAttendee[]
+  aliases?: Map<string, string>
+  overrides?: Map<string, SpeakerMapping>
+}): SpeakerMatch[] {
+  const speakers = new Map<string, MeetingParticipant>()
+  for (const speaker of input.speakers) {
+    const key = participantKey(speaker)
+    const existing = speakers.get(key)
+    if (existing) {
+      existing.email ??= speaker.email
+    } else {
+      speakers.set(key, { ...speaker })
+    }
+  }
+  const attendeesByEmail = new Map(
+    input.attendees.map((attendee) => [attendee.email, attendee]),
+  )
+  const free = new Map(attendeesByEmail)
+  const matches = new Map<string, SpeakerMatch>()
+  const assign = (
+    key: string,
+    email: string,
+    source: MeetingSpeakerSource,
+    confidence: number,
+  ) => {
+    const speaker = speakers.get(key)!
+    free.delete(email)
+    matches.set(key, {
+      speakerKey: key,
+      participantId: speaker.participantId,
+      name: speaker.name,
+      email,
+      displayName: attendeesByEmail.get(email)?.name ?? null,
+      source,
+      confidence,
+    })
+  }
+
+  for (const [key, speaker] of speakers) {
+    const override = input.overrides?.get(key)
+    if (!override) {
+      continue
+    }
+    if (override.email) {
+      free.delete(override.email)
+    }
+    matches.set(key, {
+      speakerKey: key,
+      participantId: speaker.participantId,
+      name: speaker.name,
+      ...override,
+      source: MeetingSpeakerSource.MANUAL,
+      confidence: 1,
+    })
+  }
+  for (const [key, speaker] of speakers) {
+    if (!matches.has(key) && speaker.email) {
+      assign(key, speaker.email.toLowerCase(), MeetingSpeakerSource.PLATFORM, 1)
+    }
+  }
+  for (const [key, speaker] of speakers) {
+    const alias = input.aliases?.get(speakerAlias(speaker.name))
+    if (!matches.has(key) && alias) {
+      assign(key, alias, MeetingSpeakerSource.ALIAS, 1)
+    }
+  }
+
+  const pairs: { key: string; email: string; score: number }[] = []
+  for (const [key, speaker] of speakers) {
+    if (matches.has(key)) {
+      continue
+    }
+    for (const attendee of free.values()) {
+      const score = nameSimilarity(speaker.name, attendee)
+      if (score >= FUZZY_THRESHOLD) {
+        pairs.push({ key, email: attendee.email, score })
+      }
+    }
+  }
+  pairs.sort((a, b) => b.score - a.score)
+  for (const pair of pairs) {
+    if (matches.has(pair.key) || !free.has(pair.email)) {
+      continue
+    }
+    const ambiguous = pairs.some(
+      (other) =>
+        other !== pair &&
+        other.score === pair.score &&
+        ((other.key === pair.key && free.has(other.email)) ||
+          (other.email === pair.email && !matches.has(other.key))),
+    )
+    if (!ambiguous) {
+      assign(
+        pair.key,
+        pair.email,
+        pair.score === 1
+          ? MeetingSpeakerSource.NAME
+          : MeetingSpeakerSource.FUZZY,
+        Math.round(pair.score * 100) / 100,
+      )
+    }
+  }
+
+  return [...speakers].map(
+    ([key, speaker]) =>
+      matches.get(key) ?? {
+        speakerKey: key,
+        participantId: speaker.participantId,
+        name: speaker.name,
+        email: null,
+        displayName: null,
+        source: null,
+        confidence: null,
+      },
+  )
+}
+
+/** Key of a reported speaker name in the owner's remembered corrections. */
+export function speakerAlias(name: string) {
+  return normalizeName(cleanSpeakerName(name))
+}
+
+/**
+ * How well a reported speaker name fits an attendee, from 0 to 1: 1 for the
+ * same name, high for the same name written differently ("dana.lee", "D Lee",
+ * "Dana"), else the bigram similarity of the two names.
+ */
+export function nameSimilarity(name: string, attendee: InvitedAttendee) {
+  const spoken = tokens(cleanSpeakerName(name))
+  if (!spoken.length) {
+    return 0
+  }
+  const candidates = [
+    tokens(attendee.name ?? ""),
+    tokens(attendee.email.split("@")[0].replace(/\d+/g, " ")),
+  ].filter((candidate) => candidate.length)
+
+  let best = 0
+  for (const candidate of candidates) {
+    best = Math.max(best, compareTokens(spoken, candidate))
+  }
+  return best
+}
+
+function compareTokens(spoken: string[], candidate: string[]) {
+  if (spoken.join(" ") === candidate.join(" ")) {
+    return 1
+  }
+  const spokenCompact = spoken.join("")
+  const candidateCompact = candidate.join("")
+  if (spokenCompact === candidateCompact) {
+    return 0.95
+  }
+  // "dlee" for Dana Lee.
+  if (
+    candidate.length > 1 &&
+    spokenCompact === candidate[0][0] + candidate[candidate.length - 1]
+  ) {
+    return 0.85
+  }
+  if (isAbbreviation(spoken, candidate) || isAbbreviation(candidate, spoken)) {
+    return 0.85
+  }
+  return dice(spokenCompact, candidateCompact)
+}
+
+// Every token of `short` is a token or an initial of `long`, with at least
+// one whole name in common: "Dana" or "D Lee" for Dana Lee.
+function isAbbreviation(short: string[], long: string[]) {
+  if (short.length > long.length) {
+    return false
+  }
+  const remaining = [...long]
+  let whole = false
+  for (const token of short) {
+    const index = remaining.findIndex(
+      (other) =>
+        other === token || (token.length === 1 && other.startsWith(token)),
+    )
+    if (index === -1) {
+      return false
+    }
+    whole ||= remaining[index] === token && token.length > 1
+    remaining.splice(index, 1)
+  }
+  return whole
+}
+
+function dice(a: string, b: string) {
+  if (a.length < 2 || b.length < 2) {
+    return 0
+  }
+  const bigrams = new Map<string, number>()
+  for (let i = 0; i < a.length - 1; i++) {
+    const bigram = a.slice(i, i + 2)
+    bigrams.set(bigram, (bigrams.get(bigram) ?? 0) + 1)
+  }
+  let shared = 0
+  for (let i = 0; i < b.length - 1; i++) {
+    const bigram = b.slice(i, i + 2)
+    const count = bigrams.get(bigram) ?? 0
+    if (count) {
+      bigrams.set(bigram, count - 1)
+      shared++
+    }
+  }
+  return (2 * shared) / (a.length + b.length - 2)
+}
+
+function cleanSpeakerName(name: string) {
+  return name.replace(/\([^)]*\)|\[[^\]]*\]/g, " ").replace(DEVICE_SUFFIX, "")
+}
+
+function tokens(text: string) {
+  return normalizeName(text).split(" ").filter(Boolean)
+}
+
+/** A transcript segment with its speaker shown as who they were mapped to. */
+export function applySpeakerMapping<
+  T extends {
+    speakerId: string | null
+    speaker: string
+    speakerEmail: string | null
+  },
+>(segment: T, mapping: Map<string, SpeakerMapping>): T {
+  const mapped = mapping.get(
+    participantKey({
+      participantId: segment.speakerId,
+      name: segment.speaker,
+      email: segment.speakerEmail,
+    }),
+  )
+  return mapped
+    ? {
+        ...segment,
+        speaker: mapped.displayName ?? segment.speaker,
+        speakerEmail: mapped.email,
+      }
+    : segment
+}
@@ -0,0 +1,17 @@
+import { Module } from "@nestjs/common"
+import { HttpModule } from "@nestjs/axios"
+import { StorageModule } from "../storage/storage.module"
+import { TranscriptsService } from "./transcripts.service"
+import { MeetingAnalyticsService } from "./meeting-analytics.service"
+import { SpeakerMappingService } from "./speaker-mapping.service"
+
+@Module({
+  imports: [HttpModule, StorageModule],
+  providers: [
+    TranscriptsService,
+    MeetingAnalyticsService,
+    SpeakerMappingService,
+  ],
+  exports: [TranscriptsService, MeetingAnalyticsService, SpeakerMappingService],
+})
+export class TranscriptsModule {}
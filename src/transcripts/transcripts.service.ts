@@ -0,0 +1,112 @@
+import { Injectable, Logger } from "@nestjs/common"
+import { ConfigService } from "@nestjs/config"
+import { HttpService } from "@nestjs/axios"
+import {
+  MeetingMedia,
+  MeetingMediaStatus,
+  MeetingMediaType,
+  MeetingTranscriptSegment,
+} from "@prisma/client"
+import { PrismaService } from "../../prisma/prisma.service"
+import { MediaStorageService } from "../storage/media-storage.service"
+import { readTranscriptSegments } from "../ai/transcript-chunks"
+
+@Injectable()
+export class TranscriptsService {
+  private readonly logger = new Logger(TranscriptsService.name)
+  private readonly downloadTimeout: number
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+    private readonly http: HttpService,
+    private readonly mediaStorage: MediaStorageService,
+  ) {
+    this.downloadTimeout = Number(
+      this.configService.get<string>("AI_TRANSCRIPT_DOWNLOAD_TIMEOUT_MS") ??
+        15000,
+    )
+  }
+
+  /**
+   * Reads a JSON media payload (transcript, participant events, metadata)
+   * from our bucket once archived, otherwise from Recall's download link.
+   */
+  async fetchPayload(media: MeetingMedia): Promise<unknown> {
+    if (media.storagePath && this.mediaStorage.isEnabled) {
+      const text = await this.mediaStorage.getObjectText(media.storagePath)
+      return JSON.parse(text) as unknown
+    }
+    const response = await this.http.axiosRef.get<unknown>(media.downloadUrl!, {
+      timeout: this.downloadTimeout,
+    })
+    return response.data
+  }
+
+  /**
+   * Stored segments of a meeting in order. Meetings captured before
+   * transcripts were stored are indexed on first use.
+   */
+  async loadSegments(eventId: string): Promise<MeetingTranscriptSegment[]> {
+    await this.ensureIndexed(eventId)
+    return this.prisma.meetingTranscriptSegment.findMany({
+      where: { calendarEventId: eventId },
+      orderBy: { index: "asc" },
+    })
+  }
+
+  /** Indexes the transcript unless segments are stored; returns their count. */
+  async ensureIndexed(eventId: string) {
+    const stored = await this.prisma.meetingTranscriptSegment.count({
+      where: { calendarEventId: eventId },
+    })
+    return stored || this.indexMeetingTranscript(eventId)
+  }
+
+  /**
+   * Copies the meeting's transcript into `MeetingTranscriptSegment` rows,
+   * replacing any earlier copy, and returns the number of segments stored.
+   */
+  async indexMeetingTranscript(eventId: string) {
+    const media = await this.prisma.meetingMedia.findFirst({
+      where: {
+        type: MeetingMediaType.TRANSCRIPT,
+        recallBot: { calendarEventId: eventId },
+        OR: [
+          { storagePath: { not: null } },
+          {
+            status: { not: MeetingMediaStatus.FAILED },
+            downloadUrl: { not: null },
+          },
+        ],
+      },
+    })
+    if (!media) {
+      return 0
+    }
+
+    const segments = readTranscriptSegments(await this.fetchPayload(media))
+    await this.prisma.$transaction([
+      this.prisma.meetingTranscriptSegment.deleteMany({
+        where: { calendarEventId: eventId },
+      }),
+      this.prisma.meetingTranscriptSegment.createMany({
+        data: segments.map((segment, index) => ({
+          calendarEventId: eventId,
+          index,
+          speakerId: segment.speakerId,
+          speaker: segment.speaker,
+          speakerEmail: segment.speakerEmail,
+          text: segment.text,
+          startSeconds: segment.startSeconds,
+          endSeconds: segment.endSeconds,
+          words: segment.words,
+        })),
+      }),
+    ])
+    this.logger.log(
+      `Indexed ${segments.length} transcript segments for meeting ${eventId}`,
+    )
+    return segments.length
+  }
+}
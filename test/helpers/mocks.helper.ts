@@ -0,0 +1,67 @@
+// Shared fakes for unit specs that talk to Prisma or the Recall API.
+
+const model = (...methods: string[]) =>
+  Object.fromEntries(methods.map((method) => [method, jest.fn()])) as Record<
+    string,
+    jest.Mock
+  >
+
+export function createMockPrisma() {
+  return {
+    recallBot: model(
+      "findUnique",
+      "findFirst",
+      "findMany",
+      "create",
+      "update",
+      "updateMany",
+      "delete",
+    ),
+    meetingPreference: model("findUnique"),
+    meetingMedia: model("findFirst", "findMany", "create", "update"),
+    calendarEvent: model("findUnique", "update", "updateMany"),
+  }
+}
+
+const statusChange = (code: string) => ({
+  code,
+  sub_code: null,
+  updated_at: "2025-11-22T10:00:00.000Z",
+})
+
+const shortcut = (botId: string, name: string) => ({
+  id: `${botId}-${name}`,
+  status: { code: "done" },
+  data: { download_url: `https://recall.example.com/${botId}/${name}` },
+})
+
+// Responses shaped like `axiosRef` results from the Recall bot endpoints.
+export const mockRecallApi = {
+  createBot: (botId: string) => ({ data: { id: botId } }),
+
+  getBot: (code: string, botId: string) => ({
+    data: {
+      id: botId,
+      status: statusChange(code),
+      status_changes: [statusChange(code)],
+      recordings: [],
+    },
+  }),
+
+  getBotWithMedia: (botId: string) => ({
+    data: {
+      id: botId,
+      status: statusChange("done"),
+      status_changes: [statusChange("in_call_recording"), statusChange("done")],
+      recordings: [
+        {
+          id: `${botId}-recording`,
+          media_shortcuts: {
+            transcript: shortcut(botId, "transcript.json"),
+            video_mixed: shortcut(botId, "video.mp4"),
+          },
+        },
+      ],
+    },
+  }),
+}